@@ -6,6 +6,11 @@ import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider } from "@/lib/auth";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
+import Lab from "./pages/Lab";
+import Experiment from "./pages/Experiment";
+import ExperimentEditor from "./pages/ExperimentEditor";
+import Replay from "./pages/Replay";
+import Sandbox from "./pages/Sandbox";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -21,6 +26,12 @@ const App = () => (
             <Route path="/" element={<Navigate to="/dashboard" replace />} />
             <Route path="/auth" element={<Auth />} />
             <Route path="/dashboard" element={<Dashboard />} />
+            <Route path="/lab" element={<Lab />} />
+            <Route path="/lab/experiment/:slug" element={<Experiment />} />
+            <Route path="/lab/author" element={<ExperimentEditor />} />
+            <Route path="/lab/author/:draftId" element={<ExperimentEditor />} />
+            <Route path="/lab/replay" element={<Replay />} />
+            <Route path="/lab/sandbox" element={<Sandbox />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -5,12 +5,15 @@ import { useFrame, useThree } from '@react-three/fiber'
 import * as THREE from 'three'
 import { Html } from '@react-three/drei'
 import { Chemical } from '@/types'
+import GhsPictogram from '../GhsPictogram'
 
 interface ChemicalBottleProps {
   chemical: Chemical
   position: [number, number, number]
   scale?: [number, number, number]
   onPour?: (chemical: Chemical) => void
+  // Clicking opens the Safety Data Sheet instead of pouring
+  onInspect?: (chemical: Chemical) => void
   isPouringMode?: boolean
 }
 
@@ -19,6 +22,7 @@ export default function ChemicalBottle({
   position,
   scale = [1, 1, 1],
   onPour,
+  onInspect,
   isPouringMode = false
 }: ChemicalBottleProps) {
   const meshRef = useRef<THREE.Group>(null)
@@ -82,6 +86,10 @@ export default function ChemicalBottle({
 
   const handleClick = (event: any) => {
     event.stopPropagation()
+    if (onInspect) {
+      onInspect(chemical)
+      return
+    }
     console.log(`Clicked ${chemical.name} - adding to beaker`)
     if (onPour) {
       onPour(chemical)
@@ -136,6 +144,24 @@ export default function ChemicalBottle({
       onClick={handleClick}
     >
       <primitive object={bottleGeometry} />
+
+      {/* GHS diamonds printed on the label */}
+      {chemical.hazards?.pictograms.map((pictogram, index, all) => (
+        <group
+          key={pictogram}
+          position={[(index - (all.length - 1) / 2) * 0.07, 0.2, 0.183]}
+          rotation={[0, 0, Math.PI / 4]}
+        >
+          <mesh>
+            <planeGeometry args={[0.05, 0.05]} />
+            <meshBasicMaterial color="#dc2626" />
+          </mesh>
+          <mesh position={[0, 0, 0.001]}>
+            <planeGeometry args={[0.036, 0.036]} />
+            <meshBasicMaterial color="#ffffff" />
+          </mesh>
+        </group>
+      ))}
       
       {/* Chemical label */}
       {showLabel && (
@@ -143,6 +169,18 @@ export default function ChemicalBottle({
           <div className="bg-black/90 text-white px-3 py-2 rounded-lg text-sm pointer-events-none shadow-lg">
             <div className="font-semibold">{chemical.name}</div>
             <div className="text-xs text-gray-300">{chemical.formula}</div>
+            {chemical.hazards?.pictograms.length ? (
+              <div className="flex gap-0.5 mt-1">
+                {chemical.hazards.pictograms.map(pictogram => (
+                  <GhsPictogram key={pictogram} pictogram={pictogram} size={22} />
+                ))}
+              </div>
+            ) : null}
+            {chemical.hazards?.signalWord && (
+              <div className={`text-xs font-bold uppercase ${chemical.hazards.signalWord === 'Danger' ? 'text-red-400' : 'text-yellow-400'}`}>
+                {chemical.hazards.signalWord}
+              </div>
+            )}
             {chemical.concentration && (
               <div className="text-xs text-blue-300">
                 {(chemical.concentration * 100).toFixed(1)}M
@@ -156,13 +194,13 @@ export default function ChemicalBottle({
       {isHovered && (
         <Html position={[0, 1.6, 0]} center>
           <div className="bg-green-600/90 text-white px-3 py-1 rounded text-xs pointer-events-none animate-bounce">
-            ✨ Click to add to beaker ✨
+            {onInspect ? 'Click for safety data' : '✨ Click to add to beaker ✨'}
           </div>
         </Html>
       )}
       
       {/* Selection feedback */}
-      {isSelected && (
+      {isSelected && !onInspect && (
         <Html position={[0, 1.8, 0]} center>
           <div className="bg-blue-600/90 text-white px-3 py-1 rounded text-xs pointer-events-none animate-pulse">
             ✅ Added to beaker!
@@ -1,18 +1,48 @@
 'use client'
 
-import { useRef, useState } from 'react'
-import { useFrame } from '@react-three/fiber'
-import { Group } from 'three'
+import { useEffect, useRef, useState } from 'react'
+import { ThreeEvent, useFrame, useThree } from '@react-three/fiber'
+import { Group, Plane, Vector3 } from 'three'
 import { Html } from '@react-three/drei'
+import { CARRY_HEIGHT, POUR_TILT, pourPose } from '@/lib/equipmentLayout'
+
+// How close a vessel has to be held over another to pour into it
+const POUR_REACH = 1.2
+// Pointer travel that turns a click into a drag
+const DRAG_THRESHOLD = 0.1
+
+export interface PourTarget {
+  id: string
+  name: string
+  position: [number, number, number]
+}
 
 interface InteractiveEquipmentProps {
   children: React.ReactNode
   equipmentId: string
   equipmentType: string
+  // Shown to the student while the equipment is carried
+  name: string
   onDragStart?: () => void
   onDragEnd?: () => void
-  onPour?: (target: string) => void
+  // Called when this vessel is dropped over one of the pour targets. Returns
+  // whether the pour goes ahead; if not, the vessel goes straight back.
+  onPour?: (target: string) => boolean
+  // The vessel this one is held tipped over while a pour into it is chosen
+  // and runs; it goes back to its place afterwards
+  pouringInto?: PourTarget | null
+  // For equipment set up with a vessel rather than poured into it, such as a
+  // burner: what dropping it over one of the targets does, e.g. 'heat'
+  placeAction?: string
+  onPlace?: (target: string) => void
+  // Clicked without being dragged
+  onSelect?: () => void
   canReceiveLiquid?: boolean
+  // Vessels this one can be carried over and poured into, or set up with;
+  // equipment without any stays put
+  pourTargets?: PourTarget[]
+  // Where chemicals from the shelf currently go
+  targeted?: boolean
   position: [number, number, number]
 }
 
@@ -20,25 +50,47 @@ export default function InteractiveEquipment({
   children,
   equipmentId,
   equipmentType,
+  name,
   onDragStart,
   onDragEnd,
   onPour,
+  pouringInto = null,
+  placeAction,
+  onPlace,
+  onSelect,
   canReceiveLiquid = true,
+  pourTargets = [],
+  targeted = false,
   position
 }: InteractiveEquipmentProps) {
   const groupRef = useRef<Group>(null)
+  const controls = useThree(state => state.controls) as unknown as { enabled: boolean } | null
   const [isDragging, setIsDragging] = useState(false)
   const [isHovered, setIsHovered] = useState(false)
   const [isSelected, setIsSelected] = useState(false)
-  const [showTooltip, setShowTooltip] = useState(false)
+  const [pourTarget, setPourTarget] = useState<PourTarget | null>(null)
+  const dragRef = useRef<{ start: Vector3; moved: boolean } | null>(null)
+  const movable = pourTargets.length > 0
+
+  // Back in place once a pour is over
+  useEffect(() => {
+    if (!pouringInto) groupRef.current?.position.set(...position)
+  }, [pouringInto, position])
 
   useFrame((state) => {
     if (groupRef.current) {
-      // Floating animation when hovered
-      if (isHovered && !isDragging) {
+      if (pouringInto) {
+        // Held over the vessel being poured into
+        groupRef.current.position.lerp(new Vector3(...pourPose(pouringInto.position).position), 0.2)
+      } else if (isHovered && !isDragging) {
+        // Floating animation when hovered
         groupRef.current.position.y = position[1] + Math.sin(state.clock.elapsedTime * 2) * 0.01
       }
-      
+
+      // Tip towards the vessel it is held over, upright otherwise
+      const tilt = (pourTarget && !placeAction) || pouringInto ? -POUR_TILT : 0
+      groupRef.current.rotation.z += (tilt - groupRef.current.rotation.z) * 0.15
+
       // Selection glow effect
       if (isSelected) {
         groupRef.current.scale.setScalar(1.02 + Math.sin(state.clock.elapsedTime * 4) * 0.01)
@@ -48,12 +100,38 @@ export default function InteractiveEquipment({
     }
   })
 
+  // Where the pointer ray meets the bench at this equipment's height
+  const benchPoint = (event: ThreeEvent<PointerEvent>): Vector3 | null => {
+    const plane = new Plane(new Vector3(0, 1, 0), -position[1])
+    return event.ray.intersectPlane(plane, new Vector3())
+  }
+
+  const nearestTarget = (point: Vector3): PourTarget | null => {
+    let nearest: PourTarget | null = null
+    let nearestDistance = POUR_REACH
+    pourTargets.forEach(target => {
+      const distance = Math.hypot(point.x - target.position[0], point.z - target.position[2])
+      if (target.id !== equipmentId && distance < nearestDistance) {
+        nearest = target
+        nearestDistance = distance
+      }
+    })
+    return nearest
+  }
+
+  const putBack = () => {
+    groupRef.current?.position.set(...position)
+    setPourTarget(null)
+  }
+
   const handlePointerDown = (event: any) => {
     event.stopPropagation()
     setIsDragging(true)
     setIsSelected(true)
+    dragRef.current = { start: benchPoint(event) || new Vector3(...position), moved: false }
+    if (movable && controls) controls.enabled = false
     onDragStart?.()
-    
+
     // Capture pointer for smooth dragging
     event.target.setPointerCapture(event.pointerId)
   }
@@ -61,8 +139,24 @@ export default function InteractiveEquipment({
   const handlePointerUp = (event: any) => {
     event.stopPropagation()
     setIsDragging(false)
+    if (controls) controls.enabled = true
     onDragEnd?.()
-    
+
+    const drag = dragRef.current
+    dragRef.current = null
+    if (drag && !drag.moved) {
+      onSelect?.()
+      putBack()
+    } else if (pourTarget && placeAction) {
+      onPlace?.(pourTarget.id)
+      putBack()
+    } else if (pourTarget && onPour?.(pourTarget.id)) {
+      // Stay held over it until the pour is chosen and done
+      setPourTarget(null)
+    } else {
+      putBack()
+    }
+
     // Release pointer capture
     event.target.releasePointerCapture(event.pointerId)
   }
@@ -70,14 +164,12 @@ export default function InteractiveEquipment({
   const handlePointerOver = (event: any) => {
     event.stopPropagation()
     setIsHovered(true)
-    setShowTooltip(true)
-    document.body.style.cursor = 'grab'
+    document.body.style.cursor = movable ? 'grab' : 'pointer'
   }
 
   const handlePointerOut = (event: any) => {
     event.stopPropagation()
     setIsHovered(false)
-    setShowTooltip(false)
     if (!isDragging) {
       setIsSelected(false)
       document.body.style.cursor = 'default'
@@ -85,15 +177,29 @@ export default function InteractiveEquipment({
   }
 
   const handlePointerMove = (event: any) => {
-    if (isDragging) {
-      event.stopPropagation()
-      document.body.style.cursor = 'grabbing'
-    }
+    const drag = dragRef.current
+    if (!isDragging || !drag) return
+    event.stopPropagation()
+    document.body.style.cursor = 'grabbing'
+    if (!movable || !groupRef.current) return
+
+    const point = benchPoint(event)
+    if (!point) return
+    if (!drag.moved && point.distanceTo(drag.start) < DRAG_THRESHOLD) return
+    drag.moved = true
+
+    // Carry the vessel a little above the bench so it clears the others
+    groupRef.current.position.set(
+      position[0] + point.x - drag.start.x,
+      position[1] + CARRY_HEIGHT,
+      position[2] + point.z - drag.start.z
+    )
+    setPourTarget(nearestTarget(groupRef.current.position))
   }
 
   const handleDoubleClick = (event: any) => {
     event.stopPropagation()
-    
+
     // Double-click to rotate equipment
     if (groupRef.current) {
       groupRef.current.rotation.y += Math.PI / 4
@@ -107,7 +213,7 @@ export default function InteractiveEquipment({
       userData={{
         equipmentId,
         equipmentType,
-        draggable: true,
+        draggable: movable,
         canReceiveLiquid
       }}
       onPointerDown={handlePointerDown}
@@ -118,16 +224,16 @@ export default function InteractiveEquipment({
       onDoubleClick={handleDoubleClick}
     >
       {children}
-      
+
       {/* Selection Ring */}
-      {isSelected && (
+      {(isSelected || targeted) && (
         <mesh
           position={[0, -0.1, 0]}
           rotation={[-Math.PI / 2, 0, 0]}
         >
           <ringGeometry args={[1.2, 1.4, 32]} />
           <meshBasicMaterial
-            color="#60a5fa"
+            color={targeted && !isSelected ? '#34d399' : '#60a5fa'}
             transparent
             opacity={0.6}
             depthTest={false}
@@ -136,7 +242,7 @@ export default function InteractiveEquipment({
       )}
 
       {/* Drag Helper */}
-      {isDragging && (
+      {isDragging && dragRef.current?.moved && (
         <Html
           position={[0, 3, 0]}
           center
@@ -145,11 +251,15 @@ export default function InteractiveEquipment({
           <div className="bg-blue-600 text-white px-3 py-2 rounded-lg text-sm pointer-events-none">
             <div className="flex items-center space-x-2">
               <div className="w-2 h-2 bg-white rounded-full animate-pulse"></div>
-              <span>Dragging {equipmentType}</span>
+              <span>
+                {pourTarget
+                  ? `Release to ${placeAction || 'pour into'} ${pourTarget.name}`
+                  : `Dragging ${name}`}
+              </span>
             </div>
           </div>
         </Html>
       )}
     </group>
   )
-}
\ No newline at end of file
+}
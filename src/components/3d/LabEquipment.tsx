@@ -1,12 +1,30 @@
 'use client'
 
-import { useRef, useState, useImperativeHandle, forwardRef, useEffect } from 'react'
+import { useRef, useState, useImperativeHandle, forwardRef, useEffect, useMemo } from 'react'
 import { useFrame } from '@react-three/fiber'
 import { Html } from '@react-three/drei'
 import * as THREE from 'three'
-import { Experiment, Chemical } from '@/types'
-import { generateReactionLogic, checkReactionTrigger } from '@/data/reactionLogic'
-import InteractiveEquipment from './InteractiveEquipment'
+import { BalanceLoad, Experiment, Chemical, GasTest, GasTestResult, LabAction, RateRun, StopcockState, TitrationPoint } from '@/types'
+import { experimentChemicalLookup } from '@/data/chemicalData'
+import { rateReactant } from '@/data/reactionLogic'
+import { amountOf, defaultAmount, solutionChemicals, solutionColor, splitSolution } from '@/lib/chemistry/solution'
+import { solutionPh } from '@/lib/chemistry/ph'
+import { nextStopcockState, readBurette } from '@/lib/chemistry/titration'
+import { isBoiling, undissolvedSolids } from '@/lib/chemistry/phase'
+import { gasVolume, runGasTest } from '@/lib/chemistry/gas'
+import { concentrationOf } from '@/lib/chemistry/kinetics'
+import { WEIGHING_BOAT_MASS, balanceReading } from '@/lib/chemistry/mass'
+import {
+  PLACEMENT_VESSEL_TYPES,
+  getEquipmentLayout,
+  getGasCollectors,
+  getReceivingVessel,
+  placedPosition,
+  pourPose
+} from '@/lib/equipmentLayout'
+import { LabSimulation } from '@/lib/simulation'
+import { useLabSimulation } from '@/hooks/useLabSimulation'
+import InteractiveEquipment, { PourTarget } from './InteractiveEquipment'
 import Beaker from './equipment/Beaker'
 import Flask from './equipment/Flask'
 import TestTube from './equipment/TestTube'
@@ -15,52 +33,378 @@ import GraduatedCylinder from './equipment/GraduatedCylinder'
 import Burette from './equipment/Burette'
 import StirringRod from './equipment/StirringRod'
 import Thermometer from './equipment/Thermometer'
+import GasJar from './equipment/GasJar'
+import AnalyticalBalance from './equipment/AnalyticalBalance'
 import PouringEffect from './effects/PouringEffect'
 
+const BOILING_EFFECT_INTERVAL = 3 // s
+const RATE_EFFECT_INTERVAL = 3 // s
+// A reaction this fast (mol/s) bubbles at full intensity
+const VIGOROUS_RATE = 5e-4
+// A rate run is sampled this often
+const RATE_SAMPLE_INTERVAL = 1 // s
+// Containers that can be carried over another and poured into it
+const POURABLE_TYPES = ['beaker', 'flask', 'test-tube', 'graduated-cylinder']
+// Portions offered when pouring one vessel into another
+const POUR_PORTIONS = [5, 10, 25] // mL
+const POUR_DURATION = 2000 // ms
+// Stirring is reported a second at a time, so steps can ask for so long
+const STIR_REPORT_INTERVAL = 1 // s
+// Where a stirring rod stands in the vessel it stirs
+const STIR_HEIGHT = 0.6
+// What dropping each kind of equipment over a vessel sets it up to do
+const PLACE_ACTIONS: Record<string, string> = {
+  'burette': 'clamp it over',
+  'bunsen-burner': 'heat',
+  'thermometer': 'stand it in'
+}
+
+function rateIntensity(rate: number): number {
+  return Math.min(1, Math.sqrt(rate / VIGOROUS_RATE))
+}
+
 interface LabEquipmentProps {
   experiment: Experiment
-  onStepComplete?: (stepIndex: number, chemical: Chemical) => void
-  onChemicalAdd?: (chemical: Chemical) => void
+  simulation: LabSimulation
+  // Display the simulation without advancing it or accepting input; used by the session replay
+  readOnly?: boolean
+  onLabAction?: (action: LabAction) => void
   onReactionTrigger?: (reactionType: string, position: [number, number, number], intensity: number) => void
+  onTitrationUpdate?: (points: TitrationPoint[]) => void
+  // Concentration and gas collected over time, one run per set of conditions tried
+  onRateUpdate?: (runs: RateRun[]) => void
+  // Solids being weighed out, by balance
+  balanceLoads?: { [balance: string]: BalanceLoad }
 }
 
-const LabEquipment = forwardRef<any, LabEquipmentProps>(function LabEquipment({ experiment, onStepComplete, onChemicalAdd, onReactionTrigger }, ref) {
+const LabEquipment = forwardRef<any, LabEquipmentProps>(function LabEquipment({ experiment, simulation, readOnly = false, onLabAction, onReactionTrigger, onTitrationUpdate, onRateUpdate, balanceLoads = {} }, ref) {
   const groupRef = useRef<THREE.Group>(null)
   const [hoveredItem, setHoveredItem] = useState<string | null>(null)
-  const [pouringState, setPouringState] = useState<{ from: string; to: string } | null>(null)
-  const [equipmentContents, setEquipmentContents] = useState<{ [key: string]: Chemical[] }>({})
+  // Where chemicals from the shelf go; the receiving vessel unless another is picked
+  const [targetVessel, setTargetVessel] = useState<string | null>(null)
+  // A vessel dropped over another, waiting for the volume to pour, and then
+  // held there while it pours
+  const [pendingPour, setPendingPour] = useState<{ from: string; to: string } | null>(null)
+  const [heldPour, setHeldPour] = useState<{ from: string; to: string } | null>(null)
+  // The vessel being stirred, and for how long since it was last reported
+  const [stirring, setStirring] = useState<{ rod: string; vessel: string } | null>(null)
+  const stirredRef = useRef(0)
   const [activePouring, setActivePouring] = useState<{
     fromPosition: THREE.Vector3
     toPosition: THREE.Vector3
-    chemical: Chemical
+    color: string
     active: boolean
   } | null>(null)
   
   const addedChemicalsRef = useRef<Set<string>>(new Set())
   const processingRef = useRef(false)
-  const reactionLogicRef = useRef(generateReactionLogic([experiment]))
+  const titrationRef = useRef<TitrationPoint[]>([])
+
+  const vesselSolutions = useLabSimulation(simulation, state => state.solutions)
+  const burners = useLabSimulation(simulation, state => state.burners)
+  const stopcocks = useLabSimulation(simulation, state => state.stopcocks)
+  const reactions = useLabSimulation(simulation, state => state.reactions)
+  const temperatures = useLabSimulation(simulation, state => state.temperatures)
+  const gases = useLabSimulation(simulation, state => state.gases)
+  const placements = useLabSimulation(simulation, state => state.placements)
+  const [gasResults, setGasResults] = useState<{ [vessel: string]: GasTestResult }>({})
 
-  const equipmentLayout = getEquipmentLayout(experiment)
+  const equipmentLayout = useMemo(() => getEquipmentLayout(experiment), [experiment])
+  const lookupChemical = useMemo(() => experimentChemicalLookup(experiment.chemicals), [experiment.chemicals])
+  const pourTargets = useMemo<PourTarget[]>(
+    () => equipmentLayout
+      .filter(item => POURABLE_TYPES.includes(item.type))
+      .map(item => ({ id: item.id, name: item.name, position: item.position })),
+    [equipmentLayout]
+  )
+  const placeTargets = useMemo(
+    () => pourTargets.filter(candidate => PLACEMENT_VESSEL_TYPES.includes(equipmentLayout.find(item => item.id === candidate.id)?.type)),
+    [pourTargets, equipmentLayout]
+  )
+  const target = equipmentLayout.find(item => item.id === targetVessel) || getReceivingVessel(equipmentLayout) ||
+    equipmentLayout.find(item => POURABLE_TYPES.includes(item.type))
+
+  // Equipment can change under the sandbox; start again from the receiving vessel
+  useEffect(() => {
+    setTargetVessel(null)
+    setPendingPour(null)
+    setHeldPour(null)
+    setStirring(null)
+  }, [equipmentLayout])
+
+  const equipmentContents = useMemo(() => {
+    const contents: { [key: string]: Chemical[] } = {}
+    Object.entries(vesselSolutions).forEach(([equipmentId, solution]) => {
+      contents[equipmentId] = solutionChemicals(solution, lookupChemical)
+    })
+    return contents
+  }, [vesselSolutions, lookupChemical])
   
-  // Reset when experiment changes
+  // Start a fresh titration curve for each bench
   useEffect(() => {
-    console.log('🔄 Resetting equipment for experiment:', experiment.id)
-    setEquipmentContents({})
+    titrationRef.current = []
+    onTitrationUpdate?.([])
     addedChemicalsRef.current.clear()
-    reactionLogicRef.current = generateReactionLogic([experiment])
-  }, [experiment.id])
+    setGasResults({})
+  }, [simulation, onTitrationUpdate])
 
-  const handlePour = (fromId: string, toId: string) => {
-    setPouringState({ from: fromId, to: toId })
-    
-    console.log(`Pouring from ${fromId} to ${toId}`)
-    
+  // Titrant delivered from a burette extends the curve and counts as a pour
+  useEffect(() => simulation.subscribeEvents((event, state) => {
+    if (event.type !== 'transfer') return
+    const burette = equipmentLayout.find(item => item.id === event.from && item.type === 'burette')
+    if (!burette) return
+
+    titrationRef.current = [
+      ...titrationRef.current,
+      {
+        volume: readBurette(burette.capacity - (state.solutions[burette.id]?.volume || 0)),
+        ph: solutionPh(state.solutions[event.to], lookupChemical)
+      }
+    ]
+    onTitrationUpdate?.(titrationRef.current)
+
+    const titrant = burette.contents[0]
+    if (titrant) {
+      onLabAction?.({ type: 'pour', chemical: titrant.id, vessel: event.to, amount: event.volume })
+    }
+  }), [simulation, equipmentLayout, lookupChemical, onLabAction, onTitrationUpdate])
+
+  // Heating is reported each time a burner's vessel warms by another degree,
+  // so the procedure can check temperature targets as they are reached
+  const reportedTemperaturesRef = useRef<{ [vessel: string]: number }>({})
+  useEffect(() => {
+    reportedTemperaturesRef.current = {}
+    return simulation.subscribe(state => {
+      equipmentLayout
+        .filter(item => item.type === 'bunsen-burner' && state.placements[item.id] && state.burners[item.id])
+        .forEach(item => {
+          const vessel = state.placements[item.id]
+          const reading = Math.floor(state.temperatures[vessel])
+          if (reading > (reportedTemperaturesRef.current[vessel] ?? -Infinity)) {
+            reportedTemperaturesRef.current[vessel] = reading
+            onLabAction?.({ type: 'heat', vessel, temperature: reading })
+          }
+        })
+    })
+  }, [simulation, equipmentLayout, onLabAction])
+
+  // Boiling and crystals appearing as the solvent boils off are shown as
+  // effects on the vessel. Boiling is re-shown for as long as it lasts.
+  const phaseRef = useRef<{ [vessel: string]: { boilingSince: number | null; crystals: number; volume: number } }>({})
+  useEffect(() => {
+    phaseRef.current = {}
+    return simulation.subscribe(state => {
+      equipmentLayout
+        .filter(item => ['beaker', 'flask', 'test-tube'].includes(item.type))
+        .forEach(item => {
+          const solution = state.solutions[item.id]
+          const volume = solution?.volume || 0
+          const previous = phaseRef.current[item.id] || { boilingSince: null, crystals: 0, volume }
+          const boiling = isBoiling(solution, state.temperatures[item.id], lookupChemical)
+          const crystals = solution
+            ? Object.values(undissolvedSolids(solution, lookupChemical)).reduce((sum, moles) => sum + moles, 0)
+            : 0
+
+          let boilingSince = boiling ? previous.boilingSince : null
+          if (boiling && (boilingSince === null || state.time - boilingSince >= BOILING_EFFECT_INTERVAL)) {
+            boilingSince = state.time
+            onReactionTrigger?.('boiling', item.position, 0.8)
+          }
+          if (crystals > 0 && previous.crystals === 0 && volume < previous.volume) {
+            onReactionTrigger?.('crystallization', item.position, 0.6)
+          }
+          phaseRef.current[item.id] = { boilingSince, crystals, volume }
+        })
+    })
+  }, [simulation, equipmentLayout, lookupChemical, onReactionTrigger])
+
+  // Reactions that take time bubble as hard as they are going, refreshed for
+  // as long as they keep going
+  const rateEffectsRef = useRef<{ [vessel: string]: number }>({})
+  useEffect(() => {
+    rateEffectsRef.current = {}
+    return simulation.subscribe(state => {
+      state.reactions
+        .filter(reaction => reaction.rate > 0)
+        .forEach(reaction => {
+          const shown = rateEffectsRef.current[reaction.vessel]
+          if (shown !== undefined && state.time - shown < RATE_EFFECT_INTERVAL) return
+          const rule = simulation.rules.find(candidate => candidate.id === reaction.reaction)
+          const item = equipmentLayout.find(candidate => candidate.id === reaction.vessel)
+          if (!rule || !item) return
+          rateEffectsRef.current[reaction.vessel] = state.time
+          onReactionTrigger?.(rule.effects[0]?.type || 'gas-evolution', item.position, rateIntensity(reaction.rate))
+        })
+    })
+  }, [simulation, equipmentLayout, onReactionTrigger])
+
+  // Each run of a rate experiment follows the reactant being used up in the
+  // receiving vessel, and the gas collected if it has a gas jar. Changing the
+  // catalyst, or starting again, begins a new run.
+  const rateRunsRef = useRef<RateRun[]>([])
+  const currentRunRef = useRef<{ key: string; started: number; startVolume: number } | null>(null)
+  useEffect(() => {
+    rateRunsRef.current = []
+    currentRunRef.current = null
+    onRateUpdate?.([])
+    const receiver = getReceivingVessel(equipmentLayout)
+    if (!receiver) return
+    const jar = getGasCollectors(equipmentLayout)[receiver.id]
+    const formula = (id: string) => lookupChemical(id)?.formula || id
+
+    return simulation.subscribe(state => {
+      const solution = state.solutions[receiver.id]
+      const running = state.reactions.find(reaction => reaction.vessel === receiver.id && reaction.rate > 0)
+      const rule = running && simulation.rules.find(candidate => candidate.id === running.reaction)
+      const reactant = rule && solution && rateReactant(solution, rule, lookupChemical)
+      if (!reactant) return
+
+      const catalysts = Object.keys(rule.rate?.catalysts || {}).filter(id => solution.species[id])
+      const key = [rule.id, ...catalysts].join('+')
+      const volume = jar ? gasVolume(state.gases[jar]) : 0
+      const concentration = concentrationOf(solution, reactant)
+
+      let run = currentRunRef.current
+      if (!run || run.key !== key) {
+        run = { key, started: state.time, startVolume: volume }
+        currentRunRef.current = run
+        const temperature = state.temperatures[receiver.id] ?? receiver.temperature
+        const label = [
+          catalysts.map(formula).join(' + ') || 'Uncatalysed',
+          `${temperature.toFixed(0)} °C`,
+          `${concentration.toFixed(2)} M`
+        ].join(' · ')
+        rateRunsRef.current = [...rateRunsRef.current, { label, reactant: formula(reactant), points: [] }]
+      }
+
+      const runs = rateRunsRef.current
+      const current = runs[runs.length - 1]
+      const time = state.time - run.started
+      const last = current.points[current.points.length - 1]
+      if (last && time - last.time < RATE_SAMPLE_INTERVAL) return
+
+      const point = jar ? { time, concentration, volume: volume - run.startVolume } : { time, concentration }
+      rateRunsRef.current = [...runs.slice(0, -1), { ...current, points: [...current.points, point] }]
+      onRateUpdate?.(rateRunsRef.current)
+    })
+  }, [simulation, equipmentLayout, lookupChemical, onRateUpdate])
+
+  const toggleBurner = (burnerId: string, lit: boolean) => {
+    if (readOnly) return
+    simulation.dispatch({ type: 'burner-toggled', burner: burnerId, lit })
+
+    const burner = equipmentLayout.find(item => item.id === burnerId)
+    const vessel = simulation.getState().placements[burnerId] || burnerId
+    if (lit) {
+      // Lighting the burner is itself the start of heating
+      const reading = Math.floor(simulation.getState().temperatures[vessel] ?? burner.temperature)
+      reportedTemperaturesRef.current[vessel] = reading
+      onLabAction?.({ type: 'heat', vessel, temperature: reading })
+    } else {
+      delete reportedTemperaturesRef.current[vessel]
+    }
+  }
+
+  // Set a burette, burner or thermometer up with another vessel. A lit
+  // burner starts heating its new vessel straight away.
+  const placeEquipment = (equipmentId: string, vesselId: string) => {
+    if (readOnly) return
+    simulation.dispatch({ type: 'equipment-placed', equipment: equipmentId, vessel: vesselId })
+    const state = simulation.getState()
+    if (state.burners[equipmentId]) {
+      const reading = Math.floor(state.temperatures[vesselId])
+      reportedTemperaturesRef.current[vesselId] = reading
+      onLabAction?.({ type: 'heat', vessel: vesselId, temperature: reading })
+    }
+  }
+
+  // A stirring rod stirs the vessel chemicals currently go into until it is
+  // clicked again
+  const toggleStirring = (rodId: string) => {
+    if (readOnly) return
+    stirredRef.current = 0
+    setStirring(current => (current || !target ? null : { rod: rodId, vessel: target.id }))
+  }
+
+  // Tests are judged on the gas as it was before the test used any of it up
+  const handleGasTest = (jarId: string, test: GasTest) => {
+    if (readOnly) return
+    const result = runGasTest(test, simulation.getState().gases[jarId])
+    simulation.dispatch({ type: 'gas-tested', vessel: jarId, test })
+    setGasResults(current => ({ ...current, [jarId]: result }))
+    console.log(`🧪 ${test} on ${jarId}: ${result.observation}`)
+  }
+
+  const showPour = (from: THREE.Vector3, to: [number, number, number], color: string) => {
+    setActivePouring({ fromPosition: from, toPosition: new THREE.Vector3(...to), color, active: true })
     setTimeout(() => {
-      setPouringState(null)
-    }, 3000)
+      setActivePouring(null)
+    }, POUR_DURATION)
+  }
+
+  const showReaction = (fired: ReturnType<LabSimulation['dispatch']>, position: [number, number, number]) => {
+    // Trigger the visual effect of the highest priority reaction. Reactions
+    // that take time show their own effect as they go.
+    const instant = fired.filter(rule => !rule.rate)
+    if (instant.length > 0 && onReactionTrigger) {
+      setTimeout(() => {
+        const reactionType = instant[0].effects[0]?.type || 'color-change'
+        const intensity = instant[0].effects[0]?.intensity || 0.8
+        onReactionTrigger(reactionType, position, intensity)
+      }, 500)
+    }
+  }
+
+  // Most that can go from one vessel into another: what the source holds,
+  // limited by the room left in the target
+  const pourableVolume = (fromId: string, toId: string): number => {
+    const state = simulation.getState()
+    const receiver = equipmentLayout.find(item => item.id === toId)
+    const room = (receiver?.capacity || 0) - (state.solutions[toId]?.volume || 0)
+    return Math.max(0, Math.min(state.solutions[fromId]?.volume || 0, room))
   }
 
-  const handleChemicalPour = (chemical: Chemical) => {
+  const handlePour = (fromId: string, toId: string): boolean => {
+    if (readOnly || fromId === toId || heldPour) return false
+    if (pourableVolume(fromId, toId) <= 0) {
+      console.log(`Nothing can be poured from ${fromId} into ${toId}`)
+      return false
+    }
+    setPendingPour({ from: fromId, to: toId })
+    return true
+  }
+
+  const confirmPour = (volume: number) => {
+    if (!pendingPour || readOnly) return
+    const { from, to } = pendingPour
+    setPendingPour(null)
+    const receiver = pourTargets.find(item => item.id === to)
+    const poured = simulation.getState().solutions[from]
+    if (!receiver || !poured) return
+
+    const color = solutionColor(poured, lookupChemical)
+    const { taken } = splitSolution(poured, volume)
+    const fired = simulation.dispatch({ type: 'transfer', from, to, volume })
+    console.log(`🫗 Poured ${volume} mL from ${from} into ${to}`)
+
+    // Each chemical in the portion counts as poured in its own share of it,
+    // e.g. the few drops of indicator in a larger volume of acid, or the
+    // water the acid was diluted with
+    solutionChemicals(taken, lookupChemical).forEach(chemical => {
+      onLabAction?.({ type: 'pour', chemical: chemical.id, vessel: to, amount: amountOf(taken, chemical) })
+    })
+
+    // The stream runs from the lip of the vessel held over the receiver,
+    // which stays there until the pour is done
+    showReaction(fired, receiver.position)
+    showPour(new THREE.Vector3(...pourPose(receiver.position).spout), receiver.position, color)
+    setHeldPour({ from, to })
+    setTimeout(() => setHeldPour(null), POUR_DURATION)
+  }
+
+  const handleChemicalPour = (chemical: Chemical, amount?: number) => {
+    if (readOnly) return
+
     // Don't block if already processing - allow retry
     if (processingRef.current) {
       console.log('Already processing, please wait...')
@@ -73,90 +417,40 @@ const LabEquipment = forwardRef<any, LabEquipmentProps>(function LabEquipment({
     processingRef.current = true
     console.log(`➕ Adding ${chemical.name}`)
     
-    const mainBeaker = equipmentLayout.find(item => item.type === 'beaker')
-    
-    if (!mainBeaker) {
-      console.warn('❌ No beaker found')
-      processingRef.current = false
-      return
-    }
+    const vessel = target
 
-    const currentContents = equipmentContents[mainBeaker.id] || []
-    const alreadyExists = currentContents.some(c => c.id === chemical.id)
-    
-    if (alreadyExists) {
-      console.log(`⚠️ ${chemical.name} already in beaker`)
+    if (!vessel) {
+      console.warn('❌ No vessel to pour into')
       processingRef.current = false
       return
     }
 
-    // Add to beaker
-    setEquipmentContents(prev => {
-      const updated: { [key: string]: Chemical[] } = {
-        ...prev,
-        [mainBeaker.id]: [...(prev[mainBeaker.id] || []), chemical]
-      }
-      console.log(`✅ Added ${chemical.name}. Contents:`, (updated[mainBeaker.id] || []).map((c: Chemical) => c.name))
-      return updated
+    // Add to the vessel and resolve the mixture against the reaction registry
+    const added = amount ?? defaultAmount(chemical)
+    const fired = simulation.dispatch({ type: 'chemical-added', vessel: vessel.id, chemical: chemical.id, amount: added })
+    fired.forEach(rule => {
+      console.log(`⚗️ ${rule.id}: ${rule.outcomeText}`)
     })
 
-    // Fire step complete
-    if (onStepComplete) {
-      setTimeout(() => {
-        const incompleteSteps = experiment.steps
-          .map((step, index) => ({ step, index }))
-          .filter(({ step }) => !step.completed)
-        
-        const targetStep = incompleteSteps.find(({ step }) =>
-          step.chemicals.includes(chemical.id) &&
-          step.equipment.includes('beaker')
-        )
-        
-        if (targetStep) {
-          console.log(`🎯 Step ${targetStep.index + 1} completed`)
-          onStepComplete(targetStep.index, chemical)
-        }
-      }, 100)
+    const reacted = simulation.getState().solutions[vessel.id]
+    console.log(`✅ Added ${chemical.name} to ${vessel.id}. Volume: ${reacted.volume} mL, species:`, reacted.species)
+
+    // Report what was done so the procedure can be checked. Only a reading
+    // taken on the measuring panel counts as measuring; a liquid poured into a
+    // graduated cylinder counts as poured once the cylinder is emptied.
+    if (vessel.type !== 'graduated-cylinder') {
+      onLabAction?.({ type: 'pour', chemical: chemical.id, vessel: vessel.id, amount: added })
     }
-    
-    // Check for reactions after adding chemical
-    setTimeout(() => {
-      // Get the updated equipment contents
-      const updatedContents = equipmentContents[mainBeaker.id] || []
-      const chemicalIds = updatedContents.map(c => c.id)
-      
-      console.log('🧪 Checking for reactions with chemicals:', chemicalIds)
-      console.log('🧪 Experiment ID:', experiment.id)
-      
-      // Check if this triggers a reaction
-      const reactionResult = checkReactionTrigger(chemicalIds, reactionLogicRef.current, experiment.id)
-      
-      if (reactionResult && onReactionTrigger) {
-        console.log(`🧪 Reaction triggered: ${reactionResult.outcomeText}`)
-        // Trigger visual effect for the reaction
-        const reactionType = reactionResult.effects[0]?.type || 'color-change'
-        const intensity = reactionResult.effects[0]?.intensity || 0.8
-        onReactionTrigger(reactionType, mainBeaker.position, intensity)
-      } else {
-        console.log('🧪 No reaction triggered')
-        if (chemicalIds.includes('phenolphthalein') && chemicalIds.includes('hcl') && chemicalIds.includes('naoh')) {
-          console.log('🧪 All titration chemicals present but no reaction triggered')
-        }
-      }
-    }, 500) // Slightly longer delay to ensure state is updated
-    
-    // Show pouring effect only for liquids
+
+    showReaction(fired, vessel.position)
+
+    // Show pouring effect only for liquids, from a bottle held over the vessel
     if (chemical.properties.state === 'liquid') {
-      setActivePouring({
-        fromPosition: new THREE.Vector3(-6, 1.0, 0),
-        toPosition: new THREE.Vector3(...mainBeaker.position),
-        chemical,
-        active: true
-      })
-      
-      setTimeout(() => {
-        setActivePouring(null)
-      }, 2000)
+      showPour(
+        new THREE.Vector3(vessel.position[0] + 0.6, vessel.position[1] + 2.4, vessel.position[2]),
+        vessel.position,
+        chemical.color
+      )
     } else {
       // For solids, just reset the processing state immediately
       setTimeout(() => {
@@ -165,20 +459,48 @@ const LabEquipment = forwardRef<any, LabEquipmentProps>(function LabEquipment({
     }
   }
 
+  // Filling a measuring cylinder; the measuring panel reports the reading
+  const fillVessel = (vesselId: string, chemical: Chemical, amount: number) => {
+    const vessel = equipmentLayout.find(item => item.id === vesselId)
+    if (readOnly || !vessel || amount <= 0) return
+    simulation.dispatch({ type: 'chemical-added', vessel: vessel.id, chemical: chemical.id, amount })
+    showPour(
+      new THREE.Vector3(vessel.position[0] + 0.6, vessel.position[1] + 2.4, vessel.position[2]),
+      vessel.position,
+      chemical.color
+    )
+  }
+
   useImperativeHandle(ref, () => ({
     handleChemicalPour,
-    resetBeaker: () => {
-      console.log('🧹 Resetting beaker')
-      setEquipmentContents({})
+    fillVessel,
+    pourVessel: handlePour,
+    resetBench: () => {
+      if (readOnly) return
+      console.log('🧹 Resetting the bench')
+      simulation.reset()
+      setGasResults({})
+      setPendingPour(null)
+      setHeldPour(null)
+      setStirring(null)
+      reportedTemperaturesRef.current = {}
+      // The next reaction starts a fresh run to compare against
+      currentRunRef.current = null
+      rateEffectsRef.current = {}
+      titrationRef.current = []
+      onTitrationUpdate?.([])
       addedChemicalsRef.current.clear()
     },
+    setStopcock: (state: StopcockState) => {
+      const burette = equipmentLayout.find(item => item.type === 'burette')
+      if (burette && !readOnly) simulation.setStopcock(burette.id, state)
+    },
     getBeakerPosition: () => {
-      const mainBeaker = equipmentLayout.find(item => item.type === 'beaker')
-      return mainBeaker ? mainBeaker.position : [0, -0.25, 0] as [number, number, number]
+      return target ? target.position : [0, -0.25, 0] as [number, number, number]
     }
-  }), [equipmentLayout])
+  }), [equipmentLayout, simulation, readOnly, target, heldPour])
 
-  useFrame((state) => {
+  useFrame((state, delta) => {
     if (groupRef.current) {
       groupRef.current.children.forEach((child, index) => {
         if (child.userData.floating) {
@@ -186,11 +508,40 @@ const LabEquipment = forwardRef<any, LabEquipmentProps>(function LabEquipment({
         }
       })
     }
+
+    if (!readOnly) simulation.tick(delta)
+
+    if (stirring && !readOnly) {
+      stirredRef.current += delta
+      if (stirredRef.current >= STIR_REPORT_INTERVAL) {
+        onLabAction?.({ type: 'stir', vessel: stirring.vessel, duration: stirredRef.current })
+        stirredRef.current = 0
+      }
+    }
   })
 
+  // The vessel held over another, from being dropped there until it has poured
+  const heldOver = pendingPour || heldPour
+
+  // Where each piece of equipment stands: with the vessel it is set up with,
+  // the stirring rod in the vessel it stirs, otherwise on its own spot
+  const positions = useMemo(() => {
+    const vesselPosition = (id: string) => equipmentLayout.find(item => item.id === id)
+    return Object.fromEntries(equipmentLayout.map(item => {
+      const placed = placements[item.id] && vesselPosition(placements[item.id])
+      const stirred = stirring?.rod === item.id && vesselPosition(stirring.vessel)
+      const position: [number, number, number] = placed
+        ? placedPosition(item, placed)
+        : stirred
+        ? [stirred.position[0], stirred.position[1] + STIR_HEIGHT, stirred.position[2]]
+        : item.position
+      return [item.id, position]
+    }))
+  }, [equipmentLayout, placements, stirring])
+
   return (
     <group ref={groupRef}>
-      {equipmentLayout.map((item, index) => {
+      {equipmentLayout.map(item => {
         const currentContents = equipmentContents[item.id] || []
         
         const equipmentProps = {
@@ -198,7 +549,8 @@ const LabEquipment = forwardRef<any, LabEquipmentProps>(function LabEquipment({
           scale: item.scale,
           capacity: item.capacity,
           contents: currentContents,
-          temperature: item.temperature,
+          // A thermometer reads the vessel it stands in
+          temperature: temperatures[item.type === 'thermometer' && placements[item.id] ? placements[item.id] : item.id] ?? item.temperature,
           isHovered: hoveredItem === item.id,
           onPointerOver: () => setHoveredItem(item.id),
           onPointerOut: () => setHoveredItem(null)
@@ -207,12 +559,24 @@ const LabEquipment = forwardRef<any, LabEquipmentProps>(function LabEquipment({
         const interactiveProps = {
           equipmentId: item.id,
           equipmentType: item.type,
-          position: item.position,
-          canReceiveLiquid: ['beaker', 'flask', 'test-tube', 'graduated-cylinder'].includes(item.type),
-          onPour: (targetId: string) => handlePour(item.id, targetId)
+          name: item.name,
+          position: positions[item.id],
+          canReceiveLiquid: POURABLE_TYPES.includes(item.type),
+          // Only vessels with something in them can be carried over and poured;
+          // burettes, burners and thermometers can be moved to another vessel
+          pourTargets: readOnly
+            ? []
+            : PLACE_ACTIONS[item.type]
+            ? placeTargets
+            : POURABLE_TYPES.includes(item.type) && vesselSolutions[item.id]?.volume > 0 ? pourTargets : [],
+          placeAction: PLACE_ACTIONS[item.type],
+          onPlace: (vesselId: string) => placeEquipment(item.id, vesselId),
+          targeted: !readOnly && item.id === target?.id && pourTargets.length > 1,
+          onPour: (targetId: string) => handlePour(item.id, targetId),
+          pouringInto: heldOver?.from === item.id ? pourTargets.find(candidate => candidate.id === heldOver.to) : null,
+          onSelect: POURABLE_TYPES.includes(item.type) && !readOnly ? () => setTargetVessel(item.id) : undefined
         }
         
-        const isMainBeaker = item.type === 'beaker' && index === equipmentLayout.findIndex(eq => eq.type === 'beaker')
         const { key: _key, ...propsWithoutKey } = interactiveProps as any
 
         switch (item.type) {
@@ -225,7 +589,10 @@ const LabEquipment = forwardRef<any, LabEquipmentProps>(function LabEquipment({
                     scale={equipmentProps.scale}
                     capacity={equipmentProps.capacity}
                     contents={currentContents}
+                    solution={vesselSolutions[item.id]}
                     temperature={equipmentProps.temperature}
+                    boiling={isBoiling(vesselSolutions[item.id], equipmentProps.temperature, lookupChemical)}
+                    reactions={reactions.filter(reaction => reaction.vessel === item.id)}
                     isHovered={equipmentProps.isHovered}
                     onPointerOver={equipmentProps.onPointerOver}
                     onPointerOut={equipmentProps.onPointerOut}
@@ -238,42 +605,65 @@ const LabEquipment = forwardRef<any, LabEquipmentProps>(function LabEquipment({
           case 'flask':
             return (
               <InteractiveEquipment key={item.id} {...propsWithoutKey}>
-                <Flask {...equipmentProps} />
+                <Flask
+                  {...equipmentProps}
+                  solution={vesselSolutions[item.id]}
+                  boiling={isBoiling(vesselSolutions[item.id], equipmentProps.temperature, lookupChemical)}
+                />
               </InteractiveEquipment>
             )
           
           case 'test-tube':
             return (
               <InteractiveEquipment key={item.id} {...propsWithoutKey}>
-                <TestTube {...equipmentProps} />
+                <TestTube
+                  {...equipmentProps}
+                  solution={vesselSolutions[item.id]}
+                  boiling={isBoiling(vesselSolutions[item.id], equipmentProps.temperature, lookupChemical)}
+                  sealed={item.sealed}
+                />
               </InteractiveEquipment>
             )
           
           case 'graduated-cylinder':
             return (
               <InteractiveEquipment key={item.id} {...propsWithoutKey}>
-                <GraduatedCylinder {...equipmentProps} />
+                <GraduatedCylinder {...equipmentProps} solution={vesselSolutions[item.id]} />
               </InteractiveEquipment>
             )
           
           case 'burette':
             return (
               <InteractiveEquipment key={item.id} {...propsWithoutKey} canReceiveLiquid={false}>
-                <Burette {...equipmentProps} />
+                <Burette
+                  {...equipmentProps}
+                  solution={vesselSolutions[item.id]}
+                  stopcock={stopcocks[item.id] || 'closed'}
+                  onStopcockToggle={() => !readOnly && simulation.setStopcock(item.id, nextStopcockState(stopcocks[item.id] || 'closed'))}
+                />
               </InteractiveEquipment>
             )
           
           case 'bunsen-burner':
             return (
               <InteractiveEquipment key={item.id} {...propsWithoutKey} canReceiveLiquid={false}>
-                <BunsenBurner {...equipmentProps} isLit={item.isLit} />
+                <BunsenBurner
+                  {...equipmentProps}
+                  isLit={burners[item.id] ?? item.isLit}
+                  onIgnite={() => toggleBurner(item.id, true)}
+                  onExtinguish={() => toggleBurner(item.id, false)}
+                />
               </InteractiveEquipment>
             )
           
           case 'stirring-rod':
             return (
               <InteractiveEquipment key={item.id} {...propsWithoutKey} canReceiveLiquid={false}>
-                <StirringRod {...equipmentProps} />
+                <StirringRod
+                  {...equipmentProps}
+                  stirring={stirring?.rod === item.id}
+                  onToggleStirring={() => toggleStirring(item.id)}
+                />
               </InteractiveEquipment>
             )
           
@@ -284,6 +674,32 @@ const LabEquipment = forwardRef<any, LabEquipmentProps>(function LabEquipment({
               </InteractiveEquipment>
             )
           
+          case 'gas-jar':
+            return (
+              <InteractiveEquipment key={item.id} {...propsWithoutKey} canReceiveLiquid={false}>
+                <GasJar
+                  {...equipmentProps}
+                  gas={gases[item.id]}
+                  result={gasResults[item.id]}
+                  onTest={readOnly ? undefined : test => handleGasTest(item.id, test)}
+                />
+              </InteractiveEquipment>
+            )
+          
+          case 'analytical-balance': {
+            const load = balanceLoads[item.id]
+            return (
+              <InteractiveEquipment key={item.id} {...propsWithoutKey} canReceiveLiquid={false}>
+                <AnalyticalBalance
+                  {...equipmentProps}
+                  reading={balanceReading(WEIGHING_BOAT_MASS + (load?.sample || 0), load?.tare || 0)}
+                  sample={load?.sample || 0}
+                  sampleColor={load && lookupChemical(load.chemical)?.color.slice(0, 7)}
+                />
+              </InteractiveEquipment>
+            )
+          }
+          
           default:
             return null
         }
@@ -293,88 +709,53 @@ const LabEquipment = forwardRef<any, LabEquipmentProps>(function LabEquipment({
         <PouringEffect
           fromPosition={activePouring.fromPosition}
           toPosition={activePouring.toPosition}
-          chemical={activePouring.chemical}
+          color={activePouring.color}
           isActive={activePouring.active}
           onComplete={() => setActivePouring(null)}
         />
       )}
 
+      {pendingPour && (() => {
+        const source = equipmentLayout.find(item => item.id === pendingPour.from)
+        const receiver = equipmentLayout.find(item => item.id === pendingPour.to)
+        const most = pourableVolume(pendingPour.from, pendingPour.to)
+        if (!source || !receiver) return null
+        return (
+          <Html position={[receiver.position[0], receiver.position[1] + 2.6, receiver.position[2]]} center distanceFactor={8}>
+            <div className="bg-black/80 text-white px-2 py-1 rounded text-xs space-y-1 w-52">
+              <div className="text-center">
+                Pour from {source.name} into {receiver.name}
+              </div>
+              <div className="flex gap-1">
+                {POUR_PORTIONS.filter(portion => portion < most).map(portion => (
+                  <button
+                    key={portion}
+                    className="flex-1 rounded bg-white/10 hover:bg-white/20 px-1 py-0.5"
+                    onClick={() => confirmPour(portion)}
+                  >
+                    {portion} mL
+                  </button>
+                ))}
+                <button
+                  className="flex-1 rounded bg-blue-600/60 hover:bg-blue-600 px-1 py-0.5"
+                  onClick={() => confirmPour(most)}
+                >
+                  All ({most.toFixed(0)} mL)
+                </button>
+              </div>
+              <button
+                className="w-full rounded bg-white/5 hover:bg-white/10 px-1 py-0.5 text-white/70"
+                onClick={() => setPendingPour(null)}
+              >
+                Cancel
+              </button>
+            </div>
+          </Html>
+        )
+      })()}
+
     </group>
   )
 })
 
-function getEquipmentLayout(experiment: Experiment) {
-  const layout: any[] = []
-  let xOffset = -4
-  let zOffset = 2
-
-  const tableLevel = -1.0
-  const equipmentY = tableLevel + 0.75
-
-  experiment.materials.forEach((material, index) => {
-    const equipmentId = `${material.equipmentType}-${index}`
-    
-    const position: [number, number, number] = [
-      xOffset + (index % 3) * 2.5,
-      equipmentY,
-      zOffset - Math.floor(index / 3) * 2
-    ]
-
-    const baseConfig = {
-      id: equipmentId,
-      type: material.equipmentType,
-      name: getEquipmentName(material.equipmentType),
-      position,
-      scale: [1, 1, 1] as [number, number, number],
-      capacity: 100,
-      contents: [],
-      temperature: 25,
-      floating: false
-    }
-
-    switch (material.equipmentType) {
-      case 'beaker':
-        layout.push({ ...baseConfig, capacity: 250, contents: material.chemical ? [material.chemical] : [] })
-        break
-      case 'flask':
-        layout.push({ ...baseConfig, capacity: 500, contents: material.chemical ? [material.chemical] : [], floating: true })
-        break
-      case 'test-tube':
-        layout.push({ ...baseConfig, capacity: 20, scale: [0.8, 0.8, 0.8], contents: material.chemical ? [material.chemical] : [] })
-        break
-      case 'graduated-cylinder':
-        layout.push({ ...baseConfig, capacity: 100, scale: [0.9, 0.9, 0.9] })
-        break
-      case 'burette':
-        layout.push({ ...baseConfig, capacity: 50, position: [position[0], equipmentY + 0.2, position[2]], scale: [0.8, 1.2, 0.8] })
-        break
-      case 'bunsen-burner':
-        layout.push({ ...baseConfig, isLit: false, temperature: 25, position: [position[0], equipmentY - 0.3, position[2]] })
-        break
-      case 'stirring-rod':
-        layout.push({ ...baseConfig, scale: [1.2, 1.2, 1.2], position: [position[0], equipmentY, position[2]] })
-        break
-      case 'thermometer':
-        layout.push({ ...baseConfig, scale: [0.6, 0.6, 0.6], position: [position[0], equipmentY + 0.5, position[2]], temperature: 25 })
-        break
-    }
-  })
-
-  return layout
-}
-
-function getEquipmentName(type: string): string {
-  const names: Record<string, string> = {
-    'beaker': 'Beaker',
-    'flask': 'Erlenmeyer Flask',
-    'test-tube': 'Test Tube',
-    'graduated-cylinder': 'Graduated Cylinder',
-    'burette': 'Burette',
-    'bunsen-burner': 'Bunsen Burner',
-    'stirring-rod': 'Stirring Rod',
-    'thermometer': 'Thermometer'
-  }
-  return names[type] || type
-}
-
 export default LabEquipment
\ No newline at end of file
@@ -0,0 +1,155 @@
+'use client'
+
+import { useMemo } from 'react'
+import { Line } from '@react-three/drei'
+import * as THREE from 'three'
+import { MoleculeStructure, MoleculeStyle } from '@/types'
+import { cpkColor, vanDerWaalsRadius } from '@/lib/chemistry/molecule'
+
+// Ball-and-stick atoms are this share of their van der Waals size
+const BALL_SCALE = 0.25
+const STICK_RADIUS = 0.1 // Å
+// Sticks of a double or triple bond are thinner and this far apart
+const MULTIPLE_STICK_RADIUS = 0.06 // Å
+const MULTIPLE_SPACING = 0.18 // Å
+const CONTACT_RADIUS = 0.03 // Å
+const UP = new THREE.Vector3(0, 1, 0)
+
+interface MoleculeProps {
+  // Laid out, e.g. by layoutMolecule
+  structure: MoleculeStructure
+  style?: MoleculeStyle
+  // Glowing, see-through atoms for the holographic displays
+  hologram?: boolean
+  position?: [number, number, number]
+  // Scene units per ångström
+  scale?: number
+}
+
+interface Stick {
+  from: THREE.Vector3
+  to: THREE.Vector3
+  color: string
+  radius: number
+  // Aromatic and ionic bonds are drawn fainter
+  faint: boolean
+}
+
+// Which way to offset the sticks of a multiple bond: toward a neighbouring
+// atom where there is one, preferring the next atom round an aromatic ring,
+// so the extra sticks lie flat and inside the ring
+function offsetDirection(structure: MoleculeStructure, a: number, b: number): THREE.Vector3 {
+  const start = new THREE.Vector3(...structure.atoms[a].position)
+  const along = new THREE.Vector3(...structure.atoms[b].position).sub(start)
+  const neighbours = structure.bonds
+    .filter(bond => bond.order > 0 && bond.atoms.some(atom => atom === a || atom === b))
+    .flatMap(bond => bond.atoms.filter(atom => atom !== a && atom !== b).map(atom => ({ atom, aromatic: bond.order === 1.5 })))
+  const neighbour = (neighbours.find(candidate => candidate.aromatic) ?? neighbours[0])?.atom
+  const side = neighbour !== undefined
+    ? new THREE.Vector3(...structure.atoms[neighbour].position).sub(start)
+    : new THREE.Vector3(0, 0, 1)
+  const normal = new THREE.Vector3().crossVectors(along, side)
+  if (normal.lengthSq() < 1e-6) normal.crossVectors(along, new THREE.Vector3(1, 0, 0))
+  return new THREE.Vector3().crossVectors(normal, along).normalize()
+}
+
+// Sticks for every bond, split at the middle so each half takes the color of
+// its atom. Multiple bonds get a stick per shared pair; an aromatic bond gets
+// a full stick and a faint one.
+function bondSticks(structure: MoleculeStructure): Stick[] {
+  return structure.bonds.flatMap(bond => {
+    const [a, b] = bond.atoms
+    const start = new THREE.Vector3(...structure.atoms[a].position)
+    const end = new THREE.Vector3(...structure.atoms[b].position)
+    const middle = start.clone().lerp(end, 0.5)
+    const halves = (offset: THREE.Vector3, radius: number, faint: boolean): Stick[] => [
+      { from: start.clone().add(offset), to: middle.clone().add(offset), color: cpkColor(structure.atoms[a].element), radius, faint },
+      { from: middle.clone().add(offset), to: end.clone().add(offset), color: cpkColor(structure.atoms[b].element), radius, faint }
+    ]
+
+    if (bond.order === 0) return halves(new THREE.Vector3(), CONTACT_RADIUS, true)
+    if (bond.order === 1) return halves(new THREE.Vector3(), STICK_RADIUS, false)
+    const direction = offsetDirection(structure, a, b).multiplyScalar(MULTIPLE_SPACING)
+    if (bond.order === 1.5) {
+      return [...halves(new THREE.Vector3(), STICK_RADIUS, false), ...halves(direction.multiplyScalar(1.5), CONTACT_RADIUS, true)]
+    }
+    const offsets = bond.order === 2
+      ? [direction.clone().multiplyScalar(0.5), direction.clone().multiplyScalar(-0.5)]
+      : [direction.clone(), new THREE.Vector3(), direction.clone().negate()]
+    return offsets.flatMap(offset => halves(offset, MULTIPLE_STICK_RADIUS, false))
+  })
+}
+
+function StickMesh({ stick, hologram }: { stick: Stick; hologram: boolean }) {
+  const length = stick.from.distanceTo(stick.to)
+  const center = stick.from.clone().lerp(stick.to, 0.5)
+  const rotation = new THREE.Quaternion().setFromUnitVectors(UP, stick.to.clone().sub(stick.from).normalize())
+  return (
+    <mesh position={center} quaternion={rotation}>
+      <cylinderGeometry args={[stick.radius, stick.radius, length, 12]} />
+      <meshStandardMaterial
+        color={stick.color}
+        emissive={hologram ? stick.color : '#000000'}
+        emissiveIntensity={hologram ? 1.5 : 0}
+        transparent={hologram || stick.faint}
+        opacity={hologram ? 0.6 : stick.faint ? 0.5 : 1}
+        roughness={0.4}
+      />
+    </mesh>
+  )
+}
+
+// A molecule drawn from its structure in CPK colors
+export default function Molecule({
+  structure,
+  style = 'ball-and-stick',
+  hologram = false,
+  position = [0, 0, 0],
+  scale = 1
+}: MoleculeProps) {
+  const sticks = useMemo(() => bondSticks(structure), [structure])
+
+  if (style === 'wireframe') {
+    return (
+      <group position={position} scale={scale}>
+        {sticks.map((stick, index) => (
+          <Line
+            key={index}
+            points={[stick.from, stick.to]}
+            color={stick.color}
+            lineWidth={stick.faint ? 1 : 2}
+            dashed={stick.faint}
+            dashSize={0.1}
+            gapSize={0.08}
+          />
+        ))}
+      </group>
+    )
+  }
+
+  return (
+    <group position={position} scale={scale}>
+      {structure.atoms.map((atom, index) => {
+        const radius = vanDerWaalsRadius(atom.element) * (style === 'space-filling' ? 1 : BALL_SCALE)
+        const color = cpkColor(atom.element)
+        return (
+          <mesh key={index} position={atom.position}>
+            <sphereGeometry args={[radius, 32, 32]} />
+            <meshStandardMaterial
+              color={color}
+              emissive={hologram ? color : '#000000'}
+              emissiveIntensity={hologram ? 2 : 0}
+              transparent={hologram}
+              opacity={hologram ? 0.7 : 1}
+              roughness={0.35}
+              metalness={0.1}
+            />
+          </mesh>
+        )
+      })}
+      {style === 'ball-and-stick' && sticks.map((stick, index) => (
+        <StickMesh key={index} stick={stick} hologram={hologram} />
+      ))}
+    </group>
+  )
+}
@@ -0,0 +1,47 @@
+'use client'
+
+import { Chemical } from '@/types'
+import ChemicalBottle from './ChemicalBottle'
+
+// Back right corner of the bench, clear of the equipment grid
+const SHELF_POSITION: [number, number, number] = [4, -1.04, -3.2]
+const BOTTLE_SPACING = 0.6
+// Bottles per shelf; a full chemical store is stacked onto more shelves
+const SHELF_CAPACITY = 10
+const SHELF_HEIGHT = 1.2
+
+interface ReagentShelfProps {
+  chemicals: Chemical[]
+  onInspect: (chemical: Chemical) => void
+}
+
+// The experiment's reagent bottles, each labelled with its hazard pictograms.
+// Clicking a bottle opens its Safety Data Sheet.
+export default function ReagentShelf({ chemicals, onInspect }: ReagentShelfProps) {
+  const perShelf = Math.min(Math.max(chemicals.length, 1), SHELF_CAPACITY)
+  const width = perShelf * BOTTLE_SPACING + 0.4
+  const shelves = Array.from({ length: Math.max(Math.ceil(chemicals.length / SHELF_CAPACITY), 1) }, (_, shelf) =>
+    chemicals.slice(shelf * SHELF_CAPACITY, (shelf + 1) * SHELF_CAPACITY)
+  )
+
+  return (
+    <group position={SHELF_POSITION}>
+      {shelves.map((bottles, shelf) => (
+        <group key={shelf} position={[0, shelf * SHELF_HEIGHT, 0]}>
+          <mesh position={[0, -0.33, 0]} receiveShadow castShadow>
+            <boxGeometry args={[width, 0.06, 0.7]} />
+            <meshStandardMaterial color="#718096" roughness={0.5} metalness={0.2} />
+          </mesh>
+          {bottles.map((chemical, index) => (
+            <ChemicalBottle
+              key={chemical.id}
+              chemical={chemical}
+              position={[(index - (perShelf - 1) / 2) * BOTTLE_SPACING, 0, 0]}
+              onInspect={onInspect}
+            />
+          ))}
+        </group>
+      ))}
+    </group>
+  )
+}
@@ -0,0 +1,110 @@
+'use client'
+
+import { useMemo, useRef } from 'react'
+import { useFrame } from '@react-three/fiber'
+import * as THREE from 'three'
+import { IncidentType } from '@/types'
+
+const FLAME_COUNT = 7
+const FUME_COUNT = 24
+const FUME_HEIGHT = 2.5
+
+interface IncidentEffectProps {
+  type: IncidentType
+  position: [number, number, number]
+  // Fume color; chlorine is yellow-green
+  color?: string
+}
+
+// What a safety violation looks like on the bench: a small fire, a cloud of
+// fumes or a spreading spill around the vessel involved
+export default function IncidentEffect({ type, position, color = '#d4e157' }: IncidentEffectProps) {
+  const groupRef = useRef<THREE.Group>(null)
+  const lightRef = useRef<THREE.PointLight>(null)
+  const puddleRef = useRef<THREE.Mesh>(null)
+  const startTime = useRef<number | null>(null)
+
+  // Random offsets fixed per incident so the effect doesn't jump between renders
+  const seeds = useMemo(
+    () => Array.from({ length: Math.max(FLAME_COUNT, FUME_COUNT) }, () => ({
+      angle: Math.random() * Math.PI * 2,
+      radius: Math.random() * 0.35,
+      phase: Math.random() * Math.PI * 2,
+      speed: 0.5 + Math.random() * 0.5
+    })),
+    []
+  )
+
+  useFrame(state => {
+    const group = groupRef.current
+    if (!group) return
+    if (startTime.current === null) startTime.current = state.clock.elapsedTime
+    const age = state.clock.elapsedTime - startTime.current
+
+    switch (type) {
+      case 'fire':
+        group.children.forEach((flame, index) => {
+          if (!(flame instanceof THREE.Mesh)) return
+          const flicker = 0.8 + Math.sin(state.clock.elapsedTime * 12 + seeds[index].phase) * 0.2
+          flame.scale.set(flicker, flicker * (1 + Math.sin(state.clock.elapsedTime * 7 + index) * 0.3), flicker)
+        })
+        if (lightRef.current) {
+          lightRef.current.intensity = 2 + Math.sin(state.clock.elapsedTime * 15) * 0.6
+        }
+        break
+      case 'fumes':
+        group.children.forEach((puff, index) => {
+          const seed = seeds[index]
+          // Each puff rises, spreads and fades, then starts again from the vessel
+          const rise = ((age * seed.speed * 0.6 + seed.phase / (Math.PI * 2)) % 1)
+          const spread = seed.radius + rise * 0.8
+          puff.position.set(Math.cos(seed.angle) * spread, 0.6 + rise * FUME_HEIGHT, Math.sin(seed.angle) * spread)
+          puff.scale.setScalar(0.15 + rise * 0.45)
+          const material = (puff as THREE.Mesh).material as THREE.MeshStandardMaterial
+          material.opacity = 0.55 * (1 - rise)
+        })
+        break
+      case 'spill':
+        if (puddleRef.current) {
+          const spread = Math.min(0.3 + age * 0.6, 1.6)
+          puddleRef.current.scale.set(spread, spread * 0.8, 1)
+        }
+        break
+    }
+  })
+
+  return (
+    <group position={position}>
+      <group ref={groupRef}>
+        {type === 'fire' && Array.from({ length: FLAME_COUNT }, (_, index) => (
+          <mesh
+            key={index}
+            position={[
+              Math.cos(seeds[index].angle) * seeds[index].radius,
+              0.9,
+              Math.sin(seeds[index].angle) * seeds[index].radius
+            ]}
+          >
+            <coneGeometry args={[0.12, 0.5, 8]} />
+            <meshBasicMaterial color={index % 2 === 0 ? '#ff7a00' : '#ffd000'} transparent opacity={0.8} />
+          </mesh>
+        ))}
+        {type === 'fumes' && Array.from({ length: FUME_COUNT }, (_, index) => (
+          <mesh key={index}>
+            <sphereGeometry args={[1, 10, 10]} />
+            <meshStandardMaterial color={color} transparent opacity={0.5} depthWrite={false} />
+          </mesh>
+        ))}
+      </group>
+
+      {type === 'fire' && <pointLight ref={lightRef} position={[0, 1.2, 0]} color="#ff8a3d" distance={5} />}
+
+      {type === 'spill' && (
+        <mesh ref={puddleRef} position={[0, -0.73, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+          <circleGeometry args={[1, 32]} />
+          <meshPhysicalMaterial color="#bfdbfe" transparent opacity={0.6} roughness={0.05} transmission={0.4} />
+        </mesh>
+      )}
+    </group>
+  )
+}
@@ -11,6 +11,8 @@ interface LiquidSurfaceProps {
   color: string
   temperature: number
   isReacting?: boolean
+  // At the boiling point; bubbles rise hard and fast
+  boiling?: boolean
 }
 
 export default function LiquidSurface({
@@ -19,8 +21,10 @@ export default function LiquidSurface({
   height,
   color,
   temperature,
-  isReacting = false
+  isReacting = false,
+  boiling = false
 }: LiquidSurfaceProps) {
+  const bubbling = boiling || isReacting || temperature > 60
   const liquidRef = useRef<THREE.Mesh>(null)
   const surfaceRef = useRef<THREE.Mesh>(null)
   const bubblesRef = useRef<THREE.Group>(null)
@@ -70,15 +74,17 @@ export default function LiquidSurface({
       const time = state.clock.elapsedTime
       surfaceRef.current.rotation.z = Math.sin(time * 0.5) * 0.02
       
-      if (isReacting || temperature > 70) {
+      if (boiling) {
+        surfaceRef.current.position.y = height/2 + Math.sin(time * 20) * 0.02
+      } else if (isReacting || temperature > 70) {
         surfaceRef.current.position.y = position[1] + height/2 + Math.sin(time * 8) * 0.01
       }
     }
 
-    if (bubblesRef.current && (temperature > 60 || isReacting)) {
+    if (bubblesRef.current && bubbling) {
       bubblesRef.current.children.forEach((bubble, index) => {
         const time = state.clock.elapsedTime + index
-        bubble.position.y += 0.01
+        bubble.position.y += boiling ? 0.04 : 0.01
         bubble.scale.x = 1 + Math.sin(time * 3) * 0.1
         bubble.scale.z = 1 + Math.cos(time * 3) * 0.1
         
@@ -115,9 +121,9 @@ export default function LiquidSurface({
       </mesh>
 
       {/* Bubbles for reactions or heating */}
-      {(temperature > 60 || isReacting) && (
+      {bubbling && (
         <group ref={bubblesRef}>
-          {Array.from({ length: isReacting ? 8 : 4 }, (_, i) => (
+          {Array.from({ length: boiling ? 16 : isReacting ? 8 : 4 }, (_, i) => (
             <mesh
               key={i}
               position={[
@@ -139,9 +145,9 @@ export default function LiquidSurface({
       )}
 
       {/* Steam effect for very hot liquids */}
-      {temperature > 80 && (
+      {(boiling || temperature > 80) && (
         <group position={[0, height/2 + 0.1, 0]}>
-          {Array.from({ length: 3 }, (_, i) => (
+          {Array.from({ length: boiling ? 6 : 3 }, (_, i) => (
             <mesh
               key={i}
               position={[
@@ -4,12 +4,12 @@
 import { useRef, useMemo } from 'react'
 import { useFrame } from '@react-three/fiber'
 import * as THREE from 'three'
-import { Chemical } from '@/types'
 
 interface PouringEffectProps {
   fromPosition: THREE.Vector3
   toPosition: THREE.Vector3
-  chemical: Chemical
+  // Color of the liquid being poured
+  color: string
   isActive: boolean
   onComplete?: () => void
 }
@@ -17,7 +17,7 @@ interface PouringEffectProps {
 export default function PouringEffect({
   fromPosition,
   toPosition,
-  chemical,
+  color,
   isActive,
   onComplete
 }: PouringEffectProps) {
@@ -77,21 +77,21 @@ export default function PouringEffect({
   
   const streamMaterial = useMemo(() => {
     return new THREE.MeshPhongMaterial({
-      color: chemical.color,
+      color,
       transparent: true,
       opacity: 0.8,
       side: THREE.DoubleSide
     })
-  }, [chemical.color])
+  }, [color])
   
   const splashMaterial = useMemo(() => {
     return new THREE.PointsMaterial({
-      color: chemical.color,
+      color,
       size: 0.02,
       transparent: true,
       opacity: 0.6
     })
-  }, [chemical.color])
+  }, [color])
   
   useFrame((state, delta) => {
     if (!isActive) return
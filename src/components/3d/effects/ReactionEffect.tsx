@@ -34,6 +34,7 @@ export default function ReactionEffect({
   const colorChangeRef = useRef<THREE.Mesh>(null)
   const boilingRef = useRef<THREE.Group>(null)
   const smokeRef = useRef<THREE.Group>(null)
+  const crystalRef = useRef<THREE.Group>(null)
   const startTime = useRef(0)
 
   // Create reaction-specific particles
@@ -84,6 +85,11 @@ export default function ReactionEffect({
           velocities[i3 + 1] = Math.random() * 0.02 + 0.01 // Slow upward
           velocities[i3 + 2] = (Math.random() - 0.5) * 0.01
           break
+        case 'crystallization':
+          velocities[i3] = (Math.random() - 0.5) * 0.005
+          velocities[i3 + 1] = -Math.random() * 0.01 // Crystals drift down as they form
+          velocities[i3 + 2] = (Math.random() - 0.5) * 0.005
+          break
         default:
           velocities[i3] = (Math.random() - 0.5) * 0.02
           velocities[i3 + 1] = Math.random() * 0.03
@@ -125,6 +131,11 @@ export default function ReactionEffect({
           colors[i3 + 1] = 0.7 + Math.random() * 0.3
           colors[i3 + 2] = 0.7 + Math.random() * 0.3
           break
+        case 'crystallization':
+          colors[i3] = 0.9 + Math.random() * 0.1 // Glinting white
+          colors[i3 + 1] = 0.95 + Math.random() * 0.05
+          colors[i3 + 2] = 1.0
+          break
         case 'color-change':
           // Dynamic color change
           colors[i3] = Math.random()
@@ -232,6 +243,15 @@ export default function ReactionEffect({
             particleData.velocities[i3 + 1] += 0.0003; // Gentle buoyancy
             particleData.velocities[i3 + 2] *= 0.998;
             break;
+          case 'crystallization':
+            // Crystals settle on the bottom of the vessel and stay there
+            particleData.velocities[i3] *= 0.9;
+            particleData.velocities[i3 + 2] *= 0.9;
+            if (positions[i3 + 1] < position[1] - 0.3) {
+              particleData.velocities[i3 + 1] = 0;
+              positions[i3 + 1] = position[1] - 0.3;
+            }
+            break;
         }
 
         // Color changes over time for color-change reactions
@@ -254,7 +274,7 @@ export default function ReactionEffect({
     if (gasRef.current && (effectType === 'gas-evolution' || effectType === 'boiling')) {
       gasRef.current.children.forEach((bubble, index) => {
         const time = elapsed + index * 0.3; // Slower timing for more realistic bubbles
-        bubble.position.y += effectType === 'boiling' ? 0.04 : 0.02; // Rise upward
+        bubble.position.y += effectType === 'boiling' ? 0.04 : 0.02 * (0.5 + intensity); // Rise faster from a faster reaction
         bubble.scale.setScalar(1 + Math.sin(time * 2) * 0.1); // Subtle scale variation
 
         // More realistic bubble movement with slight horizontal drift
@@ -305,6 +325,15 @@ export default function ReactionEffect({
       })
     }
 
+    // Crystals grow from nothing as the solvent boils away
+    if (crystalRef.current && effectType === 'crystallization') {
+      crystalRef.current.children.forEach((crystal, index) => {
+        const growth = Math.min(1, progress * 3 - index * 0.05)
+        crystal.scale.setScalar(Math.max(0, growth) * 0.06)
+        crystal.rotation.y += 0.005
+      })
+    }
+
     // Smoke effect
     if (smokeRef.current && effectType === 'smoke') {
       smokeRef.current.children.forEach((particle, index) => {
@@ -376,10 +405,10 @@ export default function ReactionEffect({
         />
       </points>
 
-      {/* Gas evolution bubbles */}
+      {/* Gas evolution bubbles, as many as the reaction rate gives off */}
       {(currentEffectType === 'gas-evolution' || currentEffectType === 'boiling') && (
         <group ref={gasRef}>
-          {Array.from({ length: 20 }, (_, i) => (
+          {Array.from({ length: currentEffectType === 'boiling' ? 20 : Math.max(2, Math.round(20 * intensity)) }, (_, i) => (
             <mesh
               key={i}
               position={[
@@ -462,6 +491,34 @@ export default function ReactionEffect({
         </group>
       )}
 
+      {/* Crystals forming on the bottom */}
+      {currentEffectType === 'crystallization' && (
+        <group ref={crystalRef}>
+          {Array.from({ length: 16 }, (_, i) => (
+            <mesh
+              key={i}
+              position={[
+                (Math.random() - 0.5) * 0.8,
+                -0.3,
+                (Math.random() - 0.5) * 0.8
+              ]}
+              rotation={[Math.random() * Math.PI, Math.random() * Math.PI, 0]}
+              scale={[0, 0, 0]}
+            >
+              <octahedronGeometry args={[1, 0]} />
+              <meshPhysicalMaterial
+                color="#f8fbff"
+                transparent
+                opacity={0.85}
+                roughness={0.1}
+                transmission={0.5}
+                clearcoat={0.6}
+              />
+            </mesh>
+          ))}
+        </group>
+      )}
+
       {/* Smoke effect */}
       {currentEffectType === 'smoke' && (
         <group ref={smokeRef}>
@@ -0,0 +1,109 @@
+'use client'
+
+import { useRef } from 'react'
+import { useFrame } from '@react-three/fiber'
+import { Html } from '@react-three/drei'
+import * as THREE from 'three'
+
+const BASE_HEIGHT = 0.3
+const PAN_Y = BASE_HEIGHT / 2 + 0.08
+// A gram of solid piles up to about this high in the boat
+const PILE_SCALE = 0.12
+
+interface AnalyticalBalanceProps {
+  position: [number, number, number]
+  scale: [number, number, number]
+  // What the display shows, in grams
+  reading: number
+  // Solid in the weighing boat, in grams
+  sample: number
+  sampleColor?: string
+  isHovered?: boolean
+  onPointerOver?: () => void
+  onPointerOut?: () => void
+}
+
+// A milligram balance with a draft shield and a weighing boat on the pan
+export default function AnalyticalBalance({
+  position,
+  scale,
+  reading,
+  sample,
+  sampleColor = '#e5e7eb',
+  isHovered = false,
+  onPointerOver,
+  onPointerOut
+}: AnalyticalBalanceProps) {
+  const groupRef = useRef<THREE.Group>(null)
+  const pile = Math.cbrt(sample) * PILE_SCALE
+
+  useFrame(() => {
+    if (groupRef.current) {
+      const targetScale = isHovered ? 1.05 : 1
+      groupRef.current.scale.lerp(new THREE.Vector3(targetScale, targetScale, targetScale), 0.1)
+    }
+  })
+
+  return (
+    <group
+      ref={groupRef}
+      position={position}
+      scale={scale}
+      onPointerOver={onPointerOver}
+      onPointerOut={onPointerOut}
+    >
+      {/* Body */}
+      <mesh castShadow receiveShadow>
+        <boxGeometry args={[1.2, BASE_HEIGHT, 1.0]} />
+        <meshStandardMaterial color="#e5e7eb" roughness={0.4} metalness={0.1} />
+      </mesh>
+
+      {/* Display panel */}
+      <mesh position={[0, 0, 0.51]}>
+        <boxGeometry args={[0.6, 0.16, 0.02]} />
+        <meshStandardMaterial color="#0f172a" />
+      </mesh>
+
+      {/* Pan */}
+      <mesh position={[0, PAN_Y - 0.04, 0]} castShadow>
+        <cylinderGeometry args={[0.32, 0.32, 0.02, 32]} />
+        <meshStandardMaterial color="#cbd5e1" roughness={0.2} metalness={0.8} />
+      </mesh>
+
+      {/* Weighing boat */}
+      <mesh position={[0, PAN_Y, 0]} castShadow>
+        <boxGeometry args={[0.34, 0.05, 0.34]} />
+        <meshStandardMaterial color="#f8fafc" roughness={0.6} />
+      </mesh>
+
+      {/* Weighed solid */}
+      {sample > 0 && (
+        <mesh position={[0, PAN_Y + 0.025 + pile / 2, 0]}>
+          <coneGeometry args={[pile * 1.4, pile, 16]} />
+          <meshStandardMaterial color={sampleColor} roughness={0.9} />
+        </mesh>
+      )}
+
+      {/* Draft shield */}
+      <mesh position={[0, PAN_Y + 0.35, 0]}>
+        <boxGeometry args={[1.0, 0.7, 0.8]} />
+        <meshPhysicalMaterial
+          color="#ffffff"
+          transparent
+          opacity={0.15}
+          roughness={0.05}
+          transmission={0.9}
+          ior={1.52}
+          depthWrite={false}
+        />
+      </mesh>
+
+      {/* Readout */}
+      <Html position={[0, 0, 0.53]} center distanceFactor={8}>
+        <div className="bg-slate-900 text-green-300 font-mono px-2 py-0.5 rounded text-xs pointer-events-none">
+          {reading.toFixed(3)} g
+        </div>
+      </Html>
+    </group>
+  )
+}
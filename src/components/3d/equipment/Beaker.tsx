@@ -1,16 +1,24 @@
 'use client'
 
-import { useRef, useMemo, useState, useEffect } from 'react'
+import { useRef, useMemo } from 'react'
 import { useFrame } from '@react-three/fiber'
 import * as THREE from 'three'
-import { Chemical } from '@/types'
+import { ActiveReaction, Chemical, Solution } from '@/types'
+import { findChemical } from '@/data/chemicalData'
+import { fillFraction, solutionColor } from '@/lib/chemistry/solution'
+import { NEUTRAL_PH, solutionIndicatorColor, solutionPh } from '@/lib/chemistry/ph'
+import { undissolvedSolids } from '@/lib/chemistry/phase'
 
 interface BeakerProps {
   position: [number, number, number]
   scale: [number, number, number]
   capacity: number
   contents: Chemical[]
+  solution?: Solution
   temperature: number
+  boiling?: boolean
+  // Reactions in progress in this beaker, from the lab simulation
+  reactions?: ActiveReaction[]
   isHovered?: boolean
   onPointerOver?: () => void
   onPointerOut?: () => void
@@ -21,7 +29,10 @@ export default function Beaker({
   scale,
   capacity,
   contents,
+  solution,
   temperature,
+  boiling = false,
+  reactions = [],
   isHovered = false,
   onPointerOver,
   onPointerOut
@@ -29,96 +40,54 @@ export default function Beaker({
   const groupRef = useRef<THREE.Group>(null)
   const beakerRef = useRef<THREE.Mesh>(null)
   const liquidRef = useRef<THREE.Mesh>(null)
-  const [reactionProgress, setReactionProgress] = useState(0)
+  const bubblesRef = useRef<THREE.Group>(null)
+  const reactionProgress = reactions.find(reaction => reaction.reaction === 'zinc-copper-displacement')?.progress ?? 0
 
-  // Separate liquids and solids
+  // Separate liquids and solids; solids dissolve up to their solubility and
+  // the rest stays visible, including crystals left as the solvent boils off
   const { liquids, solids } = useMemo(() => {
+    const undissolved = solution ? undissolvedSolids(solution, findChemical) : null
     const liquidChemicals = contents.filter(chemical => chemical.properties.state === 'liquid')
-    const solidChemicals = contents.filter(chemical => chemical.properties.state === 'solid')
+    const solidChemicals = contents.filter(chemical =>
+      chemical.properties.state === 'solid' && (!undissolved || undissolved[chemical.id] > 0)
+    )
     return { liquids: liquidChemicals, solids: solidChemicals }
-  }, [contents])
-
-  // Reset reaction progress when contents change
-  useEffect(() => {
-    setReactionProgress(0)
-  }, [contents])
+  }, [contents, solution])
 
-  // Calculate liquid height based on liquid contents only
+  // Calculate liquid height from the measured volume when available
   const liquidHeight = useMemo(() => {
+    if (solution) return fillFraction(solution, capacity) * 1.8
     if (!liquids.length) return 0
     // Adjust calculation for the new beaker dimensions (2.0 units tall)
     const totalHeight = liquids.length * 0.4
     return Math.min(totalHeight, 1.8)
-  }, [liquids])
+  }, [liquids, solution, capacity])
 
-  // Check if displacement reaction is in progress
+  // Check if displacement reaction is in progress (or has deposited copper)
   const isDisplacementReaction = useMemo(() => {
     const hasZinc = solids.some(solid => solid.id === 'zn')
-    const hasCuSO4 = liquids.some(liquid => liquid.id === 'cuso4')
-    return hasZinc && hasCuSO4
-  }, [solids, liquids])
-
-  // Track neutralization progress for phenolphthalein
-  const [neutralizationProgress, setNeutralizationProgress] = useState(0)
-
-  // Reset neutralization progress when contents change significantly
-  useEffect(() => {
-    // Only reset if we don't have a pink solution or if we've lost the phenolphthalein
-    // Don't reset if we're already neutralized (progress = 1)
-    const hasPhenolphthalein = contents.some(c => c.id === 'phenolphthalein' && c.properties.state === 'liquid');
-    const hasNaOH = contents.some(c => c.id === 'naoh' && c.properties.state === 'liquid');
-    const hasPinkSolution = hasPhenolphthalein && hasNaOH;
-    
-    if (!hasPinkSolution && neutralizationProgress < 1) {
-      setNeutralizationProgress(0);
-    }
-  }, [contents, neutralizationProgress])
+    const hasCopper = contents.some(chemical => chemical.id === 'cuso4' || chemical.id === 'cu')
+    return hasZinc && hasCopper
+  }, [solids, contents])
 
-  // Simulate neutralization progress over time when both phenolphthalein and HCl are present
-  useEffect(() => {
-    let intervalId: NodeJS.Timeout | null = null
-    
-    const hasPhenolphthalein = liquids.some(c => c.id === 'phenolphthalein')
-    const hasHCl = liquids.some(c => c.id === 'hcl')
-    const hasNaOH = liquids.some(c => c.id === 'naoh')
-    
-    // Start neutralization when HCl is added to a pink solution (phenolphthalein + NaOH)
-    // This can happen when HCl is added to an existing pink solution
-    const hasPinkSolution = hasPhenolphthalein && hasNaOH;
-    
-    // Continue neutralization until complete, then stop
-    if (hasPinkSolution && hasHCl && neutralizationProgress < 1) {
-      intervalId = setInterval(() => {
-        setNeutralizationProgress(prev => Math.min(prev + 0.01, 1))
-      }, 100)
-    }
-    
-    return () => {
-      if (intervalId) clearInterval(intervalId)
-    }
-  }, [liquids, neutralizationProgress, contents])
+  // pH of the mixture drives any indicator color
+  const ph = useMemo(() => {
+    return solution ? solutionPh(solution, findChemical) : NEUTRAL_PH
+  }, [solution])
 
   // Check if precipitation reaction is in progress
-  const isPrecipitationReaction = useMemo(() => {
-    const hasAgNO3 = liquids.some(liquid => liquid.id === 'agno3')
-    const hasNaCl = liquids.some(liquid => liquid.id === 'nacl')
-    const hasAgCl = liquids.some(liquid => liquid.id === 'agcl')
-    const result = hasAgNO3 && hasNaCl && !hasAgCl
-    
-    console.log('🧪 Precipitation check:', { hasAgNO3, hasNaCl, hasAgCl, result })
-    
-    return result
-  }, [liquids])
+  const precipitation = reactions.find(reaction => reaction.reaction === 'silver-chloride-precipitation')
+  const isPrecipitationReaction = Boolean(precipitation && precipitation.progress < 1)
 
-  // Calculate precipitation progress
+  // Precipitate builds up as the reaction goes; AgCl poured in ready-made is all there
   const precipitationProgress = useMemo(() => {
-    if (!isPrecipitationReaction) return 0
-    return 1
-  }, [isPrecipitationReaction])
+    if (precipitation) return precipitation.progress
+    return contents.some(chemical => chemical.id === 'agcl') ? 1 : 0
+  }, [precipitation, contents])
 
   // Calculate liquid color with smooth transition for displacement reaction
   const liquidColor = useMemo(() => {
-    if (liquids.length === 0) {
+    if (liquids.length === 0 && !solution?.volume) {
       console.log('🧪 Beaker EMPTY - no liquid contents')
       return '#E6F3FF'
     }
@@ -127,20 +96,15 @@ export default function Beaker({
 
     const hasHCl = liquids.some(c => c.id === 'hcl')
     const hasNaOH = liquids.some(c => c.id === 'naoh')
-    // Make phenolphthalein detection extremely sensitive - even trace amounts trigger the indicator
-    // Phenolphthalein is a highly sensitive acid-base indicator that works at very low concentrations
-    // In real labs, only 2-3 drops are needed to see a color change
-    const hasPhenolphthalein = liquids.some(c => c.id === 'phenolphthalein')
-    const hasAgNO3 = liquids.some(c => c.id === 'agno3')
-    const hasNaCl = liquids.some(c => c.id === 'nacl')
-    const hasAgCl = liquids.some(c => c.id === 'agcl')
+    const hasAgNO3 = contents.some(c => c.id === 'agno3')
+    const hasNaCl = contents.some(c => c.id === 'nacl')
+    const hasAgCl = contents.some(c => c.id === 'agcl')
     const hasH2O2 = liquids.some(c => c.id === 'h2o2')
 
-    console.log('📊 Liquid contents check:', { hasHCl, hasNaOH, hasPhenolphthalein, hasAgNO3, hasNaCl, hasAgCl, hasH2O2 })
+    console.log('📊 Liquid contents check:', { hasHCl, hasNaOH, hasAgNO3, hasNaCl, hasAgCl, hasH2O2 })
 
     // Special case for precipitation reaction (AgNO3 + NaCl -> AgCl + NaNO3)
-    const isPrecipitationInProgress = hasAgNO3 && hasNaCl && !hasAgCl;
-    if (isPrecipitationInProgress) {
+    if (isPrecipitationReaction) {
       console.log('🔄 PRECIPITATION REACTION IN PROGRESS - Colorless solution with white precipitate')
       return '#F0F0F0' // Slightly off-white for cloudy appearance during precipitation
     }
@@ -157,35 +121,11 @@ export default function Beaker({
       return '#F8F8FF'
     }
 
-    if (hasPhenolphthalein) {
-      // Check if we have a pink solution (phenolphthalein + NaOH)
-      const hasPinkSolution = hasNaOH;
-      // Check if we're in a neutralization process (pink solution with added HCl)
-      // Continue neutralization even if HCl is no longer detected (fully neutralized)
-      const isNeutralizing = neutralizationProgress > 0 && neutralizationProgress < 1;
-      // Once neutralized, stay colorless
-      const isNeutralized = neutralizationProgress >= 1;
-      
-      if (hasPinkSolution && !isNeutralizing && !isNeutralized) {
-        console.log('🌸 LIGHT PINK - Phenolphthalein + Base')
-        return '#F8A8D8' // Light pink for base condition (fainter than before)
-      } else if (isNeutralizing) {
-        // Gradually fade from light pink to colorless during neutralization
-        const pinkColor = new THREE.Color('#F8A8D8'); // Light pink
-        const colorlessColor = new THREE.Color('#FFFFFF');
-        const interpolatedColor = new THREE.Color().lerpColors(
-          pinkColor,
-          colorlessColor,
-          neutralizationProgress
-        );
-        console.log(`🌸→⚪ LIGHT PINK TO COLORLESS - Neutralization progress: ${neutralizationProgress.toFixed(2)}`)
-        return `#${interpolatedColor.getHexString()}`;
-      } else if (isNeutralized || hasHCl || (!hasNaOH && !isNeutralizing)) {
-        console.log('⚪ COLORLESS - Phenolphthalein neutralized or in acid')
-        return '#FFFFFF' // Pure white for neutralized or acid conditions
-      }
-      console.log('⚪ COLORLESS - Phenolphthalein alone (neutral)')
-      return '#FFFFFF' // Pure white for neutral condition
+    // Indicators follow the computed pH, so overshooting the endpoint shows up in the color
+    const indicatorTint = solution ? solutionIndicatorColor(solution, findChemical, ph) : null
+    if (indicatorTint) {
+      console.log(`🌸 INDICATOR - pH ${ph.toFixed(2)} → ${indicatorTint}`)
+      return indicatorTint
     }
 
     if (hasHCl && !hasNaOH) {
@@ -216,6 +156,10 @@ export default function Beaker({
       return `#${interpolatedColor.getHexString()}`
     }
 
+    if (solution) {
+      return solutionColor(solution, findChemical)
+    }
+
     if (liquids.length === 1) {
       return liquids[0].color || '#E6F3FF'
     }
@@ -235,22 +179,7 @@ export default function Beaker({
     )
     
     return `#${avgColor.getHexString()}`
-  }, [liquids, isDisplacementReaction, reactionProgress, precipitationProgress, neutralizationProgress])
-
-  // Simulate reaction progress over time when displacement reaction is active
-  useEffect(() => {
-    let intervalId: NodeJS.Timeout | null = null
-    
-    if (isDisplacementReaction && reactionProgress < 1) {
-      intervalId = setInterval(() => {
-        setReactionProgress(prev => Math.min(prev + 0.008, 1))
-      }, 200)
-    }
-    
-    return () => {
-      if (intervalId) clearInterval(intervalId)
-    }
-  }, [isDisplacementReaction, reactionProgress])
+  }, [liquids, contents, solution, isDisplacementReaction, reactionProgress, isPrecipitationReaction, ph])
 
   useFrame((state) => {
     if (groupRef.current) {
@@ -266,10 +195,20 @@ export default function Beaker({
       const time = state.clock.elapsedTime
       liquidRef.current.position.y = -1.0 + liquidHeight / 2 + Math.sin(time * 2) * 0.015
       
+      // Ease toward the target color so stoichiometric changes fade in
       if (liquidRef.current.material && 'color' in liquidRef.current.material) {
-        (liquidRef.current.material as any).color.set(liquidColor)
+        (liquidRef.current.material as any).color.lerp(new THREE.Color(liquidColor), 0.05)
       }
     }
+
+    if (bubblesRef.current && boiling) {
+      bubblesRef.current.children.forEach(bubble => {
+        bubble.position.y += 0.03
+        if (bubble.position.y > -1.0 + liquidHeight) {
+          bubble.position.set((Math.random() - 0.5) * 1.0, -0.95, (Math.random() - 0.5) * 1.0)
+        }
+      })
+    }
   })
 
   return (
@@ -339,7 +278,7 @@ export default function Beaker({
       ))}
 
       {/* Liquid Content */}
-      {liquids.length > 0 && liquidHeight > 0 && (
+      {liquidHeight > 0 && (
         <mesh
           ref={liquidRef}
           position={[0, -1.0 + liquidHeight / 2, 0]}
@@ -348,7 +287,6 @@ export default function Beaker({
         >
           <cylinderGeometry args={[0.65, 0.65, liquidHeight, 32]} />
           <meshPhysicalMaterial
-            color={liquidColor}
             transparent
             opacity={isPrecipitationReaction ? 0.8 : 0.85} // Slightly less opaque during precipitation
             roughness={isPrecipitationReaction ? 0.35 : 0.1} // Higher roughness for cloudy appearance during precipitation
@@ -364,11 +302,30 @@ export default function Beaker({
         </mesh>
       )}
 
+      {/* Vapour bubbles rising through boiling contents */}
+      {boiling && liquidHeight > 0 && (
+        <group ref={bubblesRef}>
+          {Array.from({ length: 16 }).map((_, index) => (
+            <mesh
+              key={`bubble-${index}`}
+              position={[
+                (Math.random() - 0.5) * 1.0,
+                -0.95 + Math.random() * liquidHeight,
+                (Math.random() - 0.5) * 1.0
+              ]}
+            >
+              <sphereGeometry args={[0.03 + Math.random() * 0.03, 8, 8]} />
+              <meshBasicMaterial color="#ffffff" transparent opacity={0.5} />
+            </mesh>
+          ))}
+        </group>
+      )}
+
       {/* White cloudy AgCl precipitate layer at the bottom with floating streaks */}
-      {(liquids.some(liquid => liquid.id === 'agcl') || isPrecipitationReaction) && (
+      {(contents.some(chemical => chemical.id === 'agcl') || isPrecipitationReaction) && (
         <group position={[0, -1.0, 0]}>
           {/* Dense white layer at the bottom representing settled AgCl precipitate */}
-          <mesh position={[0, 0.05, 0]}>
+          <mesh position={[0, 0.075 * Math.max(precipitationProgress, 0.05), 0]} scale={[1, Math.max(precipitationProgress, 0.05), 1]}>
             <cylinderGeometry args={[0.65, 0.65, 0.15, 32]} />
             <meshPhysicalMaterial
               color="#F8F8F8" // Off-white for AgCl precipitate
@@ -490,8 +447,8 @@ export default function Beaker({
         </group>
       )}
 
-      {/* Catalyst visualization for H2O2 decomposition */}
-      {liquids.some(liquid => liquid.id === 'h2o2') && (
+      {/* Catalyst grains for H2O2 decomposition */}
+      {liquids.some(liquid => liquid.id === 'h2o2') && solids.some(solid => solid.id === 'mno2') && (
         <group position={[0, -0.9, 0]}>
           {Array.from({ length: 8 }).map((_, index) => (
             <mesh
@@ -1,18 +1,30 @@
 'use client'
 
-import { useRef } from 'react'
+import { useRef, useMemo } from 'react'
 import { useFrame } from '@react-three/fiber'
+import { Html } from '@react-three/drei'
 import * as THREE from 'three'
-import { Chemical } from '@/types'
+import { Chemical, Solution, StopcockState } from '@/types'
+import { findChemical } from '@/data/chemicalData'
+import { solutionColor } from '@/lib/chemistry/solution'
+import { readBurette } from '@/lib/chemistry/titration'
+
+// Graduated section of the tube: 0 mL at the top mark, full capacity at the bottom
+const SCALE_TOP = 1.0
+const SCALE_BOTTOM = -1.0
+const STOPCOCK_Y = -1.3
 
 interface BuretteProps {
   position: [number, number, number]
   scale: [number, number, number]
   capacity: number
   contents: Chemical[]
+  solution?: Solution
+  stopcock?: StopcockState
   isHovered?: boolean
   onPointerOver?: () => void
   onPointerOut?: () => void
+  onStopcockToggle?: () => void
 }
 
 export default function Burette({
@@ -20,17 +32,40 @@ export default function Burette({
   scale,
   capacity,
   contents,
+  solution,
+  stopcock = 'closed',
   isHovered = false,
   onPointerOver,
-  onPointerOut
+  onPointerOut,
+  onStopcockToggle
 }: BuretteProps) {
   const groupRef = useRef<THREE.Group>(null)
+  const dropRef = useRef<THREE.Mesh>(null)
+
+  const remaining = solution?.volume ?? 0
+  const dispensed = solution ? capacity - remaining : 0
+
+  // The liquid column runs from the meniscus down to the stopcock
+  const meniscusY = SCALE_TOP - (SCALE_TOP - SCALE_BOTTOM) * (dispensed / capacity)
+  const columnHeight = Math.max(meniscusY - STOPCOCK_Y, 0)
+
+  const liquidColor = useMemo(() => {
+    return solution ? solutionColor(solution, findChemical) : contents[0]?.color || '#E6F3FF'
+  }, [solution, contents])
 
-  useFrame(() => {
+  useFrame((state) => {
     if (groupRef.current) {
       const targetScale = isHovered ? 1.05 : 1
       groupRef.current.scale.lerp(new THREE.Vector3(targetScale, targetScale, targetScale), 0.1)
     }
+
+    // Falling drop below the tip while the stopcock is open
+    if (dropRef.current) {
+      const speed = stopcock === 'stream' ? 4 : 2
+      const t = (state.clock.elapsedTime * speed) % 1
+      dropRef.current.visible = stopcock !== 'closed' && remaining > 0
+      dropRef.current.position.y = -1.7 - t * 0.6
+    }
   })
 
   return (
@@ -54,10 +89,39 @@ export default function Burette({
         />
       </mesh>
 
-      {/* Stopcock */}
-      <mesh position={[0, -1.3, 0]} rotation={[0, 0, Math.PI / 2]} castShadow>
+      {/* Titrant */}
+      {remaining > 0 && columnHeight > 0 && (
+        <mesh position={[0, STOPCOCK_Y + columnHeight / 2, 0]}>
+          <cylinderGeometry args={[0.065, 0.065, columnHeight, 16]} />
+          <meshPhysicalMaterial
+            color={liquidColor}
+            transparent
+            opacity={0.7}
+            roughness={0.1}
+            transmission={0.5}
+            ior={1.33}
+          />
+        </mesh>
+      )}
+
+      {/* Stopcock - click to cycle closed / drop / stream */}
+      <mesh
+        position={[0, STOPCOCK_Y, 0]}
+        rotation={[0, stopcock === 'closed' ? 0 : stopcock === 'drop' ? Math.PI / 4 : Math.PI / 2, Math.PI / 2]}
+        castShadow
+        onClick={(event) => {
+          event.stopPropagation()
+          onStopcockToggle?.()
+        }}
+      >
         <cylinderGeometry args={[0.03, 0.03, 0.2, 8]} />
-        <meshStandardMaterial color="#718096" roughness={0.3} metalness={0.7} />
+        <meshStandardMaterial color={stopcock === 'closed' ? '#718096' : '#38a169'} roughness={0.3} metalness={0.7} />
+      </mesh>
+
+      {/* Drop */}
+      <mesh ref={dropRef} position={[0, -1.7, 0]} visible={false}>
+        <sphereGeometry args={[stopcock === 'stream' ? 0.025 : 0.018, 8, 8]} />
+        <meshPhysicalMaterial color={liquidColor} transparent opacity={0.8} />
       </mesh>
 
       {/* Tip */}
@@ -79,7 +143,7 @@ export default function Burette({
       </mesh>
 
       {/* Graduation Marks */}
-      {Array.from({ length: 25 }, (_, i) => (
+      {Array.from({ length: 26 }, (_, i) => (
         <mesh
           key={i}
           position={[0.07, 1 - i * 0.08, 0]}
@@ -90,6 +154,15 @@ export default function Burette({
         </mesh>
       ))}
 
+      {/* Reading */}
+      {solution && (
+        <Html position={[0.35, meniscusY, 0]} center distanceFactor={8}>
+          <div className="bg-slate-900/80 text-white px-2 py-1 rounded text-xs whitespace-nowrap pointer-events-none">
+            {readBurette(dispensed).toFixed(2)} mL
+          </div>
+        </Html>
+      )}
+
       {/* Hover Effect */}
       {isHovered && (
         <mesh scale={[1.2, 1.1, 1.2]}>
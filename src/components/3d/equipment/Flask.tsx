@@ -3,7 +3,9 @@
 import { useRef, useMemo } from 'react'
 import { useFrame } from '@react-three/fiber'
 import * as THREE from 'three'
-import { Chemical } from '@/types'
+import { Chemical, Solution } from '@/types'
+import { findChemical } from '@/data/chemicalData'
+import { fillFraction, solutionColor } from '@/lib/chemistry/solution'
 import LiquidSurface from '../effects/LiquidSurface'
 
 interface FlaskProps {
@@ -11,7 +13,9 @@ interface FlaskProps {
   scale: [number, number, number]
   capacity: number
   contents: Chemical[]
+  solution?: Solution
   temperature: number
+  boiling?: boolean
   isHovered?: boolean
   onPointerOver?: () => void
   onPointerOut?: () => void
@@ -22,7 +26,9 @@ export default function Flask({
   scale,
   capacity,
   contents,
+  solution,
   temperature,
+  boiling = false,
   isHovered = false,
   onPointerOver,
   onPointerOut
@@ -32,10 +38,11 @@ export default function Flask({
 
   // Calculate liquid level
   const liquidLevel = useMemo(() => {
+    if (solution) return Math.min(fillFraction(solution, capacity), 0.8) * 1.0
     if (!contents.length) return 0
     const totalVolume = contents.reduce((sum, chemical) => sum + (chemical.concentration || 0) * 100, 0)
     return Math.min(totalVolume / capacity, 0.8) * 1.0
-  }, [contents, capacity])
+  }, [contents, solution, capacity])
 
   useFrame((state) => {
     if (groupRef.current) {
@@ -115,9 +122,10 @@ export default function Flask({
             position={[0, -0.75 + liquidLevel / 2, 0]}
             radius={0.8 * (liquidLevel / 1.0 + 0.3)}
             height={liquidLevel}
-            color={contents[0].color}
+            color={solution ? solutionColor(solution, findChemical) : contents[0].color}
             temperature={temperature}
             isReacting={temperature > 50}
+            boiling={boiling}
           />
         </group>
       )}
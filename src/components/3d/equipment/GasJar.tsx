@@ -0,0 +1,133 @@
+'use client'
+
+import { useRef } from 'react'
+import { useFrame } from '@react-three/fiber'
+import { Html } from '@react-three/drei'
+import * as THREE from 'three'
+import { GasSample, GasTest, GasTestResult } from '@/types'
+import { GAS_TEST_NAMES, gasVolume } from '@/lib/chemistry/gas'
+
+const JAR_HEIGHT = 1.4
+const JAR_RADIUS = 0.35
+
+interface GasJarProps {
+  position: [number, number, number]
+  scale: [number, number, number]
+  capacity: number
+  gas?: GasSample
+  // The last test run on this jar
+  result?: GasTestResult | null
+  onTest?: (test: GasTest) => void
+  isHovered?: boolean
+  onPointerOver?: () => void
+  onPointerOut?: () => void
+}
+
+// A jar standing mouth-down in a trough of water. Gas bubbling in from the
+// delivery tube pushes the water out of the jar.
+export default function GasJar({
+  position,
+  scale,
+  capacity,
+  gas,
+  result,
+  onTest,
+  isHovered = false,
+  onPointerOver,
+  onPointerOut
+}: GasJarProps) {
+  const groupRef = useRef<THREE.Group>(null)
+  const waterRef = useRef<THREE.Mesh>(null)
+  const collected = Math.min(gasVolume(gas), capacity)
+  const waterFraction = 1 - collected / capacity
+
+  useFrame(() => {
+    if (groupRef.current) {
+      const targetScale = isHovered ? 1.05 : 1
+      groupRef.current.scale.lerp(new THREE.Vector3(targetScale, targetScale, targetScale), 0.1)
+    }
+
+    // Ease the water level down as gas collects
+    if (waterRef.current) {
+      const level = THREE.MathUtils.lerp(waterRef.current.scale.y, Math.max(waterFraction, 0.001), 0.05)
+      waterRef.current.scale.y = level
+      waterRef.current.position.y = -JAR_HEIGHT / 2 + (JAR_HEIGHT * level) / 2
+    }
+  })
+
+  return (
+    <group
+      ref={groupRef}
+      position={position}
+      scale={scale}
+      onPointerOver={onPointerOver}
+      onPointerOut={onPointerOut}
+    >
+      {/* Trough */}
+      <mesh position={[0, -JAR_HEIGHT / 2 - 0.05, 0]} receiveShadow>
+        <boxGeometry args={[1.4, 0.35, 1.0]} />
+        <meshPhysicalMaterial
+          color="#e2e8f0"
+          transparent
+          opacity={0.3}
+          roughness={0.2}
+          transmission={0.7}
+          ior={1.52}
+          depthWrite={false}
+        />
+      </mesh>
+      <mesh position={[0, -JAR_HEIGHT / 2 - 0.08, 0]}>
+        <boxGeometry args={[1.35, 0.25, 0.95]} />
+        <meshPhysicalMaterial color="#bfdbfe" transparent opacity={0.5} roughness={0.1} transmission={0.5} />
+      </mesh>
+
+      {/* Inverted jar */}
+      <mesh castShadow>
+        <cylinderGeometry args={[JAR_RADIUS, JAR_RADIUS, JAR_HEIGHT, 32, 1, true]} />
+        <meshPhysicalMaterial
+          color="#e2e8f0"
+          transparent
+          opacity={0.35}
+          roughness={0.15}
+          transmission={0.8}
+          ior={1.52}
+          side={THREE.DoubleSide}
+          depthWrite={false}
+        />
+      </mesh>
+      <mesh position={[0, JAR_HEIGHT / 2, 0]}>
+        <cylinderGeometry args={[JAR_RADIUS, JAR_RADIUS, 0.04, 32]} />
+        <meshPhysicalMaterial color="#e2e8f0" transparent opacity={0.35} roughness={0.15} transmission={0.8} />
+      </mesh>
+
+      {/* Water still held in the jar */}
+      <mesh ref={waterRef} position={[0, 0, 0]}>
+        <cylinderGeometry args={[JAR_RADIUS - 0.02, JAR_RADIUS - 0.02, JAR_HEIGHT, 32]} />
+        <meshPhysicalMaterial color="#bfdbfe" transparent opacity={0.55} roughness={0.1} transmission={0.5} ior={1.33} />
+      </mesh>
+
+      {/* Reading and tests */}
+      <Html position={[0, JAR_HEIGHT / 2 + 0.4, 0]} center distanceFactor={8}>
+        <div className="bg-black/80 text-white px-2 py-1 rounded text-xs space-y-1 w-48">
+          <div className="font-mono text-center">{collected.toFixed(0)} mL gas</div>
+          {onTest && (
+            <div className="flex gap-1">
+              {(Object.keys(GAS_TEST_NAMES) as GasTest[]).map(test => (
+                <button
+                  key={test}
+                  className="flex-1 rounded bg-white/10 hover:bg-white/20 px-1 py-0.5"
+                  onClick={() => onTest(test)}
+                >
+                  {GAS_TEST_NAMES[test]}
+                </button>
+              ))}
+            </div>
+          )}
+          {result && (
+            <div className={result.positive ? 'text-green-300' : 'text-white/70'}>{result.observation}</div>
+          )}
+        </div>
+      </Html>
+    </group>
+  )
+}
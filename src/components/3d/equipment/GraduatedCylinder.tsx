@@ -1,15 +1,23 @@
 'use client'
 
-import { useRef } from 'react'
+import { useMemo, useRef } from 'react'
 import { useFrame } from '@react-three/fiber'
 import * as THREE from 'three'
-import { Chemical } from '@/types'
+import { Chemical, Solution } from '@/types'
+import { findChemical } from '@/data/chemicalData'
+import { fillFraction, solutionColor } from '@/lib/chemistry/solution'
+
+const COLUMN_HEIGHT = 1.9
+const COLUMN_BOTTOM = -0.95
+// Marks drawn on the model; the measuring panel has the full scale
+const MARK_COUNT = 20
 
 interface GraduatedCylinderProps {
   position: [number, number, number]
   scale: [number, number, number]
   capacity: number
   contents: Chemical[]
+  solution?: Solution
   isHovered?: boolean
   onPointerOver?: () => void
   onPointerOut?: () => void
@@ -20,12 +28,16 @@ export default function GraduatedCylinder({
   scale,
   capacity,
   contents,
+  solution,
   isHovered = false,
   onPointerOver,
   onPointerOut
 }: GraduatedCylinderProps) {
   const groupRef = useRef<THREE.Group>(null)
 
+  const liquidHeight = solution ? fillFraction(solution, capacity) * COLUMN_HEIGHT : 0
+  const liquidColor = useMemo(() => (solution ? solutionColor(solution, findChemical) : '#E6F3FF'), [solution])
+
   useFrame(() => {
     if (groupRef.current) {
       const targetScale = isHovered ? 1.05 : 1
@@ -54,6 +66,22 @@ export default function GraduatedCylinder({
         />
       </mesh>
 
+      {/* Liquid column */}
+      {liquidHeight > 0 && (
+        <mesh position={[0, COLUMN_BOTTOM + liquidHeight / 2, 0]}>
+          <cylinderGeometry args={[0.185, 0.185, liquidHeight, 16]} />
+          <meshPhysicalMaterial color={liquidColor} transparent opacity={0.75} roughness={0.1} transmission={0.3} />
+        </mesh>
+      )}
+
+      {/* Meniscus: the liquid creeps up the glass around its concave surface */}
+      {liquidHeight > 0 && (
+        <mesh position={[0, COLUMN_BOTTOM + liquidHeight + 0.01, 0]} rotation={[Math.PI / 2, 0, 0]}>
+          <torusGeometry args={[0.17, 0.015, 8, 24]} />
+          <meshPhysicalMaterial color={liquidColor} transparent opacity={0.9} roughness={0.1} />
+        </mesh>
+      )}
+
       {/* Base */}
       <mesh position={[0, -1, 0]} castShadow>
         <cylinderGeometry args={[0.25, 0.25, 0.1, 16]} />
@@ -73,13 +101,13 @@ export default function GraduatedCylinder({
       </mesh>
 
       {/* Graduation Marks */}
-      {Array.from({ length: 10 }, (_, i) => (
+      {Array.from({ length: MARK_COUNT }, (_, i) => (
         <mesh
           key={i}
-          position={[0.19, -0.8 + i * 0.16, 0]}
+          position={[0.19, COLUMN_BOTTOM + ((i + 1) / MARK_COUNT) * COLUMN_HEIGHT, 0]}
           rotation={[0, 0, Math.PI / 2]}
         >
-          <cylinderGeometry args={[0.003, 0.003, i % 5 === 0 ? 0.06 : 0.03]} />
+          <cylinderGeometry args={[0.003, 0.003, (i + 1) % 5 === 0 ? 0.06 : 0.03]} />
           <meshStandardMaterial color="#2d3748" />
         </mesh>
       ))}
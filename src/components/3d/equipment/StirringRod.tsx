@@ -4,10 +4,17 @@ import { useRef } from 'react'
 import { useFrame } from '@react-three/fiber'
 import * as THREE from 'three'
 
+// How far the rod leans and how fast it circles while stirring
+const STIR_LEAN = 0.2 // rad
+const STIR_SPEED = 6 // rad/s
+
 interface StirringRodProps {
   position: [number, number, number]
   scale: [number, number, number]
   isHovered?: boolean
+  // Standing in a vessel and going round
+  stirring?: boolean
+  onToggleStirring?: () => void
   onPointerOver?: () => void
   onPointerOut?: () => void
 }
@@ -16,18 +23,29 @@ export default function StirringRod({
   position,
   scale,
   isHovered = false,
+  stirring = false,
+  onToggleStirring,
   onPointerOver,
   onPointerOut
 }: StirringRodProps) {
   const groupRef = useRef<THREE.Group>(null)
 
-  useFrame(() => {
+  useFrame((state) => {
     if (groupRef.current) {
       const targetScale = isHovered ? 1.1 : 1
       groupRef.current.scale.lerp(new THREE.Vector3(targetScale, targetScale, targetScale), 0.1)
+
+      // Lean over and sweep round the vessel, or stand up straight
+      const angle = state.clock.elapsedTime * STIR_SPEED
+      groupRef.current.rotation.x = stirring ? Math.sin(angle) * STIR_LEAN : 0
+      groupRef.current.rotation.z = stirring ? Math.cos(angle) * STIR_LEAN : 0
     }
   })
 
+  const handleClick = () => {
+    onToggleStirring?.()
+  }
+
   return (
     <group 
       ref={groupRef} 
@@ -35,6 +53,7 @@ export default function StirringRod({
       scale={scale}
       onPointerOver={onPointerOver}
       onPointerOut={onPointerOut}
+      onClick={handleClick}
     >
       {/* Main Rod */}
       <mesh castShadow>
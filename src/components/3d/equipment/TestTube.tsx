@@ -3,7 +3,9 @@
 import { useRef, useMemo } from 'react'
 import { useFrame } from '@react-three/fiber'
 import * as THREE from 'three'
-import { Chemical } from '@/types'
+import { Chemical, Solution } from '@/types'
+import { findChemical } from '@/data/chemicalData'
+import { fillFraction, solutionColor } from '@/lib/chemistry/solution'
 import LiquidSurface from '../effects/LiquidSurface'
 
 interface TestTubeProps {
@@ -11,7 +13,11 @@ interface TestTubeProps {
   scale: [number, number, number]
   capacity: number
   contents: Chemical[]
+  solution?: Solution
   temperature: number
+  boiling?: boolean
+  // Stoppered
+  sealed?: boolean
   isHovered?: boolean
   onPointerOver?: () => void
   onPointerOut?: () => void
@@ -22,7 +28,10 @@ export default function TestTube({
   scale,
   capacity,
   contents,
+  solution,
   temperature,
+  boiling = false,
+  sealed = false,
   isHovered = false,
   onPointerOver,
   onPointerOut
@@ -31,10 +40,11 @@ export default function TestTube({
   const tubeRef = useRef<THREE.Mesh>(null)
 
   const liquidLevel = useMemo(() => {
+    if (solution) return Math.min(fillFraction(solution, capacity), 0.8) * 1.2
     if (!contents.length) return 0
     const totalVolume = contents.reduce((sum, chemical) => sum + (chemical.concentration || 0) * 10, 0)
     return Math.min(totalVolume / capacity, 0.8) * 1.2
-  }, [contents, capacity])
+  }, [contents, solution, capacity])
 
   useFrame((state) => {
     if (groupRef.current) {
@@ -113,9 +123,10 @@ export default function TestTube({
           position={[0, -0.6 + liquidLevel / 2, 0]}
           radius={0.13}
           height={liquidLevel}
-          color={contents[0].color}
+          color={solution ? solutionColor(solution, findChemical) : contents[0].color}
           temperature={temperature}
           isReacting={temperature > 50}
+          boiling={boiling}
         />
       )}
 
@@ -134,8 +145,8 @@ export default function TestTube({
         </mesh>
       ))}
 
-      {/* Cork/Stopper (when needed) */}
-      {contents.length > 0 && (
+      {/* Cork/Stopper */}
+      {sealed && (
         <mesh
           position={[0, 1.1, 0]}
           castShadow
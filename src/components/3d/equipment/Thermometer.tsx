@@ -2,6 +2,7 @@
 
 import { useRef } from 'react'
 import { useFrame } from '@react-three/fiber'
+import { Html } from '@react-three/drei'
 import * as THREE from 'three'
 
 interface ThermometerProps {
@@ -113,6 +114,13 @@ export default function Thermometer({
         <meshStandardMaterial color="#4a5568" roughness={0.4} metalness={0.6} />
       </mesh>
 
+      {/* Reading */}
+      <Html position={[0, 1.1, 0]} center distanceFactor={8}>
+        <div className="bg-black/80 text-white px-2 py-1 rounded text-xs font-mono pointer-events-none">
+          {temperature.toFixed(1)}°C
+        </div>
+      </Html>
+
       {/* Hover Effect */}
       {isHovered && (
         <mesh scale={[1.5, 1.1, 1.5]}>
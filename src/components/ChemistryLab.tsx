@@ -8,6 +8,7 @@ import { Bottle } from "./lab/Bottle";
 import { HolographicMolecule } from "./lab/HolographicMolecule";
 import { FloatingScreen } from "./lab/FloatingScreen";
 import { Suspense } from "react";
+import { MOLECULES } from "@/data/molecules";
 import { Card } from "./ui/card";
 
 export const ChemistryLab = () => {
@@ -52,9 +53,9 @@ export const ChemistryLab = () => {
           <Bottle position={[2.5, 1.5, 1.5]} color="#06b6d4" fillLevel={0.7} />
 
           {/* Holographic Molecules */}
-          <HolographicMolecule position={[-3, 3, 0]} type="water" />
-          <HolographicMolecule position={[3, 3.5, 0]} type="co2" />
-          <HolographicMolecule position={[0, 3.2, 2]} type="ethanol" />
+          <HolographicMolecule position={[-3, 3, 0]} structure={MOLECULES.h2o} />
+          <HolographicMolecule position={[3, 3.5, 0]} structure={MOLECULES.co2} />
+          <HolographicMolecule position={[0, 3.2, 2]} structure={MOLECULES.ethanol} />
 
           {/* Floating Information Screens */}
           <FloatingScreen
@@ -1,10 +1,10 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Clock, BookOpen, TrendingUp } from "lucide-react";
+import { Clock, BookOpen, TrendingUp, AlertTriangle, Upload } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import neutralizationImg from "@/assets/experiments/neutralization-reaction.jpg";
 import precipitationImg from "@/assets/experiments/precipitation-reaction.jpg";
@@ -12,16 +12,8 @@ import displacementImg from "@/assets/experiments/displacement-reaction.jpg";
 import combustionImg from "@/assets/experiments/combustion-reaction.jpg";
 import decompositionImg from "@/assets/experiments/decomposition-reaction.jpg";
 import acidBaseImg from "@/assets/experiments/acid-base-indicator.jpg";
-
-interface Experiment {
-  id: string;
-  title: string;
-  description: string;
-  difficulty: string;
-  duration: string;
-  category: string;
-  thumbnail_url: string | null;
-}
+import { EXPERIMENT_REGISTRY, importExperiment } from "@/data/experimentLoader";
+import { readExperimentFile } from "@/data/experimentImporter";
 
 interface UserProgress {
   experiment_id: string;
@@ -36,10 +28,13 @@ const difficultyColors = {
 };
 
 export const CourseCatalog = () => {
-  const [experiments, setExperiments] = useState<Experiment[]>([]);
+  const [experimentRowIds, setExperimentRowIds] = useState<Map<string, string>>(new Map());
   const [userProgress, setUserProgress] = useState<Map<string, UserProgress>>(new Map());
   const [loading, setLoading] = useState(true);
   const [selectedCategory, setSelectedCategory] = useState<string>("all");
+  const [experiments, setExperiments] = useState(EXPERIMENT_REGISTRY.experiments);
+  const [importErrors, setImportErrors] = useState<{ fileName: string; errors: string[] } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const navigate = useNavigate();
   const { toast } = useToast();
 
@@ -48,19 +43,24 @@ export const CourseCatalog = () => {
     fetchUserProgress();
   }, []);
 
+  // Map slugs to experiments table rows so progress can be joined on
   const fetchExperiments = async () => {
     try {
       const { data, error } = await supabase
         .from("experiments")
-        .select("*")
-        .order("created_at", { ascending: false });
+        .select("id, slug");
 
       if (error) throw error;
-      setExperiments(data || []);
+
+      const rowIds = new Map<string, string>();
+      data?.forEach((row) => {
+        rowIds.set(row.slug, row.id);
+      });
+      setExperimentRowIds(rowIds);
     } catch (error: any) {
       toast({
         title: "Error",
-        description: "Failed to load experiments",
+        description: "Failed to load progress",
         variant: "destructive",
       });
     } finally {
@@ -86,26 +86,47 @@ export const CourseCatalog = () => {
     }
   };
 
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    const { experiment, errors } = await readExperimentFile(file);
+    const importProblems = experiment ? importExperiment(experiment) : errors;
+    if (importProblems.length > 0) {
+      setImportErrors({ fileName: file.name, errors: importProblems });
+      return;
+    }
+
+    setImportErrors(null);
+    setExperiments(EXPERIMENT_REGISTRY.experiments);
+    toast({
+      title: "Experiment imported",
+      description: `"${experiment.title}" has been added to the catalog`,
+    });
+  };
+
+  const brokenSlugs = [...new Set(EXPERIMENT_REGISTRY.issues.map((issue) => issue.slug))];
   const categories = ["all", ...new Set(experiments.map((exp) => exp.category))];
 
   const filteredExperiments = selectedCategory === "all"
     ? experiments
     : experiments.filter((exp) => exp.category === selectedCategory);
 
-  const handleStartExperiment = (experimentId: string) => {
-    navigate(`/lab/experiment/${experimentId}`);
+  const handleStartExperiment = (slug: string) => {
+    navigate(`/lab/experiment/${slug}`);
   };
 
-  const getExperimentImage = (title: string) => {
+  const getExperimentImage = (slug: string) => {
     const imageMap: Record<string, string> = {
-      'Neutralization Reaction': neutralizationImg,
-      'Precipitation Reaction': precipitationImg,
-      'Displacement Reaction': displacementImg,
-      'Combustion Reaction': combustionImg,
-      'Decomposition Reaction': decompositionImg,
-      'Acid-Base Indicator Reaction': acidBaseImg,
+      'neutralization-reaction': neutralizationImg,
+      'precipitation-reaction': precipitationImg,
+      'displacement-reaction': displacementImg,
+      'combustion-reaction': combustionImg,
+      'decomposition-reaction': decompositionImg,
+      'acid-base-indicator': acidBaseImg,
     };
-    return imageMap[title];
+    return imageMap[slug];
   };
 
   if (loading) {
@@ -124,8 +145,37 @@ export const CourseCatalog = () => {
         <p className="text-xl text-muted-foreground max-w-2xl mx-auto">
           Explore interactive 3D experiments across chemistry, physics, and biology
         </p>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.yaml,.yml"
+          className="hidden"
+          onChange={handleImport}
+        />
+        <Button
+          variant="outline"
+          className="glass-panel"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <Upload className="w-4 h-4 mr-2" />
+          Import experiment
+        </Button>
       </div>
 
+      {importErrors && (
+        <div className="glass-panel border border-destructive/50 rounded-lg p-4 space-y-2">
+          <div className="flex items-center gap-2 text-destructive font-semibold">
+            <AlertTriangle className="w-4 h-4" />
+            {importErrors.fileName} was not imported
+          </div>
+          <ul className="list-disc list-inside text-sm text-foreground/70 font-mono space-y-1">
+            {importErrors.errors.map((error, index) => (
+              <li key={index}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Category Filter */}
       <div className="flex flex-wrap gap-3 justify-center">
         {categories.map((category) => (
@@ -143,7 +193,7 @@ export const CourseCatalog = () => {
       {/* Experiments Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {filteredExperiments.map((experiment) => {
-          const progress = userProgress.get(experiment.id);
+          const progress = userProgress.get(experimentRowIds.get(experiment.id));
           
           return (
             <Card
@@ -152,9 +202,9 @@ export const CourseCatalog = () => {
             >
               {/* Thumbnail */}
               <div className="relative h-48 overflow-hidden bg-gradient-to-br from-primary/20 to-secondary/20">
-                {getExperimentImage(experiment.title) ? (
+                {getExperimentImage(experiment.id) ? (
                   <img
-                    src={getExperimentImage(experiment.title)}
+                    src={getExperimentImage(experiment.id)}
                     alt={experiment.title}
                     className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-300"
                   />
@@ -200,7 +250,7 @@ export const CourseCatalog = () => {
               <CardFooter className="flex items-center justify-between">
                 <div className="flex items-center gap-2 text-sm text-muted-foreground">
                   <Clock className="w-4 h-4" />
-                  <span>{experiment.duration}</span>
+                  <span>{experiment.duration} min</span>
                 </div>
                 <Button
                   onClick={() => handleStartExperiment(experiment.id)}
@@ -214,6 +264,24 @@ export const CourseCatalog = () => {
         })}
       </div>
 
+      {brokenSlugs.length > 0 && (
+        <div className="glass-panel border border-destructive/50 rounded-lg p-4 space-y-2">
+          <div className="flex items-center gap-2 text-destructive font-semibold">
+            <AlertTriangle className="w-4 h-4" />
+            {brokenSlugs.length} experiment(s) could not be loaded
+          </div>
+          {brokenSlugs.map((slug) => (
+            <div key={slug} className="text-sm text-foreground/70">
+              <span className="font-mono">{slug}</span>:{" "}
+              {EXPERIMENT_REGISTRY.issues
+                .filter((issue) => issue.slug === slug)
+                .map((issue) => issue.message)
+                .join("; ")}
+            </div>
+          ))}
+        </div>
+      )}
+
       {filteredExperiments.length === 0 && (
         <div className="text-center py-12">
           <p className="text-xl text-muted-foreground">No experiments found in this category</p>
@@ -8,47 +8,111 @@ import { Flask } from "./lab/Flask";
 import { TestTube } from "./lab/TestTube";
 import { BunsenBurner } from "./lab/BunsenBurner";
 import { ParticleEffect } from "./lab/ParticleEffect";
-import { Suspense, useState, useCallback } from "react";
-import { ExperimentMaterials } from "@/config/experimentMaterials";
+import { SimulationClock } from "./lab/SimulationClock";
+import { Suspense, useState, useCallback, useEffect, useMemo } from "react";
+import type { Experiment, ReactionEffectType } from "@/types";
+import { getEquipmentLayout } from "@/lib/equipmentLayout";
+import { createLabSimulation } from "@/lib/simulation";
+import { defaultAmount, fillFraction, solutionColor } from "@/lib/chemistry/solution";
+import { experimentReagents } from "@/lib/safety";
+import { experimentChemicalLookup } from "@/data/chemicalData";
+import { experimentRules } from "@/data/reactionLogic";
+import { useLabSimulation } from "@/hooks/useLabSimulation";
 import { useToast } from "@/hooks/use-toast";
 import { ExperimentSidebar } from "./ExperimentSidebar";
 
+// Equipment this bench can draw and let the student put out
+const BENCH_VESSELS = ["beaker", "flask", "test-tube"];
+// Color of an empty vessel
+const EMPTY_COLOR = "#00ffff";
+
+// Particles shown for each kind of reaction effect
+const PARTICLES: Partial<Record<ReactionEffectType, "gas" | "flame" | "precipitate" | "smoke">> = {
+  "gas-evolution": "gas",
+  "boiling": "gas",
+  "precipitation": "precipitate",
+  "heat-release": "flame",
+  "smoke": "smoke",
+};
+
 interface EnhancedLabProps {
-  experimentData: ExperimentMaterials;
+  experiment: Experiment;
 }
 
+// Where a vessel from the layout was put on the table. What it holds lives
+// in the simulation.
 interface PlacedEquipment {
   id: string;
-  type: "beaker" | "flask" | "test-tube" | "burner";
+  type: "beaker" | "flask" | "test-tube";
+  capacity: number;
   position: [number, number, number];
-  color: string;
-  fillLevel: number;
-  chemicalIds: string[];
 }
 
-export const EnhancedLab = ({ experimentData }: EnhancedLabProps) => {
+export const EnhancedLab = ({ experiment }: EnhancedLabProps) => {
   const { toast } = useToast();
   const [placedEquipment, setPlacedEquipment] = useState<PlacedEquipment[]>([]);
   const [completedSteps, setCompletedSteps] = useState<number[]>([]);
   const [addedChemicals, setAddedChemicals] = useState<string[]>([]);
-  const [burnerLit, setBurnerLit] = useState(false);
-  const [flameIntensity, setFlameIntensity] = useState(1);
   const [activeReaction, setActiveReaction] = useState<{
     position: [number, number, number];
-    effect: string;
+    effect: "gas" | "flame" | "precipitate" | "smoke";
     color: string;
   } | null>(null);
 
-  const isCombustionExperiment = experimentData.experimentId === "combustion";
+  // Chemistry runs in the same simulation as the 3D lab
+  const layout = useMemo(() => getEquipmentLayout(experiment), [experiment]);
+  const lookupChemical = useMemo(() => experimentChemicalLookup(experiment.chemicals), [experiment]);
+  const simulation = useMemo(
+    () => createLabSimulation(layout, lookupChemical, experimentRules(experiment.reactions)),
+    [layout, lookupChemical, experiment]
+  );
+  const solutions = useLabSimulation(simulation, (state) => state.solutions);
+  const burners = useLabSimulation(simulation, (state) => state.burners);
+  const reagents = useMemo(
+    () => experimentReagents(experiment).map(lookupChemical).filter(Boolean),
+    [experiment, lookupChemical]
+  );
+  const vessels = layout.filter((item) => BENCH_VESSELS.includes(item.type));
+  const burner = layout.find((item) => item.type === "bunsen-burner");
+
+  const completeStep = useCallback((stepIndex: number) => {
+    if (stepIndex < 0) return;
+    setCompletedSteps((prev) => (prev.includes(stepIndex) ? prev : [...prev, stepIndex]));
+  }, []);
+
+  // Show the reactions the simulation resolves
+  useEffect(() => simulation.subscribeEvents((event) => {
+    if (event.type !== "reaction-fired") return;
+    const rule = simulation.rules.find((candidate) => candidate.id === event.reaction);
+    const vessel = placedEquipment.find((eq) => eq.id === event.vessel);
+    const effect = rule?.effects.find((candidate) => PARTICLES[candidate.type]);
+    if (vessel && effect) {
+      setActiveReaction({
+        position: [vessel.position[0], vessel.position[1] + 0.5, vessel.position[2]],
+        effect: PARTICLES[effect.type],
+        color: effect.color || lookupChemical(rule.products[0])?.color || "#ffffff",
+      });
+      setTimeout(() => setActiveReaction(null), 5000);
+    }
+
+    toast({
+      title: "Reaction Occurring! 🧪",
+      description: event.outcome,
+    });
+
+    completeStep(experiment.steps.findIndex((step) =>
+      step.chemicals.some((id) => rule?.reactants.includes(id))
+    ));
+  }), [simulation, placedEquipment, lookupChemical, experiment, toast, completeStep]);
 
   const handleChemicalClick = useCallback(
     (chemicalId: string) => {
-      const chemical = experimentData.chemicals.find((c) => c.id === chemicalId);
+      const chemical = lookupChemical(chemicalId);
       if (!chemical) return;
 
       // Find main beaker/container
       const mainContainer = placedEquipment.find((eq) => eq.type === "beaker" || eq.type === "flask");
-      
+
       if (!mainContainer) {
         toast({
           title: "No Container",
@@ -58,129 +122,62 @@ export const EnhancedLab = ({ experimentData }: EnhancedLabProps) => {
         return;
       }
 
-      // Special handling for combustion experiment
-      if (isCombustionExperiment && burnerLit) {
-        if (chemicalId === "ethanol") {
-          setFlameIntensity((prev) => Math.min(prev + 0.5, 3));
-          toast({
-            title: "🔥 Flame Intensified!",
-            description: "Ethanol acts as fuel, increasing combustion",
-          });
-          setActiveReaction({
-            position: [0, 2, 0],
-            effect: "flame",
-            color: "#ff8800",
-          });
-          setTimeout(() => {
-            setFlameIntensity((prev) => Math.max(prev - 0.3, 1));
-            setActiveReaction(null);
-          }, 3000);
-        } else if (chemicalId === "water") {
-          setFlameIntensity((prev) => Math.max(prev - 0.7, 0.2));
-          toast({
-            title: "💧 Flame Reduced",
-            description: "Water cools and suppresses combustion",
-          });
-          if (flameIntensity < 0.5) {
-            setBurnerLit(false);
-          }
-        }
-      }
-
-      // Update container
-      setPlacedEquipment((prev) =>
-        prev.map((eq) =>
-          eq.id === mainContainer.id
-            ? {
-                ...eq,
-                fillLevel: Math.min(eq.fillLevel + 0.2, 0.8),
-                color: chemical.color,
-                chemicalIds: [...eq.chemicalIds, chemicalId],
-              }
-            : eq
-        )
-      );
-
       setAddedChemicals((prev) => [...prev, chemicalId]);
-
-      // Check for reactions
-      const updatedChemicals = [...mainContainer.chemicalIds, chemicalId];
-      checkForReaction(updatedChemicals, mainContainer.position);
-
       toast({
         title: `Added ${chemical.name}`,
         description: `${chemical.formula} added to container`,
       });
+
+      // The simulation mixes it in and resolves any reaction
+      simulation.dispatch({ type: "chemical-added", vessel: mainContainer.id, chemical: chemicalId, amount: defaultAmount(chemical) });
     },
-    [experimentData, placedEquipment, toast, isCombustionExperiment, burnerLit, flameIntensity]
+    [lookupChemical, placedEquipment, toast, simulation]
   );
 
   const handleEquipmentClick = useCallback(
-    (equipmentType: string) => {
+    (equipmentId: string) => {
+      const item = vessels.find((vessel) => vessel.id === equipmentId);
+      if (!item || placedEquipment.some((eq) => eq.id === equipmentId)) return;
+
       const newPosition: [number, number, number] = [
         -1 + placedEquipment.length * 1.5,
         1.5,
         0,
       ];
 
-      const newEquipment: PlacedEquipment = {
-        id: `${equipmentType}-${Date.now()}`,
-        type: equipmentType as any,
-        position: newPosition,
-        color: "#00ffff",
-        fillLevel: 0,
-        chemicalIds: [],
-      };
-
-      setPlacedEquipment((prev) => [...prev, newEquipment]);
+      setPlacedEquipment((prev) => [
+        ...prev,
+        {
+          id: item.id,
+          type: item.type as PlacedEquipment["type"],
+          capacity: item.capacity,
+          position: newPosition,
+        },
+      ]);
       toast({
         title: "Equipment Added",
-        description: `${equipmentType} placed on table`,
+        description: `${item.name} placed on table`,
       });
     },
-    [placedEquipment, toast]
+    [vessels, placedEquipment, toast]
   );
 
   const handleLightBurner = useCallback(() => {
-    setBurnerLit(true);
-    setFlameIntensity(1);
+    if (!burner || burners[burner.id]) return;
+    simulation.dispatch({ type: "burner-toggled", burner: burner.id, lit: true });
     toast({
       title: "🔥 Burner Lit!",
-      description: "Add ethanol to increase the flame or water to extinguish it",
+      description: "The burner is now heating the bench",
     });
-    if (!completedSteps.includes(0)) {
-      setCompletedSteps([0]);
-    }
-  }, [toast, completedSteps]);
-
-  const checkForReaction = (chemicalIds: string[], position: [number, number, number]) => {
-    experimentData.reactions.forEach((reaction) => {
-      const hasAllReactants = reaction.reactants.every((reactant) =>
-        chemicalIds.includes(reactant)
-      );
+    completeStep(experiment.steps.findIndex((step) => step.equipment.includes("bunsen-burner")));
+  }, [burner, burners, simulation, toast, experiment, completeStep]);
 
-      if (hasAllReactants) {
-        setActiveReaction({
-          position: [position[0], position[1] + 0.5, position[2]],
-          effect: reaction.product.effect,
-          color: reaction.product.color,
-        });
-
-        toast({
-          title: "Reaction Occurring! 🧪",
-          description: `Produced: ${reaction.product.name}`,
-        });
-
-        const stepIndex = experimentData.steps.findIndex((step) =>
-          reaction.reactants.some((r) => step.toLowerCase().includes(r.toLowerCase()))
-        );
-        if (stepIndex >= 0 && !completedSteps.includes(stepIndex)) {
-          setCompletedSteps((prev) => [...prev, stepIndex]);
-        }
-
-        setTimeout(() => setActiveReaction(null), 5000);
-      }
-    });
+  // What a placed vessel looks like, from what the simulation says it holds
+  const liquid = (equipment: PlacedEquipment) => {
+    const solution = solutions[equipment.id];
+    return solution && Object.keys(solution.species).length > 0
+      ? { color: solutionColor(solution, lookupChemical), fillLevel: fillFraction(solution, equipment.capacity) }
+      : { color: EMPTY_COLOR, fillLevel: 0 };
   };
 
   return (
@@ -211,10 +208,11 @@ export const EnhancedLab = ({ experimentData }: EnhancedLabProps) => {
               castShadow
             />
 
+            <SimulationClock simulation={simulation} />
             <LabTable />
 
             {/* Chemicals on shelf */}
-            {experimentData.chemicals.map((chemical, index) => (
+            {reagents.map((chemical, index) => (
               <ClickableChemical
                 key={chemical.id}
                 id={chemical.id}
@@ -227,11 +225,11 @@ export const EnhancedLab = ({ experimentData }: EnhancedLabProps) => {
             ))}
 
             {/* Available equipment on shelf */}
-            {experimentData.equipment.filter(eq => eq.type !== "burner").map((equipment, index) => (
+            {vessels.map((item, index) => (
               <ClickableEquipment
-                key={equipment.id}
-                id={equipment.id}
-                type={equipment.type as any}
+                key={item.id}
+                id={item.id}
+                type={item.type as PlacedEquipment["type"]}
                 position={[4, 1.5 + index * 0.7, -2]}
                 onAdd={handleEquipmentClick}
               />
@@ -244,8 +242,7 @@ export const EnhancedLab = ({ experimentData }: EnhancedLabProps) => {
                   <Beaker
                     key={equipment.id}
                     position={equipment.position}
-                    color={equipment.color}
-                    fillLevel={equipment.fillLevel}
+                    {...liquid(equipment)}
                   />
                 );
               }
@@ -254,8 +251,7 @@ export const EnhancedLab = ({ experimentData }: EnhancedLabProps) => {
                   <Flask
                     key={equipment.id}
                     position={equipment.position}
-                    color={equipment.color}
-                    fillLevel={equipment.fillLevel}
+                    {...liquid(equipment)}
                   />
                 );
               }
@@ -264,20 +260,19 @@ export const EnhancedLab = ({ experimentData }: EnhancedLabProps) => {
                   <TestTube
                     key={equipment.id}
                     position={equipment.position}
-                    color={equipment.color}
-                    fillLevel={equipment.fillLevel}
+                    {...liquid(equipment)}
                   />
                 );
               }
               return null;
             })}
 
-            {/* Burner for combustion experiment */}
-            {isCombustionExperiment && (
+            {/* Burner, for experiments that heat something */}
+            {burner && (
               <BunsenBurner
                 position={[0, 1.5, 0]}
-                isLit={burnerLit}
-                flameIntensity={flameIntensity}
+                isLit={burners[burner.id]}
+                flameIntensity={1}
                 onLight={handleLightBurner}
               />
             )}
@@ -286,7 +281,7 @@ export const EnhancedLab = ({ experimentData }: EnhancedLabProps) => {
             {activeReaction && (
               <ParticleEffect
                 position={activeReaction.position}
-                type={activeReaction.effect as any}
+                type={activeReaction.effect}
                 color={activeReaction.color}
                 active={true}
               />
@@ -316,7 +311,9 @@ export const EnhancedLab = ({ experimentData }: EnhancedLabProps) => {
       {/* Sidebar */}
       <div className="h-full border-l border-border/50">
         <ExperimentSidebar
-          experimentData={experimentData}
+          experiment={experiment}
+          reagents={reagents}
+          equipment={vessels}
           completedSteps={completedSteps}
           onChemicalClick={handleChemicalClick}
           onEquipmentClick={handleEquipmentClick}
@@ -1,39 +1,59 @@
 'use client'
 
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
 import { motion } from 'framer-motion'
 import { 
   X, 
   CheckCircle, 
   Circle, 
+  XCircle,
   Clock, 
   Thermometer, 
   AlertTriangle,
   Eye,
   Target,
   Book,
-  Play
+  Play,
+  Shield
 } from 'lucide-react'
-import { Experiment, Chemical } from '@/types'
-import { CHEMICALS } from '@/data/chemicalData'
+import { Experiment, Chemical, ProcedureState } from '@/types'
+import { CHEMICALS, experimentChemicalLookup } from '@/data/chemicalData'
+import { HAZARD_STATEMENTS, PPE_NAMES } from '@/data/ghs'
+import { describeCriterion, stepCriteria } from '@/lib/procedure'
+import { safetySummary } from '@/lib/safety'
+import { chemicalMolarMass } from '@/lib/chemistry/formula'
+import { reactionEquation } from '@/lib/chemistry/equation'
+import GhsPictogram from './GhsPictogram'
 
 interface ExperimentPanelProps {
   experiment: Experiment
   currentStep: number
-  onStepComplete: (stepIndex: number) => void
+  procedure: ProcedureState
+  onObserve: (stepIndex: number) => void
   onClose: () => void
   onChemicalAdd?: (chemical: Chemical) => void
+  onInspectChemical?: (chemical: Chemical) => void
 }
 
 export default function ExperimentPanel({
   experiment,
   currentStep,
-  onStepComplete,
+  procedure,
+  onObserve,
   onClose,
-  onChemicalAdd
+  onChemicalAdd,
+  onInspectChemical
 }: ExperimentPanelProps) {
   const [activeTab, setActiveTab] = useState<'steps' | 'materials' | 'safety' | 'theory' | 'chemicals'>('steps')
   const [isRunning, setIsRunning] = useState(false)
+  const lookupChemical = useMemo(() => experimentChemicalLookup(experiment.chemicals), [experiment.chemicals])
+  const safety = useMemo(() => safetySummary(experiment, lookupChemical), [experiment, lookupChemical])
+  // Without steps there is no procedure to follow and every chemical is on offer
+  const freePlay = experiment.steps.length === 0
+
+  // Most recent feedback about a step, if any
+  const stepFeedback = (stepIndex: number) =>
+    [...procedure.feedback].reverse().find(feedback => feedback.step === stepIndex)
   const [selectedChemical, setSelectedChemical] = useState<string | null>(null)
 
   const getDifficultyColor = (difficulty: string) => {
@@ -79,7 +99,7 @@ export default function ExperimentPanel({
               </div>
               <div className="flex items-center space-x-1">
                 <Target size={14} />
-                <span>Step {currentStep + 1}/{experiment.steps.length}</span>
+                <span>{freePlay ? 'Free play' : `Step ${currentStep + 1}/${experiment.steps.length}`}</span>
               </div>
             </div>
           </div>
@@ -155,6 +175,12 @@ export default function ExperimentPanel({
       <div className="flex-1 overflow-y-auto">
         {activeTab === 'steps' && (
           <div className="p-4 space-y-4">
+            {freePlay && (
+              <p className="text-slate-400 text-sm">
+                There are no steps to follow. Add chemicals from the Chemicals tab or the shelf and every mixture is
+                resolved against the reaction rules.
+              </p>
+            )}
             {experiment.steps.map((step, index) => (
               <motion.div
                 key={step.id}
@@ -170,16 +196,15 @@ export default function ExperimentPanel({
                 }`}
               >
                 <div className="flex items-start space-x-3">
-                  <button
-                    onClick={() => onStepComplete(index)}
-                    className={`mt-1 transition-colors ${
-                      step.completed 
-                        ? 'text-green-400 hover:text-green-300'
-                        : 'text-slate-500 hover:text-slate-400'
-                    }`}
-                  >
-                    {step.completed ? <CheckCircle size={20} /> : <Circle size={20} />}
-                  </button>
+                  <div className="mt-1">
+                    {procedure.statuses[index] === 'complete' ? (
+                      <CheckCircle className="text-green-400" size={20} />
+                    ) : procedure.statuses[index] === 'failed' ? (
+                      <XCircle className="text-red-400" size={20} />
+                    ) : (
+                      <Circle className="text-slate-500" size={20} />
+                    )}
+                  </div>
                   
                   <div className="flex-1">
                     <div className="flex items-center space-x-2 mb-2">
@@ -203,6 +228,33 @@ export default function ExperimentPanel({
                     <p className="text-slate-300 text-sm mb-3">
                       {step.instruction}
                     </p>
+
+                    <ul className="mb-3 space-y-1">
+                      {stepCriteria(step).map((criterion, criterionIndex) => (
+                        <li key={criterionIndex} className="flex items-center space-x-2 text-xs text-slate-400">
+                          <Target size={12} />
+                          <span>{describeCriterion(criterion)}</span>
+                        </li>
+                      ))}
+                    </ul>
+
+                    {stepFeedback(index) && (
+                      <p className={`text-xs mb-3 ${
+                        stepFeedback(index).kind === 'success' ? 'text-green-400' : 'text-red-400'
+                      }`}>
+                        {stepFeedback(index).message}
+                      </p>
+                    )}
+
+                    {index === procedure.currentStep && stepCriteria(step).some(criterion => criterion.type === 'observe') && (
+                      <button
+                        onClick={() => onObserve(index)}
+                        className="mb-3 flex items-center space-x-1 px-3 py-1.5 rounded-lg text-xs font-medium bg-blue-600/60 text-blue-100 hover:bg-blue-600/80 transition-colors"
+                      >
+                        <Eye size={12} />
+                        <span>I've made this observation</span>
+                      </button>
+                    )}
                     
                     {step.expectedObservation && (
                       <div className="flex items-start space-x-2 mb-2">
@@ -285,11 +337,11 @@ export default function ExperimentPanel({
                     reaction.reactants.includes(chemical.id) || 
                     reaction.products.includes(chemical.id)
                   )
-                  return inSteps || inReactions
+                  return freePlay || inSteps || inReactions
                 })
                 .map((chemical) => {
                   // Check if this chemical is required for reactions or steps
-                  const isRequired = experiment.reactions.some(reaction => 
+                  const isRequired = !freePlay && experiment.reactions.some(reaction => 
                     reaction.reactants.includes(chemical.id)
                   ) || experiment.steps.some(step => 
                     step.chemicals.includes(chemical.id)
@@ -336,7 +388,10 @@ export default function ExperimentPanel({
                             )}
                           </div>
                           
-                          <p className="text-slate-400 text-xs">{chemical.formula}</p>
+                          <p className="text-slate-400 text-xs">
+                            {chemical.formula}
+                            {chemicalMolarMass(chemical) !== null && ` · ${chemicalMolarMass(chemical).toFixed(2)} g/mol`}
+                          </p>
                           
                           <div className="flex flex-wrap gap-1 mt-2">
                             <span className={`px-2 py-1 rounded text-xs ${
@@ -382,22 +437,102 @@ export default function ExperimentPanel({
         )}
 
         {activeTab === 'safety' && (
-          <div className="p-4">
-            <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
-              <AlertTriangle className="text-yellow-400 mr-2" size={20} />
-              Safety Precautions
-            </h3>
-            <div className="space-y-3">
-              {experiment.safetyNotes.map((note, index) => (
-                <div
-                  key={index}
-                  className="flex items-start space-x-3 p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-lg"
-                >
-                  <AlertTriangle className="text-yellow-400 mt-0.5" size={16} />
-                  <p className="text-slate-300 text-sm">{note}</p>
-                </div>
-              ))}
+          <div className="p-4 space-y-6">
+            <div>
+              <h3 className="text-lg font-semibold text-white mb-3 flex items-center">
+                <Shield className="text-blue-400 mr-2" size={20} />
+                Protective Equipment
+              </h3>
+              <div className="flex flex-wrap gap-2">
+                {safety.ppe.map(item => (
+                  <span key={item} className="px-2 py-1 rounded text-xs bg-blue-500/20 text-blue-300">
+                    {PPE_NAMES[item]}
+                  </span>
+                ))}
+              </div>
             </div>
+
+            <div>
+              <h3 className="text-lg font-semibold text-white mb-3 flex items-center">
+                <AlertTriangle className="text-yellow-400 mr-2" size={20} />
+                Chemical Hazards
+              </h3>
+              {safety.hazardous.length === 0 && (
+                <p className="text-slate-400 text-sm">None of the chemicals used are classified as hazardous</p>
+              )}
+              <div className="space-y-3">
+                {safety.hazardous.map(chemical => (
+                  <div key={chemical.id} className="p-3 bg-slate-800/50 border border-slate-700 rounded-lg space-y-2">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <h4 className="font-semibold text-white text-sm">{chemical.name}</h4>
+                        <span className={`text-xs font-bold uppercase ${
+                          chemical.hazards.signalWord === 'Danger' ? 'text-red-400' : 'text-yellow-400'
+                        }`}>
+                          {chemical.hazards.signalWord}
+                        </span>
+                      </div>
+                      <div className="flex">
+                        {chemical.hazards.pictograms.map(pictogram => (
+                          <GhsPictogram key={pictogram} pictogram={pictogram} />
+                        ))}
+                      </div>
+                    </div>
+                    {chemical.hazards.hazardStatements.map(code => (
+                      <p key={code} className="text-slate-300 text-xs">
+                        <span className="font-mono text-red-300 mr-2">{code}</span>
+                        {HAZARD_STATEMENTS[code]}
+                      </p>
+                    ))}
+                    {onInspectChemical && (
+                      <button
+                        onClick={() => onInspectChemical(chemical)}
+                        className="text-xs text-blue-400 hover:text-blue-300"
+                      >
+                        View Safety Data Sheet
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {safety.incompatible.length > 0 && (
+              <div>
+                <h3 className="text-lg font-semibold text-white mb-3">Incompatible Chemicals</h3>
+                <div className="space-y-2">
+                  {safety.incompatible.map(pair => (
+                    <div
+                      key={`${pair.chemical}-${pair.other}`}
+                      className="flex items-start space-x-3 p-3 bg-red-500/10 border border-red-500/20 rounded-lg"
+                    >
+                      <XCircle className="text-red-400 mt-0.5" size={16} />
+                      <p className="text-slate-300 text-sm">
+                        {lookupChemical(pair.chemical)?.name} and {lookupChemical(pair.other)?.name} react
+                        dangerously; only combine them as the procedure directs
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {experiment.safetyNotes.length > 0 && (
+              <div>
+                <h3 className="text-lg font-semibold text-white mb-3">Notes for This Experiment</h3>
+                <div className="space-y-3">
+                  {experiment.safetyNotes.map((note, index) => (
+                    <div
+                      key={index}
+                      className="flex items-start space-x-3 p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-lg"
+                    >
+                      <AlertTriangle className="text-yellow-400 mt-0.5" size={16} />
+                      <p className="text-slate-300 text-sm">{note}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         )}
 
@@ -445,7 +580,7 @@ export default function ExperimentPanel({
                         className="p-3 bg-slate-800/50 rounded-lg border border-slate-700"
                       >
                         <div className="text-blue-400 text-sm font-mono mb-2">
-                          {reaction.equation}
+                          {reactionEquation(reaction, lookupChemical)}
                         </div>
                         <div className="flex flex-wrap gap-2 text-xs">
                           <span className="text-slate-400">
@@ -483,7 +618,7 @@ export default function ExperimentPanel({
           </div>
 
           <div className="text-sm text-slate-400">
-            {experiment.steps.filter(step => step.completed).length} of {experiment.steps.length} completed
+            {procedure.statuses.filter(status => status === 'complete').length} of {experiment.steps.length} completed
           </div>
         </div>
       </div>
@@ -1,5 +1,6 @@
 import { useState } from "react";
-import { ExperimentMaterials, Chemical } from "@/config/experimentMaterials";
+import type { Chemical, Experiment } from "@/types";
+import type { EquipmentLayoutItem } from "@/lib/equipmentLayout";
 import { Card } from "./ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
 import { Badge } from "./ui/badge";
@@ -8,21 +9,27 @@ import { CheckCircle2, Circle, Beaker, TestTube2, AlertTriangle, BookOpen, Targe
 import { Button } from "./ui/button";
 
 interface ExperimentSidebarProps {
-  experimentData: ExperimentMaterials;
+  experiment: Experiment;
+  // Chemicals on the shelf and the equipment that can be put on the bench
+  reagents: Chemical[];
+  equipment: EquipmentLayoutItem[];
   completedSteps: number[];
   onChemicalClick: (chemicalId: string) => void;
-  onEquipmentClick: (equipmentType: string) => void;
+  onEquipmentClick: (equipmentId: string) => void;
   addedChemicals: string[];
 }
 
 export const ExperimentSidebar = ({
-  experimentData,
+  experiment,
+  reagents,
+  equipment,
   completedSteps,
   onChemicalClick,
   onEquipmentClick,
   addedChemicals,
 }: ExperimentSidebarProps) => {
   const [activeTab, setActiveTab] = useState("steps");
+  const nextStep = experiment.steps.findIndex((_, index) => !completedSteps.includes(index));
 
   const getEquipmentIcon = (type: string) => {
     switch (type) {
@@ -43,17 +50,17 @@ export const ExperimentSidebar = ({
       <div className="p-4 border-b border-border/50">
         <div className="flex items-start justify-between">
           <div>
-            <h2 className="text-xl font-bold text-foreground">{experimentData.title}</h2>
+            <h2 className="text-xl font-bold text-foreground">{experiment.title}</h2>
             <div className="flex items-center gap-2 mt-2">
               <Badge variant="secondary" className="text-xs">
                 <span className="mr-1">🧪</span>
-                {experimentData.chemicals.length} Chemicals
+                {reagents.length} Chemicals
               </Badge>
               <Badge variant="outline" className="text-xs">
-                10min
+                {experiment.duration}min
               </Badge>
               <Badge className="text-xs bg-green-500/20 text-green-400 border-green-500/30">
-                beginner
+                {experiment.difficulty}
               </Badge>
             </div>
           </div>
@@ -73,11 +80,11 @@ export const ExperimentSidebar = ({
         <ScrollArea className="flex-1">
           {/* Steps Tab */}
           <TabsContent value="steps" className="p-4 space-y-3 mt-0">
-            {experimentData.steps.map((step, index) => {
+            {experiment.steps.map((step, index) => {
               const isCompleted = completedSteps.includes(index);
               return (
                 <div
-                  key={index}
+                  key={step.id}
                   className={`flex items-start gap-3 p-3 rounded-lg border transition-all ${
                     isCompleted
                       ? "bg-green-500/10 border-green-500/30"
@@ -96,13 +103,13 @@ export const ExperimentSidebar = ({
                       <span className="text-xs font-semibold text-primary">Step {index + 1}</span>
                     </div>
                     <p className={`text-sm ${isCompleted ? "line-through text-muted-foreground" : "text-foreground"}`}>
-                      {step}
+                      {step.instruction}
                     </p>
-                    {!isCompleted && index === 0 && (
+                    {index === nextStep && (
                       <div className="mt-2 p-2 bg-primary/10 rounded border border-primary/20">
                         <p className="text-xs text-primary font-medium">
                           <span className="mr-1">👁️</span>
-                          Expected: Clear basic solution
+                          Expected: {step.expectedObservation}
                         </p>
                       </div>
                     )}
@@ -117,16 +124,16 @@ export const ExperimentSidebar = ({
             <div>
               <h3 className="text-sm font-bold mb-3 text-foreground">Required Equipment</h3>
               <div className="space-y-2">
-                {experimentData.equipment.map((equipment) => (
+                {equipment.map((item) => (
                   <Button
-                    key={equipment.id}
+                    key={item.id}
                     variant="outline"
                     className="w-full justify-between hover:bg-accent/50"
-                    onClick={() => onEquipmentClick(equipment.type)}
+                    onClick={() => onEquipmentClick(item.id)}
                   >
                     <div className="flex items-center gap-2">
-                      {getEquipmentIcon(equipment.type)}
-                      <span className="text-sm">{equipment.name}</span>
+                      {getEquipmentIcon(item.type)}
+                      <span className="text-sm">{item.name}</span>
                     </div>
                     <Badge variant="destructive" className="text-xs">Required</Badge>
                   </Button>
@@ -140,7 +147,7 @@ export const ExperimentSidebar = ({
             <p className="text-xs text-muted-foreground mb-3">
               Click on chemicals to add them to the main beaker
             </p>
-            {experimentData.chemicals.map((chemical) => {
+            {reagents.map((chemical) => {
               const isAdded = addedChemicals.includes(chemical.id);
               return (
                 <Button
@@ -164,8 +171,10 @@ export const ExperimentSidebar = ({
                       </div>
                       <div className="text-xs text-muted-foreground">{chemical.formula}</div>
                       <div className="flex gap-2 mt-2">
-                        <Badge variant="outline" className="text-xs">{chemical.state}</Badge>
-                        <Badge variant="outline" className="text-xs">10.0M</Badge>
+                        <Badge variant="outline" className="text-xs">{chemical.properties.state}</Badge>
+                        {chemical.concentration !== undefined && (
+                          <Badge variant="outline" className="text-xs">{chemical.concentration.toFixed(1)}M</Badge>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -181,22 +190,12 @@ export const ExperimentSidebar = ({
               <h3 className="text-sm font-bold text-foreground">Safety Precautions</h3>
             </div>
             <div className="space-y-2">
-              <div className="flex items-start gap-2 p-3 bg-yellow-500/10 rounded-lg border border-yellow-500/30">
-                <AlertTriangle className="w-4 h-4 text-yellow-500 mt-0.5 flex-shrink-0" />
-                <span className="text-sm text-foreground">Wear safety goggles and gloves</span>
-              </div>
-              <div className="flex items-start gap-2 p-3 bg-yellow-500/10 rounded-lg border border-yellow-500/30">
-                <AlertTriangle className="w-4 h-4 text-yellow-500 mt-0.5 flex-shrink-0" />
-                <span className="text-sm text-foreground">Handle acids and bases carefully</span>
-              </div>
-              <div className="flex items-start gap-2 p-3 bg-yellow-500/10 rounded-lg border border-yellow-500/30">
-                <AlertTriangle className="w-4 h-4 text-yellow-500 mt-0.5 flex-shrink-0" />
-                <span className="text-sm text-foreground">
-                  {experimentData.experimentId === "combustion"
-                    ? "Keep flammable materials away from flame"
-                    : "Work in well-ventilated area"}
-                </span>
-              </div>
+              {experiment.safetyNotes.map((note, index) => (
+                <div key={index} className="flex items-start gap-2 p-3 bg-yellow-500/10 rounded-lg border border-yellow-500/30">
+                  <AlertTriangle className="w-4 h-4 text-yellow-500 mt-0.5 flex-shrink-0" />
+                  <span className="text-sm text-foreground">{note}</span>
+                </div>
+              ))}
             </div>
           </TabsContent>
 
@@ -208,18 +207,7 @@ export const ExperimentSidebar = ({
                 <h3 className="text-sm font-bold text-foreground">Description</h3>
               </div>
               <p className="text-sm text-muted-foreground leading-relaxed">
-                {experimentData.experimentId === "neutralization" &&
-                  "Use phenolphthalein as an indicator to observe pH changes in acid-base reactions."}
-                {experimentData.experimentId === "precipitation" &&
-                  "Observe the formation of an insoluble solid when two solutions are mixed."}
-                {experimentData.experimentId === "displacement" &&
-                  "Watch as a more reactive metal displaces a less reactive metal from its compound."}
-                {experimentData.experimentId === "combustion" &&
-                  "Study the rapid reaction between a fuel and oxygen, producing heat and light."}
-                {experimentData.experimentId === "decomposition" &&
-                  "Observe how hydrogen peroxide breaks down into water and oxygen gas with a catalyst."}
-                {experimentData.experimentId === "acid-base" &&
-                  "Use universal indicator to observe pH changes in acid-base reactions."}
+                {experiment.description}
               </p>
             </div>
 
@@ -229,18 +217,12 @@ export const ExperimentSidebar = ({
                 <h3 className="text-sm font-bold text-foreground">Learning Objectives</h3>
               </div>
               <ul className="space-y-2">
-                <li className="flex items-start gap-2 text-sm text-muted-foreground">
-                  <Circle className="w-3 h-3 mt-1 text-primary fill-primary" />
-                  <span>Understand chemical reaction types</span>
-                </li>
-                <li className="flex items-start gap-2 text-sm text-muted-foreground">
-                  <Circle className="w-3 h-3 mt-1 text-primary fill-primary" />
-                  <span>Observe color changes and indicators</span>
-                </li>
-                <li className="flex items-start gap-2 text-sm text-muted-foreground">
-                  <Circle className="w-3 h-3 mt-1 text-primary fill-primary" />
-                  <span>Practice safe laboratory techniques</span>
-                </li>
+                {experiment.objectives.map((objective, index) => (
+                  <li key={index} className="flex items-start gap-2 text-sm text-muted-foreground">
+                    <Circle className="w-3 h-3 mt-1 text-primary fill-primary" />
+                    <span>{objective}</span>
+                  </li>
+                ))}
               </ul>
             </div>
 
@@ -250,10 +232,10 @@ export const ExperimentSidebar = ({
                 <h3 className="text-sm font-bold text-foreground">Chemical Reactions</h3>
               </div>
               <div className="space-y-2">
-                {experimentData.reactions.map((reaction, index) => (
-                  <div key={index} className="p-3 bg-card/50 rounded-lg border border-border/50">
+                {experiment.reactions.map((reaction) => (
+                  <div key={reaction.id} className="p-3 bg-card/50 rounded-lg border border-border/50">
                     <code className="text-xs text-primary font-mono">
-                      {reaction.reactants.join(" + ")} → {reaction.product.name}
+                      {reaction.equation}
                     </code>
                   </div>
                 ))}
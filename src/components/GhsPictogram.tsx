@@ -0,0 +1,42 @@
+'use client'
+
+import { Bomb, CircleAlert, Cylinder, Fish, Flame, FlameKindling, PersonStanding, Skull, TestTubeDiagonal } from 'lucide-react'
+import { GhsPictogram as Pictogram } from '@/types'
+import { PICTOGRAMS } from '@/data/ghs'
+
+const SYMBOLS: Record<Pictogram, typeof Flame> = {
+  explosive: Bomb,
+  flammable: Flame,
+  oxidizing: FlameKindling,
+  'compressed-gas': Cylinder,
+  corrosive: TestTubeDiagonal,
+  toxic: Skull,
+  harmful: CircleAlert,
+  'health-hazard': PersonStanding,
+  environment: Fish
+}
+
+interface GhsPictogramProps {
+  pictogram: Pictogram
+  size?: number // px
+}
+
+// Black symbol in a red-bordered diamond, as on a GHS label
+export default function GhsPictogram({ pictogram, size = 28 }: GhsPictogramProps) {
+  const Icon = SYMBOLS[pictogram]
+  const { code, name } = PICTOGRAMS[pictogram]
+  return (
+    <div
+      className="inline-flex items-center justify-center shrink-0"
+      style={{ width: size, height: size }}
+      title={`${code}: ${name}`}
+    >
+      <div
+        className="flex items-center justify-center bg-white border-red-600 rotate-45"
+        style={{ width: size * 0.72, height: size * 0.72, borderWidth: Math.max(2, size / 14) }}
+      >
+        <Icon className="-rotate-45 text-black" size={size * 0.4} strokeWidth={2.5} />
+      </div>
+    </div>
+  )
+}
@@ -5,205 +5,150 @@ import { DraggableChemical } from "./lab/DraggableChemical";
 import { DraggableEquipment } from "./lab/DraggableEquipment";
 import { ParticleEffect } from "./lab/ParticleEffect";
 import { BunsenBurner } from "./lab/BunsenBurner";
-import { Suspense, useState, useCallback } from "react";
+import { SimulationClock } from "./lab/SimulationClock";
+import { Suspense, useState, useCallback, useEffect, useMemo } from "react";
 import { Card } from "./ui/card";
-import { ExperimentMaterials } from "@/config/experimentMaterials";
+import type { Experiment, ReactionEffectType } from "@/types";
+import { getEquipmentLayout } from "@/lib/equipmentLayout";
+import { createLabSimulation } from "@/lib/simulation";
+import { defaultAmount, fillFraction, solutionColor } from "@/lib/chemistry/solution";
+import { experimentReagents } from "@/lib/safety";
+import { experimentChemicalLookup } from "@/data/chemicalData";
+import { experimentRules } from "@/data/reactionLogic";
+import { useLabSimulation } from "@/hooks/useLabSimulation";
 import { Vector3 } from "three";
 import { useToast } from "@/hooks/use-toast";
 import { Badge } from "./ui/badge";
 import { ScrollArea } from "./ui/scroll-area";
 
-interface InteractiveLabProps {
-  experimentData: ExperimentMaterials;
-}
+// Equipment this bench can draw and let the student move around
+const BENCH_VESSELS = ["beaker", "flask", "test-tube"];
 
-interface EquipmentState {
-  id: string;
-  position: Vector3;
-  liquid?: {
-    color: string;
-    level: number;
-    chemicalIds: string[];
-  };
+// Particles shown for each kind of reaction effect
+const PARTICLES: Partial<Record<ReactionEffectType, "gas" | "flame" | "precipitate" | "smoke">> = {
+  "gas-evolution": "gas",
+  "boiling": "gas",
+  "precipitation": "precipitate",
+  "heat-release": "flame",
+  "smoke": "smoke",
+};
+
+interface InteractiveLabProps {
+  experiment: Experiment;
 }
 
-export const InteractiveLab = ({ experimentData }: InteractiveLabProps) => {
+export const InteractiveLab = ({ experiment }: InteractiveLabProps) => {
   const { toast } = useToast();
-  const [equipmentStates, setEquipmentStates] = useState<Record<string, EquipmentState>>({});
+  // Where each vessel was put down on the table; what it holds lives in the simulation
+  const [positions, setPositions] = useState<Record<string, Vector3>>({});
   const [activeReaction, setActiveReaction] = useState<{
     position: [number, number, number];
-    effect: string;
+    effect: "gas" | "flame" | "precipitate" | "smoke";
     color: string;
   } | null>(null);
   const [completedSteps, setCompletedSteps] = useState<number[]>([]);
-  const [burnerLit, setBurnerLit] = useState(false);
-  const [flameIntensity, setFlameIntensity] = useState(1);
-  
-  const isCombustionExperiment = experimentData.experimentId === "combustion";
+
+  // Chemistry runs in the same simulation as the 3D lab
+  const layout = useMemo(() => getEquipmentLayout(experiment), [experiment]);
+  const lookupChemical = useMemo(() => experimentChemicalLookup(experiment.chemicals), [experiment]);
+  const simulation = useMemo(
+    () => createLabSimulation(layout, lookupChemical, experimentRules(experiment.reactions)),
+    [layout, lookupChemical, experiment]
+  );
+  const solutions = useLabSimulation(simulation, (state) => state.solutions);
+  const burners = useLabSimulation(simulation, (state) => state.burners);
+  const reagents = useMemo(
+    () => experimentReagents(experiment).map(lookupChemical).filter(Boolean),
+    [experiment, lookupChemical]
+  );
+  const equipment = layout.filter((item) => BENCH_VESSELS.includes(item.type) || item.type === "bunsen-burner");
+
+  const completeStep = useCallback((stepIndex: number) => {
+    if (stepIndex < 0) return;
+    setCompletedSteps((prev) => (prev.includes(stepIndex) ? prev : [...prev, stepIndex]));
+  }, []);
+
+  // Show the reactions the simulation resolves
+  useEffect(() => simulation.subscribeEvents((event) => {
+    if (event.type !== "reaction-fired") return;
+    const rule = simulation.rules.find((candidate) => candidate.id === event.reaction);
+    const position = positions[event.vessel];
+    const effect = rule?.effects.find((candidate) => PARTICLES[candidate.type]);
+    if (position && effect) {
+      setActiveReaction({
+        position: [position.x, position.y + 0.5, position.z],
+        effect: PARTICLES[effect.type],
+        color: effect.color || lookupChemical(rule.products[0])?.color || "#ffffff",
+      });
+      setTimeout(() => setActiveReaction(null), 5000);
+    }
+
+    toast({
+      title: "Reaction Occurring! 🧪",
+      description: event.outcome,
+    });
+
+    // Mark step as completed
+    completeStep(experiment.steps.findIndex((step) =>
+      step.chemicals.some((id) => rule?.reactants.includes(id))
+    ));
+  }), [simulation, positions, lookupChemical, experiment, toast, completeStep]);
 
   const handleChemicalPour = useCallback(
     (chemicalId: string, position: Vector3) => {
-      const chemical = experimentData.chemicals.find((c) => c.id === chemicalId);
+      const chemical = lookupChemical(chemicalId);
       if (!chemical) return;
 
-      // Special handling for combustion experiment
-      if (isCombustionExperiment && burnerLit) {
-        // Check if pouring near burner (position around [0, 1.5, 0])
-        const burnerPosition = new Vector3(0, 1.5, 0);
-        const distanceToBurner = burnerPosition.distanceTo(position);
-        
-        if (distanceToBurner < 2) {
-          if (chemicalId === "ethanol") {
-            // Ethanol increases flame
-            setFlameIntensity(prev => Math.min(prev + 0.5, 3));
-            toast({
-              title: "🔥 Flame Intensified!",
-              description: "Ethanol acts as fuel, increasing combustion",
-            });
-            
-            setActiveReaction({
-              position: [0, 2, 0],
-              effect: "flame",
-              color: "#ff8800",
-            });
-            
-            setTimeout(() => {
-              setFlameIntensity(prev => Math.max(prev - 0.3, 1));
-              setActiveReaction(null);
-            }, 3000);
-            
-            return;
-          } else if (chemicalId === "water") {
-            // Water reduces/extinguishes flame
-            setFlameIntensity(prev => Math.max(prev - 0.7, 0.2));
-            toast({
-              title: "💧 Flame Reduced",
-              description: "Water cools and suppresses combustion",
-            });
-            
-            if (flameIntensity < 0.5) {
-              setBurnerLit(false);
-              toast({
-                title: "Flame Extinguished",
-                description: "Too much water has put out the fire",
-              });
-            }
-            
-            return;
-          }
-        }
-      }
-
-      // Find nearby equipment for non-combustion reactions
-      const nearbyEquipment = Object.entries(equipmentStates).find(([_, state]) => {
-        const distance = state.position.distanceTo(position);
+      // Find nearby equipment
+      const nearbyEquipment = Object.entries(positions).find(([_, placed]) => {
+        const distance = placed.distanceTo(position);
         return distance < 1.5;
       });
 
       if (!nearbyEquipment) {
         toast({
           title: "No container nearby",
-          description: "Move the chemical closer to a beaker, flask, or burner",
+          description: "Move the chemical closer to a beaker, flask, or test tube",
           variant: "destructive",
         });
         return;
       }
 
-      const [equipmentId, equipmentState] = nearbyEquipment;
-
-      // Update equipment with new liquid
-      setEquipmentStates((prev) => {
-        const newState = { ...prev };
-        const currentLiquid = newState[equipmentId]?.liquid;
-        
-        newState[equipmentId] = {
-          ...newState[equipmentId],
-          liquid: {
-            color: currentLiquid ? 
-              // Mix colors if there's already liquid
-              mixColors(currentLiquid.color, chemical.color) :
-              chemical.color,
-            level: Math.min((currentLiquid?.level || 0) + 0.3, 1),
-            chemicalIds: [...(currentLiquid?.chemicalIds || []), chemicalId],
-          },
-        };
-
-        // Check for reactions
-        checkForReaction(newState[equipmentId].liquid!.chemicalIds, equipmentState.position);
-
-        return newState;
-      });
-
+      const [equipmentId] = nearbyEquipment;
       toast({
         title: `Added ${chemical.name}`,
-        description: `Poured into ${equipmentId}`,
+        description: `Poured into the ${layout.find((item) => item.id === equipmentId)?.name || equipmentId}`,
       });
+
+      // The simulation mixes it in and resolves any reaction
+      simulation.dispatch({ type: "chemical-added", vessel: equipmentId, chemical: chemicalId, amount: defaultAmount(chemical) });
     },
-    [equipmentStates, experimentData, toast, isCombustionExperiment, burnerLit, flameIntensity]
+    [positions, lookupChemical, layout, toast, simulation]
   );
 
-  const handleLightBurner = useCallback(() => {
-    setBurnerLit(true);
-    setFlameIntensity(1);
+  const handleLightBurner = useCallback((burnerId: string) => {
+    if (burners[burnerId]) return;
+    simulation.dispatch({ type: "burner-toggled", burner: burnerId, lit: true });
     toast({
       title: "🔥 Burner Lit!",
-      description: "Add ethanol to increase the flame or water to extinguish it",
-    });
-    
-    // Mark first step as complete
-    if (!completedSteps.includes(0)) {
-      setCompletedSteps([0]);
-    }
-  }, [toast, completedSteps]);
-
-  const checkForReaction = (chemicalIds: string[], position: Vector3) => {
-    experimentData.reactions.forEach((reaction) => {
-      const hasAllReactants = reaction.reactants.every((reactant) =>
-        chemicalIds.includes(reactant)
-      );
-
-      if (hasAllReactants) {
-        setActiveReaction({
-          position: [position.x, position.y + 0.5, position.z],
-          effect: reaction.product.effect,
-          color: reaction.product.color,
-        });
-
-        toast({
-          title: "Reaction Occurring! 🧪",
-          description: `Produced: ${reaction.product.name}`,
-        });
-
-        // Mark step as completed
-        const stepIndex = experimentData.steps.findIndex(step => 
-          reaction.reactants.some(r => step.toLowerCase().includes(r.toLowerCase()))
-        );
-        if (stepIndex >= 0 && !completedSteps.includes(stepIndex)) {
-          setCompletedSteps(prev => [...prev, stepIndex]);
-        }
-
-        setTimeout(() => setActiveReaction(null), 5000);
-      }
+      description: "The burner is now heating the bench",
     });
-  };
+    completeStep(experiment.steps.findIndex((step) => step.equipment.includes("bunsen-burner")));
+  }, [burners, simulation, toast, experiment, completeStep]);
 
   const handleEquipmentPlace = useCallback(
     (equipmentId: string, position: Vector3) => {
-      setEquipmentStates((prev) => ({
-        ...prev,
-        [equipmentId]: {
-          id: equipmentId,
-          position: position.clone(),
-          liquid: prev[equipmentId]?.liquid,
-        },
-      }));
+      setPositions((prev) => ({ ...prev, [equipmentId]: position.clone() }));
     },
     []
   );
 
-  const mixColors = (color1: string, color2: string) => {
-    // Simple color mixing (in reality would need proper color space conversion)
-    return color1; // For now, keep first color
+  // What a vessel holds, as the simulation has it
+  const liquid = (equipmentId: string, capacity: number) => {
+    const solution = solutions[equipmentId];
+    return solution && Object.keys(solution.species).length > 0
+      ? { color: solutionColor(solution, lookupChemical), level: fillFraction(solution, capacity) }
+      : undefined;
   };
 
   return (
@@ -214,7 +159,7 @@ export const InteractiveLab = ({ experimentData }: InteractiveLabProps) => {
         gl={{ antialias: true, alpha: true }}
       >
         <color attach="background" args={["#0f1419"]} />
-        
+
         <Suspense fallback={null}>
           <ambientLight intensity={0.5} />
           <directionalLight
@@ -232,10 +177,11 @@ export const InteractiveLab = ({ experimentData }: InteractiveLabProps) => {
             castShadow
           />
 
+          <SimulationClock simulation={simulation} />
           <LabTable />
 
           {/* Render chemicals on the side shelf */}
-          {experimentData.chemicals.map((chemical, index) => (
+          {reagents.map((chemical, index) => (
             <DraggableChemical
               key={chemical.id}
               id={chemical.id}
@@ -248,28 +194,28 @@ export const InteractiveLab = ({ experimentData }: InteractiveLabProps) => {
           ))}
 
           {/* Render equipment */}
-          {experimentData.equipment.map((equipment, index) => {
-            // For burner in combustion experiment, use BunsenBurner component
-            if (equipment.type === "burner" && isCombustionExperiment) {
+          {equipment.map((item, index) => {
+            const position: [number, number, number] = [-2 + index * 1.5, 1.5, 0];
+            if (item.type === "bunsen-burner") {
               return (
                 <BunsenBurner
-                  key={equipment.id}
-                  position={[0, 1.5, 0]}
-                  isLit={burnerLit}
-                  flameIntensity={flameIntensity}
-                  onLight={handleLightBurner}
+                  key={item.id}
+                  position={position}
+                  isLit={burners[item.id]}
+                  flameIntensity={1}
+                  onLight={() => handleLightBurner(item.id)}
                 />
               );
             }
-            
+
             return (
               <DraggableEquipment
-                key={equipment.id}
-                id={equipment.id}
-                type={equipment.type}
-                position={[-2 + index * 1.5, 1.5, 0]}
+                key={item.id}
+                id={item.id}
+                type={item.type as "beaker" | "flask" | "test-tube"}
+                position={position}
                 onPlace={handleEquipmentPlace}
-                currentLiquid={equipmentStates[equipment.id]?.liquid}
+                currentLiquid={liquid(item.id, item.capacity)}
               />
             );
           })}
@@ -278,7 +224,7 @@ export const InteractiveLab = ({ experimentData }: InteractiveLabProps) => {
           {activeReaction && (
             <ParticleEffect
               position={activeReaction.position}
-              type={activeReaction.effect as any}
+              type={activeReaction.effect}
               color={activeReaction.color}
               active={true}
             />
@@ -311,7 +257,7 @@ export const InteractiveLab = ({ experimentData }: InteractiveLabProps) => {
           <div>
             <h3 className="text-sm font-semibold text-primary mb-1">Chemicals:</h3>
             <div className="flex flex-wrap gap-1">
-              {experimentData.chemicals.map((chemical) => (
+              {reagents.map((chemical) => (
                 <Badge key={chemical.id} variant="secondary" className="text-xs">
                   {chemical.formula}
                 </Badge>
@@ -321,9 +267,9 @@ export const InteractiveLab = ({ experimentData }: InteractiveLabProps) => {
           <div>
             <h3 className="text-sm font-semibold text-primary mb-1">Equipment:</h3>
             <div className="flex flex-wrap gap-1">
-              {experimentData.equipment.map((equipment) => (
-                <Badge key={equipment.id} variant="outline" className="text-xs">
-                  {equipment.name}
+              {layout.map((item) => (
+                <Badge key={item.id} variant="outline" className="text-xs">
+                  {item.name}
                 </Badge>
               ))}
             </div>
@@ -336,15 +282,15 @@ export const InteractiveLab = ({ experimentData }: InteractiveLabProps) => {
         <h2 className="text-lg font-bold text-glow-purple mb-3">Procedure</h2>
         <ScrollArea className="h-48">
           <ol className="space-y-2 text-sm">
-            {experimentData.steps.map((step, index) => (
+            {experiment.steps.map((step, index) => (
               <li
-                key={index}
+                key={step.id}
                 className={`flex items-start gap-2 ${
                   completedSteps.includes(index) ? "text-green-400 line-through" : "text-foreground/80"
                 }`}
               >
                 <span className="font-semibold">{index + 1}.</span>
-                <span>{step}</span>
+                <span>{step.instruction}</span>
               </li>
             ))}
           </ol>
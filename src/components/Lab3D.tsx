@@ -1,31 +1,82 @@
 'use client'
 
-import { Suspense, useState, useRef, useCallback } from 'react'
+import { Suspense, useState, useRef, useCallback, useEffect, useMemo } from 'react'
 import { Canvas } from '@react-three/fiber'
 import { OrbitControls, Environment, ContactShadows } from '@react-three/drei'
 import { motion, AnimatePresence } from 'framer-motion'
-import { ArrowLeft, BookOpen, Shield, Eye, Thermometer, Timer } from 'lucide-react'
-import { Experiment } from '@/types'
+import { AlertTriangle, ArrowLeft, BookOpen, Download, RotateCcw, Shield, Eye, Thermometer, Timer } from 'lucide-react'
+import {
+  Chemical,
+  Experiment,
+  LabAction,
+  BalanceLoad,
+  LabEventInput,
+  MeniscusReading,
+  PpeItem,
+  ProcedureState,
+  RateRun,
+  SafetyViolation,
+  SessionLog,
+  StopcockState,
+  TitrationPoint
+} from '@/types'
+import { applyLabAction, createProcedure, isProcedureFinished } from '@/lib/procedure'
+import { createSessionLog, downloadSessionLog, recordEvent } from '@/lib/session'
+import { createLabSimulation, replayMismatches } from '@/lib/simulation'
+import { EquipmentLayoutItem, getEquipmentLayout, getReceivingVessel } from '@/lib/equipmentLayout'
+import { ROOM_TEMPERATURE } from '@/lib/chemistry/thermal'
+import { WEIGHING_BOAT_MASS, balanceReading, molesFromMass } from '@/lib/chemistry/mass'
+import { renderEquation } from '@/lib/chemistry/equation'
+import { chemicalMolarMass } from '@/lib/chemistry/formula'
+import { experimentReagents } from '@/lib/safety'
+import { VIOLATION_PENALTIES, createSafetyMonitor } from '@/lib/safetyRules'
+import { PPE_NAMES } from '@/data/ghs'
+import { experimentChemicalLookup } from '@/data/chemicalData'
+import { experimentRules } from '@/data/reactionLogic'
+import { useLabSimulation } from '@/hooks/useLabSimulation'
 import LabEnvironment from './3d/LabEnvironment'
 import LabEquipment from './3d/LabEquipment'
 import ExperimentPanel from './ExperimentPanel'
 import LoadingScreen from './LoadingScreen'
 import ReactionEffect from './3d/effects/ReactionEffect'
+import TitrationCurve from './TitrationCurve'
+import RateComparison from './RateComparison'
+import ReagentShelf from './3d/ReagentShelf'
+import SafetyDataSheet from './SafetyDataSheet'
+import IncidentEffect from './3d/effects/IncidentEffect'
+import MeasuringPanel from './MeasuringPanel'
+import WeighingPanel from './WeighingPanel'
 
 interface Lab3DProps {
   experiment: Experiment | null
+  // Protective equipment put on during the pre-lab check
+  initialPpe?: PpeItem[]
   onBack: () => void
+  onComplete?: (procedure: ProcedureState, violations: SafetyViolation[]) => void
+  // Extra controls laid over the scene, such as the sandbox equipment picker
+  overlay?: React.ReactNode
 }
 
-export default function Lab3D({ experiment, onBack }: Lab3DProps) {
-  const [currentStep, setCurrentStep] = useState(0)
+export default function Lab3D({ experiment, initialPpe = [], onBack, onComplete, overlay }: Lab3DProps) {
+  const [procedure, setProcedure] = useState<ProcedureState>(() => createProcedure(experiment?.steps || []))
+  const procedureRef = useRef(procedure)
+  const sessionRef = useRef<SessionLog>(createSessionLog(experiment))
   const [showInstructions, setShowInstructions] = useState(true)
   const [showSafety, setShowSafety] = useState(false)
-  const [temperature, setTemperature] = useState(25)
   const [timer, setTimer] = useState(0)
+  const [titrationPoints, setTitrationPoints] = useState<TitrationPoint[]>([])
+  const [rateRuns, setRateRuns] = useState<RateRun[]>([])
+  const [inspectedChemical, setInspectedChemical] = useState<Chemical | null>(null)
+  const [wornPpe, setWornPpe] = useState<PpeItem[]>(initialPpe)
+  const wornPpeRef = useRef(wornPpe)
+  const violationsRef = useRef<SafetyViolation[]>([])
+  // The latest violation, shown on the bench and debriefed until dismissed
+  const [incident, setIncident] = useState<SafetyViolation | null>(null)
+  // What the last mixture did, including nothing at all
+  const [outcome, setOutcome] = useState<{ id: number; message: string; equation?: string } | null>(null)
   const [reactionState, setReactionState] = useState<{
     position: [number, number, number]
-    type: 'acid-base' | 'precipitation' | 'gas-evolution' | 'color-change' | 'heat-release'
+    type: 'acid-base' | 'precipitation' | 'gas-evolution' | 'color-change' | 'heat-release' | 'boiling' | 'smoke' | 'crystallization'
     intensity: number
     chemicals: string[]
     active: boolean
@@ -35,28 +86,11 @@ export default function Lab3D({ experiment, onBack }: Lab3DProps) {
   const labEquipmentRef = useRef<any>(null)
   const reactionTimeoutRef = useRef<NodeJS.Timeout | null>(null)
   const beakerPositionRef = useRef<[number, number, number]>([0, -0.25, 0])
-  
-  // Track completed steps to prevent duplicates
-  const completedStepsRef = useRef<Set<number>>(new Set())
 
   const handleReactionComplete = useCallback(() => {
     setReactionState(null)
   }, [])
 
-  const handleChemicalAdd = useCallback((chemical: any) => {
-    console.log(`🧪 Lab3D: Adding ${chemical.name} to the beaker`)
-    
-    if (labEquipmentRef.current?.handleChemicalPour) {
-      labEquipmentRef.current.handleChemicalPour(chemical)
-      
-      if (labEquipmentRef.current.getBeakerPosition) {
-        beakerPositionRef.current = labEquipmentRef.current.getBeakerPosition()
-      }
-    } else {
-      console.warn('LabEquipment ref not ready')
-    }
-  }, [])
-
   const handleReactionTrigger = useCallback((reactionType: string, position: [number, number, number], intensity: number) => {
     console.log(`🧪 Lab3D: Reaction triggered at position ${position}`)
     
@@ -78,28 +112,218 @@ export default function Lab3D({ experiment, onBack }: Lab3DProps) {
     }, 3000) // Duration should match the reaction effect duration
   }, [])
 
-  const handleStepComplete = useCallback((stepIndex: number, chemical?: any) => {
-    if (!experiment) return
-    
-    const chemicalName = chemical ? chemical.name : 'manual trigger'
-    console.log(`✅ Lab3D: Completing step ${stepIndex + 1} with ${chemicalName}`)
+  // One simulation per bench; the 3D scene only reads from it
+  const layout = useMemo(() => (experiment ? getEquipmentLayout(experiment) : []), [experiment])
+  const lookupChemical = useMemo(() => experimentChemicalLookup(experiment?.chemicals || []), [experiment])
+  const simulation = useMemo(
+    () => createLabSimulation(layout, lookupChemical, experimentRules(experiment?.reactions || [])),
+    [layout, lookupChemical, experiment]
+  )
+  const safetyMonitor = useMemo(
+    () => (experiment ? createSafetyMonitor(experiment, layout, lookupChemical, simulation.rules) : null),
+    [experiment, layout, lookupChemical, simulation]
+  )
+  // Free play puts the whole chemical store on the shelf
+  const reagents = useMemo(
+    () => !experiment
+      ? []
+      : experiment.steps.length === 0
+      ? experiment.chemicals
+      : experimentReagents(experiment).map(lookupChemical).filter(Boolean),
+    [experiment, lookupChemical]
+  )
+  const stopcock = useLabSimulation(simulation, state => Object.values(state.stopcocks)[0] || 'closed')
+  // The HUD follows the vessel the experiment happens in
+  const receiver = getReceivingVessel(layout)
+  const temperature = useLabSimulation(simulation, state =>
+    receiver ? state.temperatures[receiver.id] ?? ROOM_TEMPERATURE : ROOM_TEMPERATURE
+  )
+
+  // Liquids are measured out in a graduated cylinder when the bench has one
+  // that is empty or already holds the same liquid
+  const [measuring, setMeasuring] = useState<{ chemical: Chemical; cylinder: EquipmentLayoutItem } | null>(null)
+  const measuredVolume = useLabSimulation(simulation, state =>
+    measuring ? state.solutions[measuring.cylinder.id]?.volume || 0 : 0
+  )
+
+  // Solids with a molar mass are weighed out first when the bench has a balance
+  const [weighing, setWeighing] = useState<{ chemical: Chemical; balance: EquipmentLayoutItem; load: BalanceLoad } | null>(null)
+  const balanceLoads = useMemo(() => (weighing ? { [weighing.balance.id]: weighing.load } : {}), [weighing])
+
+  const pourChemical = useCallback((chemical: Chemical, amount?: number) => {
+    console.log(`🧪 Lab3D: Adding ${chemical.name} to the selected vessel`)
     
-    if (completedStepsRef.current.has(stepIndex)) {
-      console.log(`Step ${stepIndex + 1} already completed, skipping`)
-      return
+    if (labEquipmentRef.current?.handleChemicalPour) {
+      labEquipmentRef.current.handleChemicalPour(chemical, amount)
+      
+      if (labEquipmentRef.current.getBeakerPosition) {
+        beakerPositionRef.current = labEquipmentRef.current.getBeakerPosition()
+      }
+    } else {
+      console.warn('LabEquipment ref not ready')
     }
-    
-    completedStepsRef.current.add(stepIndex)
-    experiment.steps[stepIndex].completed = true
-    
-    if (stepIndex === currentStep) {
-      const nextStep = stepIndex + 1
-      if (nextStep < experiment.steps.length) {
-        setCurrentStep(nextStep)
-        console.log(`Moving to step ${nextStep + 1}`)
+  }, [])
+
+  const handleChemicalAdd = useCallback((chemical: Chemical) => {
+    const solutions = simulation.getState().solutions
+    const cylinder = chemical.properties.state === 'liquid' && !chemical.indicator
+      ? layout.find(item =>
+        item.type === 'graduated-cylinder' &&
+        Object.keys(solutions[item.id]?.species || {}).every(id => id === chemical.id)
+      )
+      : undefined
+    const balance = chemical.properties.state === 'solid' && chemicalMolarMass(chemical)
+      ? layout.find(item => item.type === 'analytical-balance')
+      : undefined
+
+    if (cylinder) {
+      setWeighing(null)
+      setMeasuring({ chemical, cylinder })
+    } else if (balance) {
+      setMeasuring(null)
+      setWeighing({ chemical, balance, load: { chemical: chemical.id, sample: 0, tare: 0 } })
+    } else {
+      pourChemical(chemical)
+    }
+  }, [simulation, layout, pourChemical])
+
+  const handleStopcockChange = useCallback((state: StopcockState) => {
+    labEquipmentRef.current?.setStopcock?.(state)
+  }, [])
+
+  // Empty the bench to try again, e.g. with another catalyst; the next
+  // reaction starts a new rate run to compare against
+  const handleReset = useCallback(() => {
+    labEquipmentRef.current?.resetBench?.()
+    setMeasuring(null)
+    setWeighing(null)
+  }, [])
+
+  useEffect(() => {
+    procedureRef.current = createProcedure(experiment?.steps || [])
+    setProcedure(procedureRef.current)
+    sessionRef.current = createSessionLog(experiment)
+    violationsRef.current = []
+    setIncident(null)
+    setMeasuring(null)
+    setWeighing(null)
+  }, [experiment])
+
+  // Bench events and step outcomes go into the session log for replay
+  const handleLabEvent = useCallback((event: LabEventInput) => {
+    sessionRef.current = recordEvent(sessionRef.current, event, simulation.getState().time)
+  }, [simulation])
+
+  // A log that doesn't replay to the bench as it stands is worth knowing about
+  // before anyone relies on it
+  const exportSession = useCallback(() => {
+    const log = sessionRef.current
+    const mismatches = replayMismatches(layout, lookupChemical, simulation.rules, log.events, simulation.getState())
+    if (mismatches.length > 0) {
+      console.warn(`Session replay differs from the bench in ${mismatches.join(', ')}`)
+    }
+    downloadSessionLog(log)
+  }, [layout, lookupChemical, simulation])
+
+  useEffect(() => simulation.subscribeEvents(handleLabEvent), [simulation, handleLabEvent])
+
+  const togglePpe = (item: PpeItem) => {
+    const next = wornPpe.includes(item) ? wornPpe.filter(worn => worn !== item) : [...wornPpe, item]
+    wornPpeRef.current = next
+    setWornPpe(next)
+  }
+
+  useEffect(() => simulation.subscribeEvents(event => {
+    if (event.type === 'reaction-fired') {
+      const rule = simulation.rules.find(candidate => candidate.id === event.reaction)
+      setOutcome({ id: Date.now(), message: event.outcome, equation: rule && renderEquation(rule, lookupChemical) })
+    } else if (event.type === 'no-reaction') {
+      const names = event.chemicals.map(id => lookupChemical(id)?.name || id)
+      setOutcome({ id: Date.now(), message: `No observable reaction between ${names.join(', ')}` })
+    }
+  }), [simulation, lookupChemical])
+
+  useEffect(() => {
+    if (!outcome) return
+    const timeout = setTimeout(() => setOutcome(null), 4000)
+    return () => clearTimeout(timeout)
+  }, [outcome])
+
+  // Every bench event is checked for unsafe practice; violations are logged
+  // against the attempt and play out on the bench
+  useEffect(() => {
+    if (!safetyMonitor) return
+    return simulation.subscribeEvents((event, state) => {
+      safetyMonitor.check(event, state, wornPpeRef.current).forEach(violation => {
+        violationsRef.current = [...violationsRef.current, violation]
+        handleLabEvent({ type: 'safety-violation', rule: violation.rule, vessel: violation.vessel, message: violation.message })
+        setIncident(violation)
+      })
+    })
+  }, [simulation, safetyMonitor, handleLabEvent])
+
+  // Every action in the lab is checked against the current step
+  const handleLabAction = useCallback((action: LabAction) => {
+    if (!experiment) return
+    const previous = procedureRef.current
+    const next = applyLabAction(previous, experiment.steps, action)
+    procedureRef.current = next
+    setProcedure(next)
+
+    if (action.type === 'observe') {
+      handleLabEvent({ type: 'observation', step: action.step })
+    }
+    if (next.currentStep > previous.currentStep) {
+      const status = next.statuses[previous.currentStep]
+      if (status === 'complete' || status === 'failed') {
+        handleLabEvent({ type: 'step-completed', step: previous.currentStep, status })
       }
     }
-  }, [experiment, currentStep])
+
+    if (!isProcedureFinished(previous) && isProcedureFinished(next)) {
+      onComplete?.(next, violationsRef.current)
+    }
+  }, [experiment, onComplete, handleLabEvent])
+
+  // The reading is what counts as measured; what the cylinder really holds is
+  // what gets poured
+  const handleMeasurement = useCallback((reading: MeniscusReading) => {
+    if (!measuring) return
+    const { chemical, cylinder } = measuring
+    handleLabEvent({
+      type: 'measurement',
+      vessel: cylinder.id,
+      chemical: chemical.id,
+      reading: reading.reading,
+      volume: reading.volume,
+      eye: reading.eye
+    })
+    handleLabAction({ type: 'measure', chemical: chemical.id, amount: reading.reading })
+  }, [measuring, handleLabEvent, handleLabAction])
+
+  // The display reading is what counts as weighed; the sample itself is what
+  // goes into the vessel
+  const handleWeighedTransfer = useCallback(() => {
+    if (!weighing) return
+    const { chemical, balance, load } = weighing
+    const reading = balanceReading(WEIGHING_BOAT_MASS + load.sample, load.tare)
+    handleLabEvent({ type: 'weighing', balance: balance.id, chemical: chemical.id, reading, mass: load.sample })
+    handleLabAction({ type: 'weigh', chemical: chemical.id, mass: reading })
+    pourChemical(chemical, molesFromMass(chemical, load.sample))
+    setWeighing(null)
+  }, [weighing, handleLabEvent, handleLabAction, pourChemical])
+
+  const latestFeedback = procedure.feedback[procedure.feedback.length - 1]
+  const [showFeedback, setShowFeedback] = useState(false)
+
+  useEffect(() => {
+    if (procedure.feedback.length === 0) return
+    setShowFeedback(true)
+    const timeout = setTimeout(() => setShowFeedback(false), 4000)
+    return () => clearTimeout(timeout)
+  }, [procedure.feedback.length])
+  const finished = isProcedureFinished(procedure)
+  const currentStep = Math.min(procedure.currentStep, Math.max((experiment?.steps.length || 1) - 1, 0))
 
   if (!experiment) {
     return <LoadingScreen />
@@ -141,11 +365,23 @@ export default function Lab3D({ experiment, onBack }: Lab3DProps) {
             <LabEquipment 
               ref={labEquipmentRef}
               experiment={experiment} 
-              onStepComplete={handleStepComplete}
-              onChemicalAdd={handleChemicalAdd}
+              simulation={simulation}
+              onLabAction={handleLabAction}
               onReactionTrigger={handleReactionTrigger}
+              onTitrationUpdate={setTitrationPoints}
+              onRateUpdate={setRateRuns}
+              balanceLoads={balanceLoads}
             />
+            <ReagentShelf chemicals={reagents} onInspect={setInspectedChemical} />
             
+            {incident && (
+              <IncidentEffect
+                key={incident.key}
+                type={incident.incident}
+                position={(layout.find(item => item.id === incident.vessel) || receiver)?.position || [0, -0.25, 0]}
+              />
+            )}
+
             {/* Reaction Effects */}
             {reactionState && (
               <ReactionEffect
@@ -216,6 +452,26 @@ export default function Lab3D({ experiment, onBack }: Lab3DProps) {
               >
                 <Shield size={20} />
               </motion.button>
+
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={handleReset}
+                title="Reset the bench"
+                className="glass p-3 rounded-lg text-white hover:bg-white/10 transition-colors"
+              >
+                <RotateCcw size={20} />
+              </motion.button>
+
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={exportSession}
+                title="Export session log"
+                className="glass p-3 rounded-lg text-white hover:bg-white/10 transition-colors"
+              >
+                <Download size={20} />
+              </motion.button>
             </div>
           </div>
 
@@ -224,7 +480,7 @@ export default function Lab3D({ experiment, onBack }: Lab3DProps) {
             <div className="glass p-4 rounded-lg space-y-3">
               <div className="flex items-center space-x-2 text-white">
                 <Thermometer size={16} />
-                <span className="text-sm">{temperature}°C</span>
+                <span className="text-sm">{temperature.toFixed(1)}°C</span>
               </div>
               <div className="flex items-center space-x-2 text-white">
                 <Timer size={16} />
@@ -232,11 +488,146 @@ export default function Lab3D({ experiment, onBack }: Lab3DProps) {
               </div>
               <div className="flex items-center space-x-2 text-white">
                 <Eye size={16} />
-                <span className="text-sm">Step {currentStep + 1}/{experiment.steps.length}</span>
+                <span className="text-sm">
+                  {experiment.steps.length === 0
+                    ? 'Free play'
+                    : finished ? 'Procedure complete' : `Step ${currentStep + 1}/${experiment.steps.length}`}
+                </span>
               </div>
             </div>
           </div>
 
+          {/* Step Feedback */}
+          <div className="absolute top-20 left-0 right-0 flex flex-col items-center space-y-2">
+            <AnimatePresence>
+              {showFeedback && latestFeedback && (
+                <motion.div
+                  key={procedure.feedback.length}
+                  initial={{ opacity: 0, y: -20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -20 }}
+                  className={`max-w-md glass px-4 py-3 rounded-lg text-sm pointer-events-auto ${
+                    latestFeedback.kind === 'success'
+                      ? 'text-green-300 border border-green-500/50'
+                      : latestFeedback.kind === 'error'
+                      ? 'text-red-300 border border-red-500/50'
+                      : 'text-blue-300 border border-blue-500/50'
+                  }`}
+                >
+                  {latestFeedback.message}
+                </motion.div>
+              )}
+            </AnimatePresence>
+            <AnimatePresence>
+              {outcome && (
+                <motion.div
+                  key={outcome.id}
+                  initial={{ opacity: 0, y: -20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -20 }}
+                  className="max-w-md glass px-4 py-2 rounded-lg text-sm text-slate-200 border border-slate-500/50"
+                >
+                  ⚗️ {outcome.message}
+                  {outcome.equation && (
+                    <div className="mt-1 font-mono text-xs text-blue-300">{outcome.equation}</div>
+                  )}
+                </motion.div>
+              )}
+            </AnimatePresence>
+          </div>
+
+          {/* Titration and reaction rate, stacked when a bench has both */}
+          <div className="absolute bottom-4 left-4 max-h-[calc(100vh-6rem)] overflow-y-auto flex flex-col space-y-3 pointer-events-auto">
+            {experiment.materials.some(material => material.equipmentType === 'burette') && (
+              <TitrationCurve
+                points={titrationPoints}
+                stopcock={stopcock}
+                onStopcockChange={handleStopcockChange}
+              />
+            )}
+            {rateRuns.length > 0 && <RateComparison runs={rateRuns} />}
+          </div>
+
+          {overlay}
+
+          {/* Weighing out a solid */}
+          {weighing && (
+            <div className="absolute top-1/2 right-4 -translate-y-1/2 pointer-events-auto">
+              <WeighingPanel
+                chemical={weighing.chemical}
+                load={weighing.load}
+                reactions={experiment.reactions}
+                lookup={lookupChemical}
+                onChange={load => setWeighing({ ...weighing, load })}
+                onTransfer={handleWeighedTransfer}
+                onClose={() => setWeighing(null)}
+              />
+            </div>
+          )}
+
+          {/* Measuring out a liquid */}
+          {measuring && (
+            <div className="absolute top-1/2 right-4 -translate-y-1/2 pointer-events-auto">
+              <MeasuringPanel
+                key={`${measuring.cylinder.id}-${measuring.chemical.id}`}
+                chemical={measuring.chemical}
+                cylinder={measuring.cylinder}
+                volume={measuredVolume}
+                onFill={amount => labEquipmentRef.current?.fillVessel?.(measuring.cylinder.id, measuring.chemical, amount)}
+                onRecord={handleMeasurement}
+                onPour={receiver ? () => {
+                  labEquipmentRef.current?.pourVessel?.(measuring.cylinder.id, receiver.id)
+                  setMeasuring(null)
+                } : undefined}
+                onClose={() => setMeasuring(null)}
+              />
+            </div>
+          )}
+
+          {/* Safety incident debrief */}
+          <AnimatePresence>
+            {incident && (
+              <motion.div
+                key={incident.key}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: 20 }}
+                className="absolute bottom-4 left-1/2 -translate-x-1/2 w-[28rem] glass p-4 rounded-lg border border-red-500/50 pointer-events-auto"
+              >
+                <div className="flex items-start space-x-3">
+                  <AlertTriangle className="text-red-400 mt-1 shrink-0" size={20} />
+                  <div className="space-y-2">
+                    <h3 className="text-red-300 font-semibold">{incident.message}</h3>
+                    <p className="text-slate-200 text-sm">{incident.debrief}</p>
+                    <div className="flex items-center justify-between">
+                      <span className="text-red-300 text-xs">
+                        {incident.severity === 'major' ? 'Major' : 'Minor'} violation · −{VIOLATION_PENALTIES[incident.severity]} points
+                      </span>
+                      <button
+                        className="rounded bg-white/10 hover:bg-white/20 px-3 py-1 text-xs text-white"
+                        onClick={() => setIncident(null)}
+                      >
+                        Clean up and continue
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              </motion.div>
+            )}
+          </AnimatePresence>
+
+          {/* Safety Data Sheet */}
+          {inspectedChemical && (
+            <div className="absolute top-20 left-4 pointer-events-auto">
+              <SafetyDataSheet
+                chemical={inspectedChemical}
+                lookup={lookupChemical}
+                onClose={() => setInspectedChemical(null)}
+                onAdd={handleChemicalAdd}
+              />
+            </div>
+          )}
+
           {/* Safety Alert */}
           <AnimatePresence>
             {showSafety && (
@@ -257,6 +648,15 @@ export default function Lab3D({ experiment, onBack }: Lab3DProps) {
                         </p>
                       ))}
                     </div>
+                    <h4 className="text-yellow-400 font-semibold text-sm mt-3 mb-1">Protective equipment</h4>
+                    <div className="space-y-1">
+                      {(Object.keys(PPE_NAMES) as PpeItem[]).map(item => (
+                        <label key={item} className="flex items-center space-x-2 text-yellow-100 text-sm cursor-pointer">
+                          <input type="checkbox" checked={wornPpe.includes(item)} onChange={() => togglePpe(item)} />
+                          <span>{PPE_NAMES[item]}</span>
+                        </label>
+                      ))}
+                    </div>
                   </div>
                 </div>
               </motion.div>
@@ -278,11 +678,11 @@ export default function Lab3D({ experiment, onBack }: Lab3DProps) {
             <ExperimentPanel
               experiment={experiment}
               currentStep={currentStep}
-              onStepComplete={(stepIndex) => {
-                handleStepComplete(stepIndex)
-              }}
+              procedure={procedure}
+              onObserve={(stepIndex) => handleLabAction({ type: 'observe', step: stepIndex })}
               onClose={() => setShowInstructions(false)}
               onChemicalAdd={handleChemicalAdd}
+              onInspectChemical={setInspectedChemical}
             />
           </motion.div>
         )}
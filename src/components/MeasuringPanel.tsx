@@ -0,0 +1,188 @@
+'use client'
+
+import { useState } from 'react'
+import { ChevronDown, ChevronUp, Eye, Pipette, X } from 'lucide-react'
+import { Chemical, EyeLevel, MeniscusReading } from '@/types'
+import { EquipmentLayoutItem } from '@/lib/equipmentLayout'
+import {
+  apparentVolume,
+  dispensedVolume,
+  graduationInterval,
+  readMeniscus,
+  withinReadingTolerance
+} from '@/lib/chemistry/measurement'
+
+const VIEW_WIDTH = 150
+const VIEW_HEIGHT = 200
+// Graduations visible in the close-up around the meniscus
+const VIEW_DIVISIONS = 12
+// Every fifth graduation is a long, labelled one
+const MAJOR_EVERY = 5
+// Depth of the meniscus curve in the close-up
+const MENISCUS_DEPTH = 8 // px
+
+const EYE_LEVELS: { eye: EyeLevel; label: string; icon: typeof Eye }[] = [
+  { eye: 'above', label: 'Above', icon: ChevronUp },
+  { eye: 'level', label: 'Eye level', icon: Eye },
+  { eye: 'below', label: 'Below', icon: ChevronDown }
+]
+
+interface MeasuringPanelProps {
+  chemical: Chemical
+  cylinder: EquipmentLayoutItem
+  // What the cylinder really holds
+  volume: number
+  onFill: (amount: number) => void
+  onRecord: (reading: MeniscusReading) => void
+  // Pour the measured liquid on; absent when there is nowhere to pour it
+  onPour?: () => void
+  onClose: () => void
+}
+
+// Close-up of the scale around the meniscus, as seen from the chosen eye level
+function MeniscusView({ volume, capacity, eye, color }: { volume: number; capacity: number; eye: EyeLevel; color: string }) {
+  const interval = graduationInterval(capacity)
+  const apparent = apparentVolume(volume, capacity, eye)
+  const half = (VIEW_DIVISIONS / 2) * interval
+  const center = Math.min(capacity - half, Math.max(half, apparent))
+  const scale = VIEW_HEIGHT / (VIEW_DIVISIONS * interval)
+  const y = (value: number) => VIEW_HEIGHT / 2 - (value - center) * scale
+  const surface = y(apparent)
+
+  const first = Math.ceil((center - half) / interval)
+  const last = Math.floor((center + half) / interval)
+  const marks = Array.from({ length: last - first + 1 }, (_, index) => first + index)
+
+  return (
+    <svg width={VIEW_WIDTH} height={VIEW_HEIGHT} className="rounded bg-slate-100/10">
+      {volume > 0 && (
+        <path
+          d={`M 0 ${surface - MENISCUS_DEPTH} Q ${VIEW_WIDTH / 2} ${surface + MENISCUS_DEPTH} ${VIEW_WIDTH} ${surface - MENISCUS_DEPTH} L ${VIEW_WIDTH} ${VIEW_HEIGHT} L 0 ${VIEW_HEIGHT} Z`}
+          fill={color}
+          fillOpacity={0.55}
+        />
+      )}
+      {marks.map(mark => {
+        const major = mark % MAJOR_EVERY === 0
+        return (
+          <g key={mark}>
+            <line x1={0} x2={major ? 40 : 22} y1={y(mark * interval)} y2={y(mark * interval)} stroke="#e2e8f0" strokeWidth={1} />
+            {major && (
+              <text x={46} y={y(mark * interval) + 4} fill="#e2e8f0" fontSize={12} fontFamily="monospace">
+                {Number((mark * interval).toFixed(1))}
+              </text>
+            )}
+          </g>
+        )
+      })}
+    </svg>
+  )
+}
+
+// Measuring out a liquid: fill the cylinder roughly from the bottle, top it up
+// with a dropper, then read the bottom of the meniscus. Reading from above or
+// below eye level throws the reading off.
+export default function MeasuringPanel({ chemical, cylinder, volume, onFill, onRecord, onPour, onClose }: MeasuringPanelProps) {
+  const [eye, setEye] = useState<EyeLevel>('above')
+  const [recorded, setRecorded] = useState<MeniscusReading | null>(null)
+  const interval = graduationInterval(cylinder.capacity)
+  const room = Math.max(0, cylinder.capacity - volume)
+
+  // Bottle pours are rough; the dropper delivers a fifth of a division at a time
+  const fills = [
+    { label: `Pour ~${10 * interval} mL`, amount: () => dispensedVolume(10 * interval) },
+    { label: `Pour ~${interval} mL`, amount: () => dispensedVolume(interval) },
+    { label: `Dropper`, amount: () => interval / 5 }
+  ]
+
+  const fill = (amount: number) => {
+    setRecorded(null)
+    onFill(Math.min(amount, room))
+  }
+
+  const record = () => {
+    const reading = readMeniscus(volume, cylinder.capacity, eye)
+    setRecorded(reading)
+    onRecord(reading)
+  }
+
+  return (
+    <div className="glass rounded-lg p-4 w-[26rem] space-y-3 text-white">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold">Measure {chemical.name}</h3>
+          <p className="text-xs text-slate-400">
+            {cylinder.capacity} mL graduated cylinder · {interval} mL divisions
+          </p>
+        </div>
+        <button onClick={onClose} className="rounded p-1 hover:bg-white/10">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex gap-4">
+        <MeniscusView volume={volume} capacity={cylinder.capacity} eye={eye} color={chemical.color.slice(0, 7)} />
+
+        <div className="flex-1 space-y-3 text-sm">
+          <div className="space-y-1">
+            <div className="text-xs text-slate-400">Fill</div>
+            {fills.map(option => (
+              <button
+                key={option.label}
+                disabled={room <= 0}
+                onClick={() => fill(option.amount())}
+                className="w-full flex items-center gap-2 rounded bg-white/10 hover:bg-white/20 px-2 py-1 text-left disabled:opacity-50"
+              >
+                {option.label === 'Dropper' && <Pipette size={14} />}
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-1">
+            <div className="text-xs text-slate-400">Read from</div>
+            <div className="flex gap-1">
+              {EYE_LEVELS.map(({ eye: level, label, icon: Icon }) => (
+                <button
+                  key={level}
+                  title={label}
+                  onClick={() => setEye(level)}
+                  className={`flex-1 flex justify-center rounded px-2 py-1 ${
+                    eye === level ? 'bg-blue-600/60' : 'bg-white/10 hover:bg-white/20'
+                  }`}
+                >
+                  <Icon size={14} />
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <button
+            disabled={volume <= 0}
+            onClick={record}
+            className="w-full rounded bg-blue-600 hover:bg-blue-500 px-2 py-1 font-semibold disabled:opacity-50"
+          >
+            Record reading
+          </button>
+        </div>
+      </div>
+
+      {recorded && (
+        <div className="space-y-2 text-sm">
+          <p>
+            You read <span className="font-mono">{recorded.reading} mL</span>.
+            {recorded.eye !== 'level' &&
+              ` Reading from ${recorded.eye} made the meniscus look ${Math.abs(recorded.error).toFixed(1)} mL ` +
+              `${recorded.error > 0 ? 'higher' : 'lower'} than it is; read with your eye level with its bottom.`}
+            {recorded.eye === 'level' && withinReadingTolerance(recorded, cylinder.capacity) && ' Read level with the meniscus.'}
+          </p>
+          {onPour && (
+            <button onClick={onPour} className="w-full rounded bg-green-600 hover:bg-green-500 px-2 py-1 font-semibold">
+              Pour it into the reaction vessel
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
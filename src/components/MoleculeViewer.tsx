@@ -0,0 +1,59 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Canvas } from '@react-three/fiber'
+import { OrbitControls } from '@react-three/drei'
+import { Chemical, MoleculeStyle } from '@/types'
+import { chemicalStructure } from '@/data/molecules'
+import { moleculeRadius } from '@/lib/chemistry/molecule'
+import Molecule from './3d/Molecule'
+
+const STYLES: { style: MoleculeStyle; label: string }[] = [
+  { style: 'ball-and-stick', label: 'Ball and stick' },
+  { style: 'space-filling', label: 'Space filling' },
+  { style: 'wireframe', label: 'Wireframe' }
+]
+
+interface MoleculeViewerProps {
+  chemical: Chemical
+}
+
+// A turntable view of a chemical's structure that can be dragged round
+export default function MoleculeViewer({ chemical }: MoleculeViewerProps) {
+  const [style, setStyle] = useState<MoleculeStyle>('ball-and-stick')
+  const structure = useMemo(() => chemicalStructure(chemical), [chemical])
+
+  if (!structure) {
+    return <p className="text-slate-400 text-xs">No single structure on record for {chemical.name}</p>
+  }
+
+  // Far enough back that the whole structure fits at any angle
+  const distance = Math.max(moleculeRadius(structure) * 2.6, 4)
+
+  return (
+    <div className="space-y-2">
+      <div className="h-48 rounded bg-slate-900/80">
+        <Canvas key={chemical.id} camera={{ position: [0, 0, distance], fov: 45 }}>
+          <ambientLight intensity={0.6} />
+          <directionalLight position={[5, 5, 5]} intensity={1} />
+          <directionalLight position={[-5, -3, -5]} intensity={0.3} />
+          <Molecule structure={structure} style={style} />
+          <OrbitControls enablePan={false} autoRotate autoRotateSpeed={1.5} />
+        </Canvas>
+      </div>
+      <div className="flex gap-1">
+        {STYLES.map(option => (
+          <button
+            key={option.style}
+            onClick={() => setStyle(option.style)}
+            className={`flex-1 rounded px-2 py-1 text-xs ${
+              style === option.style ? 'bg-blue-600 text-white' : 'bg-white/10 text-slate-300 hover:bg-white/20'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,202 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { motion } from 'framer-motion'
+import { ArrowLeft, Check, Glasses, Hand, LucideIcon, Shirt, ShieldCheck, Wind, X } from 'lucide-react'
+import { Experiment, PpeItem, PreLabResult } from '@/types'
+import { PPE_NAMES } from '@/data/ghs'
+import { experimentChemicalLookup } from '@/data/chemicalData'
+import { safetySummary } from '@/lib/safety'
+import { PASS_MARK, generateSafetyQuiz, missingPpe, quizScore } from '@/lib/preLab'
+import GhsPictogram from './GhsPictogram'
+
+const PPE_ICONS: Record<PpeItem, LucideIcon> = {
+  goggles: Glasses,
+  gloves: Hand,
+  'lab-coat': Shirt,
+  'fume-hood': Wind
+}
+
+interface PreLabCheckProps {
+  experiment: Experiment
+  onPass: (result: PreLabResult) => void
+  onBack: () => void
+}
+
+// The gate in front of the lab: put on the protective equipment the
+// experiment's chemicals call for and pass a short safety quiz about them
+export default function PreLabCheck({ experiment, onPass, onBack }: PreLabCheckProps) {
+  const lookup = useMemo(() => experimentChemicalLookup(experiment.chemicals), [experiment])
+  const summary = useMemo(() => safetySummary(experiment, lookup), [experiment, lookup])
+  const quiz = useMemo(() => generateSafetyQuiz(experiment, lookup), [experiment, lookup])
+  const [equipped, setEquipped] = useState<PpeItem[]>([])
+  const [answers, setAnswers] = useState<(number | null)[]>(() => quiz.map(() => null))
+  const [submitted, setSubmitted] = useState(false)
+  const [attempts, setAttempts] = useState(0)
+
+  const stillMissing = missingPpe(summary.ppe, equipped)
+  const score = quizScore(quiz, answers)
+  const passed = submitted && score >= PASS_MARK
+  const answeredAll = answers.every(answer => answer !== null)
+
+  const toggle = (item: PpeItem) =>
+    setEquipped(current => (current.includes(item) ? current.filter(worn => worn !== item) : [...current, item]))
+
+  const answer = (question: number, option: number) => {
+    if (submitted) return
+    setAnswers(current => current.map((existing, index) => (index === question ? option : existing)))
+  }
+
+  const submit = () => {
+    setSubmitted(true)
+    setAttempts(attempts + 1)
+  }
+
+  const retry = () => {
+    setSubmitted(false)
+    setAnswers(quiz.map(() => null))
+  }
+
+  const enter = () =>
+    onPass({ passed: true, quizScore: score, attempts, ppe: equipped, completedAt: new Date().toISOString() })
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 to-slate-800 text-white">
+      <div className="max-w-3xl mx-auto p-6 space-y-6">
+        <button
+          onClick={onBack}
+          className="glass flex items-center space-x-2 px-4 py-2 rounded-lg hover:bg-white/10 transition-colors"
+        >
+          <ArrowLeft size={20} />
+          <span>Back to Dashboard</span>
+        </button>
+
+        <div>
+          <div className="text-sm text-slate-400">Pre-lab check</div>
+          <h1 className="text-2xl font-bold">{experiment.title}</h1>
+          <p className="text-slate-300 text-sm mt-1">
+            Get ready for the bench: put on your protective equipment and answer a few questions about the chemicals
+            you are about to use.
+          </p>
+        </div>
+
+        {summary.hazardous.length > 0 && (
+          <div className="glass rounded-lg p-4 space-y-2">
+            <h2 className="font-semibold">Hazards in this experiment</h2>
+            <div className="flex flex-wrap gap-3">
+              {summary.hazardous.map(chemical => (
+                <div key={chemical.id} className="flex items-center gap-1 text-sm text-slate-300">
+                  {chemical.hazards.pictograms.map(pictogram => (
+                    <GhsPictogram key={pictogram} pictogram={pictogram} size={24} />
+                  ))}
+                  <span>{chemical.name}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="glass rounded-lg p-4 space-y-3">
+          <h2 className="font-semibold">1. Protective equipment</h2>
+          <div className="grid grid-cols-2 gap-2">
+            {summary.ppe.map(item => {
+              const Icon = PPE_ICONS[item]
+              const on = equipped.includes(item)
+              return (
+                <button
+                  key={item}
+                  onClick={() => toggle(item)}
+                  className={`flex items-center gap-3 rounded-lg px-3 py-2 text-left transition-colors ${
+                    on ? 'bg-green-600/30 border border-green-500/60' : 'bg-white/5 border border-white/10 hover:bg-white/10'
+                  }`}
+                >
+                  <Icon size={20} className={on ? 'text-green-300' : 'text-slate-400'} />
+                  <span className="flex-1 text-sm">
+                    {item === 'fume-hood' ? 'Work in the fume hood' : `Put on ${PPE_NAMES[item].toLowerCase()}`}
+                  </span>
+                  {on && <Check size={16} className="text-green-300" />}
+                </button>
+              )
+            })}
+          </div>
+        </div>
+
+        {quiz.length > 0 && (
+          <div className="glass rounded-lg p-4 space-y-4">
+            <h2 className="font-semibold">2. Safety quiz</h2>
+            {quiz.map((question, questionIndex) => (
+              <div key={questionIndex} className="space-y-2">
+                <div className="text-sm font-medium">
+                  {questionIndex + 1}. {question.prompt}
+                </div>
+                <div className="grid gap-1">
+                  {question.options.map((option, optionIndex) => {
+                    const chosen = answers[questionIndex] === optionIndex
+                    const right = submitted && optionIndex === question.answer
+                    const wrong = submitted && chosen && !right
+                    return (
+                      <button
+                        key={optionIndex}
+                        onClick={() => answer(questionIndex, optionIndex)}
+                        className={`flex items-center gap-2 rounded px-3 py-1.5 text-left text-sm transition-colors ${
+                          right
+                            ? 'bg-green-600/30 text-green-100'
+                            : wrong
+                            ? 'bg-red-600/30 text-red-100'
+                            : chosen
+                            ? 'bg-blue-600/40 text-white'
+                            : 'bg-white/5 text-slate-300 hover:bg-white/10'
+                        }`}
+                      >
+                        <span className="flex-1">{option}</span>
+                        {right && <Check size={14} />}
+                        {wrong && <X size={14} />}
+                      </button>
+                    )
+                  })}
+                </div>
+                {submitted && answers[questionIndex] !== question.answer && (
+                  <p className="text-xs text-slate-400">{question.explanation}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <div className="text-sm text-slate-300">
+            {stillMissing.length > 0
+              ? `Still needed: ${stillMissing.map(item => PPE_NAMES[item]).join(', ')}`
+              : submitted
+              ? `Quiz score ${Math.round(score * 100)}% (${Math.round(PASS_MARK * 100)}% to pass)`
+              : 'Equipment on. Answer every question to continue.'}
+          </div>
+          {passed ? (
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={enter}
+              disabled={stillMissing.length > 0}
+              className="flex items-center gap-2 rounded-lg bg-green-600 px-4 py-2 font-semibold disabled:opacity-50"
+            >
+              <ShieldCheck size={18} />
+              Enter the lab
+            </motion.button>
+          ) : submitted ? (
+            <button onClick={retry} className="rounded-lg bg-white/10 hover:bg-white/20 px-4 py-2">
+              Try again
+            </button>
+          ) : (
+            <button
+              onClick={submit}
+              disabled={!answeredAll}
+              className="rounded-lg bg-blue-600 hover:bg-blue-500 px-4 py-2 font-semibold disabled:opacity-50"
+            >
+              Check answers
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+'use client'
+
+import { useState } from 'react'
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts'
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent
+} from '@/components/ui/chart'
+import { RateRun } from '@/types'
+
+interface RateComparisonProps {
+  runs: RateRun[]
+}
+
+type RateMeasure = 'concentration' | 'volume'
+
+const RUN_COLORS = ['#60a5fa', '#f472b6', '#34d399', '#fbbf24', '#a78bfa']
+
+// Concentration or gas collected against time for each run, overlaid so
+// catalysts, temperatures and starting concentrations can be compared
+export default function RateComparison({ runs }: RateComparisonProps) {
+  const hasGas = runs.some(run => run.points.some(point => point.volume !== undefined))
+  const [chosen, setChosen] = useState<RateMeasure>('volume')
+  const measure = hasGas ? chosen : 'concentration'
+  const chartConfig = Object.fromEntries(
+    runs.map((run, index) => [`run${index}`, { label: run.label, color: RUN_COLORS[index % RUN_COLORS.length] }])
+  ) satisfies ChartConfig
+  const latest = runs[runs.length - 1]
+  const reading = latest?.points[latest.points.length - 1]
+  const units = measure === 'volume' ? 'mL of gas collected' : `mol/L of ${latest?.reactant} left`
+
+  const readingText = () => {
+    if (!reading) return 'Start the reaction to plot its progress'
+    const value = measure === 'volume'
+      ? `${(reading.volume ?? 0).toFixed(1)} mL`
+      : `${reading.concentration.toFixed(3)} M`
+    return `${value} after ${reading.time.toFixed(0)} s`
+  }
+
+  return (
+    <div className="glass p-4 rounded-lg w-96 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-white font-semibold text-sm">Reaction Rate</h3>
+        <div className="text-xs text-slate-300">{readingText()}</div>
+      </div>
+
+      {hasGas && (
+        <div className="flex gap-1 text-xs">
+          {(['volume', 'concentration'] as const).map(option => (
+            <button
+              key={option}
+              className={`flex-1 rounded px-2 py-0.5 ${measure === option ? 'bg-white/20 text-white' : 'bg-white/5 text-slate-400 hover:bg-white/10'}`}
+              onClick={() => setChosen(option)}
+            >
+              {option === 'volume' ? 'Gas collected' : 'Concentration'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <ChartContainer config={chartConfig} className="h-48 w-full">
+        <LineChart margin={{ top: 8, right: 8, bottom: 8, left: -16 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+          <XAxis
+            dataKey="time"
+            type="number"
+            domain={[0, 'auto']}
+            tick={{ fill: '#94a3b8', fontSize: 10 }}
+            tickFormatter={(value: number) => `${value}s`}
+          />
+          <YAxis domain={[0, 'auto']} tick={{ fill: '#94a3b8', fontSize: 10 }} />
+          <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `${payload?.[0]?.payload.time.toFixed(0)} s`} />} />
+          <ChartLegend content={<ChartLegendContent nameKey="value" />} />
+          {runs.map((run, index) => (
+            <Line
+              key={index}
+              data={run.points}
+              dataKey={measure}
+              name={`run${index}`}
+              stroke={`var(--color-run${index})`}
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+          ))}
+        </LineChart>
+      </ChartContainer>
+
+      <p className="text-slate-400 text-xs">{units}. Reset the bench to start a new run.</p>
+    </div>
+  )
+}
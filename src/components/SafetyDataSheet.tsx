@@ -0,0 +1,142 @@
+'use client'
+
+import { X } from 'lucide-react'
+import { Chemical } from '@/types'
+import { HAZARD_STATEMENTS, PICTOGRAMS, PPE_NAMES, PRECAUTIONARY_STATEMENTS } from '@/data/ghs'
+import { ChemicalLookup } from '@/lib/chemistry/solution'
+import { chemicalMolarMass } from '@/lib/chemistry/formula'
+import GhsPictogram from './GhsPictogram'
+import MoleculeViewer from './MoleculeViewer'
+
+interface SafetyDataSheetProps {
+  chemical: Chemical
+  lookup: ChemicalLookup
+  onClose: () => void
+  onAdd?: (chemical: Chemical) => void
+}
+
+function Section({ number, title, children }: { number: number; title: string; children: React.ReactNode }) {
+  return (
+    <section className="space-y-1">
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+        {number}. {title}
+      </h4>
+      {children}
+    </section>
+  )
+}
+
+// The sections of a Safety Data Sheet a student needs at the bench
+export default function SafetyDataSheet({ chemical, lookup, onClose, onAdd }: SafetyDataSheetProps) {
+  const hazards = chemical.hazards
+  const properties = chemical.properties
+  const classified = Boolean(hazards?.pictograms.length || hazards?.hazardStatements.length)
+
+  return (
+    <div className="glass rounded-lg w-96 max-h-[70vh] overflow-y-auto p-4 space-y-4 text-sm">
+      <div className="flex items-start justify-between">
+        <div>
+          <div className="text-xs text-slate-400">Safety Data Sheet</div>
+          <h3 className="text-white font-semibold text-lg">{chemical.name}</h3>
+        </div>
+        <button onClick={onClose} className="p-1 rounded hover:bg-white/10 text-slate-400 hover:text-white">
+          <X size={18} />
+        </button>
+      </div>
+
+      <Section number={1} title="Identification">
+        <div className="text-slate-300">
+          {chemical.formula}
+          {chemicalMolarMass(chemical) !== null && ` · ${chemicalMolarMass(chemical).toFixed(2)} g/mol`}
+          {chemical.concentration && ` · ${chemical.concentration} mol/L`}
+        </div>
+        <MoleculeViewer chemical={chemical} />
+      </Section>
+
+      <Section number={2} title="Hazards identification">
+        {classified ? (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 flex-wrap">
+              {hazards.pictograms.map(pictogram => (
+                <GhsPictogram key={pictogram} pictogram={pictogram} size={40} />
+              ))}
+              {hazards.signalWord && (
+                <span className={`font-bold uppercase ${hazards.signalWord === 'Danger' ? 'text-red-400' : 'text-yellow-400'}`}>
+                  {hazards.signalWord}
+                </span>
+              )}
+            </div>
+            <div className="text-xs text-slate-400">
+              {hazards.pictograms.map(pictogram => PICTOGRAMS[pictogram].code).join(', ')}
+            </div>
+            {hazards.classes.length > 0 && (
+              <ul className="text-slate-300 text-xs list-disc list-inside">
+                {hazards.classes.map(hazardClass => <li key={hazardClass}>{hazardClass}</li>)}
+              </ul>
+            )}
+            {hazards.hazardStatements.map(code => (
+              <div key={code} className="text-slate-200">
+                <span className="font-mono text-red-300 mr-2">{code}</span>
+                {HAZARD_STATEMENTS[code] || ''}
+              </div>
+            ))}
+            {hazards.precautionaryStatements.map(code => (
+              <div key={code} className="text-slate-300 text-xs">
+                <span className="font-mono text-blue-300 mr-2">{code}</span>
+                {PRECAUTIONARY_STATEMENTS[code] || ''}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-slate-300">Not classified as hazardous</div>
+        )}
+      </Section>
+
+      {hazards?.firstAid && (
+        <Section number={4} title="First aid">
+          <div className="text-slate-300">{hazards.firstAid}</div>
+        </Section>
+      )}
+
+      <Section number={8} title="Personal protection">
+        <div className="flex flex-wrap gap-1">
+          {(hazards?.ppe.length ? hazards.ppe : ['goggles' as const]).map(item => (
+            <span key={item} className="px-2 py-0.5 rounded bg-blue-500/20 text-blue-300 text-xs">
+              {PPE_NAMES[item]}
+            </span>
+          ))}
+        </div>
+      </Section>
+
+      <Section number={9} title="Physical and chemical properties">
+        <div className="grid grid-cols-2 gap-x-4 text-xs text-slate-300">
+          <span>State: {properties.state}</span>
+          <span>Density: {properties.density} g/cm³</span>
+          <span>Melting point: {properties.meltingPoint} °C</span>
+          <span>Boiling point: {properties.boilingPoint} °C</span>
+          <span>Solubility: {properties.solubility} g/100 mL</span>
+          {chemical.ph !== undefined && <span>pH: {chemical.ph}</span>}
+        </div>
+      </Section>
+
+      <Section number={10} title="Stability and reactivity">
+        {hazards?.incompatibilities.length ? (
+          <div className="text-slate-300">
+            Keep away from {hazards.incompatibilities.map(id => lookup(id)?.name || id).join(', ')}
+          </div>
+        ) : (
+          <div className="text-slate-300">No known incompatibilities among the lab's chemicals</div>
+        )}
+      </Section>
+
+      {onAdd && (
+        <button
+          onClick={() => onAdd(chemical)}
+          className="w-full rounded-lg bg-green-600 hover:bg-green-700 text-white py-2 font-medium"
+        >
+          Add to beaker
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,184 @@
+'use client'
+
+import { Suspense, useEffect, useMemo, useState } from 'react'
+import { Canvas } from '@react-three/fiber'
+import { OrbitControls, Environment, ContactShadows } from '@react-three/drei'
+import { ArrowLeft, Pause, Play } from 'lucide-react'
+import { Chemical, Experiment, LabEvent, SessionLog } from '@/types'
+import { experimentChemicalLookup } from '@/data/chemicalData'
+import { experimentRules } from '@/data/reactionLogic'
+import { getEquipmentLayout } from '@/lib/equipmentLayout'
+import { createLabSimulation } from '@/lib/simulation'
+import { sessionDuration } from '@/lib/session'
+import { GAS_TEST_NAMES } from '@/lib/chemistry/gas'
+import LabEnvironment from './3d/LabEnvironment'
+import LabEquipment from './3d/LabEquipment'
+
+interface SessionReplayProps {
+  experiment: Experiment
+  log: SessionLog
+  onBack: () => void
+}
+
+const PLAYBACK_INTERVAL = 100 // ms
+
+function formatTime(ms: number): string {
+  const seconds = Math.floor(ms / 1000)
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`
+}
+
+function describeEvent(event: LabEvent, lookup: (id: string) => Chemical | undefined): string {
+  switch (event.type) {
+    case 'chemical-added': {
+      const chemical = lookup(event.chemical)
+      const unit = chemical?.properties.state === 'liquid' ? 'mL' : 'mol'
+      return `Added ${event.amount} ${unit} of ${chemical?.formula || event.chemical} to ${event.vessel}`
+    }
+    case 'transfer':
+      return `Transferred ${event.volume.toFixed(2)} mL from ${event.from} to ${event.to}`
+    case 'burner-toggled':
+      return `${event.lit ? 'Lit' : 'Turned off'} ${event.burner}`
+    case 'reaction-fired':
+      return `Reaction in ${event.vessel}: ${event.outcome}`
+    case 'step-completed':
+      return `Step ${event.step + 1} ${event.status === 'complete' ? 'completed' : 'failed'}`
+    case 'observation':
+      return `Recorded observation for step ${event.step + 1}`
+    case 'gas-tested':
+      return `${GAS_TEST_NAMES[event.test]} test on ${event.vessel}`
+    case 'safety-violation':
+      return `Safety violation: ${event.message}`
+    case 'no-reaction':
+      return `No observable reaction in ${event.vessel}`
+    case 'measurement': {
+      const parallax = event.eye === 'level' ? '' : `, read from ${event.eye} eye level`
+      return `Read ${event.reading} mL of ${lookup(event.chemical)?.formula || event.chemical} in ${event.vessel} ` +
+        `(held ${event.volume.toFixed(1)} mL${parallax})`
+    }
+    case 'weighing':
+      return `Weighed ${event.reading.toFixed(3)} g of ${lookup(event.chemical)?.formula || event.chemical} on ${event.balance} ` +
+        `(sample ${event.mass.toFixed(3)} g)`
+    case 'bench-reset':
+      return 'Reset the bench'
+    case 'equipment-placed':
+      return `Set up ${event.equipment} with ${event.vessel}`
+  }
+}
+
+// Rebuild a recorded session on the bench so it can be scrubbed through
+export default function SessionReplay({ experiment, log, onBack }: SessionReplayProps) {
+  const duration = sessionDuration(log)
+  const [position, setPosition] = useState(duration)
+  const [playing, setPlaying] = useState(false)
+
+  const lookupChemical = useMemo(() => experimentChemicalLookup(experiment.chemicals), [experiment.chemicals])
+  const simulation = useMemo(
+    () => createLabSimulation(getEquipmentLayout(experiment), lookupChemical, experimentRules(experiment.reactions)),
+    [experiment, lookupChemical]
+  )
+
+  useEffect(() => {
+    simulation.seek(log.events, position)
+  }, [simulation, log.events, position])
+
+  useEffect(() => {
+    if (!playing) return
+    const interval = setInterval(() => {
+      setPosition(current => {
+        const next = Math.min(current + PLAYBACK_INTERVAL, duration)
+        if (next >= duration) setPlaying(false)
+        return next
+      })
+    }, PLAYBACK_INTERVAL)
+    return () => clearInterval(interval)
+  }, [playing, duration])
+
+  const togglePlaying = () => {
+    if (!playing && position >= duration) setPosition(0)
+    setPlaying(!playing)
+  }
+
+  return (
+    <div className="h-screen flex bg-gradient-to-br from-slate-900 to-slate-800 overflow-hidden">
+      <div className="flex-1 relative">
+        <Canvas shadows camera={{ position: [8, 5, 8], fov: 50 }} gl={{ antialias: true, alpha: true }}>
+          <ambientLight intensity={0.4} />
+          <directionalLight position={[10, 10, 5]} intensity={1} castShadow />
+          <pointLight position={[-10, 0, -20]} intensity={0.5} />
+
+          <Suspense fallback={null}>
+            <Environment preset="studio" />
+            <LabEnvironment />
+            <LabEquipment experiment={experiment} simulation={simulation} readOnly />
+            <ContactShadows position={[0, -1.0, 0]} opacity={0.4} scale={40} blur={1} far={40} />
+          </Suspense>
+
+          <OrbitControls makeDefault minDistance={3} maxDistance={20} maxPolarAngle={Math.PI / 1.8} minPolarAngle={Math.PI / 6} />
+        </Canvas>
+
+        <div className="absolute top-4 left-4">
+          <button
+            onClick={onBack}
+            className="glass flex items-center space-x-2 px-4 py-2 rounded-lg text-white hover:bg-white/10 transition-colors"
+          >
+            <ArrowLeft size={20} />
+            <span>Back</span>
+          </button>
+        </div>
+
+        {/* Timeline */}
+        <div className="absolute bottom-4 left-4 right-4 glass p-4 rounded-lg flex items-center space-x-4">
+          <button
+            onClick={togglePlaying}
+            disabled={duration === 0}
+            className="p-2 rounded-lg bg-blue-600/60 text-blue-100 hover:bg-blue-600/80 disabled:opacity-50 transition-colors"
+          >
+            {playing ? <Pause size={16} /> : <Play size={16} />}
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            step={PLAYBACK_INTERVAL}
+            value={position}
+            onChange={event => {
+              setPlaying(false)
+              setPosition(Number(event.target.value))
+            }}
+            className="flex-1 accent-blue-500"
+          />
+          <span className="text-sm text-slate-300 font-mono w-24 text-right">
+            {formatTime(position)} / {formatTime(duration)}
+          </span>
+        </div>
+      </div>
+
+      {/* Event log */}
+      <div className="w-96 bg-slate-900/95 border-l border-slate-700 flex flex-col">
+        <div className="p-4 border-b border-slate-700">
+          <h2 className="text-white font-semibold">{experiment.title}</h2>
+          <p className="text-slate-400 text-xs">
+            Session started {new Date(log.startedAt).toLocaleString()} · {log.events.length} events
+          </p>
+        </div>
+        <div className="flex-1 overflow-y-auto p-2 space-y-1">
+          {log.events.map((event, index) => (
+            <button
+              key={index}
+              onClick={() => {
+                setPlaying(false)
+                setPosition(event.time)
+              }}
+              className={`w-full text-left px-3 py-2 rounded-lg text-xs transition-colors flex space-x-3 ${
+                event.time <= position ? 'text-slate-200 hover:bg-slate-800' : 'text-slate-500 hover:bg-slate-800/50'
+              }`}
+            >
+              <span className="font-mono text-slate-400">{formatTime(event.time)}</span>
+              <span>{describeEvent(event, lookupChemical)}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
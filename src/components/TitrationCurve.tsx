@@ -0,0 +1,88 @@
+'use client'
+
+import { useMemo } from 'react'
+import { CartesianGrid, Line, LineChart, ReferenceDot, ReferenceLine, XAxis, YAxis } from 'recharts'
+import { Droplet, Droplets, X } from 'lucide-react'
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart'
+import { StopcockState, TitrationPoint } from '@/types'
+import { findEquivalencePoint } from '@/lib/chemistry/titration'
+
+interface TitrationCurveProps {
+  points: TitrationPoint[]
+  stopcock: StopcockState
+  onStopcockChange: (state: StopcockState) => void
+}
+
+const chartConfig = {
+  ph: {
+    label: 'pH',
+    color: '#60a5fa'
+  }
+} satisfies ChartConfig
+
+export default function TitrationCurve({ points, stopcock, onStopcockChange }: TitrationCurveProps) {
+  const equivalence = useMemo(() => findEquivalencePoint(points), [points])
+  const latest = points[points.length - 1]
+
+  const stopcockButtons: { state: StopcockState; label: string; icon: React.ReactNode }[] = [
+    { state: 'closed', label: 'Closed', icon: <X size={14} /> },
+    { state: 'drop', label: 'Drops', icon: <Droplet size={14} /> },
+    { state: 'stream', label: 'Stream', icon: <Droplets size={14} /> }
+  ]
+
+  return (
+    <div className="glass p-4 rounded-lg w-96 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-white font-semibold text-sm">Titration Curve</h3>
+        <div className="text-xs text-slate-300">
+          {latest ? `${latest.volume.toFixed(2)} mL · pH ${latest.ph.toFixed(2)}` : 'Open the stopcock to begin'}
+        </div>
+      </div>
+
+      <ChartContainer config={chartConfig} className="h-48 w-full">
+        <LineChart data={points} margin={{ top: 8, right: 8, bottom: 8, left: -16 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+          <XAxis
+            dataKey="volume"
+            type="number"
+            domain={[0, 'auto']}
+            tick={{ fill: '#94a3b8', fontSize: 10 }}
+            tickFormatter={(value: number) => `${value}`}
+          />
+          <YAxis domain={[0, 14]} ticks={[0, 2, 4, 6, 8, 10, 12, 14]} tick={{ fill: '#94a3b8', fontSize: 10 }} />
+          <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `${payload?.[0]?.payload.volume.toFixed(2)} mL`} />} />
+          <Line type="monotone" dataKey="ph" stroke="var(--color-ph)" strokeWidth={2} dot={false} isAnimationActive={false} />
+          {equivalence && (
+            <>
+              <ReferenceLine x={equivalence.volume} stroke="#f472b6" strokeDasharray="4 4" />
+              <ReferenceDot x={equivalence.volume} y={equivalence.ph} r={4} fill="#f472b6" stroke="none" />
+            </>
+          )}
+        </LineChart>
+      </ChartContainer>
+
+      {equivalence && (
+        <p className="text-pink-300 text-xs">
+          Equivalence point at {equivalence.volume.toFixed(2)} mL (pH {equivalence.ph.toFixed(2)})
+        </p>
+      )}
+
+      <div className="flex space-x-2">
+        {stopcockButtons.map(button => (
+          <button
+            key={button.state}
+            onClick={() => onStopcockChange(button.state)}
+            className={`flex-1 flex items-center justify-center space-x-1 px-3 py-2 rounded-lg text-xs font-medium transition-colors ${
+              stopcock === button.state
+                ? 'bg-blue-600/60 text-blue-100'
+                : 'bg-slate-800/60 text-slate-300 hover:bg-slate-700/60'
+            }`}
+          >
+            {button.icon}
+            <span>{button.label}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,110 @@
+'use client'
+
+import { Scale, X } from 'lucide-react'
+import { BalanceLoad, Chemical, ChemicalReaction } from '@/types'
+import { ChemicalLookup } from '@/lib/chemistry/solution'
+import { chemicalMolarMass } from '@/lib/chemistry/formula'
+import { WEIGHING_BOAT_MASS, balanceReading, molesFromMass, spatulaScoop, theoreticalYield } from '@/lib/chemistry/mass'
+
+// Spatula movements, roughly how much each moves (g)
+const SCOOPS = [
+  { label: 'Scoop ~1 g', mass: 1 },
+  { label: 'Scoop ~0.1 g', mass: 0.1 },
+  { label: 'Tap ~0.01 g', mass: 0.01 }
+]
+const TAP_BACK = 0.05 // g
+
+interface WeighingPanelProps {
+  chemical: Chemical
+  load: BalanceLoad
+  reactions: ChemicalReaction[]
+  lookup: ChemicalLookup
+  onChange: (load: BalanceLoad) => void
+  // Tip the sample into the vessel it is for
+  onTransfer: () => void
+  onClose: () => void
+}
+
+// Weighing out a solid: tare the boat, spatula the solid in until the display
+// reads what the procedure asks for, then tip it into the vessel
+export default function WeighingPanel({ chemical, load, reactions, lookup, onChange, onTransfer, onClose }: WeighingPanelProps) {
+  const reading = balanceReading(WEIGHING_BOAT_MASS + load.sample, load.tare)
+  const moles = molesFromMass(chemical, load.sample)
+  const molarMass = chemicalMolarMass(chemical)
+
+  // What the sample could make in this experiment's reactions
+  const yields = reactions
+    .filter(reaction => reaction.reactants.includes(chemical.id))
+    .flatMap(reaction => reaction.products
+      .map(lookup)
+      .filter((product): product is Chemical => Boolean(product && chemicalMolarMass(product)) && product.properties.state === 'solid')
+      .map(product => ({ product, grams: theoreticalYield(reaction, chemical.id, moles, product) })))
+
+  const scoop = (mass: number) => onChange({ ...load, sample: load.sample + spatulaScoop(mass) })
+  const tapBack = () => onChange({ ...load, sample: Math.max(0, load.sample - spatulaScoop(TAP_BACK)) })
+  const tare = () => onChange({ ...load, tare: WEIGHING_BOAT_MASS + load.sample })
+
+  return (
+    <div className="glass rounded-lg p-4 w-80 space-y-3 text-white">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Scale size={18} />
+          <h3 className="font-semibold">Weigh {chemical.name}</h3>
+        </div>
+        <button onClick={onClose} className="rounded p-1 hover:bg-white/10">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between rounded bg-slate-900 px-3 py-2">
+        <span className="font-mono text-2xl text-green-300">{reading.toFixed(3)} g</span>
+        <button onClick={tare} className="rounded bg-white/10 hover:bg-white/20 px-2 py-1 text-xs">
+          Tare
+        </button>
+      </div>
+      {load.tare === 0 && (
+        <p className="text-xs text-amber-300">The display includes the weighing boat. Tare it before adding the solid.</p>
+      )}
+
+      <div className="grid grid-cols-2 gap-1 text-sm">
+        {SCOOPS.map(option => (
+          <button
+            key={option.label}
+            onClick={() => scoop(option.mass)}
+            className="rounded bg-white/10 hover:bg-white/20 px-2 py-1"
+          >
+            {option.label}
+          </button>
+        ))}
+        <button
+          onClick={tapBack}
+          disabled={load.sample <= 0}
+          className="rounded bg-white/10 hover:bg-white/20 px-2 py-1 disabled:opacity-50"
+        >
+          Tap some back
+        </button>
+      </div>
+
+      {load.sample > 0 && molarMass && (
+        <div className="text-xs text-slate-300 space-y-0.5">
+          <div>
+            {chemical.formula}: {molarMass.toFixed(2)} g/mol, so the boat holds about {(moles * 1000).toFixed(2)} mmol
+          </div>
+          {yields.map(({ product, grams }) => (
+            <div key={product.id}>
+              Enough to make up to {grams.toFixed(3)} g of {product.formula}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={onTransfer}
+        disabled={load.sample <= 0}
+        className="w-full rounded bg-green-600 hover:bg-green-500 px-2 py-1 font-semibold disabled:opacity-50"
+      >
+        Tip it into the reaction vessel
+      </button>
+    </div>
+  )
+}
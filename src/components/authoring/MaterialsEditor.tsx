@@ -0,0 +1,111 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Trash2 } from "lucide-react";
+import { CHEMICALS } from "@/data/chemicalData";
+import { SUPPORTED_EQUIPMENT } from "@/data/experimentSchema";
+import type { Experiment, ExperimentMaterial } from "@/types";
+
+// Equipment that can be stoppered
+const SEALABLE_EQUIPMENT = ["flask", "test-tube"];
+
+interface MaterialsEditorProps {
+  experiment: Experiment;
+  onChange: (changes: Partial<Experiment>) => void;
+}
+
+export const MaterialsEditor = ({ experiment, onChange }: MaterialsEditorProps) => {
+  const selectedIds = experiment.chemicals.map((chemical) => chemical.id);
+
+  const toggleChemical = (id: string) => {
+    const chemical = Object.values(CHEMICALS).find((candidate) => candidate.id === id);
+    onChange({
+      chemicals: selectedIds.includes(id)
+        ? experiment.chemicals.filter((existing) => existing.id !== id)
+        : [...experiment.chemicals, chemical],
+    });
+  };
+
+  const addEquipment = (equipmentType: string) => {
+    onChange({
+      materials: [...experiment.materials, { equipmentType, quantity: 1, required: true }],
+    });
+  };
+
+  const updateMaterial = (index: number, changes: Partial<ExperimentMaterial>) => {
+    onChange({
+      materials: experiment.materials.map((material, i) => (i === index ? { ...material, ...changes } : material)),
+    });
+  };
+
+  const updateQuantity = (index: number, quantity: number) => {
+    updateMaterial(index, { quantity: Math.max(1, quantity || 1) });
+  };
+
+  const removeEquipment = (index: number) => {
+    onChange({ materials: experiment.materials.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label>Chemicals</Label>
+        <div className="flex flex-wrap gap-2">
+          {Object.values(CHEMICALS).map((chemical) => (
+            <Badge
+              key={chemical.id}
+              variant={selectedIds.includes(chemical.id) ? "default" : "outline"}
+              className="cursor-pointer"
+              onClick={() => toggleChemical(chemical.id)}
+            >
+              <span
+                className="w-2 h-2 rounded-full mr-1.5"
+                style={{ backgroundColor: chemical.color.slice(0, 7) }}
+              />
+              {chemical.formula}
+            </Badge>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Equipment</Label>
+        <div className="flex flex-wrap gap-2">
+          {SUPPORTED_EQUIPMENT.map((type) => (
+            <Button key={type} size="sm" variant="outline" onClick={() => addEquipment(type)}>
+              + {type}
+            </Button>
+          ))}
+        </div>
+        <div className="space-y-2">
+          {experiment.materials.map((material, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <span className="flex-1 text-sm">{material.equipmentType}</span>
+              <Input
+                type="number"
+                min={1}
+                className="w-20"
+                value={material.quantity}
+                onChange={(event) => updateQuantity(index, parseInt(event.target.value))}
+              />
+              {SEALABLE_EQUIPMENT.includes(material.equipmentType) && (
+                <Label className="flex items-center gap-1 text-xs">
+                  <Checkbox
+                    checked={Boolean(material.sealed)}
+                    onCheckedChange={(checked) => updateMaterial(index, { sealed: checked === true || undefined })}
+                  />
+                  Stoppered
+                </Label>
+              )}
+              <Button size="icon" variant="ghost" onClick={() => removeEquipment(index)}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,243 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Scale, Trash2 } from "lucide-react";
+import { experimentChemicalLookup } from "@/data/chemicalData";
+import { balanceEquation, renderEquation } from "@/lib/chemistry/equation";
+import type { ChemicalReaction, Experiment, ReactionEffectSpec, ReactionEffectType, ReactionRate } from "@/types";
+
+const EFFECT_TYPES: ReactionEffectType[] = [
+  "color-change",
+  "precipitation",
+  "gas-evolution",
+  "heat-release",
+  "boiling",
+  "smoke",
+  "crystallization",
+];
+
+const optionalNumber = (value: string) => (value === "" ? undefined : parseFloat(value));
+
+interface ReactionsEditorProps {
+  experiment: Experiment;
+  onChange: (changes: Partial<Experiment>) => void;
+}
+
+export const ReactionsEditor = ({ experiment, onChange }: ReactionsEditorProps) => {
+  const updateReaction = (index: number, changes: Partial<ChemicalReaction>) => {
+    onChange({
+      reactions: experiment.reactions.map((reaction, i) => (i === index ? { ...reaction, ...changes } : reaction)),
+    });
+  };
+
+  const updateEffect = (reactionIndex: number, effectIndex: number, changes: Partial<ReactionEffectSpec>) => {
+    const reaction = experiment.reactions[reactionIndex];
+    updateReaction(reactionIndex, {
+      effects: reaction.effects.map((effect, i) => (i === effectIndex ? { ...effect, ...changes } : effect)),
+    });
+  };
+
+  // Clearing the rate constant makes the reaction instant again
+  const updateRate = (index: number, changes: Partial<ReactionRate>) => {
+    const rate = { ...experiment.reactions[index].rate, ...changes } as ReactionRate;
+    updateReaction(index, { rate: Number.isNaN(rate.constant) ? undefined : rate });
+  };
+
+  const toggle = (values: string[], value: string) =>
+    values.includes(value) ? values.filter((existing) => existing !== value) : [...values, value];
+
+  const addReaction = () => {
+    onChange({
+      reactions: [
+        ...experiment.reactions,
+        {
+          id: `reaction${experiment.reactions.length + 1}`,
+          reactants: [],
+          products: [],
+          equation: "",
+          conditions: { temperature: 25 },
+          effects: [],
+        },
+      ],
+    });
+  };
+
+  const lookup = experimentChemicalLookup(experiment.chemicals);
+
+  // Work out the coefficients from the chosen chemicals and write the equation from them
+  const balance = (index: number) => {
+    const reaction = experiment.reactions[index];
+    const { coefficients } = balanceEquation(reaction.reactants, reaction.products, lookup);
+    if (!coefficients) return;
+    updateReaction(index, { coefficients, equation: renderEquation({ ...reaction, coefficients }, lookup) ?? reaction.equation });
+  };
+
+  // Why the chosen chemicals can't be balanced, if they can't
+  const balanceProblem = (reaction: ChemicalReaction) =>
+    reaction.reactants.length > 0 && reaction.products.length > 0
+      ? balanceEquation(reaction.reactants, reaction.products, lookup).problem
+      : undefined;
+
+  const addEffect = (index: number) => {
+    const reaction = experiment.reactions[index];
+    updateReaction(index, {
+      effects: [...reaction.effects, { type: "color-change", intensity: 0.8, duration: 3000 }],
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {experiment.reactions.map((reaction, index) => (
+        <div key={index} className="glass-panel rounded-lg p-3 space-y-3">
+          <div className="flex items-center gap-2">
+            <Input
+              placeholder="Reaction id"
+              className="w-40"
+              value={reaction.id}
+              onChange={(event) => updateReaction(index, { id: event.target.value })}
+            />
+            <Input
+              placeholder="Equation, e.g. HCl + NaOH → NaCl + H₂O"
+              value={reaction.equation}
+              onChange={(event) => updateReaction(index, { equation: event.target.value })}
+            />
+            <Button
+              size="icon"
+              variant="ghost"
+              title={balanceProblem(reaction) ?? "Balance from the reactants and products"}
+              disabled={reaction.reactants.length === 0 || reaction.products.length === 0 || Boolean(balanceProblem(reaction))}
+              onClick={() => balance(index)}
+            >
+              <Scale className="w-4 h-4" />
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => onChange({ reactions: experiment.reactions.filter((_, i) => i !== index) })}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+
+          {(["reactants", "products"] as const).map((side) => (
+            <div key={side} className="space-y-1">
+              <Label className="text-xs capitalize">{side}</Label>
+              <div className="flex flex-wrap gap-1">
+                {experiment.chemicals.map((chemical) => (
+                  <Badge
+                    key={chemical.id}
+                    variant={reaction[side].includes(chemical.id) ? "default" : "outline"}
+                    className="cursor-pointer"
+                    onClick={() => updateReaction(index, { [side]: toggle(reaction[side], chemical.id) })}
+                  >
+                    {chemical.formula}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          ))}
+          {balanceProblem(reaction) && <p className="text-xs text-muted-foreground">{balanceProblem(reaction)}</p>}
+
+          <div className="space-y-1">
+            <Label className="text-xs">Rate law (leave k empty for an instant reaction)</Label>
+            <div className="grid grid-cols-3 gap-2">
+              <Input
+                type="number"
+                step="any"
+                min={0}
+                placeholder="k at 25 °C"
+                value={reaction.rate?.constant ?? ""}
+                onChange={(event) => updateRate(index, { constant: parseFloat(event.target.value) })}
+              />
+              <Input
+                type="number"
+                step={0.5}
+                min={0}
+                max={3}
+                placeholder="Order (1)"
+                disabled={!reaction.rate}
+                value={reaction.rate?.order ?? ""}
+                onChange={(event) => updateRate(index, { order: optionalNumber(event.target.value) })}
+              />
+              <Input
+                type="number"
+                step={5}
+                min={0}
+                placeholder="Ea (kJ/mol)"
+                disabled={!reaction.rate}
+                value={reaction.rate?.activationEnergy ?? ""}
+                onChange={(event) => updateRate(index, { activationEnergy: optionalNumber(event.target.value) })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs">Effects</Label>
+            {reaction.effects.map((effect, effectIndex) => (
+              <div key={effectIndex} className="flex items-center gap-2">
+                <Select
+                  value={effect.type}
+                  onValueChange={(type) => updateEffect(index, effectIndex, { type: type as ReactionEffectType })}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EFFECT_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {type}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="color"
+                  className="w-12 p-1"
+                  value={effect.color || "#ffffff"}
+                  onChange={(event) => updateEffect(index, effectIndex, { color: event.target.value })}
+                />
+                <Input
+                  type="number"
+                  step={0.1}
+                  min={0}
+                  max={1}
+                  className="w-20"
+                  value={effect.intensity}
+                  onChange={(event) => updateEffect(index, effectIndex, { intensity: parseFloat(event.target.value) || 0 })}
+                />
+                <Input
+                  type="number"
+                  step={500}
+                  min={0}
+                  className="w-24"
+                  value={effect.duration}
+                  onChange={(event) => updateEffect(index, effectIndex, { duration: parseInt(event.target.value) || 0 })}
+                />
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() =>
+                    updateReaction(index, { effects: reaction.effects.filter((_, i) => i !== effectIndex) })
+                  }
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button size="sm" variant="outline" onClick={() => addEffect(index)}>
+              <Plus className="w-3 h-3 mr-1" />
+              Add effect
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <Button variant="outline" onClick={addReaction}>
+        <Plus className="w-4 h-4 mr-2" />
+        Add reaction
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import type { Experiment, ExperimentStep } from "@/types";
+
+const STEP_ACTIONS: ExperimentStep["action"][] = ["measure", "weigh", "pour", "heat", "observe", "stir"];
+
+interface StepsEditorProps {
+  experiment: Experiment;
+  onChange: (changes: Partial<Experiment>) => void;
+}
+
+export const StepsEditor = ({ experiment, onChange }: StepsEditorProps) => {
+  const equipmentTypes = [...new Set(experiment.materials.map((material) => material.equipmentType))];
+
+  const updateStep = (index: number, changes: Partial<ExperimentStep>) => {
+    onChange({
+      steps: experiment.steps.map((step, i) => (i === index ? { ...step, ...changes } : step)),
+    });
+  };
+
+  const toggle = (values: string[], value: string) =>
+    values.includes(value) ? values.filter((existing) => existing !== value) : [...values, value];
+
+  const addStep = () => {
+    onChange({
+      steps: [
+        ...experiment.steps,
+        {
+          id: `step${experiment.steps.length + 1}`,
+          instruction: "",
+          chemicals: [],
+          equipment: [],
+          action: "pour",
+          expectedObservation: "",
+          completed: false,
+        },
+      ],
+    });
+  };
+
+  const removeStep = (index: number) => {
+    onChange({ steps: experiment.steps.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-4">
+      {experiment.steps.map((step, index) => (
+        <div key={index} className="glass-panel rounded-lg p-3 space-y-3">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-semibold text-primary">Step {index + 1}</span>
+            <Select
+              value={step.action}
+              onValueChange={(action) => updateStep(index, { action: action as ExperimentStep["action"] })}
+            >
+              <SelectTrigger className="w-32 ml-auto">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STEP_ACTIONS.map((action) => (
+                  <SelectItem key={action} value={action}>
+                    {action}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="icon" variant="ghost" onClick={() => removeStep(index)}>
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+
+          <Input
+            placeholder="Instruction"
+            value={step.instruction}
+            onChange={(event) => updateStep(index, { instruction: event.target.value })}
+          />
+          <Input
+            placeholder="Expected observation"
+            value={step.expectedObservation}
+            onChange={(event) => updateStep(index, { expectedObservation: event.target.value })}
+          />
+
+          <div className="space-y-1">
+            <Label className="text-xs">Equipment</Label>
+            <div className="flex flex-wrap gap-1">
+              {equipmentTypes.map((type) => (
+                <Badge
+                  key={type}
+                  variant={step.equipment.includes(type) ? "default" : "outline"}
+                  className="cursor-pointer"
+                  onClick={() => updateStep(index, { equipment: toggle(step.equipment, type) })}
+                >
+                  {type}
+                </Badge>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs">Chemicals</Label>
+            <div className="flex flex-wrap gap-1">
+              {experiment.chemicals.map((chemical) => (
+                <Badge
+                  key={chemical.id}
+                  variant={step.chemicals.includes(chemical.id) ? "default" : "outline"}
+                  className="cursor-pointer"
+                  onClick={() => updateStep(index, { chemicals: toggle(step.chemicals, chemical.id) })}
+                >
+                  {chemical.formula}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <Button variant="outline" onClick={addStep}>
+        <Plus className="w-4 h-4 mr-2" />
+        Add step
+      </Button>
+    </div>
+  );
+};
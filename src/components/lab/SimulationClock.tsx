@@ -0,0 +1,12 @@
+import { useFrame } from "@react-three/fiber";
+import type { LabSimulation } from "@/lib/simulation";
+
+interface SimulationClockProps {
+  simulation: LabSimulation;
+}
+
+// Advances a bench simulation with the render loop; draws nothing
+export const SimulationClock = ({ simulation }: SimulationClockProps) => {
+  useFrame((_, delta) => simulation.tick(delta));
+  return null;
+};
@@ -17,7 +17,22 @@ export const CHEMICALS: Record<string, Chemical> = {
       boilingPoint: 108,
       meltingPoint: -30,
       solubility: 100,
-      reactivity: ['base', 'metal', 'carbonate']
+      reactivity: ['base', 'metal', 'carbonate'],
+      ka: [1e7]
+    },
+    hazards: {
+      signalWord: 'Danger',
+      pictograms: ['corrosive', 'harmful'],
+      classes: [
+        'Corrosive to metals, category 1',
+        'Skin corrosion, category 1B',
+        'Specific target organ toxicity (single exposure), category 3'
+      ],
+      hazardStatements: ['H290', 'H314', 'H335'],
+      precautionaryStatements: ['P260', 'P280', 'P303+P361+P353', 'P305+P351+P338', 'P310'],
+      ppe: ['goggles', 'gloves', 'lab-coat'],
+      incompatibilities: ['naoh', 'nh3', 'zn', 'naocl'],
+      firstAid: 'Rinse with plenty of water for at least 15 minutes and tell your instructor'
     }
   },
   
@@ -35,7 +50,21 @@ export const CHEMICALS: Record<string, Chemical> = {
       boilingPoint: 337,
       meltingPoint: 10,
       solubility: 100,
-      reactivity: ['base', 'metal', 'organic']
+      reactivity: ['base', 'metal', 'organic'],
+      ka: [1e3, 1.2e-2]
+    },
+    hazards: {
+      signalWord: 'Danger',
+      pictograms: ['corrosive'],
+      classes: [
+        'Corrosive to metals, category 1',
+        'Skin corrosion, category 1A'
+      ],
+      hazardStatements: ['H290', 'H314'],
+      precautionaryStatements: ['P280', 'P301+P330+P331', 'P303+P361+P353', 'P305+P351+P338', 'P310'],
+      ppe: ['goggles', 'gloves', 'lab-coat'],
+      incompatibilities: ['naoh', 'nh3', 'zn', 'naocl'],
+      firstAid: 'Rinse with plenty of water for at least 15 minutes and tell your instructor'
     }
   },
 
@@ -54,7 +83,21 @@ export const CHEMICALS: Record<string, Chemical> = {
       boilingPoint: 140,
       meltingPoint: 318,
       solubility: 100,
-      reactivity: ['acid', 'organic', 'metal']
+      reactivity: ['acid', 'organic', 'metal'],
+      kb: [1e2]
+    },
+    hazards: {
+      signalWord: 'Danger',
+      pictograms: ['corrosive'],
+      classes: [
+        'Corrosive to metals, category 1',
+        'Skin corrosion, category 1A'
+      ],
+      hazardStatements: ['H290', 'H314'],
+      precautionaryStatements: ['P280', 'P301+P330+P331', 'P303+P361+P353', 'P305+P351+P338', 'P310'],
+      ppe: ['goggles', 'gloves', 'lab-coat'],
+      incompatibilities: ['hcl', 'h2so4', 'zn'],
+      firstAid: 'Rinse with plenty of water for at least 15 minutes and tell your instructor'
     }
   },
 
@@ -72,7 +115,22 @@ export const CHEMICALS: Record<string, Chemical> = {
       boilingPoint: -33,
       meltingPoint: -78,
       solubility: 89,
-      reactivity: ['acid']
+      reactivity: ['acid'],
+      kb: [1.8e-5]
+    },
+    hazards: {
+      signalWord: 'Danger',
+      pictograms: ['corrosive', 'harmful', 'environment'],
+      classes: [
+        'Skin corrosion, category 1B',
+        'Specific target organ toxicity (single exposure), category 3',
+        'Hazardous to the aquatic environment, acute 1'
+      ],
+      hazardStatements: ['H314', 'H335', 'H400'],
+      precautionaryStatements: ['P260', 'P273', 'P280', 'P303+P361+P353', 'P305+P351+P338', 'P310'],
+      ppe: ['goggles', 'gloves', 'lab-coat', 'fume-hood'],
+      incompatibilities: ['hcl', 'h2so4', 'agno3', 'naocl'],
+      firstAid: 'Move to fresh air. Rinse skin or eyes with plenty of water and tell your instructor'
     }
   },
 
@@ -90,6 +148,14 @@ export const CHEMICALS: Record<string, Chemical> = {
       meltingPoint: 801,
       solubility: 36,
       reactivity: []
+    },
+    hazards: {
+      pictograms: [],
+      classes: [],
+      hazardStatements: [],
+      precautionaryStatements: [],
+      ppe: ['goggles'],
+      incompatibilities: []
     }
   },
 
@@ -107,6 +173,20 @@ export const CHEMICALS: Record<string, Chemical> = {
       meltingPoint: 212,
       solubility: 256,
       reactivity: ['chloride', 'bromide', 'iodide']
+    },
+    hazards: {
+      signalWord: 'Danger',
+      pictograms: ['oxidizing', 'corrosive', 'environment'],
+      classes: [
+        'Oxidizing solid, category 2',
+        'Skin corrosion, category 1B',
+        'Hazardous to the aquatic environment, chronic 1'
+      ],
+      hazardStatements: ['H272', 'H290', 'H314', 'H410'],
+      precautionaryStatements: ['P210', 'P220', 'P273', 'P280', 'P305+P351+P338', 'P310'],
+      ppe: ['goggles', 'gloves', 'lab-coat'],
+      incompatibilities: ['nh3', 'zn'],
+      firstAid: 'Stains skin black. Rinse with plenty of water for at least 15 minutes and tell your instructor'
     }
   },
 
@@ -118,6 +198,11 @@ export const CHEMICALS: Record<string, Chemical> = {
     color: '#FFE4E1',
     concentration: 0.001, // Very low concentration to simulate indicator sensitivity
     // Note: In experiments, only a few drops of phenolphthalein should be used
+    indicator: {
+      range: [8.2, 10],
+      acidColor: '#FFFFFF', // Colorless in acid
+      baseColor: '#F8A8D8'  // Light pink in base
+    },
     properties: {
       state: 'liquid',
       color: '#FFE4E1',
@@ -126,6 +211,21 @@ export const CHEMICALS: Record<string, Chemical> = {
       meltingPoint: 258,
       solubility: 0.04,
       reactivity: ['base']
+    },
+    hazards: {
+      signalWord: 'Danger',
+      pictograms: ['flammable', 'health-hazard'],
+      classes: [
+        'Flammable liquid, category 2 (ethanol solvent)',
+        'Germ cell mutagenicity, category 2',
+        'Carcinogenicity, category 1B',
+        'Reproductive toxicity, category 2'
+      ],
+      hazardStatements: ['H225', 'H341', 'H350', 'H361'],
+      precautionaryStatements: ['P201', 'P210', 'P280', 'P308+P313'],
+      ppe: ['goggles', 'gloves', 'lab-coat'],
+      incompatibilities: [],
+      firstAid: 'Wash off skin with soap and water. If swallowed, get medical advice'
     }
   },
 
@@ -134,6 +234,11 @@ export const CHEMICALS: Record<string, Chemical> = {
     name: 'Litmus Solution',
     formula: 'C₇H₇NO₄',
     color: '#DDA0DD',
+    indicator: {
+      range: [4.5, 8.3],
+      acidColor: '#FF6347', // Red in acid
+      baseColor: '#4169E1'  // Blue in base
+    },
     properties: {
       state: 'liquid',
       color: '#DDA0DD',
@@ -142,6 +247,14 @@ export const CHEMICALS: Record<string, Chemical> = {
       meltingPoint: 0,
       solubility: 100,
       reactivity: ['acid', 'base']
+    },
+    hazards: {
+      pictograms: [],
+      classes: [],
+      hazardStatements: [],
+      precautionaryStatements: [],
+      ppe: ['goggles'],
+      incompatibilities: []
     }
   },
 
@@ -160,6 +273,14 @@ export const CHEMICALS: Record<string, Chemical> = {
       meltingPoint: 0,
       solubility: 100,
       reactivity: []
+    },
+    hazards: {
+      pictograms: [],
+      classes: [],
+      hazardStatements: [],
+      precautionaryStatements: [],
+      ppe: [],
+      incompatibilities: []
     }
   },
 
@@ -178,6 +299,21 @@ export const CHEMICALS: Record<string, Chemical> = {
       meltingPoint: 200,
       solubility: 25,
       reactivity: ['base', 'metal']
+    },
+    hazards: {
+      signalWord: 'Warning',
+      pictograms: ['harmful', 'environment'],
+      classes: [
+        'Acute toxicity (oral), category 4',
+        'Skin irritation, category 2',
+        'Eye irritation, category 2',
+        'Hazardous to the aquatic environment, chronic 1'
+      ],
+      hazardStatements: ['H302', 'H315', 'H319', 'H410'],
+      precautionaryStatements: ['P264', 'P273', 'P280', 'P301+P312', 'P305+P351+P338', 'P391'],
+      ppe: ['goggles', 'gloves', 'lab-coat'],
+      incompatibilities: [],
+      firstAid: 'Rinse with plenty of water for at least 15 minutes and tell your instructor'
     }
   },
 
@@ -195,6 +331,14 @@ export const CHEMICALS: Record<string, Chemical> = {
       meltingPoint: 1339,
       solubility: 0.0015,
       reactivity: ['acid']
+    },
+    hazards: {
+      pictograms: [],
+      classes: [],
+      hazardStatements: [],
+      precautionaryStatements: [],
+      ppe: ['goggles'],
+      incompatibilities: []
     }
   },
 
@@ -211,6 +355,14 @@ export const CHEMICALS: Record<string, Chemical> = {
       meltingPoint: 1085,
       solubility: 0,
       reactivity: ['acid', 'nitrate']
+    },
+    hazards: {
+      pictograms: [],
+      classes: [],
+      hazardStatements: [],
+      precautionaryStatements: [],
+      ppe: ['goggles'],
+      incompatibilities: []
     }
   },
 
@@ -227,6 +379,14 @@ export const CHEMICALS: Record<string, Chemical> = {
       meltingPoint: 962,
       solubility: 0,
       reactivity: []
+    },
+    hazards: {
+      pictograms: [],
+      classes: [],
+      hazardStatements: [],
+      precautionaryStatements: [],
+      ppe: ['goggles'],
+      incompatibilities: []
     }
   },
 
@@ -243,6 +403,16 @@ export const CHEMICALS: Record<string, Chemical> = {
       meltingPoint: -78,
       solubility: 0.033,
       reactivity: []
+    },
+    hazards: {
+      signalWord: 'Warning',
+      pictograms: ['compressed-gas'],
+      classes: ['Gas under pressure, liquefied gas'],
+      hazardStatements: ['H280'],
+      precautionaryStatements: ['P403'],
+      ppe: ['goggles'],
+      incompatibilities: [],
+      firstAid: 'Move to fresh air; high concentrations displace oxygen'
     }
   },
 
@@ -260,6 +430,18 @@ export const CHEMICALS: Record<string, Chemical> = {
       meltingPoint: 420,
       solubility: 0,
       reactivity: ['acid']
+    },
+    hazards: {
+      signalWord: 'Warning',
+      pictograms: ['environment'],
+      classes: [
+        'Hazardous to the aquatic environment, acute 1',
+        'Hazardous to the aquatic environment, chronic 1'
+      ],
+      hazardStatements: ['H410'],
+      precautionaryStatements: ['P273', 'P391', 'P501'],
+      ppe: ['goggles', 'gloves'],
+      incompatibilities: ['hcl', 'h2so4', 'naoh', 'agno3']
     }
   },
 
@@ -276,6 +458,19 @@ export const CHEMICALS: Record<string, Chemical> = {
       meltingPoint: -182,
       solubility: 0.022,
       reactivity: ['oxygen']
+    },
+    hazards: {
+      signalWord: 'Danger',
+      pictograms: ['flammable', 'compressed-gas'],
+      classes: [
+        'Flammable gas, category 1',
+        'Gas under pressure, compressed gas'
+      ],
+      hazardStatements: ['H220', 'H280'],
+      precautionaryStatements: ['P210', 'P377', 'P381', 'P403'],
+      ppe: ['goggles', 'lab-coat'],
+      incompatibilities: ['h2o2'],
+      firstAid: 'Move to fresh air'
     }
   },
 
@@ -293,6 +488,19 @@ export const CHEMICALS: Record<string, Chemical> = {
       meltingPoint: -0.43,
       solubility: 100,
       reactivity: ['catalyst']
+    },
+    hazards: {
+      signalWord: 'Danger',
+      pictograms: ['corrosive', 'harmful'],
+      classes: [
+        'Acute toxicity (oral), category 4',
+        'Serious eye damage, category 1'
+      ],
+      hazardStatements: ['H302', 'H318'],
+      precautionaryStatements: ['P280', 'P301+P312', 'P305+P351+P338', 'P310'],
+      ppe: ['goggles', 'gloves', 'lab-coat'],
+      incompatibilities: ['mno2', 'ki', 'zn', 'ch4'],
+      firstAid: 'Whitens skin temporarily. Rinse with plenty of water for at least 15 minutes and tell your instructor'
     }
   },
 
@@ -309,6 +517,18 @@ export const CHEMICALS: Record<string, Chemical> = {
       meltingPoint: -218,
       solubility: 0.04,
       reactivity: ['fuel']
+    },
+    hazards: {
+      signalWord: 'Danger',
+      pictograms: ['oxidizing', 'compressed-gas'],
+      classes: [
+        'Oxidizing gas, category 1',
+        'Gas under pressure, compressed gas'
+      ],
+      hazardStatements: ['H270', 'H280'],
+      precautionaryStatements: ['P220', 'P244', 'P370+P376', 'P403'],
+      ppe: ['goggles'],
+      incompatibilities: ['ch4', 'h2']
     }
   },
 
@@ -325,6 +545,20 @@ export const CHEMICALS: Record<string, Chemical> = {
       meltingPoint: 680,
       solubility: 54,
       reactivity: []
+    },
+    hazards: {
+      signalWord: 'Danger',
+      pictograms: ['corrosive', 'harmful', 'environment'],
+      classes: [
+        'Acute toxicity (oral), category 4',
+        'Serious eye damage, category 1',
+        'Hazardous to the aquatic environment, chronic 1'
+      ],
+      hazardStatements: ['H302', 'H318', 'H410'],
+      precautionaryStatements: ['P273', 'P280', 'P301+P312', 'P305+P351+P338', 'P310', 'P391'],
+      ppe: ['goggles', 'gloves', 'lab-coat'],
+      incompatibilities: [],
+      firstAid: 'Rinse with plenty of water for at least 15 minutes and tell your instructor'
     }
   },
 
@@ -341,6 +575,246 @@ export const CHEMICALS: Record<string, Chemical> = {
       meltingPoint: 455,
       solubility: 0.002,
       reactivity: []
+    },
+    hazards: {
+      signalWord: 'Warning',
+      pictograms: ['environment'],
+      classes: ['Hazardous to the aquatic environment, chronic 1'],
+      hazardStatements: ['H410'],
+      precautionaryStatements: ['P273', 'P391', 'P501'],
+      ppe: ['goggles', 'gloves'],
+      incompatibilities: ['nh3']
+    }
+  },
+  NANO3: {
+    id: 'nano3',
+    name: 'Sodium Nitrate',
+    formula: 'NaNO₃',
+    color: '#F0F8FF',
+    concentration: 0.1,
+    properties: {
+      state: 'liquid',
+      color: '#F0F8FF',
+      density: 1.01,
+      boilingPoint: 100,
+      meltingPoint: 0,
+      solubility: 91.2,
+      reactivity: []
+    },
+    hazards: {
+      signalWord: 'Warning',
+      pictograms: ['oxidizing', 'harmful'],
+      classes: [
+        'Oxidizing solid, category 3',
+        'Acute toxicity (oral), category 4',
+        'Eye irritation, category 2'
+      ],
+      hazardStatements: ['H272', 'H302', 'H319'],
+      precautionaryStatements: ['P210', 'P220', 'P280', 'P305+P351+P338'],
+      ppe: ['goggles', 'gloves', 'lab-coat'],
+      incompatibilities: ['zn'],
+      firstAid: 'Rinse with plenty of water for at least 15 minutes and tell your instructor'
+    }
+  },
+
+  H2: {
+    id: 'h2',
+    name: 'Hydrogen Gas',
+    formula: 'H₂',
+    color: '#F5F5F5',
+    properties: {
+      state: 'gas',
+      color: '#F5F5F5',
+      density: 0.00009,
+      boilingPoint: -253,
+      meltingPoint: -259,
+      solubility: 0.0002,
+      reactivity: ['oxygen']
+    },
+    hazards: {
+      signalWord: 'Danger',
+      pictograms: ['flammable', 'compressed-gas'],
+      classes: [
+        'Flammable gas, category 1',
+        'Gas under pressure, compressed gas'
+      ],
+      hazardStatements: ['H220', 'H280'],
+      precautionaryStatements: ['P210', 'P377', 'P381', 'P403'],
+      ppe: ['goggles'],
+      incompatibilities: ['o2'],
+      firstAid: 'Move to fresh air'
+    }
+  },
+
+  ZNCL2: {
+    id: 'zncl2',
+    name: 'Zinc Chloride',
+    formula: 'ZnCl₂',
+    color: '#F5F5F5',
+    properties: {
+      state: 'solid',
+      color: '#F5F5F5',
+      density: 2.91,
+      boilingPoint: 732,
+      meltingPoint: 290,
+      solubility: 395,
+      reactivity: []
+    },
+    hazards: {
+      signalWord: 'Danger',
+      pictograms: ['corrosive', 'harmful', 'environment'],
+      classes: [
+        'Acute toxicity (oral), category 4',
+        'Skin corrosion, category 1B',
+        'Hazardous to the aquatic environment, chronic 1'
+      ],
+      hazardStatements: ['H302', 'H314', 'H410'],
+      precautionaryStatements: ['P273', 'P280', 'P301+P330+P331', 'P303+P361+P353', 'P305+P351+P338', 'P310'],
+      ppe: ['goggles', 'gloves', 'lab-coat'],
+      incompatibilities: [],
+      firstAid: 'Rinse with plenty of water for at least 15 minutes and tell your instructor'
+    }
+  },
+
+  CACL2: {
+    id: 'cacl2',
+    name: 'Calcium Chloride',
+    formula: 'CaCl₂',
+    color: '#F5F5F5',
+    properties: {
+      state: 'solid',
+      color: '#F5F5F5',
+      density: 2.15,
+      boilingPoint: 1935,
+      meltingPoint: 772,
+      solubility: 74.5,
+      reactivity: []
+    },
+    hazards: {
+      signalWord: 'Warning',
+      pictograms: ['harmful'],
+      classes: ['Eye irritation, category 2'],
+      hazardStatements: ['H319'],
+      precautionaryStatements: ['P264', 'P280', 'P305+P351+P338'],
+      ppe: ['goggles'],
+      incompatibilities: [],
+      firstAid: 'Rinse with plenty of water for at least 15 minutes and tell your instructor'
+    }
+  },
+
+  MNO2: {
+    id: 'mno2',
+    name: 'Manganese Dioxide',
+    formula: 'MnO₂',
+    color: '#2F2F2F', // Black powder
+    properties: {
+      state: 'solid',
+      color: '#2F2F2F',
+      density: 5.03,
+      boilingPoint: 535, // Decomposes
+      meltingPoint: 535,
+      solubility: 0,
+      reactivity: ['catalyst']
+    },
+    hazards: {
+      signalWord: 'Warning',
+      pictograms: ['harmful'],
+      classes: [
+        'Acute toxicity (oral), category 4',
+        'Acute toxicity (inhalation), category 4'
+      ],
+      hazardStatements: ['H302', 'H332'],
+      precautionaryStatements: ['P261', 'P264', 'P280', 'P301+P312'],
+      ppe: ['goggles', 'gloves'],
+      incompatibilities: ['h2o2'],
+      firstAid: 'Move to fresh air. If swallowed, get medical advice'
+    }
+  },
+
+  KI: {
+    id: 'ki',
+    name: 'Potassium Iodide',
+    formula: 'KI',
+    color: '#FFFFFF',
+    properties: {
+      state: 'solid',
+      color: '#FFFFFF',
+      density: 3.12,
+      boilingPoint: 1330,
+      meltingPoint: 681,
+      solubility: 144,
+      reactivity: ['catalyst']
+    },
+    hazards: {
+      signalWord: 'Danger',
+      pictograms: ['health-hazard'],
+      classes: ['Specific target organ toxicity (repeated exposure), category 1 (thyroid)'],
+      hazardStatements: ['H372'],
+      precautionaryStatements: ['P260', 'P264', 'P280', 'P308+P313'],
+      ppe: ['goggles', 'gloves'],
+      incompatibilities: ['h2o2']
+    }
+  },
+
+  // Household bleach, for showing what happens when it meets acid
+  NAOCL: {
+    id: 'naocl',
+    name: 'Sodium Hypochlorite (Bleach)',
+    formula: 'NaOCl',
+    color: '#F0F8E0',
+    concentration: 0.5,
+    ph: 12,
+    properties: {
+      state: 'liquid',
+      color: '#F0F8E0',
+      density: 1.1,
+      boilingPoint: 101,
+      meltingPoint: -6,
+      solubility: 29.3,
+      reactivity: ['acid', 'ammonia']
+    },
+    hazards: {
+      signalWord: 'Danger',
+      pictograms: ['corrosive', 'environment'],
+      classes: [
+        'Skin corrosion, category 1B',
+        'Hazardous to the aquatic environment, acute category 1'
+      ],
+      hazardStatements: ['H314', 'H400', 'EUH031'],
+      precautionaryStatements: ['P260', 'P273', 'P280', 'P303+P361+P353', 'P305+P351+P338', 'P310'],
+      ppe: ['goggles', 'gloves', 'lab-coat'],
+      incompatibilities: ['hcl', 'h2so4', 'nh3'],
+      firstAid: 'Rinse with plenty of water for at least 15 minutes and tell your instructor'
+    }
+  },
+
+  CL2: {
+    id: 'cl2',
+    name: 'Chlorine Gas',
+    formula: 'Cl₂',
+    color: '#D4E157',
+    properties: {
+      state: 'gas',
+      color: '#D4E157',
+      density: 0.0032,
+      boilingPoint: -34,
+      meltingPoint: -101,
+      solubility: 0.7,
+      reactivity: ['metal', 'hydrogen']
+    },
+    hazards: {
+      signalWord: 'Danger',
+      pictograms: ['oxidizing', 'compressed-gas', 'toxic', 'environment'],
+      classes: [
+        'Oxidizing gas, category 1',
+        'Acute toxicity (inhalation), category 3',
+        'Hazardous to the aquatic environment, acute category 1'
+      ],
+      hazardStatements: ['H270', 'H280', 'H331', 'H315', 'H319', 'H335', 'H400'],
+      precautionaryStatements: ['P220', 'P260', 'P271', 'P304+P340', 'P310', 'P403'],
+      ppe: ['goggles', 'fume-hood'],
+      incompatibilities: ['h2', 'nh3'],
+      firstAid: 'Move to fresh air at once and tell your instructor'
     }
   }
 }
@@ -371,3 +845,14 @@ export const COLOR_REACTIONS = {
   'znso4-solution': '#F5F5F5',           // Colorless zinc sulfate solution
   'cu-deposit': '#A0522D'                // Richer reddish-brown copper metal
 }
+
+// Look up a chemical by its lowercase id (e.g. 'hcl')
+export function findChemical(id: string): Chemical | undefined {
+  return Object.values(CHEMICALS).find(chemical => chemical.id === id)
+}
+
+// Resolve chemical ids for an experiment, preferring its own definitions
+export function experimentChemicalLookup(chemicals: Chemical[]) {
+  return (id: string): Chemical | undefined =>
+    chemicals.find(chemical => chemical.id === id) || findChemical(id)
+}
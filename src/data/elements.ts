@@ -0,0 +1,204 @@
+// Standard atomic weights (g/mol), IUPAC conventional values. Elements with
+// no stable isotope use the mass number of their longest-lived isotope.
+export const ATOMIC_MASSES: Record<string, number> = {
+  H: 1.008,
+  He: 4.0026,
+  Li: 6.94,
+  Be: 9.0122,
+  B: 10.81,
+  C: 12.011,
+  N: 14.007,
+  O: 15.999,
+  F: 18.998,
+  Ne: 20.180,
+  Na: 22.990,
+  Mg: 24.305,
+  Al: 26.982,
+  Si: 28.085,
+  P: 30.974,
+  S: 32.06,
+  Cl: 35.45,
+  Ar: 39.948,
+  K: 39.098,
+  Ca: 40.078,
+  Sc: 44.956,
+  Ti: 47.867,
+  V: 50.942,
+  Cr: 51.996,
+  Mn: 54.938,
+  Fe: 55.845,
+  Co: 58.933,
+  Ni: 58.693,
+  Cu: 63.546,
+  Zn: 65.38,
+  Ga: 69.723,
+  Ge: 72.630,
+  As: 74.922,
+  Se: 78.971,
+  Br: 79.904,
+  Kr: 83.798,
+  Rb: 85.468,
+  Sr: 87.62,
+  Y: 88.906,
+  Zr: 91.224,
+  Nb: 92.906,
+  Mo: 95.95,
+  Tc: 98,
+  Ru: 101.07,
+  Rh: 102.91,
+  Pd: 106.42,
+  Ag: 107.87,
+  Cd: 112.41,
+  In: 114.82,
+  Sn: 118.71,
+  Sb: 121.76,
+  Te: 127.60,
+  I: 126.90,
+  Xe: 131.29,
+  Cs: 132.91,
+  Ba: 137.33,
+  La: 138.91,
+  Ce: 140.12,
+  Pr: 140.91,
+  Nd: 144.24,
+  Pm: 145,
+  Sm: 150.36,
+  Eu: 151.96,
+  Gd: 157.25,
+  Tb: 158.93,
+  Dy: 162.50,
+  Ho: 164.93,
+  Er: 167.26,
+  Tm: 168.93,
+  Yb: 173.05,
+  Lu: 174.97,
+  Hf: 178.49,
+  Ta: 180.95,
+  W: 183.84,
+  Re: 186.21,
+  Os: 190.23,
+  Ir: 192.22,
+  Pt: 195.08,
+  Au: 196.97,
+  Hg: 200.59,
+  Tl: 204.38,
+  Pb: 207.2,
+  Bi: 208.98,
+  Po: 209,
+  At: 210,
+  Rn: 222,
+  Fr: 223,
+  Ra: 226,
+  Ac: 227,
+  Th: 232.04,
+  Pa: 231.04,
+  U: 238.03,
+  Np: 237,
+  Pu: 244,
+  Am: 243,
+  Cm: 247,
+  Bk: 247,
+  Cf: 251,
+  Es: 252,
+  Fm: 257,
+  Md: 258,
+  No: 259,
+  Lr: 266
+}
+
+// Single-bond covalent radii (Å), used for bond lengths and to find the bonds
+// in files that only give positions
+export const COVALENT_RADII: Record<string, number> = {
+  H: 0.31,
+  B: 0.84,
+  C: 0.76,
+  N: 0.71,
+  O: 0.66,
+  F: 0.57,
+  Na: 1.66,
+  Mg: 1.41,
+  Al: 1.21,
+  Si: 1.11,
+  P: 1.07,
+  S: 1.05,
+  Cl: 1.02,
+  K: 2.03,
+  Ca: 1.76,
+  Mn: 1.39,
+  Fe: 1.32,
+  Co: 1.26,
+  Ni: 1.24,
+  Cu: 1.32,
+  Zn: 1.22,
+  Br: 1.20,
+  Ag: 1.45,
+  I: 1.39,
+  Pt: 1.36,
+  Au: 1.36,
+  Hg: 1.32,
+  Pb: 1.46
+}
+
+// Van der Waals radii (Å), the size of an atom in a space-filling model
+export const VAN_DER_WAALS_RADII: Record<string, number> = {
+  H: 1.20,
+  B: 1.92,
+  C: 1.70,
+  N: 1.55,
+  O: 1.52,
+  F: 1.47,
+  Na: 2.27,
+  Mg: 1.73,
+  Al: 1.84,
+  Si: 2.10,
+  P: 1.80,
+  S: 1.80,
+  Cl: 1.75,
+  K: 2.75,
+  Ca: 2.31,
+  Mn: 2.05,
+  Fe: 2.04,
+  Co: 2.00,
+  Ni: 1.63,
+  Cu: 1.40,
+  Zn: 1.39,
+  Br: 1.85,
+  Ag: 1.72,
+  I: 1.98,
+  Pt: 1.75,
+  Au: 1.66,
+  Hg: 1.55,
+  Pb: 2.02
+}
+
+// CPK colors as used by Jmol
+export const CPK_COLORS: Record<string, string> = {
+  H: '#ffffff',
+  B: '#ffb5b5',
+  C: '#909090',
+  N: '#3050f8',
+  O: '#ff0d0d',
+  F: '#90e050',
+  Na: '#ab5cf2',
+  Mg: '#8aff00',
+  Al: '#bfa6a6',
+  Si: '#f0c8a0',
+  P: '#ff8000',
+  S: '#ffff30',
+  Cl: '#1ff01f',
+  K: '#8f40d4',
+  Ca: '#3dff00',
+  Mn: '#9c7ac7',
+  Fe: '#e06633',
+  Co: '#f090a0',
+  Ni: '#50d050',
+  Cu: '#c88033',
+  Zn: '#7d80b0',
+  Br: '#a62929',
+  Ag: '#c0c0c0',
+  I: '#940094',
+  Pt: '#d0d0e0',
+  Au: '#ffd123',
+  Hg: '#b8b8d0',
+  Pb: '#575961'
+}
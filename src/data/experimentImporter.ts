@@ -0,0 +1,26 @@
+import { parse as parseYaml } from 'yaml'
+import { Experiment } from '@/types'
+import { validateExperiment } from './experimentLoader'
+
+export interface ExperimentImportResult {
+  experiment?: Experiment
+  errors: string[]
+}
+
+// Parse an instructor-authored experiment file. JSON and YAML are both
+// accepted; the file extension decides which parser runs.
+export function parseExperimentFile(fileName: string, text: string): ExperimentImportResult {
+  let definition: unknown
+  try {
+    definition = /\.ya?ml$/i.test(fileName) ? parseYaml(text) : JSON.parse(text)
+  } catch (error) {
+    return { errors: [`${fileName} could not be parsed: ${(error as Error).message}`] }
+  }
+
+  const { experiment, problems } = validateExperiment(definition)
+  return { experiment, errors: problems }
+}
+
+export async function readExperimentFile(file: File): Promise<ExperimentImportResult> {
+  return parseExperimentFile(file.name, await file.text())
+}
@@ -0,0 +1,101 @@
+import { Experiment, ExperimentIssue } from '@/types'
+import { EXPERIMENTS } from './experiments'
+import { experimentSchema, formatIssues } from './experimentSchema'
+
+export interface ExperimentRegistry {
+  experiments: Experiment[]
+  issues: ExperimentIssue[]
+}
+
+const IMPORTED_STORAGE_KEY = 'virtulab-imported-experiments'
+
+// Check one definition against the experiment schema. Returns the parsed
+// experiment with defaults filled in, or the problems found.
+export function validateExperiment(definition: unknown): { experiment?: Experiment; problems: string[] } {
+  const result = experimentSchema.safeParse(definition)
+  if (!result.success) {
+    return { problems: formatIssues(result.error) }
+  }
+  return { experiment: result.data as Experiment, problems: [] }
+}
+
+// Validate every definition. Broken experiments are left out of the registry
+// and reported instead, so one bad file can't take down the whole catalog.
+export function loadExperiments(definitions: Experiment[] = [...EXPERIMENTS, ...loadImportedExperiments()]): ExperimentRegistry {
+  const experiments: Experiment[] = []
+  const issues: ExperimentIssue[] = []
+  const seen = new Set<string>()
+
+  definitions.forEach(definition => {
+    const { experiment, problems } = validateExperiment(definition)
+    const slug = definition?.id || '(missing slug)'
+    if (seen.has(slug)) {
+      problems.push('Duplicate slug')
+    }
+    seen.add(slug)
+
+    if (problems.length > 0) {
+      problems.forEach(message => issues.push({ slug, message }))
+    } else {
+      experiments.push(experiment)
+    }
+  })
+
+  return { experiments, issues }
+}
+
+// Experiments imported from files live in local storage until they are
+// promoted into src/data/experiments.ts
+function loadImportedExperiments(): Experiment[] {
+  if (typeof localStorage === 'undefined') return []
+  try {
+    return JSON.parse(localStorage.getItem(IMPORTED_STORAGE_KEY) || '[]')
+  } catch {
+    return []
+  }
+}
+
+function saveImportedExperiments(experiments: Experiment[]) {
+  if (typeof localStorage === 'undefined') return
+  localStorage.setItem(IMPORTED_STORAGE_KEY, JSON.stringify(experiments))
+}
+
+export const EXPERIMENT_REGISTRY = loadExperiments()
+
+// Add a validated experiment to the catalog. Built-in slugs can't be replaced;
+// re-importing a file with the same slug updates the earlier import.
+export function importExperiment(experiment: Experiment): string[] {
+  if (EXPERIMENTS.some(builtIn => builtIn.id === experiment.id)) {
+    return [`id: "${experiment.id}" is already used by a built-in experiment`]
+  }
+
+  const imported = loadImportedExperiments().filter(existing => existing.id !== experiment.id)
+  saveImportedExperiments([...imported, experiment])
+
+  EXPERIMENT_REGISTRY.experiments = [
+    ...EXPERIMENT_REGISTRY.experiments.filter(existing => existing.id !== experiment.id),
+    experiment
+  ]
+  EXPERIMENT_REGISTRY.issues = EXPERIMENT_REGISTRY.issues.filter(issue => issue.slug !== experiment.id)
+  return []
+}
+
+export function getExperiment(slug: string): Experiment | undefined {
+  return EXPERIMENT_REGISTRY.experiments.find(experiment => experiment.id === slug)
+}
+
+export function getExperimentIssues(slug: string): ExperimentIssue[] {
+  return EXPERIMENT_REGISTRY.issues.filter(issue => issue.slug === slug)
+}
+
+// Log every broken definition once at startup
+export function reportExperimentIssues(registry: ExperimentRegistry = EXPERIMENT_REGISTRY) {
+  if (registry.issues.length === 0) return
+
+  const broken = [...new Set(registry.issues.map(issue => issue.slug))]
+  console.error(`⚠️ ${broken.length} experiment definition(s) failed to load:`)
+  broken.forEach(slug => {
+    const messages = registry.issues.filter(issue => issue.slug === slug).map(issue => issue.message)
+    console.error(`  ${slug}:`, messages)
+  })
+}
@@ -0,0 +1,305 @@
+import { z } from 'zod'
+import { Chemical, ChemicalReaction } from '@/types'
+import { ChemicalLookup } from '@/lib/chemistry/solution'
+import { coefficientProblems, equationProblems } from '@/lib/chemistry/formula'
+import { parseStructure } from '@/lib/chemistry/molecule'
+import { findChemical } from './chemicalData'
+
+// Equipment the 3D lab knows how to lay out and render
+export const SUPPORTED_EQUIPMENT = [
+  'beaker',
+  'flask',
+  'test-tube',
+  'graduated-cylinder',
+  'burette',
+  'bunsen-burner',
+  'stirring-rod',
+  'thermometer',
+  'gas-jar',
+  'analytical-balance'
+]
+
+const SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/
+const HEX_COLOR = /^#[0-9a-fA-F]{6}([0-9a-fA-F]{2})?$/
+
+const colorSchema = z.string().regex(HEX_COLOR, 'Expected a hex color such as #FFAA00')
+
+const hazardsSchema = z.object({
+  signalWord: z.enum(['Danger', 'Warning']).optional(),
+  pictograms: z.array(z.enum([
+    'explosive', 'flammable', 'oxidizing', 'compressed-gas', 'corrosive', 'toxic', 'harmful', 'health-hazard', 'environment'
+  ])).default([]),
+  classes: z.array(z.string()).default([]),
+  hazardStatements: z.array(z.string().regex(/^(EU)?H\d{3}/, 'Use GHS codes such as H314')).default([]),
+  precautionaryStatements: z.array(z.string().regex(/^P\d{3}/, 'Use GHS codes such as P280')).default([]),
+  ppe: z.array(z.enum(['goggles', 'gloves', 'lab-coat', 'fume-hood'])).default([]),
+  incompatibilities: z.array(z.string()).default([]),
+  firstAid: z.string().optional()
+})
+
+// A MOL or XYZ file has to be readable; atoms and bonds have to agree
+const structureSchema = z.union([
+  z.string().superRefine((text, ctx) => {
+    const { problem } = parseStructure(text)
+    if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem })
+  }),
+  z.object({
+    atoms: z.array(z.object({
+      element: z.string().regex(/^[A-Z][a-z]?$/, 'Expected an element symbol such as C or Cl'),
+      charge: z.number().int().optional(),
+      position: z.tuple([z.number(), z.number(), z.number()]).optional()
+    })).min(1),
+    bonds: z.array(z.object({
+      atoms: z.tuple([z.number().int().min(0), z.number().int().min(0)]),
+      order: z.union([z.literal(0), z.literal(1), z.literal(1.5), z.literal(2), z.literal(3)])
+    })).default([])
+  }).superRefine((structure, ctx) => {
+    structure.bonds.forEach((bond, index) => {
+      const [from, to] = bond.atoms
+      if (from >= structure.atoms.length || to >= structure.atoms.length) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['bonds', index, 'atoms'],
+          message: `Bond ${index} joins an atom the structure doesn't have`
+        })
+      }
+    })
+  })
+])
+
+const chemicalSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  formula: z.string().min(1),
+  color: colorSchema,
+  concentration: z.number().positive().optional(),
+  molarMass: z.number().positive().optional(),
+  ph: z.number().min(0).max(14).optional(),
+  indicator: z.object({
+    range: z.tuple([z.number(), z.number()]),
+    acidColor: colorSchema,
+    baseColor: colorSchema
+  }).optional(),
+  properties: z.object({
+    state: z.enum(['solid', 'liquid', 'gas']),
+    color: colorSchema,
+    density: z.number().positive(),
+    boilingPoint: z.number(),
+    meltingPoint: z.number(),
+    solubility: z.number().min(0),
+    reactivity: z.array(z.string()).default([]),
+    ka: z.array(z.number().positive()).optional(),
+    kb: z.array(z.number().positive()).optional()
+  }),
+  hazards: hazardsSchema.optional(),
+  structure: structureSchema.optional()
+})
+
+const amountFields = {
+  amount: z.number().positive().optional(),
+  tolerance: z.number().min(0).optional()
+}
+
+const criterionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('measure'), chemical: z.string().min(1), ...amountFields }),
+  z.object({
+    type: z.literal('weigh'),
+    chemical: z.string().min(1),
+    mass: z.number().positive().optional(),
+    tolerance: z.number().min(0).optional()
+  }),
+  z.object({ type: z.literal('pour'), chemical: z.string().min(1), vessel: z.string().optional(), ...amountFields }),
+  z.object({
+    type: z.literal('heat'),
+    vessel: z.string().optional(),
+    temperature: z.number().optional(),
+    tolerance: z.number().min(0).optional()
+  }),
+  z.object({ type: z.literal('stir'), vessel: z.string().optional(), duration: z.number().min(0) }),
+  z.object({ type: z.literal('observe') })
+])
+
+const stepSchema = z.object({
+  id: z.string().min(1),
+  instruction: z.string().min(1),
+  chemicals: z.array(z.string()).default([]),
+  equipment: z.array(z.string()).default([]),
+  action: z.enum(['measure', 'weigh', 'pour', 'heat', 'observe', 'stir']),
+  duration: z.number().positive().optional(),
+  temperature: z.number().optional(),
+  safety: z.string().optional(),
+  expectedObservation: z.string().default(''),
+  completed: z.boolean().default(false),
+  criteria: z.array(criterionSchema).optional()
+})
+
+const materialSchema = z.object({
+  equipmentType: z.string().min(1),
+  quantity: z.number().int().positive().default(1),
+  required: z.boolean().default(true),
+  chemical: chemicalSchema.optional(),
+  sealed: z.boolean().optional()
+})
+
+const effectSchema = z.object({
+  type: z.enum(['color-change', 'precipitation', 'gas-evolution', 'heat-release', 'boiling', 'smoke', 'crystallization']),
+  color: colorSchema.optional(),
+  particle: z.string().optional(),
+  intensity: z.number().min(0).max(1),
+  duration: z.number().positive()
+})
+
+const rateSchema = z.object({
+  constant: z.number().positive(),
+  order: z.number().min(0).max(3).optional(),
+  activationEnergy: z.number().min(0).optional(),
+  catalysts: z.record(z.number().positive()).optional()
+})
+
+const reactionSchema = z.object({
+  id: z.string().min(1),
+  reactants: z.array(z.string()).min(1),
+  products: z.array(z.string()).default([]),
+  equation: z.string().default(''),
+  coefficients: z.record(z.number().positive()).optional(),
+  conditions: z.object({
+    temperature: z.number(),
+    ph: z.number().optional()
+  }).default({ temperature: 25 }),
+  rate: rateSchema.optional(),
+  effects: z.array(effectSchema).default([])
+})
+
+// Structural schema for an experiment definition, whether it comes from
+// src/data/experiments.ts or an imported JSON/YAML file. Cross-references
+// (chemical ids, equipment types) are checked once the shape is valid.
+export const experimentSchema = z.object({
+  id: z.string().regex(SLUG_PATTERN, 'Expected a lowercase slug such as my-experiment'),
+  title: z.string().trim().min(1),
+  description: z.string().default(''),
+  difficulty: z.enum(['beginner', 'intermediate', 'advanced']),
+  duration: z.number().positive(),
+  category: z.string().min(1),
+  objectives: z.array(z.string()).default([]),
+  steps: z.array(stepSchema).min(1, 'An experiment needs at least one step'),
+  materials: z.array(materialSchema).default([]),
+  chemicals: z.array(chemicalSchema).default([]),
+  safetyNotes: z.array(z.string()).default([]),
+  expectedResults: z.array(z.string()).default([]),
+  reactions: z.array(reactionSchema).default([])
+}).superRefine((experiment, ctx) => {
+  const lookup: ChemicalLookup = id =>
+    (experiment.chemicals.find(chemical => chemical.id === id) as Chemical) || findChemical(id)
+  const knownChemical = (id: string) => Boolean(lookup(id))
+  const equipment = experiment.materials.map(material => material.equipmentType)
+  const vessels = [...new Set(equipment), ...equipment.map((type, index) => `${type}-${index}`)]
+
+  experiment.materials.forEach((material, index) => {
+    if (!SUPPORTED_EQUIPMENT.includes(material.equipmentType)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['materials', index, 'equipmentType'],
+        message: `Unsupported equipment "${material.equipmentType}"; expected one of ${SUPPORTED_EQUIPMENT.join(', ')}`
+      })
+    }
+  })
+
+  experiment.steps.forEach((step, stepIndex) => {
+    step.equipment.forEach((type, index) => {
+      if (!equipment.includes(type)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['steps', stepIndex, 'equipment', index],
+          message: `Equipment "${type}" is not in the materials list`
+        })
+      }
+    })
+    step.chemicals.forEach((id, index) => {
+      if (!knownChemical(id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['steps', stepIndex, 'chemicals', index],
+          message: `Unknown chemical "${id}"`
+        })
+      }
+    })
+    step.criteria?.forEach((criterion, index) => {
+      if ('chemical' in criterion && !knownChemical(criterion.chemical)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['steps', stepIndex, 'criteria', index, 'chemical'],
+          message: `Unknown chemical "${criterion.chemical}"`
+        })
+      }
+      // Vessels are either an equipment type or a layout id such as beaker-0
+      if ('vessel' in criterion && criterion.vessel && !vessels.includes(criterion.vessel)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['steps', stepIndex, 'criteria', index, 'vessel'],
+          message: `Unknown vessel "${criterion.vessel}"; expected one of ${vessels.join(', ')}`
+        })
+      }
+    })
+  })
+
+  experiment.reactions.forEach((reaction, reactionIndex) => {
+    const species = [...reaction.reactants, ...reaction.products]
+    species.forEach(id => {
+      if (!knownChemical(id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['reactions', reactionIndex],
+          message: `Reaction "${reaction.id}" uses unknown chemical "${id}"`
+        })
+      }
+      if (reaction.coefficients && !reaction.coefficients[id]) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['reactions', reactionIndex, 'coefficients'],
+          message: `Reaction "${reaction.id}" has no coefficient for "${id}"`
+        })
+      }
+    })
+    // Equations are written by hand; the atoms and charge have to add up
+    if (reaction.equation) {
+      equationProblems(reaction.equation).forEach(message => {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['reactions', reactionIndex, 'equation'],
+          message: `Reaction "${reaction.id}": ${message}`
+        })
+      })
+    }
+    if (species.every(knownChemical) && species.every(id => !reaction.coefficients || reaction.coefficients[id])) {
+      coefficientProblems(reaction as ChemicalReaction, lookup).forEach(message => {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['reactions', reactionIndex, 'coefficients'],
+          message
+        })
+      })
+    }
+    if (reaction.rate && !reaction.coefficients) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['reactions', reactionIndex, 'rate'],
+        message: `Reaction "${reaction.id}" needs coefficients to have a rate`
+      })
+    }
+  })
+})
+
+// Render a zod issue path the way an author would look it up in their file,
+// e.g. steps[2].chemicals[0]
+export function formatIssuePath(path: (string | number)[]): string {
+  return path.reduce<string>((formatted, segment) =>
+    typeof segment === 'number' ? `${formatted}[${segment}]` : formatted ? `${formatted}.${segment}` : segment,
+  '')
+}
+
+export function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => {
+    const path = formatIssuePath(issue.path)
+    return path ? `${path}: ${issue.message}` : issue.message
+  })
+}
@@ -1,4 +1,5 @@
 import { Experiment, ChemicalReaction } from '@/types'
+import { CHEMICALS } from './chemicalData'
 
 export const EXPERIMENTS: Experiment[] = [
   {
@@ -26,7 +27,8 @@ export const EXPERIMENTS: Experiment[] = [
         chemicals: ['hcl'],
         action: 'measure',
         expectedObservation: 'Clear acidic solution measured',
-        completed: false
+        completed: false,
+        criteria: [{ type: 'measure', chemical: 'hcl', amount: 50 }]
       },
       {
         id: 'step2',
@@ -35,7 +37,8 @@ export const EXPERIMENTS: Experiment[] = [
         chemicals: ['hcl'],
         action: 'pour',
         expectedObservation: 'Clear solution in beaker',
-        completed: false
+        completed: false,
+        criteria: [{ type: 'pour', chemical: 'hcl', vessel: 'beaker-0', amount: 50 }]
       },
       {
         id: 'step3',
@@ -44,7 +47,8 @@ export const EXPERIMENTS: Experiment[] = [
         chemicals: ['naoh'],
         action: 'measure',
         expectedObservation: 'Clear basic solution measured',
-        completed: false
+        completed: false,
+        criteria: [{ type: 'measure', chemical: 'naoh', amount: 50 }]
       },
       {
         id: 'step4',
@@ -53,7 +57,8 @@ export const EXPERIMENTS: Experiment[] = [
         chemicals: ['naoh'],
         action: 'pour',
         expectedObservation: 'Solution becomes warm due to exothermic reaction',
-        completed: false
+        completed: false,
+        criteria: [{ type: 'pour', chemical: 'naoh', vessel: 'beaker-0', amount: 50 }]
       }
     ],
     safetyNotes: [
@@ -73,6 +78,7 @@ export const EXPERIMENTS: Experiment[] = [
         reactants: ['hcl', 'naoh'],
         products: ['nacl', 'h2o'],
         equation: 'HCl + NaOH → NaCl + H₂O',
+        coefficients: { hcl: 1, naoh: 1, nacl: 1, h2o: 1 },
         conditions: { temperature: 25 },
         effects: [
           {
@@ -148,6 +154,7 @@ export const EXPERIMENTS: Experiment[] = [
         reactants: ['agno3', 'nacl'],
         products: ['agcl', 'nano3'],
         equation: 'AgNO₃ + NaCl → AgCl↓ + NaNO₃',
+        coefficients: { agno3: 1, nacl: 1, agcl: 1, nano3: 1 },
         conditions: { temperature: 25 },
         effects: [
           {
@@ -175,7 +182,8 @@ export const EXPERIMENTS: Experiment[] = [
     ],
     materials: [
       { equipmentType: 'beaker', quantity: 1, required: true },
-      { equipmentType: 'test-tube', quantity: 1, required: true }
+      { equipmentType: 'test-tube', quantity: 1, required: true },
+      { equipmentType: 'analytical-balance', quantity: 1, required: true }
     ],
     chemicals: [],
     steps: [
@@ -190,12 +198,17 @@ export const EXPERIMENTS: Experiment[] = [
       },
       {
         id: 'step2',
-        instruction: 'Add zinc metal pieces to the copper sulfate solution',
-        equipment: ['beaker'],
+        instruction: 'Tare the balance, weigh out 0.33 g of zinc powder and tip it into the copper sulfate solution',
+        equipment: ['analytical-balance', 'beaker'],
         chemicals: ['zn'],
-        action: 'pour',
-        expectedObservation: 'Zinc pieces sink to the bottom',
-        completed: false
+        action: 'weigh',
+        expectedObservation: 'Zinc powder sinks to the bottom',
+        completed: false,
+        // About 0.005 mol, enough to displace all the copper from 50 mL of 0.1 M CuSO₄
+        criteria: [
+          { type: 'weigh', chemical: 'zn', mass: 0.33 },
+          { type: 'pour', chemical: 'zn', vessel: 'beaker-0' }
+        ]
       },
       {
         id: 'step3',
@@ -224,6 +237,7 @@ export const EXPERIMENTS: Experiment[] = [
         reactants: ['zn', 'cuso4'],
         products: ['znso4', 'cu'],
         equation: 'Zn + CuSO₄ → ZnSO₄ + Cu',
+        coefficients: { zn: 1, cuso4: 1, znso4: 1, cu: 1 },
         conditions: { temperature: 25 },
         effects: [
           {
@@ -306,6 +320,7 @@ export const EXPERIMENTS: Experiment[] = [
         reactants: ['ch4', 'o2'],
         products: ['co2', 'h2o'],
         equation: 'CH₄ + 2O₂ → CO₂ + 2H₂O',
+        coefficients: { ch4: 1, o2: 2, co2: 1, h2o: 2 },
         conditions: { temperature: 800 },
         effects: [
           {
@@ -339,7 +354,8 @@ export const EXPERIMENTS: Experiment[] = [
     materials: [
       { equipmentType: 'beaker', quantity: 1, required: true },
       { equipmentType: 'test-tube', quantity: 1, required: true },
-      { equipmentType: 'bunsen-burner', quantity: 1, required: true }
+      { equipmentType: 'bunsen-burner', quantity: 1, required: true },
+      { equipmentType: 'gas-jar', quantity: 1, required: true }
     ],
     chemicals: [],
     steps: [
@@ -366,10 +382,28 @@ export const EXPERIMENTS: Experiment[] = [
         id: 'step3',
         instruction: 'Add a small amount of catalyst (MnO₂)',
         equipment: ['beaker'],
-        chemicals: ['h2o2'],
+        chemicals: ['mno2'],
         action: 'pour',
         expectedObservation: 'Rapid bubbling and oxygen production',
         completed: false
+      },
+      {
+        id: 'step4',
+        instruction: 'Test the gas collected in the gas jar with a glowing splint',
+        equipment: ['gas-jar'],
+        chemicals: ['o2'],
+        action: 'observe',
+        expectedObservation: 'The glowing splint relights, showing the gas is oxygen',
+        completed: false
+      },
+      {
+        id: 'step5',
+        instruction: 'Reset the bench and repeat with fresh hydrogen peroxide and potassium iodide (KI), then compare the rate curves',
+        equipment: ['beaker', 'gas-jar'],
+        chemicals: ['h2o2', 'ki'],
+        action: 'pour',
+        expectedObservation: 'Oxygen collects at a different rate with the other catalyst',
+        completed: false
       }
     ],
     safetyNotes: [
@@ -380,6 +414,9 @@ export const EXPERIMENTS: Experiment[] = [
     ],
     expectedResults: [
       'Rapid evolution of oxygen gas',
+      'Collected gas relights a glowing splint',
+      'Catalysts speed up the decomposition without being used up',
+      'Warmer peroxide decomposes faster, and the concentration falls exponentially',
       'Formation of water as a product',
       'Temperature increase during reaction'
     ],
@@ -389,6 +426,7 @@ export const EXPERIMENTS: Experiment[] = [
         reactants: ['h2o2'],
         products: ['h2o', 'o2'],
         equation: '2H₂O₂ → 2H₂O + O₂↑',
+        coefficients: { h2o2: 2, h2o: 2, o2: 1 },
         conditions: { temperature: 60 },
         effects: [
           {
@@ -421,7 +459,8 @@ export const EXPERIMENTS: Experiment[] = [
     ],
     materials: [
       { equipmentType: 'beaker', quantity: 2, required: true },
-      { equipmentType: 'graduated-cylinder', quantity: 2, required: true }
+      { equipmentType: 'graduated-cylinder', quantity: 2, required: true },
+      { equipmentType: 'burette', quantity: 1, required: true, chemical: { ...CHEMICALS.HCL, concentration: 0.2 } }
     ],
     chemicals: [],
     steps: [
@@ -445,8 +484,8 @@ export const EXPERIMENTS: Experiment[] = [
       },
       {
         id: 'step3',
-        instruction: 'Slowly add hydrochloric acid to the pink solution',
-        equipment: ['beaker', 'graduated-cylinder'],
+        instruction: 'Open the burette stopcock and titrate 0.2M hydrochloric acid into the pink solution drop by drop',
+        equipment: ['beaker', 'burette'],
         chemicals: ['hcl'],
         action: 'pour',
         expectedObservation: 'Pink color fades to colorless at endpoint',
@@ -466,32 +505,18 @@ export const EXPERIMENTS: Experiment[] = [
     ],
     reactions: [
       {
-        id: 'indicator-base',
-        reactants: ['naoh', 'phenolphthalein'],
-        products: ['pink-solution'],
-        equation: 'NaOH + Phenolphthalein → Pink Solution',
-        conditions: { temperature: 25, ph: 10 },
-        effects: [
-          {
-            type: 'color-change',
-            intensity: 0.5, // Reduced intensity for lighter color
-            duration: 2000,
-            color: '#F8A8D8' // Light pink color
-          }
-        ]
-      },
-      {
-        id: 'indicator-acid',
-        reactants: ['hcl', 'pink-solution'],
-        products: ['colorless-solution'],
-        equation: 'HCl + Pink Solution → Colorless Solution',
-        conditions: { temperature: 25, ph: 7 },
+        id: 'neutralization',
+        reactants: ['hcl', 'naoh'],
+        products: ['nacl', 'h2o'],
+        equation: 'HCl + NaOH → NaCl + H₂O',
+        coefficients: { hcl: 1, naoh: 1, nacl: 1, h2o: 1 },
+        conditions: { temperature: 25 },
         effects: [
           {
             type: 'color-change',
             intensity: 0.8,
             duration: 2000,
-            color: '#FFFFFF' // Colorless
+            color: '#FFFFFF' // Colorless once the base is used up
           }
         ]
       }
@@ -0,0 +1,73 @@
+import { GhsPictogram, PpeItem } from '@/types'
+
+export const PICTOGRAMS: Record<GhsPictogram, { code: string; name: string }> = {
+  explosive: { code: 'GHS01', name: 'Explosive' },
+  flammable: { code: 'GHS02', name: 'Flammable' },
+  oxidizing: { code: 'GHS03', name: 'Oxidizing' },
+  'compressed-gas': { code: 'GHS04', name: 'Gas under pressure' },
+  corrosive: { code: 'GHS05', name: 'Corrosive' },
+  toxic: { code: 'GHS06', name: 'Acute toxicity' },
+  harmful: { code: 'GHS07', name: 'Harmful / irritant' },
+  'health-hazard': { code: 'GHS08', name: 'Serious health hazard' },
+  environment: { code: 'GHS09', name: 'Hazardous to the environment' }
+}
+
+export const PPE_NAMES: Record<PpeItem, string> = {
+  goggles: 'Safety goggles',
+  gloves: 'Nitrile gloves',
+  'lab-coat': 'Lab coat',
+  'fume-hood': 'Fume hood'
+}
+
+// Wording of the hazard (H) statements used by the chemical catalogue
+export const HAZARD_STATEMENTS: Record<string, string> = {
+  H220: 'Extremely flammable gas',
+  H225: 'Highly flammable liquid and vapour',
+  H270: 'May cause or intensify fire; oxidizer',
+  H272: 'May intensify fire; oxidizer',
+  H280: 'Contains gas under pressure; may explode if heated',
+  H290: 'May be corrosive to metals',
+  H302: 'Harmful if swallowed',
+  H314: 'Causes severe skin burns and eye damage',
+  H315: 'Causes skin irritation',
+  H318: 'Causes serious eye damage',
+  H319: 'Causes serious eye irritation',
+  H331: 'Toxic if inhaled',
+  H332: 'Harmful if inhaled',
+  H335: 'May cause respiratory irritation',
+  H341: 'Suspected of causing genetic defects',
+  H350: 'May cause cancer',
+  H361: 'Suspected of damaging fertility or the unborn child',
+  H372: 'Causes damage to organs through prolonged or repeated exposure',
+  H400: 'Very toxic to aquatic life',
+  H410: 'Very toxic to aquatic life with long lasting effects',
+  H412: 'Harmful to aquatic life with long lasting effects',
+  EUH031: 'Contact with acids liberates toxic gas'
+}
+
+// Wording of the precautionary (P) statements used by the chemical catalogue
+export const PRECAUTIONARY_STATEMENTS: Record<string, string> = {
+  P201: 'Obtain special instructions before use',
+  P210: 'Keep away from heat, sparks, open flames and hot surfaces. No smoking',
+  P220: 'Keep away from clothing and other combustible materials',
+  P244: 'Keep valves and fittings free from oil and grease',
+  P260: 'Do not breathe mist or vapours',
+  P261: 'Avoid breathing dust or fumes',
+  P264: 'Wash hands thoroughly after handling',
+  P271: 'Use only outdoors or in a well-ventilated area',
+  P273: 'Avoid release to the environment',
+  P280: 'Wear protective gloves, protective clothing and eye protection',
+  'P301+P312': 'IF SWALLOWED: call a poison centre or doctor if you feel unwell',
+  'P301+P330+P331': 'IF SWALLOWED: rinse mouth. Do NOT induce vomiting',
+  'P303+P361+P353': 'IF ON SKIN: take off contaminated clothing and rinse skin with water',
+  'P305+P351+P338': 'IF IN EYES: rinse cautiously with water for several minutes. Remove contact lenses if easy to do',
+  'P308+P313': 'IF exposed or concerned: get medical advice',
+  'P304+P340': 'IF INHALED: remove person to fresh air and keep comfortable for breathing',
+  P310: 'Immediately call a poison centre or doctor',
+  'P370+P376': 'In case of fire: stop the leak if safe to do so',
+  P377: 'Leaking gas fire: do not extinguish unless the leak can be stopped safely',
+  P381: 'In case of leakage, eliminate all ignition sources',
+  P391: 'Collect spillage',
+  P403: 'Store in a well-ventilated place',
+  P501: 'Dispose of contents in the designated waste container'
+}
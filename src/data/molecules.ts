@@ -0,0 +1,80 @@
+import { Chemical, MoleculeStructure } from '@/types'
+import { layoutMolecule, molecule, parseStructure } from '@/lib/chemistry/molecule'
+
+// Thirteen atoms of a close-packed metal: one and its twelve nearest
+// neighbours, which touch it at twice the metallic radius
+function metalCluster(element: string, spacing: number): MoleculeStructure {
+  const offsets: [number, number, number][] = [[0, 0, 0]]
+  const step = spacing / Math.SQRT2
+  const planes = [[0, 1], [0, 2], [1, 2]]
+  planes.forEach(([first, second]) => {
+    [[1, 1], [1, -1], [-1, 1], [-1, -1]].forEach(([a, b]) => {
+      const position: [number, number, number] = [0, 0, 0]
+      position[first] = a * step
+      position[second] = b * step
+      offsets.push(position)
+    })
+  })
+  return {
+    atoms: offsets.map(position => ({ element, position })),
+    bonds: offsets.slice(1).map((_, index) => ({ atoms: [0, index + 1] as [number, number], order: 0 }))
+  }
+}
+
+// Structures of the built-in chemicals, plus ethanol for the holographic
+// displays. Salts are drawn as one formula unit with contacts between the
+// ions; metals as a small close-packed cluster.
+export const MOLECULES: Record<string, MoleculeStructure> = {
+  hcl: molecule(['H', 'Cl'], [[0, 1]]),
+  h2so4: molecule(['S', 'O', 'O', 'OH', 'OH'], [[0, 1, 2], [0, 2, 2], [0, 3], [0, 4]]),
+  naoh: molecule(['Na+', 'OH-'], [[0, 1, 0]]),
+  nh3: molecule(['NH3']),
+  nacl: molecule(['Na+', 'Cl-'], [[0, 1, 0]]),
+  agno3: molecule(['Ag+', 'N+', 'O', 'O-', 'O-'], [[1, 2, 2], [1, 3], [1, 4], [0, 3, 0]]),
+  // The colourless lactone form
+  phenolphthalein: molecule(
+    [
+      'C', 'O', 'C', 'O', // central carbon, ring oxygen, carbonyl
+      'C', 'CH', 'CH', 'CH', 'CH', 'C', // fused benzene ring
+      'C', 'CH', 'CH', 'C', 'OH', 'CH', 'CH', // first phenol
+      'C', 'CH', 'CH', 'C', 'OH', 'CH', 'CH' // second phenol
+    ],
+    [
+      [0, 1], [1, 2], [2, 3, 2], [2, 4], [9, 0],
+      [4, 5, 1.5], [5, 6, 1.5], [6, 7, 1.5], [7, 8, 1.5], [8, 9, 1.5], [9, 4, 1.5],
+      [0, 10], [10, 11, 1.5], [11, 12, 1.5], [12, 13, 1.5], [13, 15, 1.5], [15, 16, 1.5], [16, 10, 1.5], [13, 14],
+      [0, 17], [17, 18, 1.5], [18, 19, 1.5], [19, 20, 1.5], [20, 22, 1.5], [22, 23, 1.5], [23, 17, 1.5], [20, 21]
+    ]
+  ),
+  h2o: molecule(['OH2']),
+  cuso4: molecule(['Cu2+', 'S', 'O', 'O', 'O-', 'O-'], [[1, 2, 2], [1, 3, 2], [1, 4], [1, 5], [0, 4, 0], [0, 5, 0]]),
+  caco3: molecule(['Ca2+', 'C', 'O', 'O-', 'O-'], [[1, 2, 2], [1, 3], [1, 4], [0, 3, 0], [0, 4, 0]]),
+  cu: metalCluster('Cu', 2.56),
+  ag: metalCluster('Ag', 2.89),
+  co2: molecule(['O', 'C', 'O'], [[0, 1, 2], [1, 2, 2]]),
+  zn: metalCluster('Zn', 2.66),
+  ch4: molecule(['CH4']),
+  h2o2: molecule(['OH', 'OH'], [[0, 1]]),
+  o2: molecule(['O', 'O'], [[0, 1, 2]]),
+  znso4: molecule(['Zn2+', 'S', 'O', 'O', 'O-', 'O-'], [[1, 2, 2], [1, 3, 2], [1, 4], [1, 5], [0, 4, 0], [0, 5, 0]]),
+  agcl: molecule(['Ag+', 'Cl-'], [[0, 1, 0]]),
+  nano3: molecule(['Na+', 'N+', 'O', 'O-', 'O-'], [[1, 2, 2], [1, 3], [1, 4], [0, 3, 0]]),
+  h2: molecule(['H', 'H'], [[0, 1]]),
+  zncl2: molecule(['Zn2+', 'Cl-', 'Cl-'], [[0, 1, 0], [0, 2, 0]]),
+  cacl2: molecule(['Ca2+', 'Cl-', 'Cl-'], [[0, 1, 0], [0, 2, 0]]),
+  mno2: molecule(['O', 'Mn', 'O'], [[0, 1, 2], [1, 2, 2]]),
+  ki: molecule(['K+', 'I-'], [[0, 1, 0]]),
+  naocl: molecule(['Na+', 'O-', 'Cl'], [[1, 2], [0, 1, 0]]),
+  cl2: molecule(['Cl', 'Cl'], [[0, 1]]),
+  ethanol: molecule(['CH3', 'CH2', 'OH'], [[0, 1], [1, 2]])
+}
+
+// A chemical's structure with every atom placed, from its own description or
+// the built-in set. Null for mixtures such as litmus, which have no single
+// structure, and for descriptions that can't be read.
+export function chemicalStructure(chemical: Chemical): MoleculeStructure | null {
+  const described = chemical.structure ?? MOLECULES[chemical.id]
+  if (!described) return null
+  const structure = typeof described === 'string' ? parseStructure(described).structure : described
+  return structure ? layoutMolecule(structure) : null
+}
@@ -1,202 +1,174 @@
-import { Experiment, ChemicalReaction } from '@/types'
-
-// Reaction logic mapping chemical combinations to visual effects
-export interface ReactionLogic {
-  [key: string]: {
-    requiredChemicals: string[]
-    effects: {
-      type: 'color-change' | 'precipitation' | 'gas-evolution' | 'boiling' | 'smoke' | 'heat-release' | 'crystallization'
-      color?: string
-      particle?: string
-      intensity: number
-      duration: number
-    }[]
-    outcomeText: string
+import { ChemicalReaction, ReactionContext, ReactionRule, Solution } from '@/types'
+import { REACTION_RULES } from './reactionRules'
+import { ChemicalLookup, applyReaction, applyReactions, canReact, limitingReactant, maxExtent } from '@/lib/chemistry/solution'
+import { solutionPh } from '@/lib/chemistry/ph'
+import { arrheniusFactor, concentrationOf, decayConcentration } from '@/lib/chemistry/kinetics'
+
+// Check a rule's reactants and conditions against the state of a vessel.
+// Extra chemicals in the vessel never prevent a reaction.
+export function matchesRule(rule: ReactionRule, context: ReactionContext): boolean {
+  if (!rule.reactants.every(id => context.chemicals.includes(id))) return false
+
+  const conditions = rule.conditions
+  if (!conditions) return true
+
+  if (conditions.minTemperature !== undefined && context.temperature < conditions.minTemperature) {
+    return false
+  }
+  if (conditions.ignition && !context.ignited) return false
+  if (conditions.catalysts && !conditions.catalysts.some(id => context.chemicals.includes(id))) {
+    return false
   }
+  if (conditions.phRange && (context.ph < conditions.phRange[0] || context.ph > conditions.phRange[1])) {
+    return false
+  }
+  return true
 }
 
-// Generate reaction logic based on experiment data
-export function generateReactionLogic(experiments: Experiment[]): ReactionLogic {
-  const reactionLogic: ReactionLogic = {}
-  
-  experiments.forEach(experiment => {
-    experiment.reactions.forEach(reaction => {
-      // Create a unique key for this reaction based on the experiment and reaction
-      const reactionKey = `${experiment.id}-${reaction.id}`
-      
-      reactionLogic[reactionKey] = {
-        requiredChemicals: reaction.reactants,
-        effects: reaction.effects.map(effect => ({
-          type: effect.type as any,
-          color: effect.color,
-          particle: effect.particle,
-          intensity: effect.intensity,
-          duration: effect.duration
-        })),
-        outcomeText: `Reaction between ${reaction.reactants.join(' and ')} produced ${reaction.products.join(' and ')}`
-      }
-    })
-    
-    // Special case for acid-base indicator experiment
-    if (experiment.id === 'acid-base-indicator') {
-      // Add a special reaction for the endpoint detection with phenolphthalein
-      const endpointKey = `${experiment.id}-endpoint`
-      reactionLogic[endpointKey] = {
-        requiredChemicals: ['naoh', 'phenolphthalein'],
-        effects: [
-          {
-            type: 'color-change',
-            color: '#FF69B4', // Pink color for phenolphthalein in basic solution
-            intensity: 1.0,
-            duration: 3000
-          }
-        ],
-        outcomeText: 'Solution turned pink indicating basic conditions'
-      }
-      console.log('🧪 Added endpoint reaction for indicator:', endpointKey)
-    }
-    
-    // Special case for displacement reaction
-    if (experiment.id === 'displacement-reaction') {
-      // Add a special reaction for the color change effect
-      const colorChangeKey = `${experiment.id}-color-change`
-      reactionLogic[colorChangeKey] = {
-        requiredChemicals: ['zn', 'cuso4'],
-        effects: [
-          {
-            type: 'color-change',
-            color: '#F5F5F5', // Colorless for final ZnSO4 solution
-            intensity: 0.9,
-            duration: 12000 // Extended duration for more gradual color transition
-          },
-          {
-            type: 'precipitation',
-            color: '#A0522D', // Richer reddish-brown copper metal deposits
-            intensity: 0.8,
-            duration: 12000, // Extended duration to match color change
-            particle: 'crystals'
-          }
-        ],
-        outcomeText: 'Blue copper sulfate solution turned colorless and brown copper deposited'
-      }
-      console.log('🧪 Added color change reaction for displacement:', colorChangeKey)
-    }
-    
-    // Special case for precipitation reaction
-    if (experiment.id === 'precipitation-reaction') {
-      // Add a special reaction for the precipitation effect
-      const precipitateKey = `${experiment.id}-precipitate`
-      reactionLogic[precipitateKey] = {
-        requiredChemicals: ['agno3', 'nacl'],
-        effects: [
-          {
-            type: 'precipitation',
-            color: '#F8F8F8', // Slightly off-white for realistic silver chloride
-            intensity: 1.0, // Increased intensity for more visible effect
-            duration: 10000 // Extended duration for more gradual color transition and precipitate formation
-          }
-        ],
-        outcomeText: 'White precipitate of silver chloride formed'
-      }
-      console.log('💎 Added precipitation reaction:', precipitateKey)
-    }
-    
-    // Special case for decomposition reaction
-    if (experiment.id === 'decomposition-reaction') {
-      // Add a special reaction for the decomposition effect
-      const decompositionKey = `${experiment.id}-decomposition`
-      reactionLogic[decompositionKey] = {
-        requiredChemicals: ['h2o2'],
-        effects: [
-          {
-            type: 'gas-evolution',
-            particle: 'bubble',
-            intensity: 0.9,
-            duration: 8000 // Extended duration for more realistic bubble formation
-          },
-          {
-            type: 'heat-release',
-            intensity: 0.6,
-            duration: 5000 // Extended duration for gradual heating
-          }
-        ],
-        outcomeText: 'Hydrogen peroxide decomposed into water and oxygen gas'
-      }
-      console.log('💨 Added decomposition reaction:', decompositionKey)
-    }
-  })
-  
-  return reactionLogic
+// Order rules by priority, then prefer the more specific rule (more reactants),
+// then keep registry order
+function compareRules(rules: ReactionRule[]) {
+  return (a: ReactionRule, b: ReactionRule) =>
+    b.priority - a.priority ||
+    b.reactants.length - a.reactants.length ||
+    rules.indexOf(a) - rules.indexOf(b)
+}
+
+// All rules that apply to a vessel, in the order they should be resolved
+export function resolveReactions(context: ReactionContext, rules: ReactionRule[] = REACTION_RULES): ReactionRule[] {
+  return rules
+    .filter(rule => matchesRule(rule, context))
+    .sort(compareRules(rules))
 }
 
-// Check if a set of chemicals triggers a reaction
-export function checkReactionTrigger(
-  addedChemicals: string[], 
-  reactionLogic: ReactionLogic,
-  experimentId: string
-): { reactionKey: string; effects: ReactionLogic[string]['effects']; outcomeText: string } | null {
-  console.log('🧪 Checking reaction trigger with chemicals:', addedChemicals, 'for experiment:', experimentId)
-  console.log('🧪 Reaction logic keys:', Object.keys(reactionLogic))
-  
-  // First check for special endpoint reactions (like phenolphthalein turning pink)
-  for (const [reactionKey, reactionData] of Object.entries(reactionLogic)) {
-    // Only check reactions for the current experiment
-    if (!reactionKey.startsWith(experimentId)) continue;
-    
-    // Special handling for endpoint detection
-    if (reactionKey.includes('-endpoint')) {
-      console.log('🧪 Checking endpoint reaction:', reactionKey, 'with required chemicals:', reactionData.requiredChemicals)
-      
-      // Check if all required chemicals are present
-      const hasAllChemicals = reactionData.requiredChemicals.every(chem => 
-        addedChemicals.includes(chem)
-      )
-      
-      console.log('🧪 Has all chemicals:', hasAllChemicals)
-      
-      if (hasAllChemicals) {
-        console.log('🧪 Endpoint reaction triggered:', reactionKey)
-        return {
-          reactionKey,
-          effects: reactionData.effects,
-          outcomeText: reactionData.outcomeText
-        }
-      }
-      continue;
-    }
+export function reactionContext(solution: Solution, temperature: number, lookup: ChemicalLookup, ignited = false): ReactionContext {
+  return {
+    chemicals: Object.keys(solution.species),
+    temperature,
+    ph: solutionPh(solution, lookup),
+    ignited
   }
-  
-  // Check each reaction in the logic
-  for (const [reactionKey, reactionData] of Object.entries(reactionLogic)) {
-    // Only check reactions for the current experiment
-    if (!reactionKey.startsWith(experimentId)) continue;
-    
-    // Skip endpoint reactions in this loop
-    if (reactionKey.includes('-endpoint')) continue;
-    
-    console.log('🧪 Checking regular reaction:', reactionKey, 'with required chemicals:', reactionData.requiredChemicals)
-    
-    // Check if all required chemicals are present
-    const hasAllChemicals = reactionData.requiredChemicals.every(chem => 
-      addedChemicals.includes(chem)
-    )
-    
-    // Check if no extra chemicals that aren't part of the reaction
-    const hasOnlyRequiredChemicals = addedChemicals.every(chem => 
-      reactionData.requiredChemicals.includes(chem)
-    )
-    
-    console.log('🧪 Has all chemicals:', hasAllChemicals, 'Has only required chemicals:', hasOnlyRequiredChemicals)
-    
-    if (hasAllChemicals && hasOnlyRequiredChemicals) {
-      console.log('🧪 Regular reaction triggered:', reactionKey)
-      return {
-        reactionKey,
-        effects: reactionData.effects,
-        outcomeText: reactionData.outcomeText
-      }
-    }
+}
+
+// Kinetics below this many moles per step are treated as stopped
+const NEGLIGIBLE_EXTENT = 1e-12
+
+function heatReleased(rule: ReactionRule | undefined, extent: number): number {
+  return -(rule?.enthalpy || 0) * 1000 * extent
+}
+
+// Rate constant of a rule with kinetics in a vessel. The fastest catalyst
+// present sets the speed-up, and the activation energy how much warming helps.
+export function reactionRate(rule: ReactionRule, context: ReactionContext): number {
+  if (!rule.rate) return 0
+  const speedUps = Object.entries(rule.rate.catalysts || {})
+    .filter(([id]) => context.chemicals.includes(id))
+    .map(([, factor]) => factor)
+  const warming = rule.rate.activationEnergy ? arrheniusFactor(rule.rate.activationEnergy, context.temperature) : 1
+  return rule.rate.constant * Math.max(1, ...speedUps) * warming
+}
+
+// The reactant whose concentration a rate law follows: whichever runs out
+// first of those in solution, since a solid only reacts at its surface
+export function rateReactant(solution: Solution, rule: ReactionRule, lookup: ChemicalLookup): string | null {
+  const dissolved = rule.reactants.filter(id => lookup(id)?.properties.state !== 'solid')
+  return limitingReactant(solution, rule, dissolved.length > 0 ? dissolved : rule.reactants)
+}
+
+// The registry with an experiment's own rate laws applied. A reaction with a
+// rate replaces the rate of the rule for the same reactants, or becomes a rule
+// of its own if the registry has none.
+export function experimentRules(reactions: ChemicalReaction[], rules: ReactionRule[] = REACTION_RULES): ReactionRule[] {
+  const timed = reactions.filter(reaction => reaction.rate && reaction.coefficients)
+  if (timed.length === 0) return rules
+
+  const matches = (reaction: ChemicalReaction, rule: ReactionRule) =>
+    Boolean(rule.coefficients) &&
+    rule.reactants.length === reaction.reactants.length &&
+    rule.reactants.every(id => reaction.reactants.includes(id))
+  const updated = rules.map(rule => {
+    const reaction = timed.find(candidate => matches(candidate, rule))
+    return reaction ? { ...rule, rate: reaction.rate } : rule
+  })
+  const added = timed
+    .filter(reaction => !rules.some(rule => matches(reaction, rule)))
+    .map(reaction => ({
+      id: reaction.id,
+      reactants: reaction.reactants,
+      products: reaction.products,
+      coefficients: reaction.coefficients,
+      rate: reaction.rate,
+      priority: 5,
+      effects: reaction.effects,
+      outcomeText: reaction.equation
+    }))
+  return [...updated, ...added]
+}
+
+// Run every applicable reaction in a vessel. Stoichiometric rules change the
+// contents; visual-only rules (indicators) are matched against the result.
+// Rules with a rate are reported as fired but left for advanceKinetics.
+// Returns the new contents, the rules that fired (highest priority first) and
+// the heat released in joules. `ignited` is whether a flame is under the vessel.
+export function reactInVessel(
+  solution: Solution,
+  temperature: number,
+  lookup: ChemicalLookup,
+  rules: ReactionRule[] = REACTION_RULES,
+  ignited = false
+): { solution: Solution; fired: ReactionRule[]; heat: number } {
+  const candidates = resolveReactions(reactionContext(solution, temperature, lookup, ignited), rules)
+    .filter(rule => rule.coefficients && !rule.rate)
+  const { solution: reacted, outcomes } = applyReactions(solution, candidates)
+
+  const stoichiometric = outcomes
+    .filter(outcome => outcome.extent > 0)
+    .map(outcome => rules.find(rule => rule.id === outcome.reactionId))
+    .filter((rule): rule is ReactionRule => Boolean(rule))
+  const started = resolveReactions(reactionContext(reacted, temperature, lookup, ignited), rules)
+    .filter(rule => !rule.coefficients || (rule.rate && canReact(reacted, rule)))
+
+  const heat = outcomes.reduce((total, outcome) =>
+    total + heatReleased(rules.find(rule => rule.id === outcome.reactionId), outcome.extent), 0)
+
+  return {
+    solution: reacted,
+    fired: [...stoichiometric, ...started].sort(compareRules(rules)),
+    heat
   }
-  
-  return null
-}
\ No newline at end of file
+}
+
+// Let the rules with a rate run for dt seconds, each following its rate law
+// in the concentration of its rate reactant.
+// Returns the new contents, the heat released in joules and the rate of each
+// rule that ran in moles of reaction per second.
+export function advanceKinetics(
+  solution: Solution,
+  temperature: number,
+  lookup: ChemicalLookup,
+  dt: number,
+  rules: ReactionRule[] = REACTION_RULES,
+  ignited = false
+): { solution: Solution; heat: number; rates: Record<string, number> } {
+  const context = reactionContext(solution, temperature, lookup, ignited)
+  const rates: Record<string, number> = {}
+  let current = solution
+  let heat = 0
+
+  resolveReactions(context, rules)
+    .filter(rule => rule.rate && rule.coefficients)
+    .forEach(rule => {
+      const reactant = rateReactant(current, rule, lookup)
+      if (!reactant || current.volume <= 0) return
+      const before = concentrationOf(current, reactant)
+      const after = decayConcentration(before, reactionRate(rule, context), rule.rate.order ?? 1, dt)
+      const consumed = (before - after) * current.volume / 1000
+      const extent = Math.min(consumed / (rule.coefficients[reactant] ?? 1), maxExtent(current, rule))
+      if (extent < NEGLIGIBLE_EXTENT) return
+      current = applyReaction(current, rule, extent).solution
+      heat += heatReleased(rule, extent)
+      rates[rule.id] = extent / dt
+    })
+
+  return { solution: current, heat, rates }
+}
@@ -0,0 +1,229 @@
+import { ReactionRule } from '@/types'
+
+// Global reaction registry. Any mixture in any vessel is resolved against
+// these rules, so adding a reaction means adding an entry here.
+export const REACTION_RULES: ReactionRule[] = [
+  // Acid-base
+  {
+    id: 'neutralization',
+    reactants: ['hcl', 'naoh'],
+    products: ['nacl', 'h2o'],
+    coefficients: { hcl: 1, naoh: 1, nacl: 1, h2o: 1 },
+    enthalpy: -57.1,
+    priority: 10,
+    effects: [
+      {
+        type: 'heat-release',
+        intensity: 0.7,
+        duration: 3000
+      }
+    ],
+    outcomeText: 'Acid and base neutralized to form sodium chloride and water'
+  },
+
+  // Precipitation
+  {
+    id: 'silver-chloride-precipitation',
+    reactants: ['agno3', 'nacl'],
+    products: ['agcl', 'nano3'],
+    coefficients: { agno3: 1, nacl: 1, agcl: 1, nano3: 1 },
+    enthalpy: -65.5,
+    // Ions meeting in solution: second order, clouding over in a few seconds
+    rate: { constant: 5, order: 2 },
+    priority: 10,
+    effects: [
+      {
+        type: 'precipitation',
+        color: '#F8F8F8', // Slightly off-white for realistic silver chloride
+        intensity: 1.0,
+        duration: 10000
+      }
+    ],
+    outcomeText: 'White precipitate of silver chloride formed'
+  },
+
+  // Displacement
+  {
+    id: 'zinc-copper-displacement',
+    reactants: ['zn', 'cuso4'],
+    products: ['znso4', 'cu'],
+    coefficients: { zn: 1, cuso4: 1, znso4: 1, cu: 1 },
+    enthalpy: -217,
+    // Only at the zinc surface, so the blue fades over half a minute or so
+    rate: { constant: 0.05, activationEnergy: 40 },
+    priority: 10,
+    effects: [
+      {
+        type: 'color-change',
+        color: '#F5F5F5', // Colorless for final ZnSO4 solution
+        intensity: 0.9,
+        duration: 12000
+      },
+      {
+        type: 'precipitation',
+        color: '#A0522D', // Richer reddish-brown copper metal deposits
+        intensity: 0.8,
+        duration: 12000,
+        particle: 'crystals'
+      }
+    ],
+    outcomeText: 'Blue copper sulfate solution turned colorless and brown copper deposited'
+  },
+
+  {
+    id: 'zinc-acid-hydrogen',
+    reactants: ['zn', 'hcl'],
+    products: ['zncl2', 'h2'],
+    coefficients: { zn: 1, hcl: 2, zncl2: 1, h2: 1 },
+    enthalpy: -153.9,
+    priority: 10,
+    effects: [
+      {
+        type: 'gas-evolution',
+        particle: 'bubble',
+        intensity: 0.7,
+        duration: 6000
+      }
+    ],
+    outcomeText: 'Zinc dissolved in the acid, giving off hydrogen gas'
+  },
+
+  // Carbonates
+  {
+    id: 'carbonate-acid',
+    reactants: ['caco3', 'hcl'],
+    products: ['cacl2', 'h2o', 'co2'],
+    coefficients: { caco3: 1, hcl: 2, cacl2: 1, h2o: 1, co2: 1 },
+    enthalpy: -15.2,
+    priority: 10,
+    effects: [
+      {
+        type: 'gas-evolution',
+        particle: 'bubble',
+        intensity: 0.8,
+        duration: 6000
+      }
+    ],
+    outcomeText: 'Calcium carbonate fizzed in the acid, giving off carbon dioxide'
+  },
+
+  // Never done on purpose: the reason bleach must not meet acid
+  {
+    id: 'bleach-acid-chlorine',
+    reactants: ['naocl', 'hcl'],
+    products: ['nacl', 'cl2', 'h2o'],
+    coefficients: { naocl: 1, hcl: 2, nacl: 1, cl2: 1, h2o: 1 },
+    priority: 10,
+    effects: [
+      {
+        type: 'smoke',
+        color: '#D4E157', // Yellow-green chlorine
+        intensity: 0.9,
+        duration: 6000
+      }
+    ],
+    outcomeText: 'Bleach reacted with the acid, giving off toxic chlorine gas'
+  },
+
+  // Combustion
+  {
+    id: 'methane-combustion',
+    reactants: ['ch4', 'o2'],
+    products: ['co2', 'h2o'],
+    coefficients: { ch4: 1, o2: 2, co2: 1, h2o: 2 },
+    enthalpy: -890,
+    // Methane has to be lit; the flame then keeps it above its ignition temperature
+    conditions: { ignition: true },
+    priority: 10,
+    effects: [
+      {
+        type: 'heat-release',
+        intensity: 0.9,
+        duration: 4000
+      },
+      {
+        type: 'gas-evolution',
+        intensity: 0.8,
+        duration: 3000,
+        particle: 'bubble'
+      }
+    ],
+    outcomeText: 'Methane burned to form carbon dioxide and water'
+  },
+
+  // Decomposition
+  {
+    id: 'peroxide-decomposition',
+    reactants: ['h2o2'],
+    products: ['h2o', 'o2'],
+    coefficients: { h2o2: 2, h2o: 2, o2: 1 },
+    enthalpy: -196,
+    // Barely noticeable on its own; MnO₂ or KI makes it fizz
+    rate: { constant: 0.0005, activationEnergy: 75, catalysts: { mno2: 400, ki: 200 } },
+    priority: 5,
+    effects: [
+      {
+        type: 'gas-evolution',
+        particle: 'bubble',
+        intensity: 0.9,
+        duration: 8000
+      },
+      {
+        type: 'heat-release',
+        intensity: 0.6,
+        duration: 5000
+      }
+    ],
+    outcomeText: 'Hydrogen peroxide decomposed into water and oxygen gas'
+  },
+
+  // Indicators - visual only, resolved against the computed pH
+  {
+    id: 'phenolphthalein-base',
+    reactants: ['phenolphthalein'],
+    products: [],
+    conditions: { phRange: [8.2, 14] },
+    priority: 1,
+    effects: [
+      {
+        type: 'color-change',
+        color: '#F8A8D8', // Light pink
+        intensity: 0.5,
+        duration: 2000
+      }
+    ],
+    outcomeText: 'Solution turned pink indicating basic conditions'
+  },
+  {
+    id: 'litmus-acid',
+    reactants: ['litmus'],
+    products: [],
+    conditions: { phRange: [0, 4.5] },
+    priority: 1,
+    effects: [
+      {
+        type: 'color-change',
+        color: '#FF6347',
+        intensity: 0.6,
+        duration: 2000
+      }
+    ],
+    outcomeText: 'Litmus turned red indicating acidic conditions'
+  },
+  {
+    id: 'litmus-base',
+    reactants: ['litmus'],
+    products: [],
+    conditions: { phRange: [8.3, 14] },
+    priority: 1,
+    effects: [
+      {
+        type: 'color-change',
+        color: '#4169E1',
+        intensity: 0.6,
+        duration: 2000
+      }
+    ],
+    outcomeText: 'Litmus turned blue indicating basic conditions'
+  }
+]
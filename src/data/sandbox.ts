@@ -0,0 +1,31 @@
+import { Experiment } from '@/types'
+import { CHEMICALS } from './chemicalData'
+
+export const SANDBOX_ID = 'sandbox'
+
+// What the bench starts with: somewhere to mix, somewhere to heat and a
+// thermometer to watch it
+export const DEFAULT_SANDBOX_EQUIPMENT = ['beaker', 'beaker', 'test-tube', 'bunsen-burner', 'thermometer']
+
+// Free play as an experiment with the whole chemical shelf and no steps to
+// follow. Mixtures are resolved against the global reaction registry only.
+export function createSandboxExperiment(equipment: string[]): Experiment {
+  return {
+    id: SANDBOX_ID,
+    title: 'Sandbox',
+    description: 'Mix anything on the shelf and see what happens.',
+    difficulty: 'advanced',
+    duration: 0,
+    category: 'sandbox',
+    objectives: ['Explore how the chemicals on the shelf behave together'],
+    steps: [],
+    materials: equipment.map(equipmentType => ({ equipmentType, quantity: 1, required: false })),
+    chemicals: Object.values(CHEMICALS),
+    safetyNotes: [
+      'Check the Safety Data Sheet before mixing anything new',
+      'Nothing here is scripted: incompatible chemicals react just as they would at a real bench'
+    ],
+    expectedResults: [],
+    reactions: []
+  }
+}
@@ -0,0 +1,11 @@
+'use client'
+
+import { useSyncExternalStore } from 'react'
+import { SimulationState } from '@/types'
+import { LabSimulation } from '@/lib/simulation'
+
+// Read-only view of the simulation. The selector should return a value that
+// stays referentially equal while the part of the state it reads is unchanged.
+export function useLabSimulation<T>(simulation: LabSimulation, selector: (state: SimulationState) => T): T {
+  return useSyncExternalStore(simulation.subscribe, () => selector(simulation.getState()))
+}
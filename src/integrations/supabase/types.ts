@@ -14,6 +14,33 @@ export type Database = {
   }
   public: {
     Tables: {
+      experiment_drafts: {
+        Row: {
+          author_id: string
+          created_at: string
+          definition: Json
+          id: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          author_id: string
+          created_at?: string
+          definition?: Json
+          id?: string
+          title?: string
+          updated_at?: string
+        }
+        Update: {
+          author_id?: string
+          created_at?: string
+          definition?: Json
+          id?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       experiments: {
         Row: {
           category: string
@@ -22,6 +49,7 @@ export type Database = {
           difficulty: string
           duration: string
           id: string
+          slug: string
           thumbnail_url: string | null
           title: string
           updated_at: string
@@ -33,6 +61,7 @@ export type Database = {
           difficulty: string
           duration: string
           id?: string
+          slug: string
           thumbnail_url?: string | null
           title: string
           updated_at?: string
@@ -44,6 +73,7 @@ export type Database = {
           difficulty?: string
           duration?: string
           id?: string
+          slug?: string
           thumbnail_url?: string | null
           title?: string
           updated_at?: string
@@ -84,6 +114,7 @@ export type Database = {
           experiment_id: string
           id: string
           last_accessed_at: string
+          pre_lab: Json | null
           progress_percentage: number
           user_id: string
         }
@@ -93,6 +124,7 @@ export type Database = {
           experiment_id: string
           id?: string
           last_accessed_at?: string
+          pre_lab?: Json | null
           progress_percentage?: number
           user_id: string
         }
@@ -102,6 +134,7 @@ export type Database = {
           experiment_id?: string
           id?: string
           last_accessed_at?: string
+          pre_lab?: Json | null
           progress_percentage?: number
           user_id?: string
         }
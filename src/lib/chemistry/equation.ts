@@ -0,0 +1,145 @@
+import { Chemical } from '@/types'
+import { ChemicalLookup, StoichiometricReaction } from './solution'
+import { ParsedFormula, parseFormula } from './formula'
+
+// A solid this soluble (g per 100 mL) is written as dissolved when the
+// reaction happens in solution
+const SOLUBLE = 1
+
+const STATE_SYMBOLS: Record<Chemical['properties']['state'], string> = {
+  solid: '(s)',
+  liquid: '(l)',
+  gas: '(g)'
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? Math.abs(a) : gcd(b, a % b)
+}
+
+// Reduce a row of integers by their common factor
+function reduceRow(row: number[]): number[] {
+  const divisor = row.reduce((common, value) => gcd(common, value), 0)
+  return divisor > 1 ? row.map(value => value / divisor) : row
+}
+
+// Integer row reduction of the composition matrix, one column per species.
+// Returns the rows that hold a pivot and the column of each pivot.
+function rowReduce(matrix: number[][]): { rows: number[][]; pivots: number[] } {
+  const rows = matrix.map(row => [...row])
+  const pivots: number[] = []
+  const columns = rows[0]?.length || 0
+
+  for (let column = 0; column < columns && pivots.length < rows.length; column++) {
+    const rank = pivots.length
+    const found = rows.findIndex((row, index) => index >= rank && row[column] !== 0)
+    if (found === -1) continue
+    const pivot = rows[found]
+    rows[found] = rows[rank]
+    rows[rank] = pivot
+    rows.forEach((row, index) => {
+      if (index === rank || row[column] === 0) return
+      const factor = row[column]
+      rows[index] = reduceRow(row.map((value, j) => value * pivot[column] - pivot[j] * factor))
+    })
+    pivots.push(column)
+  }
+  return { rows: rows.slice(0, pivots.length), pivots }
+}
+
+// Smallest whole-number coefficients that balance atoms and charge, found from
+// the null space of the composition matrix. Works from chemical ids and their
+// formulas, so any reactants and products can be balanced, or the reason they
+// can't be is returned.
+export function balanceEquation(
+  reactants: string[],
+  products: string[],
+  lookup: ChemicalLookup
+): { coefficients?: Record<string, number>; problem?: string } {
+  const species = [...reactants, ...products]
+  if (reactants.length === 0 || products.length === 0) {
+    return { problem: 'A reaction needs at least one reactant and one product' }
+  }
+  if (new Set(species).size !== species.length) {
+    return { problem: 'The same chemical is on both sides' }
+  }
+
+  const parsed: ParsedFormula[] = []
+  for (const id of species) {
+    const chemical = lookup(id)
+    if (!chemical) return { problem: `Unknown chemical "${id}"` }
+    const { formula, problem } = parseFormula(chemical.formula)
+    if (problem) return { problem }
+    parsed.push(formula)
+  }
+
+  // One row per element plus one for charge; products count negative
+  const elements = [...new Set(parsed.flatMap(formula => Object.keys(formula.elements)))]
+  const sign = (index: number) => (index < reactants.length ? 1 : -1)
+  const matrix = [
+    ...elements.map(element => parsed.map((formula, index) => sign(index) * (formula.elements[element] || 0))),
+    parsed.map((formula, index) => sign(index) * formula.charge)
+  ]
+
+  const { rows, pivots } = rowReduce(matrix)
+  const free = species.map((_, index) => index).filter(index => !pivots.includes(index))
+  if (free.length === 0) {
+    return { problem: 'These reactants and products can\'t be balanced' }
+  }
+  if (free.length > 1) {
+    return { problem: 'These species balance in more than one way; split them into separate reactions' }
+  }
+
+  // Give the free species a count every pivot divides, then solve for the rest
+  const scale = rows.reduce((multiple, row, index) => {
+    const pivot = Math.abs(row[pivots[index]])
+    return (multiple * pivot) / gcd(multiple, pivot)
+  }, 1)
+  const counts = species.map((_, index) => {
+    if (index === free[0]) return scale
+    const row = rows[pivots.indexOf(index)]
+    return (-row[free[0]] * scale) / row[index]
+  })
+
+  const reduced = reduceRow(counts[0] < 0 ? counts.map(count => -count) : counts)
+  if (reduced.some(count => count <= 0)) {
+    return { problem: 'These species only balance with something on the wrong side' }
+  }
+  return { coefficients: Object.fromEntries(species.map((id, index) => [id, reduced[index]])) }
+}
+
+// State symbol for a chemical in a reaction. Reagents with a concentration are
+// aqueous solutions, and soluble solids are dissolved if anything else is.
+export function stateSymbol(chemical: Chemical, inSolution: boolean): string {
+  if (chemical.concentration !== undefined && chemical.properties.state === 'liquid') return '(aq)'
+  if (inSolution && chemical.properties.state === 'solid' && chemical.properties.solubility >= SOLUBLE) return '(aq)'
+  return STATE_SYMBOLS[chemical.properties.state]
+}
+
+// Write out a reaction from its chemicals, e.g. '2H₂O₂(aq) → 2H₂O(l) + O₂(g)'.
+// Uses the reaction's own coefficients, balancing it if it has none. Null if
+// a chemical is unknown or the equation can't be balanced.
+export function renderEquation(reaction: StoichiometricReaction, lookup: ChemicalLookup): string | null {
+  const chemicals = [...reaction.reactants, ...reaction.products].map(lookup)
+  if (chemicals.some(chemical => !chemical)) return null
+  const coefficients = reaction.coefficients ?? balanceEquation(reaction.reactants, reaction.products, lookup).coefficients
+  if (!coefficients) return null
+
+  const inSolution = chemicals.some(chemical => stateSymbol(chemical, false) === '(aq)')
+  const side = (ids: string[]) => ids
+    .map(id => {
+      const chemical = lookup(id)
+      const coefficient = coefficients[id] ?? 1
+      return `${coefficient === 1 ? '' : coefficient}${chemical.formula}${stateSymbol(chemical, inSolution)}`
+    })
+    .join(' + ')
+  return `${side(reaction.reactants)} → ${side(reaction.products)}`
+}
+
+// The equation to show for a reaction: written out from its chemicals where
+// possible, otherwise whatever was typed in
+export function reactionEquation(
+  reaction: StoichiometricReaction & { equation?: string },
+  lookup: ChemicalLookup
+): string {
+  return renderEquation(reaction, lookup) ?? reaction.equation ?? ''
+}
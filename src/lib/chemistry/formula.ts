@@ -0,0 +1,202 @@
+import { Chemical } from '@/types'
+import { ATOMIC_MASSES } from '@/data/elements'
+import { ChemicalLookup, StoichiometricReaction } from './solution'
+
+// Atoms of each element in one formula unit, and its overall charge
+export interface ParsedFormula {
+  elements: Record<string, number>
+  charge: number
+}
+
+export interface EquationTerm {
+  coefficient: number
+  formula: string
+  parsed: ParsedFormula
+}
+
+const SUBSCRIPTS = '₀₁₂₃₄₅₆₇₈₉'
+const SUPERSCRIPTS = '⁰¹²³⁴⁵⁶⁷⁸⁹'
+// Separators between the parts of a hydrate or adduct, e.g. CuSO₄·5H₂O
+const HYDRATE_DOT = /[·•∙*.]/
+const ARROW = /\s*(?:→|⟶|⇌|⇄|<=>|->|=)\s*/
+// State symbols and gas/precipitate arrows written after a species
+const ANNOTATION = /(\((?:aq|s|l|g)\)|[↑↓])/g
+const OPENING: Record<string, string> = { '(': ')', '[': ']' }
+
+function addElements(into: Record<string, number>, from: Record<string, number>, times: number) {
+  Object.entries(from).forEach(([element, count]) => {
+    into[element] = (into[element] || 0) + count * times
+  })
+}
+
+// Pull a charge off the end: superscripts (SO₄²⁻), caret notation (SO4^2-)
+// or a lone sign (Na+)
+function splitCharge(formula: string): { body: string; charge: number } {
+  const superscript = formula.match(/([⁰¹²³⁴⁵⁶⁷⁸⁹]*)([⁺⁻])$/)
+  if (superscript) {
+    const size = superscript[1] ? Number([...superscript[1]].map(char => SUPERSCRIPTS.indexOf(char)).join('')) : 1
+    return { body: formula.slice(0, superscript.index), charge: superscript[2] === '⁺' ? size : -size }
+  }
+  const caret = formula.match(/\^(\d*)([+-])$/)
+  if (caret) {
+    const size = caret[1] ? Number(caret[1]) : 1
+    return { body: formula.slice(0, caret.index), charge: caret[2] === '+' ? size : -size }
+  }
+  const sign = formula.match(/[+-]$/)
+  if (sign) {
+    return { body: formula.slice(0, sign.index), charge: sign[0] === '+' ? 1 : -1 }
+  }
+  return { body: formula, charge: 0 }
+}
+
+// Recursive descent over element symbols, counts and bracketed groups
+function parseGroup(text: string, start: number, closing: string | null): { elements: Record<string, number>; end: number } {
+  const elements: Record<string, number> = {}
+  let index = start
+  const readCount = () => {
+    const digits = text.slice(index).match(/^\d+/)
+    if (!digits) return 1
+    index += digits[0].length
+    return Number(digits[0])
+  }
+
+  while (index < text.length) {
+    const char = text[index]
+    if (char === closing) {
+      return { elements, end: index + 1 }
+    }
+    if (OPENING[char]) {
+      const inner = parseGroup(text, index + 1, OPENING[char])
+      index = inner.end
+      addElements(elements, inner.elements, readCount())
+      continue
+    }
+    const symbol = text.slice(index).match(/^[A-Z][a-z]?/)
+    if (!symbol) {
+      throw new Error(char === ')' || char === ']' ? `Unmatched "${char}"` : `Unexpected "${char}"`)
+    }
+    if (!ATOMIC_MASSES[symbol[0]]) {
+      throw new Error(`Unknown element "${symbol[0]}"`)
+    }
+    index += symbol[0].length
+    addElements(elements, { [symbol[0]]: 1 }, readCount())
+  }
+
+  if (closing) throw new Error(`Missing "${closing}"`)
+  return { elements, end: index }
+}
+
+// Read a formula such as 'H₂SO₄', 'Ca(OH)₂', 'CuSO₄·5H₂O' or 'SO₄²⁻'.
+// Returns the composition, or what is wrong with the formula.
+export function parseFormula(formula: string): { formula?: ParsedFormula; problem?: string } {
+  const normalized = [...formula.replace(ANNOTATION, '').replace(/\s+/g, '')]
+    .map(char => (SUBSCRIPTS.includes(char) ? String(SUBSCRIPTS.indexOf(char)) : char))
+    .join('')
+  if (!normalized) return { problem: 'Empty formula' }
+  // Electrons take part in half-equations
+  if (/^e[⁻-]$/.test(normalized)) return { formula: { elements: {}, charge: -1 } }
+
+  try {
+    const { body, charge } = splitCharge(normalized)
+    const elements: Record<string, number> = {}
+    body.split(HYDRATE_DOT).forEach(part => {
+      // Each part of a hydrate can have its own multiplier: the 5 in 5H₂O
+      const multiplier = part.match(/^\d+/)
+      const group = parseGroup(part, multiplier ? multiplier[0].length : 0, null)
+      addElements(elements, group.elements, multiplier ? Number(multiplier[0]) : 1)
+    })
+    if (Object.keys(elements).length === 0) return { problem: `No elements in "${formula}"` }
+    return { formula: { elements, charge } }
+  } catch (error) {
+    return { problem: `${(error as Error).message} in "${formula}"` }
+  }
+}
+
+export function formulaMass(parsed: ParsedFormula): number {
+  return Object.entries(parsed.elements).reduce((sum, [element, count]) => sum + ATOMIC_MASSES[element] * count, 0)
+}
+
+// Molar mass (g/mol) worked out from a formula, or null if it can't be read
+export function molarMassOf(formula: string): number | null {
+  const { formula: parsed } = parseFormula(formula)
+  return parsed ? formulaMass(parsed) : null
+}
+
+// A chemical's molar mass as given, or else as its formula says
+export function chemicalMolarMass(chemical: Chemical): number | null {
+  return chemical.molarMass ?? molarMassOf(chemical.formula)
+}
+
+function parseTerm(term: string): { term?: EquationTerm; problem?: string } {
+  const match = term.trim().match(/^(\d+(?:\.\d+)?)?\s*(.+)$/)
+  if (!match) return { problem: `Empty term` }
+  const { formula: parsed, problem } = parseFormula(match[2])
+  if (problem) return { problem }
+  return { term: { coefficient: match[1] ? Number(match[1]) : 1, formula: match[2], parsed } }
+}
+
+// Split 'CH₄ + 2O₂ → CO₂ + 2H₂O' into its sides. Terms are separated by a
+// plus with spaces around it, so ion charges such as Na⁺ are left alone.
+export function parseEquation(equation: string): { reactants?: EquationTerm[]; products?: EquationTerm[]; problem?: string } {
+  const sides = equation.split(ARROW)
+  if (sides.length !== 2 || !sides[0].trim() || !sides[1].trim()) {
+    return { problem: `Expected one arrow between reactants and products in "${equation}"` }
+  }
+
+  const [reactants, products] = sides.map(side => side.split(/\s+\+\s+/).map(parseTerm))
+  const problem = [...reactants, ...products].find(result => result.problem)?.problem
+  if (problem) return { problem }
+  return { reactants: reactants.map(result => result.term), products: products.map(result => result.term) }
+}
+
+// Atoms of each element, and total charge, on one side of an equation
+function sideTotals(terms: { coefficient: number; parsed: ParsedFormula }[]): ParsedFormula {
+  const totals: ParsedFormula = { elements: {}, charge: 0 }
+  terms.forEach(term => {
+    addElements(totals.elements, term.parsed.elements, term.coefficient)
+    totals.charge += term.parsed.charge * term.coefficient
+  })
+  return totals
+}
+
+function imbalance(left: ParsedFormula, right: ParsedFormula): string[] {
+  const elements = [...new Set([...Object.keys(left.elements), ...Object.keys(right.elements)])]
+  const differences = elements
+    .filter(element => Math.abs((left.elements[element] || 0) - (right.elements[element] || 0)) > 1e-9)
+    .map(element => `${element} ${left.elements[element] || 0} → ${right.elements[element] || 0}`)
+  if (Math.abs(left.charge - right.charge) > 1e-9) {
+    differences.push(`charge ${left.charge} → ${right.charge}`)
+  }
+  return differences
+}
+
+// What is wrong with a written equation: unreadable formulas, or atoms and
+// charge that don't balance
+export function equationProblems(equation: string): string[] {
+  const { reactants, products, problem } = parseEquation(equation)
+  if (problem) return [problem]
+  const differences = imbalance(sideTotals(reactants), sideTotals(products))
+  return differences.length > 0 ? [`"${equation}" is not balanced (${differences.join(', ')})`] : []
+}
+
+// Whether a reaction's coefficients balance, using the formulas of the
+// chemicals it names
+export function coefficientProblems(reaction: StoichiometricReaction, lookup: ChemicalLookup): string[] {
+  if (!reaction.coefficients) return []
+  const problems: string[] = []
+  const side = (ids: string[]) => ids.flatMap(id => {
+    const chemical = lookup(id)
+    const { formula: parsed, problem } = chemical ? parseFormula(chemical.formula) : { problem: `Unknown chemical "${id}"` }
+    if (problem) {
+      problems.push(problem)
+      return []
+    }
+    return [{ coefficient: reaction.coefficients[id] ?? 1, parsed }]
+  })
+
+  const left = side(reaction.reactants)
+  const right = side(reaction.products)
+  if (problems.length > 0) return problems
+  const differences = imbalance(sideTotals(left), sideTotals(right))
+  return differences.length > 0 ? [`Coefficients for "${reaction.id}" don't balance (${differences.join(', ')})`] : []
+}
@@ -0,0 +1,104 @@
+import { GasSample, GasTest, GasTestResult, Solution } from '@/types'
+import { ChemicalLookup } from './solution'
+
+// Volume of one mole of gas at room temperature and pressure
+export const MOLAR_GAS_VOLUME = 24000 // mL
+// Less gas than this is too little for a test to show anything
+export const MIN_TEST_VOLUME = 5 // mL
+// A glowing splint only relights in gas that is mostly oxygen
+const RELIGHT_OXYGEN_FRACTION = 0.5
+
+// Amounts below this are treated as nothing collected
+const EPSILON = 1e-9
+
+export const GAS_TEST_NAMES: Record<GasTest, string> = {
+  'glowing-splint': 'Glowing splint',
+  'lit-splint': 'Lit splint',
+  'limewater': 'Limewater'
+}
+
+// Gases a reaction gave off: anything in the gas state whose amount went up
+// between the contents before and after reacting. They leave the liquid and
+// bubble out of it.
+export function releaseGases(before: Solution, after: Solution, lookup: ChemicalLookup): { solution: Solution; released: GasSample } {
+  const species = { ...after.species }
+  const released: GasSample = {}
+  Object.keys(after.species)
+    .filter(id => lookup(id)?.properties.state === 'gas')
+    .forEach(id => {
+      const evolved = after.species[id] - (before.species[id] || 0)
+      if (evolved <= EPSILON) return
+      released[id] = evolved
+      const remaining = after.species[id] - evolved
+      if (remaining > EPSILON) {
+        species[id] = remaining
+      } else {
+        delete species[id]
+      }
+    })
+  return { solution: { ...after, species }, released }
+}
+
+export function addGases(sample: GasSample = {}, added: GasSample): GasSample {
+  const combined = { ...sample }
+  Object.entries(added).forEach(([id, moles]) => {
+    combined[id] = (combined[id] || 0) + moles
+  })
+  return combined
+}
+
+export function gasVolume(sample: GasSample = {}): number {
+  return Object.values(sample).reduce((total, moles) => total + moles, 0) * MOLAR_GAS_VOLUME
+}
+
+function volumeOf(sample: GasSample, id: string): number {
+  return (sample[id] || 0) * MOLAR_GAS_VOLUME
+}
+
+// What a test shows on a collected sample. Oxygen relights a glowing splint,
+// hydrogen burns with a squeaky pop and carbon dioxide turns limewater milky.
+export function runGasTest(test: GasTest, sample: GasSample = {}): GasTestResult {
+  const total = gasVolume(sample)
+  if (total < MIN_TEST_VOLUME) {
+    return { test, positive: false, observation: 'Not enough gas has been collected to test' }
+  }
+
+  switch (test) {
+    case 'glowing-splint': {
+      const positive = volumeOf(sample, 'o2') / total >= RELIGHT_OXYGEN_FRACTION
+      return {
+        test,
+        positive,
+        observation: positive ? 'The glowing splint relights: the gas is oxygen' : 'The glowing splint does not relight'
+      }
+    }
+    case 'lit-splint': {
+      const positive = volumeOf(sample, 'h2') >= MIN_TEST_VOLUME
+      if (positive) return { test, positive, observation: 'The gas burns with a squeaky pop: the gas is hydrogen' }
+      return {
+        test,
+        positive,
+        observation: volumeOf(sample, 'co2') >= MIN_TEST_VOLUME ? 'The lit splint goes out' : 'The splint keeps burning'
+      }
+    }
+    case 'limewater': {
+      const positive = volumeOf(sample, 'co2') >= MIN_TEST_VOLUME
+      return {
+        test,
+        positive,
+        observation: positive ? 'The limewater turns milky: the gas is carbon dioxide' : 'The limewater stays clear'
+      }
+    }
+  }
+}
+
+// The sample left after a test. Hydrogen that pops has burned, and carbon
+// dioxide bubbled through limewater is absorbed by it.
+export function afterGasTest(test: GasTest, sample: GasSample = {}): GasSample {
+  const { positive } = runGasTest(test, sample)
+  if (!positive) return sample
+  const remaining = { ...sample }
+  if (test === 'lit-splint') delete remaining.h2
+  if (test === 'limewater') delete remaining.co2
+  return remaining
+}
@@ -0,0 +1,27 @@
+import { Solution } from '@/types'
+import { ROOM_TEMPERATURE } from './thermal'
+
+const GAS_CONSTANT = 8.314 // J/(mol·K)
+const ABSOLUTE_ZERO = -273.15 // °C
+
+// mol/L of one species in a solution
+export function concentrationOf(solution: Solution, id: string): number {
+  return solution.volume > 0 ? (solution.species[id] || 0) / (solution.volume / 1000) : 0
+}
+
+// How many times faster a reaction goes at this temperature (°C) than at room
+// temperature, from the Arrhenius equation. Activation energy is in kJ/mol.
+export function arrheniusFactor(activationEnergy: number, temperature: number): number {
+  const kelvin = (celsius: number) => celsius - ABSOLUTE_ZERO
+  return Math.exp(-(activationEnergy * 1000 / GAS_CONSTANT) * (1 / kelvin(temperature) - 1 / kelvin(ROOM_TEMPERATURE)))
+}
+
+// Concentration left after dt seconds of rate = k·c^order, using the
+// integrated rate law so large steps don't overshoot
+export function decayConcentration(concentration: number, constant: number, order: number, dt: number): number {
+  if (order === 1) return concentration * Math.exp(-constant * dt)
+  if (order === 0) return Math.max(0, concentration - constant * dt)
+  const base = concentration ** (1 - order) + (order - 1) * constant * dt
+  // Below first order the reactant runs out in finite time
+  return base > 0 ? base ** (1 / (1 - order)) : 0
+}
@@ -0,0 +1,51 @@
+import { Chemical } from '@/types'
+import { StoichiometricReaction } from './solution'
+import { chemicalMolarMass } from './formula'
+
+// An analytical balance reads to the milligram
+export const BALANCE_READABILITY = 0.001 // g
+// Empty weighing boat on the pan
+export const WEIGHING_BOAT_MASS = 1.274 // g
+// Most the pan will take
+export const BALANCE_CAPACITY = 220 // g
+// Share of a spatula scoop that can go astray either way
+const SCOOP_SPREAD = 0.3
+
+// What the balance display shows: everything on the pan less whatever was
+// tared, to the balance's readability
+export function balanceReading(load: number, tare: number): number {
+  return Number((Math.round((load - tare) / BALANCE_READABILITY) * BALANCE_READABILITY).toFixed(3))
+}
+
+// Moles in a mass of a chemical. Without a molar mass, listed or worked out
+// from the formula, there is nothing to convert with, so this is zero.
+export function molesFromMass(chemical: Chemical, grams: number): number {
+  const molarMass = chemicalMolarMass(chemical)
+  return molarMass ? grams / molarMass : 0
+}
+
+export function massFromMoles(chemical: Chemical, moles: number): number {
+  return moles * (chemicalMolarMass(chemical) || 0)
+}
+
+// Most of a product, in grams, that some moles of one reactant can give if
+// the others are in excess
+export function theoreticalYield(
+  reaction: StoichiometricReaction,
+  reactant: string,
+  moles: number,
+  product: Chemical
+): number {
+  const coefficient = (id: string) => reaction.coefficients?.[id] ?? 1
+  return massFromMoles(product, (moles / coefficient(reactant)) * coefficient(product.id))
+}
+
+// Product actually obtained as a percentage of the most there could have been
+export function percentYield(actual: number, theoretical: number): number {
+  return theoretical > 0 ? (actual / theoretical) * 100 : 0
+}
+
+// How much a spatula scoop of about `nominal` grams actually carries
+export function spatulaScoop(nominal: number, random: () => number = Math.random): number {
+  return Math.max(0, nominal * (1 + (random() * 2 - 1) * SCOOP_SPREAD))
+}
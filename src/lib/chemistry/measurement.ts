@@ -0,0 +1,50 @@
+import { EyeLevel, MeniscusReading } from '@/types'
+
+// Share of a pour that can go astray either way when filling by hand
+const POUR_SPREAD = 0.1
+// How many graduations the meniscus seems to move when it is read from
+// above or below eye level instead of level with it
+const PARALLAX_SHIFT = 2.5
+
+// Smallest division on a graduated cylinder of this capacity (mL), as on
+// standard laboratory glassware
+export function graduationInterval(capacity: number): number {
+  if (capacity <= 10) return 0.2
+  if (capacity <= 25) return 0.5
+  if (capacity <= 100) return 1
+  if (capacity <= 250) return 2
+  return 5
+}
+
+// A reading can be estimated to half a division, and no better
+export function readingResolution(capacity: number): number {
+  return graduationInterval(capacity) / 2
+}
+
+// Where the bottom of the meniscus appears against the scale. The scale is
+// on the near wall, so looking down on the liquid lines it up with a higher
+// mark and looking up at it with a lower one.
+export function apparentVolume(volume: number, capacity: number, eye: EyeLevel): number {
+  const direction = eye === 'above' ? 1 : eye === 'below' ? -1 : 0
+  return Math.min(capacity, Math.max(0, volume + direction * PARALLAX_SHIFT * graduationInterval(capacity)))
+}
+
+// Read a cylinder the way a student would: against the apparent meniscus,
+// rounded to the best the graduations allow
+export function readMeniscus(volume: number, capacity: number, eye: EyeLevel): MeniscusReading {
+  const resolution = readingResolution(capacity)
+  // toFixed keeps 7.3 from coming out as 7.300000000000001
+  const reading = Number((Math.round(apparentVolume(volume, capacity, eye) / resolution) * resolution).toFixed(2))
+  return { volume, reading, eye, error: reading - volume }
+}
+
+// Whether a reading is as good as the cylinder allows
+export function withinReadingTolerance(reading: MeniscusReading, capacity: number): boolean {
+  return Math.abs(reading.error) <= readingResolution(capacity) + 1e-9
+}
+
+// How much actually goes in when a student pours about `nominal` mL. Pouring
+// from a bottle is rough, which is why cylinders are topped up with a dropper.
+export function dispensedVolume(nominal: number, random: () => number = Math.random): number {
+  return Math.max(0, nominal * (1 + (random() * 2 - 1) * POUR_SPREAD))
+}
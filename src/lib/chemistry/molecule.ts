@@ -0,0 +1,346 @@
+import { BondOrder, MoleculeAtom, MoleculeBond, MoleculeStructure } from '@/types'
+import { ATOMIC_MASSES, COVALENT_RADII, CPK_COLORS, VAN_DER_WAALS_RADII } from '@/data/elements'
+
+// For elements missing from the radius and color tables
+const DEFAULT_COVALENT_RADIUS = 1.5 // Å
+const DEFAULT_VAN_DER_WAALS_RADIUS = 2.0 // Å
+const DEFAULT_CPK_COLOR = '#ff1493'
+
+// Multiple bonds are shorter than single ones by roughly these factors
+const BOND_SHORTENING: Record<BondOrder, number> = { 0: 1, 1: 1, 1.5: 0.92, 2: 0.87, 3: 0.78 }
+// Two atoms in an XYZ file are bonded when this close, relative to their radii
+const BOND_TOLERANCE = 1.15
+// Unbonded atoms are kept at least this share of their van der Waals contact apart
+const CLEARANCE = 0.75
+const LAYOUT_ITERATIONS = 10000
+// Unbonded atoms are only checked every so many iterations
+const CLEARANCE_INTERVAL = 10
+// Angles give way before bonds do, so strained rings keep their bond lengths
+const ANGLE_STIFFNESS = 0.3
+// Share of the iterations to run before conjugated atoms are made planar
+const PLANAR_START = 0.5
+const TETRAHEDRAL = Math.acos(-1 / 3)
+const TRIGONAL = (2 * Math.PI) / 3
+// Rings up to this size get the angles of a regular polygon
+const MAX_RING = 5
+
+// MOL files code charges 1-7 as +3, +2, +1, radical, -1, -2, -3
+const MOL_CHARGES: Record<number, number> = { 1: 3, 2: 2, 3: 1, 5: -1, 6: -2, 7: -3 }
+// MOL bond type 4 is aromatic
+const MOL_BOND_ORDERS: Record<number, BondOrder> = { 1: 1, 2: 2, 3: 3, 4: 1.5 }
+
+export function covalentRadius(element: string): number {
+  return COVALENT_RADII[element] ?? DEFAULT_COVALENT_RADIUS
+}
+
+export function vanDerWaalsRadius(element: string): number {
+  return VAN_DER_WAALS_RADII[element] ?? DEFAULT_VAN_DER_WAALS_RADIUS
+}
+
+export function cpkColor(element: string): string {
+  return CPK_COLORS[element] ?? DEFAULT_CPK_COLOR
+}
+
+// Shorthand for writing a structure by hand. Atoms are written with their
+// hydrogens and charge, e.g. 'C', 'CH3', 'OH', 'O-', 'NH4+', 'Cu2+'; bonds are
+// [from, to, order] with order 1 by default. The hydrogens are added as atoms
+// of their own, bonded to the atom they were written on. A token that can't
+// be read is kept whole as the element, so it shows up in the default color.
+export function molecule(atoms: string[], bonds: [number, number, BondOrder?][] = []): MoleculeStructure {
+  const heavy: MoleculeAtom[] = []
+  const hydrogens: MoleculeBond[] = []
+  atoms.forEach((token, index) => {
+    const [, element = token, hydrogen, count, charge] = token.match(/^([A-Z][a-z]?)(H(\d*))?(\d*[+-])?$/) || []
+    heavy.push(charge ? { element, charge: chargeOf(charge) } : { element })
+    const attached = hydrogen ? Number(count || 1) : 0
+    for (let i = 0; i < attached; i++) {
+      hydrogens.push({ atoms: [index, atoms.length + hydrogens.length], order: 1 })
+    }
+  })
+  return {
+    atoms: [...heavy, ...hydrogens.map(() => ({ element: 'H' }))],
+    bonds: [...bonds.map(([from, to, order = 1]) => ({ atoms: [from, to] as [number, number], order })), ...hydrogens]
+  }
+}
+
+function chargeOf(text: string): number {
+  const size = text.length > 1 ? Number(text.slice(0, -1)) : 1
+  return text.endsWith('-') ? -size : size
+}
+
+// Read a V2000 MOL block, or the first record of an SD file
+export function parseMolfile(text: string): { structure?: MoleculeStructure; problem?: string } {
+  const lines = text.split(/\r?\n/)
+  const counts = lines[3]
+  if (!counts) return { problem: 'A MOL file needs three header lines and a counts line' }
+  if (counts.includes('V3000')) return { problem: 'V3000 MOL files are not supported; save it as V2000' }
+  const atomCount = Number(counts.slice(0, 3))
+  const bondCount = Number(counts.slice(3, 6))
+  if (!Number.isInteger(atomCount) || !Number.isInteger(bondCount) || atomCount === 0) {
+    return { problem: `Can't read the counts line "${counts.trim()}"` }
+  }
+  if (lines.length < 4 + atomCount + bondCount) return { problem: 'The MOL file ends before all its atoms and bonds' }
+
+  const atoms: MoleculeAtom[] = []
+  for (const line of lines.slice(4, 4 + atomCount)) {
+    const position = [line.slice(0, 10), line.slice(10, 20), line.slice(20, 30)].map(Number) as [number, number, number]
+    const element = line.slice(31, 34).trim()
+    if (position.some(Number.isNaN) || !ATOMIC_MASSES[element]) return { problem: `Can't read the atom line "${line.trim()}"` }
+    const charge = MOL_CHARGES[Number(line.slice(36, 39))]
+    atoms.push(charge ? { element, position, charge } : { element, position })
+  }
+
+  const bonds: MoleculeBond[] = []
+  for (const line of lines.slice(4 + atomCount, 4 + atomCount + bondCount)) {
+    const from = Number(line.slice(0, 3)) - 1
+    const to = Number(line.slice(3, 6)) - 1
+    const order = MOL_BOND_ORDERS[Number(line.slice(6, 9))]
+    if (!atoms[from] || !atoms[to] || order === undefined) return { problem: `Can't read the bond line "${line.trim()}"` }
+    bonds.push({ atoms: [from, to], order })
+  }
+
+  // Charges in the properties block replace those in the atom lines
+  lines.slice(4 + atomCount + bondCount)
+    .filter(line => line.startsWith('M  CHG'))
+    .forEach(line => {
+      const fields = line.slice(9).trim().split(/\s+/).map(Number)
+      for (let i = 0; i + 1 < fields.length; i += 2) {
+        if (atoms[fields[i] - 1]) atoms[fields[i] - 1].charge = fields[i + 1]
+      }
+    })
+  return { structure: { atoms, bonds } }
+}
+
+// Read an XYZ file. It only gives positions, so atoms close enough to bond
+// are joined by single bonds.
+export function parseXyz(text: string): { structure?: MoleculeStructure; problem?: string } {
+  const lines = text.trim().split(/\r?\n/)
+  const count = Number(lines[0])
+  if (!Number.isInteger(count) || count === 0) return { problem: 'An XYZ file starts with the number of atoms' }
+  if (lines.length < count + 2) return { problem: `The XYZ file lists fewer than ${count} atoms` }
+
+  const atoms: MoleculeAtom[] = []
+  for (const line of lines.slice(2, 2 + count)) {
+    const [element, ...coordinates] = line.trim().split(/\s+/)
+    const position = coordinates.slice(0, 3).map(Number) as [number, number, number]
+    if (!ATOMIC_MASSES[element] || position.length < 3 || position.some(Number.isNaN)) {
+      return { problem: `Can't read the atom line "${line.trim()}"` }
+    }
+    atoms.push({ element, position })
+  }
+
+  const bonds: MoleculeBond[] = []
+  atoms.forEach((atom, i) => {
+    atoms.slice(i + 1).forEach((other, offset) => {
+      const reach = (covalentRadius(atom.element) + covalentRadius(other.element)) * BOND_TOLERANCE
+      if (distance(atom.position, other.position) < reach) bonds.push({ atoms: [i, i + 1 + offset], order: 1 })
+    })
+  })
+  return { structure: { atoms, bonds } }
+}
+
+// Read a structure file, telling MOL and XYZ apart by their first line
+export function parseStructure(text: string): { structure?: MoleculeStructure; problem?: string } {
+  if (!text.trim()) return { problem: 'Empty structure file' }
+  return /^\s*\d+\s*$/.test(text.trimStart().split(/\r?\n/)[0]) ? parseXyz(text) : parseMolfile(text)
+}
+
+function distance(a: [number, number, number], b: [number, number, number]): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2])
+}
+
+export function bondLength(structure: MoleculeStructure, bond: MoleculeBond): number {
+  const [a, b] = bond.atoms.map(index => structure.atoms[index].element)
+  return (covalentRadius(a) + covalentRadius(b)) * BOND_SHORTENING[bond.order]
+}
+
+// Angle between the bonds on an atom from VSEPR: linear for two bonds that
+// include a triple or two doubles, trigonal with a multiple bond, otherwise
+// tetrahedral
+function bondAngle(orders: BondOrder[]): number {
+  const multiple = orders.filter(order => order > 1)
+  if (orders.length === 2 && (orders.includes(3) || multiple.length === 2)) return Math.PI
+  if (orders.length <= 3 && multiple.length > 0) return TRIGONAL
+  return TETRAHEDRAL
+}
+
+// Size of the smallest ring, up to five atoms, that takes in the bonds from
+// center to a and to c; null if they are in no ring that small. Six-membered
+// rings already have the angles VSEPR gives them.
+function ringSize(neighbours: { atom: number; order: BondOrder }[][], center: number, a: number, c: number): number | null {
+  let frontier = [a]
+  const seen = new Set([center, a])
+  for (let steps = 1; steps <= MAX_RING - 2; steps++) {
+    const next: number[] = []
+    for (const atom of frontier) {
+      for (const { atom: neighbour, order } of neighbours[atom]) {
+        if (order === 0 || seen.has(neighbour)) continue
+        if (neighbour === c) return steps + 2
+        seen.add(neighbour)
+        next.push(neighbour)
+      }
+    }
+    frontier = next
+  }
+  return null
+}
+
+// Small deterministic pseudo-random numbers, so a structure is always laid
+// out the same way
+function seededRandom(seed: number): () => number {
+  let state = seed
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296
+    return state / 4294967296
+  }
+}
+
+// Give every atom a position. Structures read from files keep theirs; the
+// rest are relaxed from a rough start until bond lengths and VSEPR angles
+// hold and unbonded atoms keep clear of each other. Centered on the origin.
+export function layoutMolecule(structure: MoleculeStructure): MoleculeStructure {
+  const count = structure.atoms.length
+  if (count > 0 && structure.atoms.every(atom => atom.position)) return centered(structure)
+
+  const neighbours: { atom: number; order: BondOrder; length: number }[][] = structure.atoms.map(() => [])
+  structure.bonds.forEach(bond => {
+    const length = bondLength(structure, bond)
+    neighbours[bond.atoms[0]].push({ atom: bond.atoms[1], order: bond.order, length })
+    neighbours[bond.atoms[1]].push({ atom: bond.atoms[0], order: bond.order, length })
+  })
+
+  // The angle a-center-c: that of a regular polygon in a small ring,
+  // otherwise from VSEPR
+  const vsepr = neighbours.map(bonded => bondAngle(bonded.filter(neighbour => neighbour.order > 0).map(neighbour => neighbour.order)))
+  const angleAt = (center: number, a: number, c: number) => {
+    const size = ringSize(neighbours, center, a, c)
+    return size ? (Math.PI * (size - 2)) / size : vsepr[center]
+  }
+  // Side opposite an angle, from the two sides either side of it
+  const across = (first: number, second: number, angle: number) =>
+    Math.sqrt(first ** 2 + second ** 2 - 2 * first * second * Math.cos(angle))
+
+  // Bonds, and the distance across each bond angle
+  const constraints: { a: number; b: number; length: number; stiffness: number }[] = structure.bonds.map(bond => ({
+    a: bond.atoms[0],
+    b: bond.atoms[1],
+    length: bondLength(structure, bond),
+    stiffness: 1
+  }))
+  neighbours.forEach((bonded, center) => {
+    const covalent = bonded.filter(neighbour => neighbour.order > 0)
+    covalent.forEach((first, i) => covalent.slice(i + 1).forEach(second => {
+      const length = across(first.length, second.length, angleAt(center, first.atom, second.atom))
+      constraints.push({ a: first.atom, b: second.atom, length, stiffness: ANGLE_STIFFNESS })
+    }))
+  })
+  // Atoms up to three bonds apart are placed by the bonds and angles between
+  // them, not pushed apart
+  const pair = (a: number, b: number) => `${Math.min(a, b)}-${Math.max(a, b)}`
+  const nearby = new Set(constraints.map(({ a, b }) => pair(a, b)))
+  structure.bonds.forEach(({ atoms: [b, c] }) => {
+    neighbours[b].forEach(({ atom: a }) => neighbours[c].forEach(({ atom: d }) => nearby.add(pair(a, d))))
+  })
+
+  // Across a bond between two trigonal atoms, as in a ring or conjugated
+  // chain, the atoms on either end lie in one plane: either cis or trans.
+  // Angles alone flatten such rings only very slowly.
+  const planar: { a: number; d: number; cis: number; trans: number }[] = []
+  structure.bonds.forEach(bond => {
+    const [b, c] = bond.atoms
+    if (bond.order === 0 || vsepr[b] !== TRIGONAL || vsepr[c] !== TRIGONAL) return
+    const length = bondLength(structure, bond)
+    neighbours[b].filter(({ atom, order }) => atom !== c && order > 0).forEach(first => {
+      neighbours[c].filter(({ atom, order }) => atom !== b && atom !== first.atom && order > 0).forEach(second => {
+        // With b at the origin and c along x, a and d sit either side of it
+        const ax = first.length * Math.cos(angleAt(b, first.atom, c))
+        const ay = first.length * Math.sin(angleAt(b, first.atom, c))
+        const dx = length - second.length * Math.cos(angleAt(c, b, second.atom))
+        const dy = second.length * Math.sin(angleAt(c, b, second.atom))
+        planar.push({ a: first.atom, d: second.atom, cis: Math.hypot(dx - ax, dy - ay), trans: Math.hypot(dx - ax, dy + ay) })
+      })
+    })
+  })
+
+  // Start each atom a bond's length from the one it was reached from, in a
+  // random direction
+  const random = seededRandom(count)
+  const positions: [number, number, number][] = structure.atoms.map(() => null)
+  structure.atoms.forEach((_, start) => {
+    if (positions[start]) return
+    positions[start] = [random() * 4 - 2, random() * 4 - 2, random() * 4 - 2]
+    const queue = [start]
+    while (queue.length > 0) {
+      const current = queue.shift()
+      neighbours[current].forEach(({ atom, length }) => {
+        if (positions[atom]) return
+        const direction = [random() - 0.5, random() - 0.5, random() - 0.5]
+        const size = Math.hypot(...direction) || 1
+        positions[atom] = positions[current].map((value, axis) => value + (direction[axis] / size) * length) as [number, number, number]
+        queue.push(atom)
+      })
+    }
+  })
+
+  // Move pairs of atoms toward their target distance, or apart if they are
+  // unbonded and too close. Runs millions of times, so it works on the
+  // coordinates directly rather than building vectors.
+  const settle = (a: number, b: number, target: number, stiffness: number, onlyApart = false) => {
+    const from = positions[a]
+    const to = positions[b]
+    const x = to[0] - from[0]
+    const y = to[1] - from[1]
+    const z = to[2] - from[2]
+    const current = Math.sqrt(x * x + y * y + z * z) || 1e-6
+    if (onlyApart && current >= target) return
+    const shift = ((current - target) / current / 2) * stiffness
+    from[0] += x * shift
+    from[1] += y * shift
+    from[2] += z * shift
+    to[0] -= x * shift
+    to[1] -= y * shift
+    to[2] -= z * shift
+  }
+  // Every pair of atoms too far apart in the structure to have a distance to keep
+  const clearances: { a: number; b: number; contact: number }[] = []
+  for (let a = 0; a < count; a++) {
+    for (let b = a + 1; b < count; b++) {
+      if (nearby.has(pair(a, b))) continue
+      const contact = (vanDerWaalsRadius(structure.atoms[a].element) + vanDerWaalsRadius(structure.atoms[b].element)) * CLEARANCE
+      clearances.push({ a, b, contact })
+    }
+  }
+  for (let iteration = 0; iteration < LAYOUT_ITERATIONS; iteration++) {
+    constraints.forEach(({ a, b, length, stiffness }) => settle(a, b, length, stiffness))
+    // Only once rings have closed, or cis and trans would be picked at random
+    if (iteration >= LAYOUT_ITERATIONS * PLANAR_START) {
+      planar.forEach(({ a, d, cis, trans }) => {
+        const current = distance(positions[a], positions[d])
+        settle(a, d, Math.abs(current - cis) < Math.abs(current - trans) ? cis : trans, ANGLE_STIFFNESS)
+      })
+    }
+    if (iteration % CLEARANCE_INTERVAL !== 0) continue
+    clearances.forEach(({ a, b, contact }) => settle(a, b, contact, 1, true))
+  }
+
+  return centered({ ...structure, atoms: structure.atoms.map((atom, index) => ({ ...atom, position: positions[index] })) })
+}
+
+function centered(structure: MoleculeStructure): MoleculeStructure {
+  const center = [0, 1, 2].map(axis =>
+    structure.atoms.reduce((sum, atom) => sum + atom.position[axis], 0) / Math.max(structure.atoms.length, 1))
+  return {
+    ...structure,
+    atoms: structure.atoms.map(atom => ({
+      ...atom,
+      position: atom.position.map((value, axis) => value - center[axis]) as [number, number, number]
+    }))
+  }
+}
+
+// Distance from the center to the outside of the farthest atom, for framing
+// a structure laid out by layoutMolecule
+export function moleculeRadius(structure: MoleculeStructure): number {
+  return Math.max(0, ...structure.atoms.map(atom =>
+    Math.hypot(...atom.position) + vanDerWaalsRadius(atom.element)))
+}
@@ -0,0 +1,96 @@
+import * as THREE from 'three'
+import { Chemical, Solution } from '@/types'
+import { ChemicalLookup, solutionChemicals } from './solution'
+
+const KW = 1e-14
+export const NEUTRAL_PH = 7
+
+// Average negative charge carried by a polyprotic acid at a given [H+]
+function acidCharge(h: number, ka: number[]): number {
+  const terms = [Math.pow(h, ka.length)]
+  let product = 1
+  ka.forEach((k, index) => {
+    product *= k
+    terms.push(Math.pow(h, ka.length - index - 1) * product)
+  })
+  const total = terms.reduce((sum, term) => sum + term, 0)
+  return terms.reduce((sum, term, index) => sum + index * term, 0) / total
+}
+
+// Average positive charge carried by a base, treating each Kb independently
+function baseCharge(h: number, kb: number[]): number {
+  return kb.reduce((sum, k) => sum + h / (h + KW / k), 0)
+}
+
+// Solve the charge balance for [H+] and return the pH of a solution.
+// Strong and weak acids and bases are handled alike through their Ka/Kb values.
+export function solutionPh(solution: Solution, lookup: ChemicalLookup): number {
+  if (solution.volume <= 0) return NEUTRAL_PH
+
+  const litres = solution.volume / 1000
+  const ionizable = solutionChemicals(solution, lookup)
+    .filter(chemical => chemical.properties.ka || chemical.properties.kb)
+    .map(chemical => ({
+      concentration: solution.species[chemical.id] / litres,
+      ka: chemical.properties.ka,
+      kb: chemical.properties.kb
+    }))
+
+  if (ionizable.length === 0) return NEUTRAL_PH
+
+  // f is monotonically increasing in [H+], so bisect on log10[H+]
+  const balance = (h: number) => {
+    let positive = h
+    let negative = KW / h
+    ionizable.forEach(({ concentration, ka, kb }) => {
+      if (ka) negative += concentration * acidCharge(h, ka)
+      if (kb) positive += concentration * baseCharge(h, kb)
+    })
+    return positive - negative
+  }
+
+  let low = -16
+  let high = 2
+  for (let iteration = 0; iteration < 80; iteration++) {
+    const mid = (low + high) / 2
+    if (balance(Math.pow(10, mid)) > 0) {
+      high = mid
+    } else {
+      low = mid
+    }
+  }
+
+  return -(low + high) / 2
+}
+
+// Interpolate an indicator between its acid and base colors across its range
+export function indicatorColor(chemical: Chemical, ph: number): string | null {
+  if (!chemical.indicator) return null
+
+  const [start, end] = chemical.indicator.range
+  const t = THREE.MathUtils.clamp((ph - start) / (end - start), 0, 1)
+  const color = new THREE.Color().lerpColors(
+    new THREE.Color(chemical.indicator.acidColor),
+    new THREE.Color(chemical.indicator.baseColor),
+    t
+  )
+  return `#${color.getHexString()}`
+}
+
+// Color contributed by every indicator in the solution, or null if there are none
+export function solutionIndicatorColor(solution: Solution, lookup: ChemicalLookup, ph: number): string | null {
+  const colors = solutionChemicals(solution, lookup)
+    .map(chemical => indicatorColor(chemical, ph))
+    .filter((color): color is string => Boolean(color))
+
+  if (colors.length === 0) return null
+
+  const mixed = new THREE.Color(0, 0, 0)
+  colors.forEach(hex => {
+    const color = new THREE.Color(hex)
+    mixed.r += color.r / colors.length
+    mixed.g += color.g / colors.length
+    mixed.b += color.b / colors.length
+  })
+  return `#${mixed.getHexString()}`
+}
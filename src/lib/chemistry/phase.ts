@@ -0,0 +1,48 @@
+import { Solution } from '@/types'
+import { ChemicalLookup, solutionChemicals } from './solution'
+import { WATER_BOILING_POINT } from './thermal'
+import { chemicalMolarMass } from './formula'
+
+// Solubility in ChemicalProperties is grams per 100 mL of water
+const SOLUBILITY_VOLUME = 100 // mL
+
+// Contents boil like water unless a pure liquid with a lower boiling point is
+// present. Reagents with a concentration are dilute aqueous solutions.
+export function boilingPoint(solution: Solution, lookup: ChemicalLookup): number {
+  const points = solutionChemicals(solution, lookup)
+    .filter(chemical => chemical.properties.state === 'liquid' && chemical.concentration === undefined)
+    .map(chemical => chemical.properties.boilingPoint)
+  return Math.min(WATER_BOILING_POINT, ...points)
+}
+
+// Moles of each solid left undissolved once the liquid holds all it can.
+// Solids without a molar mass can't be compared against their solubility and
+// dissolve only if they are freely soluble.
+export function undissolvedSolids(solution: Solution, lookup: ChemicalLookup): Record<string, number> {
+  const undissolved: Record<string, number> = {}
+  solutionChemicals(solution, lookup)
+    .filter(chemical => chemical.properties.state === 'solid')
+    .forEach(chemical => {
+      const moles = solution.species[chemical.id]
+      const molarMass = chemicalMolarMass(chemical)
+      const limit = molarMass
+        ? chemical.properties.solubility * (solution.volume / SOLUBILITY_VOLUME) / molarMass
+        : solution.volume > 0 && chemical.properties.solubility >= 1 ? Infinity : 0
+      if (moles > limit) undissolved[chemical.id] = moles - limit
+    })
+  return undissolved
+}
+
+// Remove solvent without removing what is dissolved in it
+export function evaporate(solution: Solution, volume: number): Solution {
+  const remaining = Math.max(solution.volume - volume, 0)
+  if (!solution.stocks || solution.volume <= 0) return { ...solution, volume: remaining }
+  // What boils off is mostly solvent, but the stocks were mostly solvent too
+  const kept = remaining / solution.volume
+  const stocks = Object.fromEntries(Object.entries(solution.stocks).map(([id, stock]) => [id, stock * kept]))
+  return { ...solution, volume: remaining, stocks }
+}
+
+export function isBoiling(solution: Solution | undefined, temperature: number, lookup: ChemicalLookup): boolean {
+  return Boolean(solution && solution.volume > 0) && temperature >= boilingPoint(solution, lookup) - 1e-6
+}
@@ -0,0 +1,221 @@
+import * as THREE from 'three'
+import { Chemical, ChemicalReaction, ReactionOutcome, Solution } from '@/types'
+
+// Default quantities used when a chemical is added without an explicit amount
+export const DEFAULT_POUR_VOLUME = 50 // mL
+export const DEFAULT_INDICATOR_VOLUME = 0.5 // mL, a few drops
+export const DEFAULT_SOLID_AMOUNT = 0.01 // mol
+
+// Amounts below this are treated as fully consumed
+const EPSILON = 1e-9
+
+export const EMPTY_SOLUTION: Solution = { volume: 0, species: {} }
+
+export type ChemicalLookup = (id: string) => Chemical | undefined
+
+// Anything with reactants, products and coefficients can be run against a solution
+export type StoichiometricReaction = Pick<ChemicalReaction, 'id' | 'reactants' | 'products' | 'coefficients'>
+
+// How much of a chemical one pour adds: mL for liquids, moles otherwise
+export function defaultAmount(chemical: Chemical): number {
+  if (chemical.properties.state === 'liquid') {
+    return chemical.indicator ? DEFAULT_INDICATOR_VOLUME : DEFAULT_POUR_VOLUME
+  }
+  return DEFAULT_SOLID_AMOUNT
+}
+
+// Add a chemical to a solution. Liquids are measured in mL and contribute
+// moles from their molar concentration; solids and gases are measured in moles.
+export function addChemical(solution: Solution, chemical: Chemical, amount?: number): Solution {
+  const species = { ...solution.species }
+  const current = species[chemical.id] || 0
+  const added = amount ?? defaultAmount(chemical)
+
+  if (chemical.properties.state === 'liquid') {
+    species[chemical.id] = current + (chemical.concentration || 0) * added / 1000
+    const stocks = { ...solution.stocks, [chemical.id]: (solution.stocks?.[chemical.id] || 0) + added }
+    return { volume: solution.volume + added, species, stocks }
+  }
+
+  species[chemical.id] = current + added
+  return { ...solution, species }
+}
+
+// How much of a chemical a solution holds, in the units addChemical takes:
+// mL of the stock liquid for liquids, moles otherwise
+export function amountOf(solution: Solution, chemical: Chemical): number {
+  const moles = solution.species[chemical.id] || 0
+  if (chemical.properties.state === 'liquid') {
+    const stock = solution.stocks?.[chemical.id]
+    if (stock !== undefined) return stock
+    return chemical.concentration ? (moles / chemical.concentration) * 1000 : 0
+  }
+  return moles
+}
+
+function coefficientOf(reaction: StoichiometricReaction, id: string): number {
+  return reaction.coefficients?.[id] ?? 1
+}
+
+export function canReact(solution: Solution, reaction: StoichiometricReaction): boolean {
+  if (!reaction.coefficients || reaction.reactants.length === 0) return false
+  return reaction.reactants.every(id => (solution.species[id] || 0) > EPSILON)
+}
+
+// Most moles of reaction the contents allow, limited by the reactant that
+// runs out first
+export function maxExtent(solution: Solution, reaction: StoichiometricReaction): number {
+  if (!canReact(solution, reaction)) return 0
+  return Math.min(...reaction.reactants.map(id => solution.species[id] / coefficientOf(reaction, id)))
+}
+
+// The reactant that runs out first, optionally only looking at some of them.
+// Null if the reaction can't proceed.
+export function limitingReactant(
+  solution: Solution,
+  reaction: StoichiometricReaction,
+  among: string[] = reaction.reactants
+): string | null {
+  if (!canReact(solution, reaction) || among.length === 0) return null
+  const available = (id: string) => solution.species[id] / coefficientOf(reaction, id)
+  return among.reduce((limiting, id) => (available(id) < available(limiting) ? id : limiting))
+}
+
+// Run a reaction to completion, consuming reactants in the ratio given by the
+// balanced equation. The reactant that runs out first limits the extent.
+// Reactions that take time pass how far they get in one step as `limit`.
+export function applyReaction(solution: Solution, reaction: StoichiometricReaction, limit = Infinity): ReactionOutcome {
+  if (!canReact(solution, reaction)) {
+    return { reactionId: reaction.id, solution, extent: 0, limitingReagent: null }
+  }
+
+  let extent = Infinity
+  let limitingReagent: string | null = null
+  reaction.reactants.forEach(id => {
+    const available = solution.species[id] / coefficientOf(reaction, id)
+    if (available < extent) {
+      extent = available
+      limitingReagent = id
+    }
+  })
+  if (limit < extent) {
+    extent = limit
+    limitingReagent = null
+  }
+
+  const species = { ...solution.species }
+  reaction.reactants.forEach(id => {
+    const remaining = species[id] - extent * coefficientOf(reaction, id)
+    if (remaining > EPSILON) {
+      species[id] = remaining
+    } else {
+      delete species[id]
+    }
+  })
+  reaction.products.forEach(id => {
+    species[id] = (species[id] || 0) + extent * coefficientOf(reaction, id)
+  })
+
+  return {
+    reactionId: reaction.id,
+    solution: { ...solution, species },
+    extent,
+    limitingReagent
+  }
+}
+
+// Apply every reaction that can proceed until the solution is stable
+export function applyReactions(
+  solution: Solution,
+  reactions: StoichiometricReaction[]
+): { solution: Solution; outcomes: ReactionOutcome[] } {
+  const outcomes: ReactionOutcome[] = []
+  let current = solution
+
+  for (let pass = 0; pass < reactions.length; pass++) {
+    const reaction = reactions.find(candidate => canReact(current, candidate))
+    if (!reaction) break
+
+    const outcome = applyReaction(current, reaction)
+    outcomes.push(outcome)
+    current = outcome.solution
+  }
+
+  return { solution: current, outcomes }
+}
+
+// Take a volume out of a solution, keeping the composition uniform.
+// Returns the portion removed and what is left behind.
+export function splitSolution(solution: Solution, volume: number): { taken: Solution; remaining: Solution } {
+  const fraction = solution.volume > 0 ? Math.min(volume / solution.volume, 1) : 0
+  const taken: Solution = { volume: solution.volume * fraction, species: {} }
+  const remaining: Solution = { volume: solution.volume - taken.volume, species: {} }
+
+  Object.entries(solution.species).forEach(([id, moles]) => {
+    taken.species[id] = moles * fraction
+    if (fraction < 1) remaining.species[id] = moles * (1 - fraction)
+  })
+  if (solution.stocks) {
+    taken.stocks = {}
+    remaining.stocks = {}
+    Object.entries(solution.stocks).forEach(([id, volume]) => {
+      taken.stocks[id] = volume * fraction
+      if (fraction < 1) remaining.stocks[id] = volume * (1 - fraction)
+    })
+  }
+
+  return { taken, remaining }
+}
+
+export function mixSolutions(a: Solution, b: Solution): Solution {
+  const species = { ...a.species }
+  Object.entries(b.species).forEach(([id, moles]) => {
+    species[id] = (species[id] || 0) + moles
+  })
+  if (!a.stocks && !b.stocks) return { volume: a.volume + b.volume, species }
+  const stocks = { ...a.stocks }
+  Object.entries(b.stocks || {}).forEach(([id, volume]) => {
+    stocks[id] = (stocks[id] || 0) + volume
+  })
+  return { volume: a.volume + b.volume, species, stocks }
+}
+
+export function molarity(solution: Solution, id: string): number {
+  if (solution.volume <= 0) return 0
+  return (solution.species[id] || 0) / (solution.volume / 1000)
+}
+
+export function fillFraction(solution: Solution, capacity: number): number {
+  if (capacity <= 0) return 0
+  return Math.min(solution.volume / capacity, 1)
+}
+
+export function solutionChemicals(solution: Solution, lookup: ChemicalLookup): Chemical[] {
+  return Object.keys(solution.species)
+    .map(id => lookup(id))
+    .filter((chemical): chemical is Chemical => Boolean(chemical))
+}
+
+// Blend the colors of dissolved species weighted by amount. Pure liquids
+// without a concentration (water, litmus) only tint the mix when nothing else does.
+export function solutionColor(solution: Solution, lookup: ChemicalLookup, fallback = '#E6F3FF'): string {
+  const weighted = solutionChemicals(solution, lookup)
+    .filter(chemical => chemical.properties.state !== 'gas')
+    .map(chemical => ({ chemical, weight: solution.species[chemical.id] }))
+  const colored = weighted.some(entry => entry.weight > 0)
+    ? weighted.filter(entry => entry.weight > 0)
+    : weighted.map(entry => ({ ...entry, weight: 1 }))
+
+  if (colored.length === 0) return fallback
+
+  const total = colored.reduce((sum, entry) => sum + entry.weight, 0)
+  const mixed = new THREE.Color(0, 0, 0)
+  colored.forEach(({ chemical, weight }) => {
+    const color = new THREE.Color(chemical.color.slice(0, 7))
+    mixed.r += color.r * weight / total
+    mixed.g += color.g * weight / total
+    mixed.b += color.b * weight / total
+  })
+
+  return `#${mixed.getHexString()}`
+}
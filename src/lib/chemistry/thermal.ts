@@ -0,0 +1,67 @@
+import { Solution } from '@/types'
+
+export const ROOM_TEMPERATURE = 25 // °C
+// Dilute aqueous solutions are treated as water for heating
+const WATER_DENSITY = 1 // g/mL
+const WATER_SPECIFIC_HEAT = 4.184 // J/(g·K)
+export const WATER_BOILING_POINT = 100 // °C
+// Energy to vaporize water once it is boiling
+const WATER_LATENT_HEAT = 2257 // J/g
+// Below boiling, warm liquid slowly evaporates; this is the rate just short of boiling
+const EVAPORATION_RATE = 0.02 // mL/s
+// Glassware soaks up some heat even when empty
+const VESSEL_HEAT_CAPACITY = 80 // J/K
+// Heat from a lit burner that actually reaches the vessel
+export const BURNER_POWER = 400 // W
+// Newton's law of cooling, lumped over the vessel surface
+const COOLING_COEFFICIENT = 1.5 // W/K
+// Close enough to room temperature to stop tracking the difference. Kept well
+// below the warming a slow reaction gives in one step, or it would never show.
+const SETTLED = 0.005 // K
+
+// Energy needed to warm a vessel and its contents by one kelvin
+export function heatCapacity(solution?: Solution): number {
+  return VESSEL_HEAT_CAPACITY + (solution?.volume || 0) * WATER_DENSITY * WATER_SPECIFIC_HEAT
+}
+
+// Temperature after adding (or, if negative, removing) heat in joules.
+// Liquid contents do not rise past their boiling point.
+export function applyHeat(temperature: number, joules: number, solution?: Solution, boilingPoint = WATER_BOILING_POINT): number {
+  const next = temperature + joules / heatCapacity(solution)
+  return solution && solution.volume > 0 ? Math.min(next, boilingPoint) : next
+}
+
+// Temperature of two portions once mixed, weighted by their heat capacities
+export function mixTemperature(a: { temperature: number; solution?: Solution }, b: { temperature: number; solution?: Solution }): number {
+  const ca = (a.solution?.volume || 0) * WATER_DENSITY * WATER_SPECIFIC_HEAT
+  const cb = (b.solution?.volume || 0) * WATER_DENSITY * WATER_SPECIFIC_HEAT
+  if (ca + cb <= 0) return a.temperature
+  return (ca * a.temperature + cb * b.temperature) / (ca + cb)
+}
+
+// Advance one vessel by dt seconds: burner input minus loss to the room.
+// Heat beyond the boiling point boils liquid away instead of raising the
+// temperature. Returns the new temperature and the mL of liquid lost.
+export function stepTemperature(
+  temperature: number,
+  solution: Solution | undefined,
+  heated: boolean,
+  dt: number,
+  boilingPoint = WATER_BOILING_POINT
+): { temperature: number; evaporated: number } {
+  const input = heated ? BURNER_POWER : 0
+  const loss = COOLING_COEFFICIENT * (temperature - ROOM_TEMPERATURE)
+  const joules = (input - loss) * dt
+  const unbounded = temperature + joules / heatCapacity(solution)
+  const volume = solution?.volume || 0
+
+  if (volume > 0 && unbounded > boilingPoint) {
+    const surplus = (unbounded - boilingPoint) * heatCapacity(solution)
+    const boiled = surplus / WATER_LATENT_HEAT / WATER_DENSITY
+    return { temperature: boilingPoint, evaporated: Math.min(boiled, volume) }
+  }
+
+  const next = !heated && Math.abs(unbounded - ROOM_TEMPERATURE) < SETTLED ? ROOM_TEMPERATURE : unbounded
+  const warmth = Math.max(0, (next - ROOM_TEMPERATURE) / (boilingPoint - ROOM_TEMPERATURE))
+  return { temperature: next, evaporated: Math.min(EVAPORATION_RATE * warmth * dt, volume) }
+}
@@ -0,0 +1,45 @@
+import { StopcockState, TitrationPoint } from '@/types'
+
+// Volume of a single drop from the burette tip
+export const DROP_VOLUME = 0.05 // mL
+export const DROP_INTERVAL = 0.5 // seconds between drops
+export const STREAM_RATE = 1 // mL per second
+
+// A burette can be read to the nearest 0.05 mL
+export function readBurette(dispensed: number): number {
+  return Math.round(dispensed / 0.05) * 0.05
+}
+
+export function nextStopcockState(state: StopcockState): StopcockState {
+  switch (state) {
+    case 'closed': return 'drop'
+    case 'drop': return 'stream'
+    default: return 'closed'
+  }
+}
+
+// The slope must exceed this (pH per mL) before a jump counts as an endpoint
+const MIN_EQUIVALENCE_SLOPE = 1
+
+// Locate the equivalence point as the steepest section of the curve.
+// Returns null until the titration has actually passed through a jump.
+export function findEquivalencePoint(points: TitrationPoint[]): TitrationPoint | null {
+  let best: TitrationPoint | null = null
+  let bestSlope = MIN_EQUIVALENCE_SLOPE
+
+  for (let i = 1; i < points.length; i++) {
+    const dv = points[i].volume - points[i - 1].volume
+    if (dv <= 0) continue
+
+    const slope = Math.abs(points[i].ph - points[i - 1].ph) / dv
+    if (slope > bestSlope) {
+      bestSlope = slope
+      best = {
+        volume: (points[i].volume + points[i - 1].volume) / 2,
+        ph: (points[i].ph + points[i - 1].ph) / 2
+      }
+    }
+  }
+
+  return best
+}
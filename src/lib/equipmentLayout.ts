@@ -0,0 +1,188 @@
+import { Chemical, Experiment, Solution } from '@/types'
+import { EMPTY_SOLUTION, addChemical } from '@/lib/chemistry/solution'
+import { BALANCE_CAPACITY } from '@/lib/chemistry/mass'
+
+// How high a vessel is carried above the bench, and how far it tips to pour
+export const CARRY_HEIGHT = 0.8
+export const POUR_TILT = Math.PI / 3
+// A vessel pouring into another is held this far to its side, and its lip
+// is about this far above its base
+const POUR_HOLD_OFFSET = 1.2
+const LIP_HEIGHT = 1.0
+
+// Equipment set up with a vessel, and the vessels it can be set up with
+export const PLACEABLE_TYPES = ['burette', 'bunsen-burner', 'thermometer']
+export const PLACEMENT_VESSEL_TYPES = ['beaker', 'flask', 'test-tube']
+
+export interface EquipmentLayoutItem {
+  id: string
+  type: string
+  name: string
+  position: [number, number, number]
+  scale: [number, number, number]
+  capacity: number
+  contents: Chemical[]
+  temperature: number
+  floating: boolean
+  isLit?: boolean
+  sealed?: boolean
+  // The vessel a burette starts out delivering into, a burner heating, a
+  // thermometer standing in or a gas jar collecting from
+  vessel?: string
+}
+
+export function getEquipmentLayout(experiment: Experiment): EquipmentLayoutItem[] {
+  const layout: EquipmentLayoutItem[] = []
+  let xOffset = -4
+  let zOffset = 2
+
+  const tableLevel = -1.0
+  const equipmentY = tableLevel + 0.75
+
+  experiment.materials.forEach((material, index) => {
+    const equipmentId = `${material.equipmentType}-${index}`
+    
+    const position: [number, number, number] = [
+      xOffset + (index % 3) * 2.5,
+      equipmentY,
+      zOffset - Math.floor(index / 3) * 2
+    ]
+
+    const baseConfig = {
+      id: equipmentId,
+      type: material.equipmentType,
+      name: getEquipmentName(material.equipmentType),
+      position,
+      scale: [1, 1, 1] as [number, number, number],
+      capacity: 100,
+      contents: [],
+      temperature: 25,
+      floating: false,
+      sealed: material.sealed
+    }
+
+    switch (material.equipmentType) {
+      case 'beaker':
+        layout.push({ ...baseConfig, capacity: 250, contents: material.chemical ? [material.chemical] : [] })
+        break
+      case 'flask':
+        layout.push({ ...baseConfig, capacity: 500, contents: material.chemical ? [material.chemical] : [], floating: true })
+        break
+      case 'test-tube':
+        layout.push({ ...baseConfig, capacity: 20, scale: [0.8, 0.8, 0.8], contents: material.chemical ? [material.chemical] : [] })
+        break
+      case 'graduated-cylinder':
+        layout.push({ ...baseConfig, capacity: 100, scale: [0.9, 0.9, 0.9] })
+        break
+      case 'burette':
+        layout.push({ ...baseConfig, capacity: 50, contents: material.chemical ? [material.chemical] : [], position: [position[0], equipmentY + 0.2, position[2]], scale: [0.8, 1.2, 0.8] })
+        break
+      case 'bunsen-burner':
+        layout.push({ ...baseConfig, isLit: false, temperature: 25, position: [position[0], equipmentY - 0.3, position[2]] })
+        break
+      case 'stirring-rod':
+        layout.push({ ...baseConfig, scale: [1.2, 1.2, 1.2], position: [position[0], equipmentY, position[2]] })
+        break
+      case 'thermometer':
+        layout.push({ ...baseConfig, scale: [0.6, 0.6, 0.6], position: [position[0], equipmentY + 0.5, position[2]], temperature: 25 })
+        break
+      case 'gas-jar':
+        layout.push({ ...baseConfig, capacity: 250, scale: [0.8, 0.8, 0.8] })
+        break
+      case 'analytical-balance':
+        layout.push({ ...baseConfig, capacity: BALANCE_CAPACITY, position: [position[0], equipmentY - 0.6, position[2]] })
+        break
+    }
+  })
+
+  // Clamp burettes above the vessel they deliver into, stand thermometers in
+  // it, set burners to heat it and pipe its gas to a gas jar
+  const receiver = getReceivingVessel(layout)
+  if (receiver) {
+    layout.forEach(item => {
+      switch (item.type) {
+        case 'burette':
+        case 'thermometer':
+          item.position = placedPosition(item, receiver)
+          item.vessel = receiver.id
+          break
+        case 'bunsen-burner':
+          item.vessel = receiver.id
+          break
+        case 'gas-jar':
+          item.vessel = receiver.id
+          break
+      }
+    })
+  }
+
+  return layout
+}
+
+// Where equipment set up with a vessel stands: burettes clamped above it and
+// thermometers in it. Burners heat it from their own spot on the bench.
+export function placedPosition(item: EquipmentLayoutItem, vessel: EquipmentLayoutItem): [number, number, number] {
+  switch (item.type) {
+    case 'burette':
+      return [vessel.position[0], vessel.position[1] + 3.0, vessel.position[2]]
+    case 'thermometer':
+      return [vessel.position[0] + 0.35, vessel.position[1] + 0.1, vessel.position[2]]
+    default:
+      return item.position
+  }
+}
+
+// Where a vessel is held, tipped, to pour into one at the given position, and
+// where the liquid leaves its lip
+export function pourPose(target: [number, number, number]): {
+  position: [number, number, number]
+  spout: [number, number, number]
+} {
+  const position: [number, number, number] = [target[0] - POUR_HOLD_OFFSET, target[1] + CARRY_HEIGHT, target[2]]
+  return {
+    position,
+    spout: [position[0] + Math.sin(POUR_TILT) * LIP_HEIGHT, position[1] + Math.cos(POUR_TILT) * LIP_HEIGHT, position[2]]
+  }
+}
+
+export function getReceivingVessel(layout: EquipmentLayoutItem[]) {
+  return layout.find(item => item.type === 'beaker') || layout.find(item => item.type === 'flask')
+}
+
+// Which gas jar, if any, collects the gas each vessel gives off
+export function getGasCollectors(layout: EquipmentLayoutItem[]): { [vessel: string]: string } {
+  const collectors: { [vessel: string]: string } = {}
+  layout
+    .filter(item => item.type === 'gas-jar' && item.vessel)
+    .forEach(item => {
+      collectors[item.vessel] = item.id
+    })
+  return collectors
+}
+
+// Burettes start filled to capacity with their titrant
+export function getInitialSolutions(layout: EquipmentLayoutItem[]): { [key: string]: Solution } {
+  const solutions: { [key: string]: Solution } = {}
+  layout
+    .filter(item => item.type === 'burette' && item.contents.length > 0)
+    .forEach(item => {
+      solutions[item.id] = addChemical(EMPTY_SOLUTION, item.contents[0], item.capacity)
+    })
+  return solutions
+}
+
+function getEquipmentName(type: string): string {
+  const names: Record<string, string> = {
+    'beaker': 'Beaker',
+    'flask': 'Erlenmeyer Flask',
+    'test-tube': 'Test Tube',
+    'graduated-cylinder': 'Graduated Cylinder',
+    'burette': 'Burette',
+    'bunsen-burner': 'Bunsen Burner',
+    'stirring-rod': 'Stirring Rod',
+    'thermometer': 'Thermometer',
+    'gas-jar': 'Gas Jar',
+    'analytical-balance': 'Analytical Balance'
+  }
+  return names[type] || type
+}
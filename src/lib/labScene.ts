@@ -0,0 +1,151 @@
+import { GasSample, LabEventInput, ReactionRule, Solution } from '@/types'
+import { advanceKinetics, reactInVessel } from '@/data/reactionLogic'
+import { ChemicalLookup, EMPTY_SOLUTION, addChemical, mixSolutions, splitSolution } from './chemistry/solution'
+import { ROOM_TEMPERATURE, applyHeat, mixTemperature } from './chemistry/thermal'
+import { boilingPoint } from './chemistry/phase'
+import { addGases, afterGasTest, releaseGases } from './chemistry/gas'
+
+// Everything about the bench that a session log can change
+export interface LabScene {
+  solutions: { [vessel: string]: Solution }
+  temperatures: { [vessel: string]: number }
+  burners: { [burner: string]: boolean }
+  gases: { [vessel: string]: GasSample }
+  placements: { [equipment: string]: string }
+}
+
+export interface SceneContext {
+  lookup: ChemicalLookup
+  rules: ReactionRule[]
+  // The gas jar collecting whatever each vessel gives off. Gas from a vessel
+  // without one escapes into the room.
+  collectors: { [vessel: string]: string }
+}
+
+// Put the result of reacting back on the bench: gases given off go to the
+// vessel's gas jar, if it has one, and the reaction enthalpy warms the vessel
+function settleReaction<S extends LabScene>(
+  scene: S,
+  vessel: string,
+  before: Solution,
+  reacted: Solution,
+  temperature: number,
+  heat: number,
+  context: SceneContext
+): S {
+  const { solution, released } = releaseGases(before, reacted, context.lookup)
+  const collector = context.collectors[vessel]
+  return {
+    ...scene,
+    solutions: { ...scene.solutions, [vessel]: solution },
+    gases: collector && Object.keys(released).length > 0
+      ? { ...scene.gases, [collector]: addGases(scene.gases[collector], released) }
+      : scene.gases,
+    temperatures: {
+      ...scene.temperatures,
+      [vessel]: applyHeat(temperature, heat, solution, boilingPoint(solution, context.lookup))
+    }
+  }
+}
+
+// Whether a lit burner is under a vessel, to set off reactions that need a flame
+function ignited(scene: LabScene, vessel: string): boolean {
+  return Object.keys(scene.burners).some(burner => scene.burners[burner] && scene.placements[burner] === vessel)
+}
+
+// Re-resolve the reactions in a vessel whose conditions changed with nothing
+// added to it, such as being heated or put over a flame. Returns no rules
+// unless the contents actually reacted, so indicators and reactions already
+// running aren't reported again.
+export function reactInPlace<S extends LabScene>(
+  scene: S,
+  vessel: string,
+  context: SceneContext
+): { scene: S; fired: ReactionRule[] } {
+  const solution = scene.solutions[vessel]
+  if (!solution) return { scene, fired: [] }
+  const temperature = scene.temperatures[vessel] ?? ROOM_TEMPERATURE
+  const { solution: reacted, fired, heat } = reactInVessel(solution, temperature, context.lookup, context.rules, ignited(scene, vessel))
+  if (!fired.some(rule => rule.coefficients && !rule.rate)) return { scene, fired: [] }
+  return { scene: settleReaction(scene, vessel, solution, reacted, temperature, heat, context), fired }
+}
+
+// Apply one event to the bench. Reactions are re-resolved from the contents
+// rather than read back from the log, so the same events always produce the
+// same scene. Returns the rules that fired as a result.
+export function applyLabEvent<S extends LabScene>(
+  scene: S,
+  event: LabEventInput,
+  context: SceneContext
+): { scene: S; fired: ReactionRule[] } {
+  const temperatureOf = (vessel: string) => scene.temperatures[vessel] ?? ROOM_TEMPERATURE
+
+  // Mix and react whatever happens at once
+  const react = (vessel: string, mixed: Solution, temperature: number, updates: LabScene['solutions'] = {}) => {
+    const { solution: reacted, fired, heat } = reactInVessel(mixed, temperature, context.lookup, context.rules, ignited(scene, vessel))
+    const updated = { ...scene, solutions: { ...scene.solutions, ...updates } }
+    return { scene: settleReaction(updated, vessel, mixed, reacted, temperature, heat, context), fired }
+  }
+
+  switch (event.type) {
+    case 'chemical-added': {
+      const chemical = context.lookup(event.chemical)
+      if (!chemical) return { scene, fired: [] }
+      const current = scene.solutions[event.vessel] || EMPTY_SOLUTION
+      const mixed = addChemical(current, chemical, event.amount)
+      // Reagents come off the shelf at room temperature
+      const temperature = mixTemperature(
+        { temperature: temperatureOf(event.vessel), solution: current },
+        { temperature: ROOM_TEMPERATURE, solution: { volume: mixed.volume - current.volume, species: {} } }
+      )
+      return react(event.vessel, mixed, temperature)
+    }
+    case 'transfer': {
+      const source = scene.solutions[event.from]
+      if (!source || source.volume <= 0) return { scene, fired: [] }
+      const { taken, remaining } = splitSolution(source, event.volume)
+      const current = scene.solutions[event.to] || EMPTY_SOLUTION
+      const temperature = mixTemperature(
+        { temperature: temperatureOf(event.to), solution: current },
+        { temperature: temperatureOf(event.from), solution: taken }
+      )
+      return react(event.to, mixSolutions(current, taken), temperature, { [event.from]: remaining })
+    }
+    case 'burner-toggled': {
+      const toggled = { ...scene, burners: { ...scene.burners, [event.burner]: event.lit } }
+      // Lighting a burner can set off what is in the vessel over it
+      const vessel = scene.placements[event.burner]
+      return event.lit && vessel ? reactInPlace(toggled, vessel, context) : { scene: toggled, fired: [] }
+    }
+    case 'equipment-placed': {
+      const placed = { ...scene, placements: { ...scene.placements, [event.equipment]: event.vessel } }
+      return scene.burners[event.equipment] ? reactInPlace(placed, event.vessel, context) : { scene: placed, fired: [] }
+    }
+    case 'gas-tested':
+      return {
+        scene: { ...scene, gases: { ...scene.gases, [event.vessel]: afterGasTest(event.test, scene.gases[event.vessel]) } },
+        fired: []
+      }
+    default:
+      return { scene, fired: [] }
+  }
+}
+
+// Let reactions that take time run for dt seconds in every vessel. Returns
+// the rate of each rule still running, by vessel.
+export function advanceLabScene<S extends LabScene>(
+  scene: S,
+  dt: number,
+  context: SceneContext
+): { scene: S; rates: { [vessel: string]: Record<string, number> } } {
+  const rates: { [vessel: string]: Record<string, number> } = {}
+  let next = scene
+  Object.entries(scene.solutions).forEach(([vessel, solution]) => {
+    const temperature = scene.temperatures[vessel] ?? ROOM_TEMPERATURE
+    const kinetics = advanceKinetics(solution, temperature, context.lookup, dt, context.rules, ignited(scene, vessel))
+    if (Object.keys(kinetics.rates).length === 0) return
+    rates[vessel] = kinetics.rates
+    next = settleReaction(next, vessel, solution, kinetics.solution, temperature, kinetics.heat, context)
+  })
+  return { scene: next, rates }
+}
@@ -0,0 +1,164 @@
+import { z } from 'zod'
+import { Experiment, PpeItem, PreLabResult } from '@/types'
+import { HAZARD_STATEMENTS, PICTOGRAMS } from '@/data/ghs'
+import { ChemicalLookup } from './chemistry/solution'
+import { safetySummary } from './safety'
+
+export const QUIZ_LENGTH = 5
+// Share of questions that must be right to enter the lab
+export const PASS_MARK = 0.8
+
+const preLabResultSchema = z.object({
+  passed: z.boolean(),
+  quizScore: z.number().min(0).max(1),
+  attempts: z.number().int().min(1),
+  ppe: z.array(z.enum(['goggles', 'gloves', 'lab-coat', 'fume-hood'])),
+  completedAt: z.string()
+})
+
+export interface QuizQuestion {
+  prompt: string
+  options: string[]
+  answer: number // index into options
+  explanation: string
+}
+
+// Things no procedure ever asks for, used as wrong answers to questions about
+// an experiment's own safety notes
+const UNSAFE_PRACTICES = [
+  'Smell a reagent directly from the bottle to identify it',
+  'Pour unused reagent back into the stock bottle',
+  'Eat at the bench as long as you wash your hands afterwards',
+  'Heat a stoppered test tube to speed the reaction up',
+  'Leave a lit burner unattended while fetching reagents',
+  'Wipe up spills with your bare hands'
+]
+
+// Same experiment, same quiz: a small seeded generator (mulberry32)
+function seededRandom(seed: string): () => number {
+  let state = [...seed].reduce((hash, char) => Math.imul(hash ^ char.charCodeAt(0), 16777619), 2166136261)
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function shuffle<T>(values: T[], random: () => number): T[] {
+  const shuffled = [...values]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+  return shuffled
+}
+
+// A question with the right answer among up to three wrong ones, in random order
+function question(
+  prompt: string,
+  correct: string,
+  wrong: string[],
+  explanation: string,
+  random: () => number
+): QuizQuestion | null {
+  const distractors = shuffle([...new Set(wrong)].filter(option => option !== correct), random).slice(0, 3)
+  if (distractors.length === 0) return null
+  const options = shuffle([correct, ...distractors], random)
+  return { prompt, options, answer: options.indexOf(correct), explanation }
+}
+
+// Questions drawn from the experiment's own chemicals and safety notes: what
+// their pictograms and hazard statements mean, what they must not be mixed
+// with and which notes apply. Each kind takes a turn so one doesn't crowd out
+// the rest.
+export function generateSafetyQuiz(experiment: Experiment, lookup: ChemicalLookup, length = QUIZ_LENGTH): QuizQuestion[] {
+  const random = seededRandom(experiment.id)
+  const summary = safetySummary(experiment, lookup)
+  const pictogramNames = Object.values(PICTOGRAMS).map(pictogram => pictogram.name)
+  const statements = Object.values(HAZARD_STATEMENTS)
+
+  const pictogramQuestions = summary.hazardous.map(chemical => {
+    const pictogram = PICTOGRAMS[chemical.hazards.pictograms[0]]
+    const others = chemical.hazards.pictograms.map(id => PICTOGRAMS[id].name)
+    return question(
+      `Which hazard pictogram is on the ${chemical.name} label?`,
+      pictogram.name,
+      pictogramNames.filter(name => !others.includes(name)),
+      `${chemical.name} carries the ${pictogram.name} pictogram (${pictogram.code}).`,
+      random
+    )
+  })
+
+  const statementQuestions = summary.hazardous
+    .filter(chemical => chemical.hazards.hazardStatements.some(code => HAZARD_STATEMENTS[code]))
+    .map(chemical => {
+      const codes = chemical.hazards.hazardStatements.filter(code => HAZARD_STATEMENTS[code])
+      const code = codes[0]
+      const own = codes.map(own => HAZARD_STATEMENTS[own])
+      return question(
+        `What does hazard statement ${code} on ${chemical.name} mean?`,
+        HAZARD_STATEMENTS[code],
+        statements.filter(statement => !own.includes(statement)),
+        `${code}: ${HAZARD_STATEMENTS[code]}.`,
+        random
+      )
+    })
+
+  const ids = summary.hazardous.map(chemical => chemical.id)
+  const incompatibilityQuestions = summary.incompatible.map(pair => {
+    const chemical = lookup(pair.chemical)
+    const other = lookup(pair.other)
+    const clashes = [...(chemical?.hazards?.incompatibilities || []), pair.chemical]
+    const harmless = ['h2o', 'nacl', ...ids]
+      .filter(id => !clashes.includes(id))
+      .map(id => lookup(id)?.name)
+      .filter((name): name is string => Boolean(name))
+    return question(
+      `Which of these does the ${chemical?.name || pair.chemical} Safety Data Sheet list as incompatible?`,
+      other?.name || pair.other,
+      harmless,
+      `Section 10 of the Safety Data Sheet lists ${other?.name || pair.other} as incompatible with ${chemical?.name || pair.chemical}.`,
+      random
+    )
+  })
+
+  const noteQuestions = experiment.safetyNotes.map(note =>
+    question(
+      'Which of these is a safety rule for this experiment?',
+      note,
+      UNSAFE_PRACTICES,
+      `"${note}" is in this experiment's safety notes. The other answers are all unsafe practice.`,
+      random
+    )
+  )
+
+  const pools = [noteQuestions, statementQuestions, incompatibilityQuestions, pictogramQuestions]
+    .map(pool => pool.filter((candidate): candidate is QuizQuestion => candidate !== null))
+  const quiz: QuizQuestion[] = []
+  while (quiz.length < length && pools.some(pool => pool.length > 0)) {
+    pools.forEach(pool => {
+      const next = pool.shift()
+      if (next && quiz.length < length) quiz.push(next)
+    })
+  }
+  return quiz
+}
+
+// Fraction of questions answered correctly; unanswered questions count as wrong
+export function quizScore(quiz: QuizQuestion[], answers: (number | null)[]): number {
+  if (quiz.length === 0) return 1
+  return quiz.filter((item, index) => answers[index] === item.answer).length / quiz.length
+}
+
+// Protective equipment the student still has to put on
+export function missingPpe(required: PpeItem[], equipped: PpeItem[]): PpeItem[] {
+  return required.filter(item => !equipped.includes(item))
+}
+
+// A pre-lab result stored with the student's progress, or null if there is
+// none or it can't be read
+export function readPreLabResult(value: unknown): PreLabResult | null {
+  const result = preLabResultSchema.safeParse(value)
+  return result.success ? (result.data as PreLabResult) : null
+}
@@ -0,0 +1,286 @@
+import { ExperimentStep, LabAction, ProcedureState, SafetyViolation, StepCriterion, StepFeedback, StepProgress } from '@/types'
+import { findChemical } from '@/data/chemicalData'
+import { safetyPenalty } from './safetyRules'
+
+export const DEFAULT_VOLUME_TOLERANCE = 2 // mL
+export const DEFAULT_TEMPERATURE_TOLERANCE = 2 // °C
+export const DEFAULT_MASS_TOLERANCE = 0.05 // g
+
+const EMPTY_PROGRESS: StepProgress = {
+  measured: {},
+  weighed: {},
+  poured: {},
+  temperature: null,
+  stirred: 0,
+  observed: false
+}
+
+// The criteria a step is graded against. Steps written before criteria existed
+// fall back to their action and chemical list.
+export function stepCriteria(step: ExperimentStep): StepCriterion[] {
+  if (step.criteria && step.criteria.length > 0) return step.criteria
+
+  switch (step.action) {
+    case 'measure':
+      if (step.chemicals.length > 0) {
+        return step.chemicals.map(chemical => ({ type: 'measure' as const, chemical }))
+      }
+      break
+    case 'weigh':
+      if (step.chemicals.length > 0) {
+        return step.chemicals.map(chemical => ({ type: 'weigh' as const, chemical }))
+      }
+      break
+    case 'pour':
+      if (step.chemicals.length > 0) {
+        return step.chemicals.map(chemical => ({ type: 'pour' as const, chemical }))
+      }
+      break
+    case 'heat':
+      return [{ type: 'heat', temperature: step.temperature }]
+    case 'stir':
+      return [{ type: 'stir', duration: step.duration || 0 }]
+  }
+  return [{ type: 'observe' }]
+}
+
+function chemicalName(id: string): string {
+  return findChemical(id)?.formula || id
+}
+
+function amountText(amount: number, tolerance?: number): string {
+  return `${amount} ± ${tolerance ?? DEFAULT_VOLUME_TOLERANCE} mL`
+}
+
+function massText(mass: number, tolerance?: number): string {
+  return `${mass} ± ${tolerance ?? DEFAULT_MASS_TOLERANCE} g`
+}
+
+export function describeCriterion(criterion: StepCriterion): string {
+  switch (criterion.type) {
+    case 'measure':
+      return criterion.amount !== undefined
+        ? `Measure ${amountText(criterion.amount, criterion.tolerance)} of ${chemicalName(criterion.chemical)}`
+        : `Measure out ${chemicalName(criterion.chemical)}`
+    case 'weigh':
+      return criterion.mass !== undefined
+        ? `Weigh ${massText(criterion.mass, criterion.tolerance)} of ${chemicalName(criterion.chemical)}`
+        : `Weigh out ${chemicalName(criterion.chemical)}`
+    case 'pour': {
+      const into = criterion.vessel ? ` into ${criterion.vessel}` : ''
+      return criterion.amount !== undefined
+        ? `Pour ${amountText(criterion.amount, criterion.tolerance)} of ${chemicalName(criterion.chemical)}${into}`
+        : `Add ${chemicalName(criterion.chemical)}${into}`
+    }
+    case 'heat':
+      return criterion.temperature !== undefined
+        ? `Heat to ${criterion.temperature} ± ${criterion.tolerance ?? DEFAULT_TEMPERATURE_TOLERANCE} °C`
+        : 'Heat with the burner'
+    case 'stir':
+      return `Stir for ${criterion.duration} s`
+    case 'observe':
+      return 'Record your observation'
+  }
+}
+
+function matchesVessel(vessel: string | undefined, actual: string): boolean {
+  return !vessel || actual === vessel || actual.startsWith(`${vessel}-`)
+}
+
+// Whether an action is the kind of thing a criterion is asking for
+function addresses(criterion: StepCriterion, action: LabAction): boolean {
+  switch (action.type) {
+    case 'measure':
+      return criterion.type === 'measure' && criterion.chemical === action.chemical
+    case 'weigh':
+      return criterion.type === 'weigh' && criterion.chemical === action.chemical
+    case 'pour':
+      return criterion.type === 'pour' && criterion.chemical === action.chemical && matchesVessel(criterion.vessel, action.vessel)
+    case 'heat':
+      return criterion.type === 'heat' && matchesVessel(criterion.vessel, action.vessel)
+    case 'stir':
+      return criterion.type === 'stir' && matchesVessel(criterion.vessel, action.vessel)
+    case 'observe':
+      return criterion.type === 'observe'
+  }
+}
+
+function record(progress: StepProgress, action: LabAction): StepProgress {
+  switch (action.type) {
+    case 'measure':
+      return { ...progress, measured: { ...progress.measured, [action.chemical]: action.amount } }
+    case 'weigh':
+      return { ...progress, weighed: { ...progress.weighed, [action.chemical]: action.mass } }
+    case 'pour':
+      return {
+        ...progress,
+        poured: { ...progress.poured, [action.chemical]: (progress.poured[action.chemical] || 0) + action.amount }
+      }
+    case 'heat':
+      return { ...progress, temperature: action.temperature }
+    case 'stir':
+      return { ...progress, stirred: progress.stirred + action.duration }
+    case 'observe':
+      return { ...progress, observed: true }
+  }
+}
+
+function withinTolerance(value: number, target: number, tolerance: number): boolean {
+  return Math.abs(value - target) <= tolerance + 1e-9
+}
+
+export function criterionMet(criterion: StepCriterion, progress: StepProgress): boolean {
+  switch (criterion.type) {
+    case 'measure': {
+      const measured = progress.measured[criterion.chemical]
+      if (measured === undefined) return false
+      return criterion.amount === undefined ||
+        withinTolerance(measured, criterion.amount, criterion.tolerance ?? DEFAULT_VOLUME_TOLERANCE)
+    }
+    case 'weigh': {
+      const weighed = progress.weighed[criterion.chemical]
+      if (weighed === undefined) return false
+      return criterion.mass === undefined ||
+        withinTolerance(weighed, criterion.mass, criterion.tolerance ?? DEFAULT_MASS_TOLERANCE)
+    }
+    case 'pour': {
+      const poured = progress.poured[criterion.chemical] || 0
+      if (criterion.amount === undefined) return poured > 0
+      return withinTolerance(poured, criterion.amount, criterion.tolerance ?? DEFAULT_VOLUME_TOLERANCE)
+    }
+    case 'heat':
+      if (progress.temperature === null) return false
+      return criterion.temperature === undefined ||
+        progress.temperature >= criterion.temperature - (criterion.tolerance ?? DEFAULT_TEMPERATURE_TOLERANCE)
+    case 'stir':
+      return progress.stirred >= criterion.duration
+    case 'observe':
+      return progress.observed
+  }
+}
+
+// A criterion that can no longer be met without starting over, e.g. pouring
+// too much. Returns an explanation, or null if the step is still recoverable.
+function overshoot(criterion: StepCriterion, progress: StepProgress): string | null {
+  if (criterion.type === 'pour' && criterion.amount !== undefined) {
+    const poured = progress.poured[criterion.chemical] || 0
+    const tolerance = criterion.tolerance ?? DEFAULT_VOLUME_TOLERANCE
+    if (poured > criterion.amount + tolerance) {
+      return `You added ${poured.toFixed(1)} mL of ${chemicalName(criterion.chemical)}, but the step needs ${amountText(criterion.amount, criterion.tolerance)}`
+    }
+  }
+  if (criterion.type === 'heat' && criterion.temperature !== undefined && progress.temperature !== null) {
+    const tolerance = criterion.tolerance ?? DEFAULT_TEMPERATURE_TOLERANCE
+    if (progress.temperature > criterion.temperature + tolerance) {
+      return `The temperature reached ${progress.temperature.toFixed(0)} °C, overshooting ${criterion.temperature} °C`
+    }
+  }
+  return null
+}
+
+export function createProcedure(steps: ExperimentStep[]): ProcedureState {
+  return {
+    currentStep: 0,
+    statuses: steps.map((_, index) => (index === 0 ? 'active' : 'pending')),
+    progress: EMPTY_PROGRESS,
+    feedback: []
+  }
+}
+
+export function isProcedureFinished(state: ProcedureState): boolean {
+  return state.currentStep >= state.statuses.length
+}
+
+// Percentage score for an attempt: the share of steps done right, less the
+// penalties for any safety violations along the way
+export function attemptScore(state: ProcedureState, violations: SafetyViolation[] = []): number {
+  const completed = state.statuses.filter(status => status === 'complete').length
+  const share = state.statuses.length > 0 ? (completed / state.statuses.length) * 100 : 0
+  return Math.max(0, Math.round(share - safetyPenalty(violations)))
+}
+
+// Move on from the current step, marking how it ended
+function finishStep(state: ProcedureState, outcome: 'complete' | 'failed', feedback: StepFeedback): ProcedureState {
+  const next = state.currentStep + 1
+  return {
+    currentStep: next,
+    statuses: state.statuses.map((status, index) =>
+      index === state.currentStep ? outcome : index === next ? 'active' : status
+    ),
+    progress: EMPTY_PROGRESS,
+    feedback: [...state.feedback, feedback]
+  }
+}
+
+// Evaluate one lab action against the procedure. Steps must be done in order:
+// work that belongs to a later step is rejected with an explanation.
+export function applyLabAction(state: ProcedureState, steps: ExperimentStep[], action: LabAction): ProcedureState {
+  if (isProcedureFinished(state)) return state
+
+  const index = state.currentStep
+  const step = steps[index]
+  const criteria = stepCriteria(step)
+  const say = (kind: StepFeedback['kind'], message: string, stepIndex = index): ProcedureState => {
+    // Continuous actions like heating repeat; don't stack the same complaint
+    const last = state.feedback[state.feedback.length - 1]
+    if (last && last.step === stepIndex && last.message === message) return state
+    return { ...state, feedback: [...state.feedback, { step: stepIndex, kind, message }] }
+  }
+
+  if (!criteria.some(criterion => addresses(criterion, action))) {
+    // Measuring, weighing and observing are harmless when they don't count towards anything
+    if (action.type === 'measure' || action.type === 'weigh' || action.type === 'observe') return state
+
+    const later = steps.findIndex((candidate, candidateIndex) =>
+      candidateIndex > index && stepCriteria(candidate).some(criterion => addresses(criterion, action))
+    )
+    if (later !== -1) {
+      return say('error', `That belongs to step ${later + 1}. Finish step ${index + 1} first: ${step.instruction}`)
+    }
+    return say('error', `Step ${index + 1} asks you to: ${criteria.map(describeCriterion).join('; ')}`)
+  }
+
+  const progress = record(state.progress, action)
+  const recorded = { ...state, progress }
+
+  for (const criterion of criteria) {
+    const problem = overshoot(criterion, progress)
+    if (problem) {
+      return finishStep(recorded, 'failed', { step: index, kind: 'error', message: problem })
+    }
+  }
+
+  if (criteria.every(criterion => criterionMet(criterion, progress))) {
+    return finishStep(recorded, 'complete', { step: index, kind: 'success', message: `Step ${index + 1} complete` })
+  }
+
+  // A measurement outside tolerance can be redone, but say so
+  if (action.type === 'weigh') {
+    const criterion = criteria.find(candidate => addresses(candidate, action))
+    if (criterion.type === 'weigh' && !criterionMet(criterion, progress)) {
+      return {
+        ...recorded,
+        feedback: [...state.feedback, {
+          step: index,
+          kind: 'error',
+          message: `You weighed ${action.mass.toFixed(3)} g; weigh ${massText(criterion.mass, criterion.tolerance)} instead`
+        }]
+      }
+    }
+  }
+  if (action.type === 'measure') {
+    const criterion = criteria.find(candidate => addresses(candidate, action))
+    if (criterion.type === 'measure' && !criterionMet(criterion, progress)) {
+      return {
+        ...recorded,
+        feedback: [...state.feedback, {
+          step: index,
+          kind: 'error',
+          message: `You measured ${action.amount.toFixed(1)} mL; measure ${amountText(criterion.amount, criterion.tolerance)} instead`
+        }]
+      }
+    }
+  }
+
+  return recorded
+}
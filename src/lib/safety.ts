@@ -0,0 +1,69 @@
+import { Chemical, Experiment, GhsPictogram, IncompatiblePair, PpeItem } from '@/types'
+import { ChemicalLookup } from './chemistry/solution'
+
+// Baseline for anyone at the bench, whatever the chemicals
+export const MINIMUM_PPE: PpeItem[] = ['goggles', 'lab-coat']
+
+function unique<T>(values: T[]): T[] {
+  return [...new Set(values)]
+}
+
+// Chemicals the student handles: everything the steps and reactions start
+// from. Steps that only mention a product, such as testing the gas given off,
+// don't put it on the shelf.
+export function experimentReagents(experiment: Experiment): string[] {
+  const reactants = experiment.reactions.flatMap(reaction => reaction.reactants)
+  const products = experiment.reactions.flatMap(reaction => reaction.products)
+  return unique([
+    ...experiment.steps.flatMap(step => [
+      ...step.chemicals,
+      ...(step.criteria || []).flatMap(criterion => ('chemical' in criterion ? [criterion.chemical] : []))
+    ]),
+    ...reactants
+  ]).filter(id => reactants.includes(id) || !products.includes(id))
+}
+
+// Reagents plus whatever the reactions make from them
+export function experimentChemicalIds(experiment: Experiment): string[] {
+  return unique([...experimentReagents(experiment), ...experiment.reactions.flatMap(reaction => reaction.products)])
+}
+
+// Pairs among these chemicals that either one's Safety Data Sheet says not to
+// mix, each listed once
+export function incompatiblePairs(ids: string[], lookup: ChemicalLookup): IncompatiblePair[] {
+  const pairs: IncompatiblePair[] = []
+  ids.forEach((chemical, index) => {
+    ids.slice(index + 1).forEach(other => {
+      const clash = lookup(chemical)?.hazards?.incompatibilities.includes(other) ||
+        lookup(other)?.hazards?.incompatibilities.includes(chemical)
+      if (clash) pairs.push({ chemical, other })
+    })
+  })
+  return pairs
+}
+
+export interface SafetySummary {
+  // Chemicals with any GHS classification, most hazardous first
+  hazardous: Chemical[]
+  pictograms: GhsPictogram[]
+  ppe: PpeItem[]
+  incompatible: IncompatiblePair[]
+}
+
+// The safety briefing for an experiment, worked out from the chemicals it
+// actually uses rather than written by hand
+export function safetySummary(experiment: Experiment, lookup: ChemicalLookup): SafetySummary {
+  const ids = experimentChemicalIds(experiment)
+  const chemicals = ids.map(lookup).filter((chemical): chemical is Chemical => Boolean(chemical))
+  const severity = (chemical: Chemical) =>
+    (chemical.hazards?.signalWord === 'Danger' ? 100 : 0) + (chemical.hazards?.pictograms.length || 0)
+
+  return {
+    hazardous: chemicals
+      .filter(chemical => chemical.hazards?.pictograms.length)
+      .sort((a, b) => severity(b) - severity(a)),
+    pictograms: unique(chemicals.flatMap(chemical => chemical.hazards?.pictograms || [])),
+    ppe: unique([...MINIMUM_PPE, ...chemicals.flatMap(chemical => chemical.hazards?.ppe || [])]),
+    incompatible: incompatiblePairs(ids, lookup)
+  }
+}
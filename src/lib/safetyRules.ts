@@ -0,0 +1,213 @@
+import { Chemical, Experiment, LabEventInput, PpeItem, ReactionRule, SafetyRuleId, SafetyViolation, SimulationState } from '@/types'
+import { HAZARD_STATEMENTS, PPE_NAMES, PRECAUTIONARY_STATEMENTS } from '@/data/ghs'
+import { ChemicalLookup } from './chemistry/solution'
+import { EquipmentLayoutItem } from './equipmentLayout'
+import { MINIMUM_PPE, experimentReagents, incompatiblePairs } from './safety'
+
+// Anything on the neighbouring spots of the bench grid is within reach of a flame
+const FLAME_REACH = 2.6
+// A stoppered vessel this warm has built up enough pressure to blow its stopper
+const SEALED_TEMPERATURE_LIMIT = 50 // °C
+
+// Points taken off the attempt's score for each violation
+export const VIOLATION_PENALTIES: Record<SafetyViolation['severity'], number> = {
+  minor: 5,
+  major: 15
+}
+
+// What a safety rule can see of the bench after an event
+interface BenchContext {
+  event: LabEventInput
+  state: SimulationState
+  layout: EquipmentLayoutItem[]
+  lookup: ChemicalLookup
+  rules: ReactionRule[]
+  worn: PpeItem[]
+  // Chemicals the procedure has the student handle
+  reagents: string[]
+  // Chemicals the experiment sets out to burn
+  fuels: string[]
+}
+
+interface SafetyRule {
+  id: SafetyRuleId
+  check: (bench: BenchContext) => SafetyViolation[]
+}
+
+function present(amounts: Record<string, number> | undefined): string[] {
+  return Object.entries(amounts || {})
+    .filter(([, amount]) => amount > 0)
+    .map(([id]) => id)
+}
+
+function nameOf(id: string, lookup: ChemicalLookup): string {
+  return lookup(id)?.name || id
+}
+
+function distance(a: [number, number, number], b: [number, number, number]): number {
+  return Math.hypot(a[0] - b[0], a[2] - b[2])
+}
+
+function isFlammable(chemical: Chemical | undefined): boolean {
+  return Boolean(chemical?.hazards?.pictograms.includes('flammable'))
+}
+
+const flammableNearFlame: SafetyRule = {
+  id: 'flammable-near-flame',
+  check: ({ state, layout, lookup, fuels }) =>
+    layout
+      .filter(burner => burner.type === 'bunsen-burner' && state.burners[burner.id])
+      .flatMap(burner =>
+        layout
+          .filter(item => item.id === state.placements[burner.id] || (item.id !== burner.id && distance(item.position, burner.position) <= FLAME_REACH))
+          .flatMap(item =>
+            [...present(state.solutions[item.id]?.species), ...present(state.gases[item.id])]
+              .filter(id => isFlammable(lookup(id)) && !fuels.includes(id))
+              .map((id): SafetyViolation => {
+                const chemical = lookup(id)
+                const statement = chemical?.hazards?.hazardStatements.find(code => code.startsWith('H22'))
+                return {
+                  rule: 'flammable-near-flame',
+                  key: `flammable-near-flame:${item.id}:${id}`,
+                  vessel: item.id,
+                  incident: 'fire',
+                  severity: 'major',
+                  message: `${chemical?.name || id} caught fire next to a lit Bunsen burner`,
+                  debrief: [
+                    statement ? `${chemical?.name} is classed ${statement}: ${HAZARD_STATEMENTS[statement]}.` : '',
+                    `${PRECAUTIONARY_STATEMENTS.P210}. Turn the burner off before opening flammables, or keep them well away from it.`
+                  ].filter(Boolean).join(' ')
+                }
+              })
+          )
+      )
+}
+
+const incompatibleMix: SafetyRule = {
+  id: 'incompatible-mix',
+  check: ({ event, state, lookup, rules, reagents }) => {
+    let vessel: string
+    let ids: string[]
+    let outcome = ''
+    if (event.type === 'chemical-added') {
+      vessel = event.vessel
+      ids = [...present(state.solutions[vessel]?.species), event.chemical]
+    } else if (event.type === 'transfer') {
+      vessel = event.to
+      ids = present(state.solutions[vessel]?.species)
+    } else if (event.type === 'reaction-fired') {
+      // Reactions can use up one side of the pair before anyone sees them together
+      const rule = rules.find(candidate => candidate.id === event.reaction)
+      vessel = event.vessel
+      ids = rule?.reactants || []
+      outcome = event.outcome
+    } else {
+      return []
+    }
+
+    return incompatiblePairs([...new Set(ids)], lookup)
+      // Pairs the procedure itself brings together are what the experiment is about
+      .filter(pair => !(reagents.includes(pair.chemical) && reagents.includes(pair.other)))
+      .map((pair): SafetyViolation => {
+        const [first, second] = [pair.chemical, pair.other].sort()
+        return {
+          rule: 'incompatible-mix',
+          key: `incompatible-mix:${vessel}:${first}:${second}`,
+          vessel,
+          incident: 'fumes',
+          severity: 'major',
+          message: `${nameOf(pair.chemical, lookup)} was mixed with ${nameOf(pair.other, lookup)}`,
+          debrief: [
+            outcome ? `${outcome}.` : '',
+            'Their Safety Data Sheets list them as incompatible (section 10).',
+            'Check the SDS before combining reagents and only mix what the procedure calls for.'
+          ].filter(Boolean).join(' ')
+        }
+      })
+  }
+}
+
+const sealedVesselHeated: SafetyRule = {
+  id: 'sealed-vessel-heated',
+  check: ({ state, layout }) =>
+    layout
+      .filter(item => item.sealed && (state.solutions[item.id]?.volume || 0) > 0)
+      .filter(item =>
+        (state.temperatures[item.id] ?? item.temperature) > SEALED_TEMPERATURE_LIMIT ||
+        layout.some(burner => burner.type === 'bunsen-burner' && state.placements[burner.id] === item.id && state.burners[burner.id])
+      )
+      .map((item): SafetyViolation => ({
+        rule: 'sealed-vessel-heated',
+        key: `sealed-vessel-heated:${item.id}`,
+        vessel: item.id,
+        incident: 'spill',
+        severity: 'major',
+        message: `The stoppered ${item.name.toLowerCase()} was heated and burst`,
+        debrief: 'Heating a closed vessel builds up pressure until the stopper or the glass gives way. ' +
+          'Remove the stopper, or fit a delivery tube, before heating anything.'
+      }))
+}
+
+const missingPpe: SafetyRule = {
+  id: 'missing-ppe',
+  check: ({ event, lookup, worn }) => {
+    // Only handling a chemical needs protection; the bench itself doesn't
+    if (event.type !== 'chemical-added') return []
+    const chemical = lookup(event.chemical)
+    const required = [...new Set([...MINIMUM_PPE, ...(chemical?.hazards?.ppe || [])])]
+    return required
+      .filter(item => !worn.includes(item))
+      .map((item): SafetyViolation => ({
+        rule: 'missing-ppe',
+        key: `missing-ppe:${item}`,
+        vessel: event.vessel,
+        incident: 'spill',
+        severity: 'minor',
+        message: `${chemical?.name || event.chemical} was handled without ${PPE_NAMES[item].toLowerCase()}`,
+        debrief: chemical?.hazards?.ppe.includes(item)
+          ? `The Safety Data Sheet for ${chemical.name} asks for ${PPE_NAMES[item].toLowerCase()} (section 8). ` +
+            'A splash like this one is exactly what it guards against.'
+          : `${PPE_NAMES[item]} is the minimum for anyone at the bench, whatever the chemical.`
+      }))
+  }
+}
+
+export const SAFETY_RULES: SafetyRule[] = [flammableNearFlame, incompatibleMix, sealedVesselHeated, missingPpe]
+
+export interface SafetyMonitor {
+  // New violations after a bench event. Each situation is reported once, however
+  // long it lasts.
+  check: (event: LabEventInput, state: SimulationState, worn: PpeItem[]) => SafetyViolation[]
+}
+
+// Watch one bench for unsafe practice. Experiment-specific hazards the
+// procedure intends, such as burning methane, are not violations.
+export function createSafetyMonitor(
+  experiment: Experiment,
+  layout: EquipmentLayoutItem[],
+  lookup: ChemicalLookup,
+  rules: ReactionRule[]
+): SafetyMonitor {
+  const reagents = experimentReagents(experiment)
+  const fuels = experiment.reactions
+    .filter(reaction => reaction.reactants.includes('o2'))
+    .flatMap(reaction => reaction.reactants)
+    .filter(id => isFlammable(lookup(id)))
+  const reported = new Set<string>()
+
+  return {
+    check: (event, state, worn) => {
+      const bench: BenchContext = { event, state, layout, lookup, rules, worn, reagents, fuels }
+      return SAFETY_RULES.flatMap(rule => rule.check(bench)).filter(violation => {
+        if (reported.has(violation.key)) return false
+        reported.add(violation.key)
+        return true
+      })
+    }
+  }
+}
+
+// Points lost to safety violations over an attempt
+export function safetyPenalty(violations: SafetyViolation[]): number {
+  return violations.reduce((total, violation) => total + VIOLATION_PENALTIES[violation.severity], 0)
+}
@@ -0,0 +1,103 @@
+import { z } from 'zod'
+import { Experiment, LabEvent, LabEventInput, SessionLog } from '@/types'
+import { SUPPORTED_EQUIPMENT, formatIssues } from '@/data/experimentSchema'
+import { SANDBOX_ID } from '@/data/sandbox'
+
+const time = z.number().min(0)
+
+const labEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('chemical-added'), time, vessel: z.string(), chemical: z.string(), amount: z.number() }),
+  z.object({ type: z.literal('transfer'), time, from: z.string(), to: z.string(), volume: z.number() }),
+  z.object({ type: z.literal('burner-toggled'), time, burner: z.string(), lit: z.boolean() }),
+  z.object({ type: z.literal('reaction-fired'), time, vessel: z.string(), reaction: z.string(), outcome: z.string() }),
+  z.object({ type: z.literal('step-completed'), time, step: z.number().int().min(0), status: z.enum(['complete', 'failed']) }),
+  z.object({ type: z.literal('observation'), time, step: z.number().int().min(0) }),
+  z.object({ type: z.literal('gas-tested'), time, vessel: z.string(), test: z.enum(['glowing-splint', 'lit-splint', 'limewater']) }),
+  z.object({
+    type: z.literal('safety-violation'),
+    time,
+    rule: z.enum(['flammable-near-flame', 'incompatible-mix', 'sealed-vessel-heated', 'missing-ppe']),
+    vessel: z.string().optional(),
+    message: z.string()
+  }),
+  z.object({ type: z.literal('no-reaction'), time, vessel: z.string(), chemicals: z.array(z.string()) }),
+  z.object({
+    type: z.literal('measurement'),
+    time,
+    vessel: z.string(),
+    chemical: z.string(),
+    reading: z.number().min(0),
+    volume: z.number().min(0),
+    eye: z.enum(['above', 'level', 'below'])
+  }),
+  z.object({
+    type: z.literal('weighing'),
+    time,
+    balance: z.string(),
+    chemical: z.string(),
+    reading: z.number(),
+    mass: z.number().min(0)
+  }),
+  z.object({ type: z.literal('bench-reset'), time }),
+  z.object({ type: z.literal('equipment-placed'), time, equipment: z.string(), vessel: z.string() })
+])
+
+const sessionLogSchema = z.object({
+  experimentId: z.string().min(1),
+  startedAt: z.string(),
+  equipment: z.array(z.string().refine(type => SUPPORTED_EQUIPMENT.includes(type), type => ({ message: `Unsupported equipment "${type}"` }))).optional(),
+  events: z.array(labEventSchema)
+})
+
+// A sandbox bench isn't in the catalog, so its log keeps the equipment it
+// was set up with to rebuild it for replay
+export function createSessionLog(experiment: Experiment | null, startedAt = new Date()): SessionLog {
+  const log: SessionLog = { experimentId: experiment?.id || '', startedAt: startedAt.toISOString(), events: [] }
+  return experiment?.id === SANDBOX_ID
+    ? { ...log, equipment: experiment.materials.map(material => material.equipmentType) }
+    : log
+}
+
+// Append an event, stamped with the bench simulation's clock in seconds.
+// Wall-clock time would run on through stalled frames and background tabs
+// that the simulation never stepped, and the replay would heat and react for
+// longer than the session did.
+export function recordEvent(log: SessionLog, event: LabEventInput, simulationTime: number): SessionLog {
+  const time = Math.max(0, Math.round(simulationTime * 1000))
+  return { ...log, events: [...log.events, { ...event, time } as LabEvent] }
+}
+
+export function sessionDuration(log: SessionLog): number {
+  return log.events.length > 0 ? log.events[log.events.length - 1].time : 0
+}
+
+export function exportSessionLog(log: SessionLog): string {
+  return JSON.stringify(log, null, 2)
+}
+
+export function downloadSessionLog(log: SessionLog) {
+  const blob = new Blob([exportSessionLog(log)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `${log.experimentId}-${log.startedAt.replace(/[:.]/g, '-')}.json`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// Read an exported session log back. Events are sorted by time so a log
+// edited by hand still replays in order.
+export function parseSessionLog(text: string): { log?: SessionLog; errors: string[] } {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch (error) {
+    return { errors: [`Session log could not be parsed: ${(error as Error).message}`] }
+  }
+
+  const result = sessionLogSchema.safeParse(data)
+  if (!result.success) return { errors: formatIssues(result.error) }
+
+  const log = result.data as SessionLog
+  return { log: { ...log, events: [...log.events].sort((a, b) => a.time - b.time) }, errors: [] }
+}
@@ -0,0 +1,392 @@
+import { ActiveReaction, LabEvent, LabEventInput, ReactionRule, SimulationState, StopcockState } from '@/types'
+import { REACTION_RULES } from '@/data/reactionRules'
+import { ChemicalLookup, EMPTY_SOLUTION, maxExtent } from './chemistry/solution'
+import { DROP_INTERVAL, DROP_VOLUME, STREAM_RATE } from './chemistry/titration'
+import { stepTemperature } from './chemistry/thermal'
+import { boilingPoint, evaporate } from './chemistry/phase'
+import { EquipmentLayoutItem, PLACEABLE_TYPES, getGasCollectors, getInitialSolutions } from './equipmentLayout'
+import { advanceLabScene, applyLabEvent, reactInPlace } from './labScene'
+
+// The simulation advances in fixed steps regardless of frame rate
+export const FIXED_TIMESTEP = 1 / 30 // seconds
+// Frames longer than this (a backgrounded tab) are not caught up in full
+const MAX_STEPS_PER_TICK = 10
+// A streaming burette reports its delivery in batches rather than every step
+const STREAM_BATCH = 0.1 // seconds
+const DEFAULT_REACTION_DURATION = 3 // seconds
+// Seeking through a session keeps a snapshot this often, so scrubbing only
+// replays from the nearest one instead of from the start
+const SEEK_CHECKPOINT_INTERVAL = 10 // seconds
+// Relative difference a replayed amount or temperature may show before it
+// counts as not matching the live bench
+const REPLAY_TOLERANCE = 1e-9
+// Equipment that holds something and so has a temperature of its own
+const VESSEL_TYPES = ['beaker', 'flask', 'test-tube', 'graduated-cylinder', 'burette']
+
+export type SimulationListener = (state: SimulationState) => void
+export type SimulationEventListener = (event: LabEventInput, state: SimulationState) => void
+
+export interface LabSimulation {
+  // The reaction rules this bench runs
+  rules: ReactionRule[]
+  getState: () => SimulationState
+  // Called whenever the state changes
+  subscribe: (listener: SimulationListener) => () => void
+  // Called for every bench event, including ones the simulation causes itself
+  subscribeEvents: (listener: SimulationEventListener) => () => void
+  dispatch: (event: LabEventInput) => ReactionRule[]
+  setStopcock: (burette: string, state: StopcockState) => void
+  // Advance by a frame's worth of real time
+  tick: (delta: number) => void
+  // Put the bench back as it started, recorded as a bench-reset event
+  reset: () => void
+  // Jump to a point in a recorded session without emitting events
+  seek: (events: LabEvent[], until: number) => void
+}
+
+// A replayed state, and the index of the first event it hasn't had yet
+interface SeekCheckpoint {
+  state: SimulationState
+  next: number
+}
+
+function reactionDuration(rule: ReactionRule): number {
+  const longest = Math.max(0, ...rule.effects.map(effect => effect.duration))
+  return longest > 0 ? longest / 1000 : DEFAULT_REACTION_DURATION
+}
+
+// Chemicals actually in a vessel
+function presentIn(state: SimulationState, vessel: string): string[] {
+  const species = state.solutions[vessel]?.species || {}
+  return Object.keys(species).filter(id => species[id] > 0)
+}
+
+// The vessel whose contents an event can change, if any. Lighting a burner,
+// or moving a lit one under a vessel, can set off what is in it.
+function receivingVessel(event: LabEventInput, state: SimulationState): string | null {
+  if (event.type === 'chemical-added') return event.vessel
+  if (event.type === 'transfer') return event.to
+  if (event.type === 'burner-toggled') return event.lit ? state.placements[event.burner] || null : null
+  if (event.type === 'equipment-placed') return state.burners[event.equipment] ? event.vessel : null
+  return null
+}
+
+// Create the simulation for one bench. It owns vessel contents, temperatures,
+// burners, stopcocks and reactions in progress, and knows nothing about React
+// or three.js.
+export function createLabSimulation(
+  layout: EquipmentLayoutItem[],
+  lookup: ChemicalLookup,
+  rules: ReactionRule[] = REACTION_RULES
+): LabSimulation {
+  const initialState = (): SimulationState => ({
+    time: 0,
+    solutions: getInitialSolutions(layout),
+    temperatures: Object.fromEntries(layout.map(item => [item.id, item.temperature])),
+    burners: Object.fromEntries(layout.filter(item => item.type === 'bunsen-burner').map(item => [item.id, Boolean(item.isLit)])),
+    gases: {},
+    stopcocks: {},
+    placements: Object.fromEntries(
+      layout.filter(item => PLACEABLE_TYPES.includes(item.type) && item.vessel).map(item => [item.id, item.vessel])
+    ),
+    reactions: []
+  })
+
+  let state = initialState()
+  let accumulator = 0
+  let dispenseTimers: { [burette: string]: number } = {}
+  // Checkpoints for the session last seeked through, and where it last stopped
+  let seekCache: { events: LabEvent[]; checkpoints: SeekCheckpoint[]; latest: SeekCheckpoint & { until: number } } | null = null
+  const listeners = new Set<SimulationListener>()
+  const eventListeners = new Set<SimulationEventListener>()
+
+  const context = { lookup, rules, collectors: getGasCollectors(layout) }
+  const vessels = layout.filter(item => VESSEL_TYPES.includes(item.type)).map(item => item.id)
+  const burners = layout.filter(item => item.type === 'bunsen-burner')
+  // Rules that can start happening in a vessel just by it warming up
+  const warmed = rules.filter(rule => rule.coefficients && !rule.rate && rule.conditions?.minTemperature !== undefined)
+
+  // Reactions with a rate run as far as their kinetics take them; the rest
+  // play out over their effects' duration
+  const timed = (reaction: ActiveReaction) => !rules.find(rule => rule.id === reaction.reaction)?.rate
+
+  const setState = (next: SimulationState) => {
+    state = next
+    listeners.forEach(listener => listener(state))
+  }
+
+  const emit = (event: LabEventInput) => {
+    eventListeners.forEach(listener => listener(event, state))
+  }
+
+  // Start tracking reactions that have just fired; a reaction that fires
+  // again in the same vessel restarts
+  const startReactions = (current: SimulationState, vessel: string, fired: ReactionRule[]): SimulationState => {
+    if (fired.length === 0) return current
+    const ids = fired.map(rule => rule.id)
+    return {
+      ...current,
+      reactions: [
+        ...current.reactions.filter(reaction => !(reaction.vessel === vessel && ids.includes(reaction.reaction))),
+        ...fired.map(rule => ({ vessel, reaction: rule.id, progress: 0, duration: reactionDuration(rule), rate: 0, extent: 0 }))
+      ]
+    }
+  }
+
+  const applyEvent = (current: SimulationState, event: LabEventInput) => {
+    // Starting again clears the bench, but the clock keeps running so a
+    // recorded session still lines up
+    if (event.type === 'bench-reset') {
+      return { state: { ...initialState(), time: current.time }, fired: [] as ReactionRule[], vessel: null }
+    }
+    const { scene, fired } = applyLabEvent(current, event, context)
+    const vessel = receivingVessel(event, current)
+    return { state: vessel ? startReactions(scene, vessel, fired) : scene, fired, vessel }
+  }
+
+  const dispatch = (event: LabEventInput): ReactionRule[] => {
+    const receiver = receivingVessel(event, state)
+    const mixedFrom = receiver ? presentIn(state, receiver) : []
+    const { state: next, fired, vessel } = applyEvent(state, event)
+    setState(next)
+
+    emit(event)
+    if (vessel) {
+      fired.forEach(rule => emit({ type: 'reaction-fired', vessel, reaction: rule.id, outcome: rule.outcomeText }))
+      // Bringing something new into a vessel that already held something is
+      // worth an outcome even when nothing happens
+      const chemicals = presentIn(next, vessel)
+      if (fired.length === 0 && mixedFrom.length > 0 && chemicals.some(id => !mixedFrom.includes(id))) {
+        emit({ type: 'no-reaction', vessel, chemicals })
+      }
+    }
+    return fired
+  }
+
+  // Open stopcocks release single drops or a steady stream into the vessel
+  // each burette is set up over
+  const dispense = (dt: number) => {
+    Object.entries(state.stopcocks)
+      .filter(([, stopcock]) => stopcock !== 'closed')
+      .forEach(([burette, stopcock]) => {
+        const elapsed = (dispenseTimers[burette] || 0) + dt
+        const interval = stopcock === 'drop' ? DROP_INTERVAL : STREAM_BATCH
+        if (elapsed < interval) {
+          dispenseTimers[burette] = elapsed
+          return
+        }
+        dispenseTimers[burette] = 0
+
+        const available = state.solutions[burette]?.volume || 0
+        const receiver = state.placements[burette]
+        if (!receiver || available <= 0) {
+          setState({ ...state, stopcocks: { ...state.stopcocks, [burette]: 'closed' } })
+          return
+        }
+        const volume = stopcock === 'drop' ? DROP_VOLUME : STREAM_RATE * elapsed
+        dispatch({ type: 'transfer', from: burette, to: receiver, volume: Math.min(volume, available) })
+      })
+  }
+
+  const advanceReactions = (current: SimulationState, dt: number): ActiveReaction[] | null => {
+    if (!current.reactions.some(reaction => reaction.progress < 1 && timed(reaction))) return null
+    return current.reactions.map(reaction => reaction.progress < 1 && timed(reaction)
+      ? { ...reaction, progress: Math.min(reaction.progress + dt / reaction.duration, 1) }
+      : reaction
+    )
+  }
+
+  // Keep the current rate and real progress of reactions that take time on
+  // the reactions in progress, so effects can follow how far along they are
+  const updateKinetics = (
+    reactions: ActiveReaction[],
+    solutions: SimulationState['solutions'],
+    rates: { [vessel: string]: Record<string, number> },
+    dt: number
+  ): ActiveReaction[] | null => {
+    let changed = false
+    const updated = reactions.map(reaction => {
+      const rule = rules.find(candidate => candidate.id === reaction.reaction)
+      if (!rule?.rate || reaction.progress >= 1) return reaction
+      const rate = rates[reaction.vessel]?.[reaction.reaction] || 0
+      const extent = reaction.extent + rate * dt
+      const remaining = maxExtent(solutions[reaction.vessel] || EMPTY_SOLUTION, rule)
+      changed = true
+      // A reaction that has stopped is as far as it will get
+      const progress = rate > 0 && extent + remaining > 0 ? extent / (extent + remaining) : 1
+      return { ...reaction, rate, extent, progress }
+    })
+    return changed ? updated : null
+  }
+
+  // Lit burners heat their vessel; everything else drifts back to room
+  // temperature. Warm liquid evaporates and boiling liquid boils away.
+  const advanceThermal = (current: SimulationState, dt: number): Pick<SimulationState, 'temperatures' | 'solutions'> | null => {
+    let changed = false
+    const temperatures = { ...current.temperatures }
+    const solutions = { ...current.solutions }
+    vessels.forEach(vessel => {
+      const solution = current.solutions[vessel]
+      const heated = burners.some(burner => current.placements[burner.id] === vessel && current.burners[burner.id])
+      const limit = solution ? boilingPoint(solution, lookup) : undefined
+      const next = stepTemperature(current.temperatures[vessel], solution, heated, dt, limit)
+      if (next.temperature !== current.temperatures[vessel]) {
+        temperatures[vessel] = next.temperature
+        changed = true
+      }
+      if (solution && next.evaporated > 0) {
+        solutions[vessel] = evaporate(solution, next.evaporated)
+        changed = true
+      }
+    })
+    return changed ? { temperatures, solutions } : null
+  }
+
+  // Re-check the rules in vessels whose temperature has changed, for
+  // reactions that only start once the contents are hot enough
+  const reactWarmed = (previous: SimulationState, current: SimulationState) => {
+    const fired: { vessel: string; rules: ReactionRule[] }[] = []
+    let next = current
+    vessels
+      .filter(vessel => current.temperatures[vessel] !== previous.temperatures[vessel])
+      .filter(vessel => warmed.some(rule =>
+        current.temperatures[vessel] >= rule.conditions.minTemperature &&
+        rule.reactants.every(id => current.solutions[vessel]?.species[id] > 0)
+      ))
+      .forEach(vessel => {
+        const reacted = reactInPlace(next, vessel, context)
+        if (reacted.fired.length === 0) return
+        next = startReactions(reacted.scene, vessel, reacted.fired)
+        fired.push({ vessel, rules: reacted.fired })
+      })
+    return { state: next, fired }
+  }
+
+  // The parts of a step that depend only on time, not on the student
+  const evolve = (current: SimulationState, dt: number) => {
+    const kinetics = advanceLabScene(current, dt, context)
+    const reacting = Object.keys(kinetics.rates).length > 0
+    const progressed = advanceReactions(kinetics.scene, dt)
+    const rated = updateKinetics(progressed || kinetics.scene.reactions, kinetics.scene.solutions, kinetics.rates, dt)
+    const thermal = advanceThermal(kinetics.scene, dt)
+    const evolved = {
+      ...kinetics.scene,
+      ...thermal,
+      time: current.time + dt,
+      reactions: rated || progressed || current.reactions
+    }
+    const warm = thermal ? reactWarmed(kinetics.scene, evolved) : { state: evolved, fired: [] }
+    return {
+      state: warm.state,
+      changed: Boolean(reacting || progressed || rated || thermal),
+      fired: warm.fired
+    }
+  }
+
+  const step = (dt: number) => {
+    dispense(dt)
+    const next = evolve(state, dt)
+    // Only notify subscribers when something visible has changed
+    if (next.changed) {
+      setState(next.state)
+    } else {
+      state = next.state
+    }
+    next.fired.forEach(({ vessel, rules: fired }) =>
+      fired.forEach(rule => emit({ type: 'reaction-fired', vessel, reaction: rule.id, outcome: rule.outcomeText }))
+    )
+  }
+
+  return {
+    rules,
+    getState: () => state,
+    subscribe: listener => {
+      listeners.add(listener)
+      return () => listeners.delete(listener)
+    },
+    subscribeEvents: listener => {
+      eventListeners.add(listener)
+      return () => eventListeners.delete(listener)
+    },
+    dispatch,
+    setStopcock: (burette, stopcock) => {
+      dispenseTimers[burette] = 0
+      setState({ ...state, stopcocks: { ...state.stopcocks, [burette]: stopcock } })
+    },
+    tick: delta => {
+      accumulator = Math.min(accumulator + delta, FIXED_TIMESTEP * MAX_STEPS_PER_TICK)
+      while (accumulator >= FIXED_TIMESTEP) {
+        step(FIXED_TIMESTEP)
+        accumulator -= FIXED_TIMESTEP
+      }
+    },
+    reset: () => {
+      accumulator = 0
+      dispenseTimers = {}
+      dispatch({ type: 'bench-reset' })
+    },
+    seek: (events, until) => {
+      if (seekCache?.events !== events) {
+        const start = { state: initialState(), next: 0 }
+        seekCache = { events, checkpoints: [start], latest: { ...start, until: 0 } }
+      }
+      const { checkpoints } = seekCache
+      const seconds = until / 1000
+
+      // Carry on from the latest snapshot that isn't past the target: where
+      // the last seek stopped when playing forward, a checkpoint otherwise
+      const resume = [...checkpoints, ...(seekCache.latest.until <= until ? [seekCache.latest] : [])]
+        .filter(checkpoint => checkpoint.state.time <= seconds + FIXED_TIMESTEP / 2)
+        .reduce((best, checkpoint) => (checkpoint.state.time > best.state.time ? checkpoint : best))
+      let replayed = resume.state
+      let next = resume.next
+
+      // Step through the same fixed timesteps between events so heating and
+      // cooling come out the same as in the recorded session. Event times
+      // were rounded to the millisecond, so a step that lands within half a
+      // step of the target is the one the event happened after.
+      const advanceTo = (target: number) => {
+        while (replayed.time + FIXED_TIMESTEP <= target + FIXED_TIMESTEP / 2) {
+          replayed = evolve(replayed, FIXED_TIMESTEP).state
+          if (replayed.time >= checkpoints[checkpoints.length - 1].state.time + SEEK_CHECKPOINT_INTERVAL) {
+            checkpoints.push({ state: replayed, next })
+          }
+        }
+      }
+      while (next < events.length && events[next].time <= until) {
+        advanceTo(events[next].time / 1000)
+        replayed = applyEvent(replayed, events[next]).state
+        next++
+      }
+      advanceTo(seconds)
+      seekCache.latest = { state: replayed, next, until }
+      setState(replayed)
+    }
+  }
+}
+
+// Replay a recorded session on a fresh bench and list the vessels whose
+// contents or temperature came out different from the live bench. Empty when
+// the log replays faithfully.
+export function replayMismatches(
+  layout: EquipmentLayoutItem[],
+  lookup: ChemicalLookup,
+  rules: ReactionRule[],
+  events: LabEvent[],
+  live: SimulationState
+): string[] {
+  const replay = createLabSimulation(layout, lookup, rules)
+  replay.seek(events, live.time * 1000)
+  const replayed = replay.getState()
+
+  const differs = (a = 0, b = 0) => Math.abs(a - b) > REPLAY_TOLERANCE * Math.max(1, Math.abs(a), Math.abs(b))
+  const vessels = new Set([...Object.keys(live.solutions), ...Object.keys(replayed.solutions), ...Object.keys(live.temperatures)])
+  return [...vessels].filter(vessel => {
+    const a = live.solutions[vessel] || EMPTY_SOLUTION
+    const b = replayed.solutions[vessel] || EMPTY_SOLUTION
+    const species = new Set([...Object.keys(a.species), ...Object.keys(b.species)])
+    return differs(a.volume, b.volume) ||
+      [...species].some(id => differs(a.species[id], b.species[id])) ||
+      differs(live.temperatures[vessel], replayed.temperatures[vessel])
+  })
+}
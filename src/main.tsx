@@ -1,5 +1,8 @@
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
 import "./index.css";
+import { reportExperimentIssues } from "./data/experimentLoader";
+
+reportExperimentIssues();
 
 createRoot(document.getElementById("root")!).render(<App />);
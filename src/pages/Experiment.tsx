@@ -2,56 +2,61 @@ import { useEffect, useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import Lab3D from "@/components/Lab3D";
+import PreLabCheck from "@/components/PreLabCheck";
 import { useToast } from "@/hooks/use-toast";
-import { experimentMaterials } from "@/config/experimentMaterials";
-import type { Experiment as ExperimentType } from "@/types/experiment";
-
-interface ExperimentData {
-  id: string;
-  title: string;
-  description: string;
-  difficulty: string;
-  duration: string;
-  category: string;
-}
+import { getExperiment, getExperimentIssues } from "@/data/experimentLoader";
+import { attemptScore } from "@/lib/procedure";
+import { readPreLabResult } from "@/lib/preLab";
+import type { PreLabResult, ProcedureState, SafetyViolation } from "@/types";
 
 const Experiment = () => {
-  const { experimentId } = useParams<{ experimentId: string }>();
+  const { slug } = useParams<{ slug: string }>();
   const navigate = useNavigate();
   const { toast } = useToast();
-  const [experiment, setExperiment] = useState<ExperimentData | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [experimentRowId, setExperimentRowId] = useState<string | null>(null);
+  // The lab stays locked until the pre-lab check is passed, on this visit or
+  // an earlier one. The stored result is looked up before the gate is shown.
+  const [preLab, setPreLab] = useState<PreLabResult | null>(null);
+  const [loadingProgress, setLoadingProgress] = useState(true);
+  // Passed on this visit but not saved yet, because the progress row hadn't loaded
+  const [unsavedPreLab, setUnsavedPreLab] = useState<PreLabResult | null>(null);
+
+  const experiment = slug ? getExperiment(slug) : undefined;
+  const issues = slug ? getExperimentIssues(slug) : [];
 
   useEffect(() => {
-    if (experimentId) {
-      fetchExperiment();
-      updateProgress();
+    if (experiment) {
+      fetchExperimentRow();
     }
-  }, [experimentId]);
+  }, [slug]);
 
-  const fetchExperiment = async () => {
+  // Progress is keyed by the experiments table row linked through the slug
+  const fetchExperimentRow = async () => {
     try {
       const { data, error } = await supabase
         .from("experiments")
-        .select("*")
-        .eq("id", experimentId)
-        .single();
+        .select("id")
+        .eq("slug", slug)
+        .maybeSingle();
 
       if (error) throw error;
-      setExperiment(data);
+      // Imported experiments have no row until they are published
+      if (!data) return;
+      setExperimentRowId(data.id);
+      await updateProgress(data.id);
     } catch (error: any) {
+      console.error("Error loading experiment row:", error);
       toast({
-        title: "Error",
-        description: "Failed to load experiment",
+        title: "Progress unavailable",
+        description: "Your progress on this experiment won't be saved",
         variant: "destructive",
       });
-      navigate("/lab");
     } finally {
-      setLoading(false);
+      setLoadingProgress(false);
     }
   };
 
-  const updateProgress = async () => {
+  const updateProgress = async (rowId: string) => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
@@ -61,14 +66,20 @@ const Experiment = () => {
         .from("user_progress")
         .select("*")
         .eq("user_id", user.id)
-        .eq("experiment_id", experimentId)
+        .eq("experiment_id", rowId)
         .maybeSingle();
 
+      // A pre-lab check passed on an earlier visit still counts
+      const storedPreLab = readPreLabResult(existingProgress?.pre_lab);
+      if (storedPreLab?.passed) {
+        setPreLab(storedPreLab);
+      }
+
       if (!existingProgress) {
         // Create new progress entry
         await supabase.from("user_progress").insert({
           user_id: user.id,
-          experiment_id: experimentId,
+          experiment_id: rowId,
           progress_percentage: 0,
           last_accessed_at: new Date().toISOString(),
         });
@@ -84,25 +95,77 @@ const Experiment = () => {
     }
   };
 
-  const markAsComplete = async () => {
+  const savePreLab = (result: PreLabResult) => {
+    setPreLab(result);
+    setUnsavedPreLab(result);
+  };
+
+  const storePreLab = async (rowId: string, result: PreLabResult) => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      await supabase
+      const { error } = await supabase
         .from("user_progress")
         .upsert({
           user_id: user.id,
-          experiment_id: experimentId,
-          completed: true,
-          progress_percentage: 100,
+          experiment_id: rowId,
+          pre_lab: { ...result },
           last_accessed_at: new Date().toISOString(),
-        });
+        }, { onConflict: "user_id,experiment_id" });
 
-      toast({
-        title: "Congratulations! 🎉",
-        description: "You've completed this experiment!",
-      });
+      if (error) throw error;
+      setUnsavedPreLab(null);
+    } catch (error) {
+      console.error("Error saving pre-lab check:", error);
+    }
+  };
+
+  // Save a passed pre-lab check as soon as there is a progress row to save it to
+  useEffect(() => {
+    if (unsavedPreLab && experimentRowId) {
+      storePreLab(experimentRowId, unsavedPreLab);
+    }
+  }, [unsavedPreLab, experimentRowId]);
+
+  // Steps that were done wrong and safety violations count against the score.
+  // Only an attempt with every step done right completes the experiment, and
+  // a weaker attempt never replaces a better one.
+  const markAsComplete = async (procedure: ProcedureState, violations: SafetyViolation[]) => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user || !experimentRowId) return;
+
+      const { data: existingProgress, error: loadError } = await supabase
+        .from("user_progress")
+        .select("completed, progress_percentage")
+        .eq("user_id", user.id)
+        .eq("experiment_id", experimentRowId)
+        .maybeSingle();
+      if (loadError) throw loadError;
+
+      const score = attemptScore(procedure, violations);
+      const passed = procedure.statuses.every((status) => status === "complete");
+      const { error } = await supabase
+        .from("user_progress")
+        .upsert({
+          user_id: user.id,
+          experiment_id: experimentRowId,
+          completed: passed || Boolean(existingProgress?.completed),
+          progress_percentage: Math.max(score, existingProgress?.progress_percentage ?? 0),
+          last_accessed_at: new Date().toISOString(),
+        }, { onConflict: "user_id,experiment_id" });
+      if (error) throw error;
+
+      toast(passed
+        ? {
+          title: "Congratulations! 🎉",
+          description: "You've completed this experiment!",
+        }
+        : {
+          title: "Attempt saved",
+          description: `You scored ${score}%. Get every step right to complete the experiment.`,
+        });
     } catch (error: any) {
       toast({
         title: "Error",
@@ -112,131 +175,46 @@ const Experiment = () => {
     }
   };
 
-  if (loading) {
+  if (!experiment) {
     return (
       <div className="flex items-center justify-center h-screen bg-gradient-to-br from-background via-background to-primary/5">
-        <div className="text-xl text-foreground/60 animate-pulse">Loading experiment...</div>
+        <div className="glass-panel holographic-border p-6 max-w-lg space-y-3">
+          <h2 className="text-xl font-bold text-foreground">
+            {issues.length > 0 ? `Experiment "${slug}" failed to load` : `No experiment named "${slug}"`}
+          </h2>
+          {issues.length > 0 && (
+            <ul className="list-disc list-inside text-sm text-foreground/70 space-y-1">
+              {issues.map((issue, index) => (
+                <li key={index}>{issue.message}</li>
+              ))}
+            </ul>
+          )}
+          <button onClick={() => navigate("/lab")} className="text-sm text-primary underline">
+            Back to experiments
+          </button>
+        </div>
       </div>
     );
   }
 
-  if (!experiment) {
-    return null;
-  }
-
-  // Get experiment materials configuration
-  const normalize = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, "");
-  const getExperimentKey = (title: string): string => {
-    const t = normalize(title);
-
-    // Exact title mappings (normalized)
-    const map: Record<string, string> = {
-      [normalize("Neutralization Reaction")]: "neutralization",
-      [normalize("Precipitation Reaction")]: "precipitation",
-      [normalize("Displacement Reaction")]: "displacement",
-      [normalize("Combustion Reaction")]: "combustion",
-      [normalize("Decomposition Reaction")]: "decomposition",
-      [normalize("Acid-Base Indicator Reaction")]: "acid-base",
-      [normalize("Acid Base Indicator Reaction")]: "acid-base",
-    };
-
-    if (map[t]) return map[t];
-
-    // Fuzzy contains fallback
-    if (t.includes("neutral")) return "neutralization";
-    if (t.includes("precip")) return "precipitation";
-    if (t.includes("displac")) return "displacement";
-    if (t.includes("combust")) return "combustion";
-    if (t.includes("decompos")) return "decomposition";
-    if (t.includes("acid") || t.includes("indicator")) return "acid-base";
-    return "";
-  };
-
-  const experimentKey = getExperimentKey(experiment.title);
-  const materials = experimentMaterials[experimentKey];
-
-  if (!materials) {
+  if (!preLab && loadingProgress) {
     return (
       <div className="flex items-center justify-center h-screen bg-gradient-to-br from-background via-background to-primary/5">
-        <div className="text-xl text-foreground/60 text-center">
-          Experiment configuration not found for "{experiment.title}"
-          <br />
-          <span className="text-sm">Key attempted: {experimentKey || '—'}</span>
-        </div>
+        <div className="text-xl text-foreground/60 animate-pulse">Loading experiment...</div>
       </div>
     );
   }
 
-  // Convert materials to Experiment type for Lab3D
-  const lab3DExperiment: ExperimentType = {
-    id: experiment.id,
-    title: experiment.title,
-    description: experiment.description,
-    difficulty: (experiment.difficulty || 'beginner') as 'beginner' | 'intermediate' | 'advanced',
-    duration: parseInt(experiment.duration) || 15,
-    category: experiment.category,
-    objectives: [
-      'Complete the experiment successfully',
-      'Observe chemical reactions',
-      'Learn chemistry concepts'
-    ],
-    steps: materials.steps.map((step, idx) => ({
-      id: `step${idx + 1}`,
-      instruction: step,
-      chemicals: [],
-      equipment: ['beaker'],
-      action: 'pour' as const,
-      expectedObservation: 'Observe the reaction',
-      completed: false
-    })),
-    materials: materials.equipment.map(eq => ({
-      equipmentType: eq.type,
-      quantity: 1,
-      required: true
-    })),
-    chemicals: materials.chemicals.map(chem => ({
-      id: chem.id,
-      name: chem.name,
-      formula: chem.formula,
-      color: chem.color,
-      concentration: 0.1,
-      properties: {
-        state: 'liquid' as const,
-        color: chem.color,
-        density: 1.0,
-        boilingPoint: 100,
-        meltingPoint: 0,
-        solubility: 100,
-        reactivity: []
-      }
-    })),
-    safetyNotes: [
-      'Wear safety goggles at all times',
-      'Handle chemicals with care',
-      'Work in a well-ventilated area'
-    ],
-    expectedResults: [
-      'Successful completion of the experiment',
-      'Observable chemical reactions'
-    ],
-    reactions: materials.reactions?.map((rule, idx) => ({
-      id: `reaction${idx + 1}`,
-      reactants: [],
-      products: [],
-      equation: '',
-      conditions: { temperature: 25 },
-      effects: [{
-        type: 'color-change' as const,
-        intensity: 0.8,
-        duration: 3000
-      }]
-    })) || []
-  };
+  if (!preLab) {
+    return <PreLabCheck experiment={experiment} onPass={savePreLab} onBack={() => navigate("/lab")} />;
+  }
 
   return (
-    <Lab3D 
-      experiment={lab3DExperiment} 
+    <Lab3D
+      experiment={experiment}
+      initialPpe={preLab.ppe}
       onBack={() => navigate("/lab")}
+      onComplete={markAsComplete}
     />
   );
 };
@@ -0,0 +1,318 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AlertTriangle, ArrowLeft, CheckCircle, RefreshCw, Save, Upload } from "lucide-react";
+import Lab3D from "@/components/Lab3D";
+import { MaterialsEditor } from "@/components/authoring/MaterialsEditor";
+import { StepsEditor } from "@/components/authoring/StepsEditor";
+import { ReactionsEditor } from "@/components/authoring/ReactionsEditor";
+import { importExperiment, validateExperiment } from "@/data/experimentLoader";
+import type { Experiment } from "@/types";
+
+interface DraftSummary {
+  id: string;
+  title: string;
+  updated_at: string;
+}
+
+const blankExperiment = (): Experiment => ({
+  id: "",
+  title: "",
+  description: "",
+  difficulty: "beginner",
+  duration: 15,
+  category: "",
+  objectives: [],
+  steps: [],
+  materials: [],
+  chemicals: [],
+  safetyNotes: [],
+  expectedResults: [],
+  reactions: [],
+});
+
+const ExperimentEditor = () => {
+  const { draftId } = useParams<{ draftId: string }>();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [experiment, setExperiment] = useState<Experiment>(blankExperiment);
+  const [drafts, setDrafts] = useState<DraftSummary[]>([]);
+  const [preview, setPreview] = useState<{ experiment: Experiment; version: number } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const { problems } = useMemo(() => validateExperiment(experiment), [experiment]);
+
+  const fetchDraft = useCallback(async (id: string) => {
+    try {
+      const { data, error } = await supabase
+        .from("experiment_drafts")
+        .select("definition")
+        .eq("id", id)
+        .single();
+
+      if (error) throw error;
+      setExperiment({ ...blankExperiment(), ...(data.definition as unknown as Partial<Experiment>) });
+      setPreview(null);
+    } catch (error) {
+      console.error("Error loading draft:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load draft",
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (!user) {
+      navigate("/auth");
+      return;
+    }
+    fetchDrafts();
+  }, [user, navigate]);
+
+  useEffect(() => {
+    if (draftId && user) {
+      fetchDraft(draftId);
+    }
+  }, [draftId, user, fetchDraft]);
+
+  const fetchDrafts = async () => {
+    const { data, error } = await supabase
+      .from("experiment_drafts")
+      .select("id, title, updated_at")
+      .order("updated_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching drafts:", error);
+      return;
+    }
+    setDrafts(data || []);
+  };
+
+
+  const saveDraft = async () => {
+    if (!user) return;
+    setSaving(true);
+    try {
+      const row = {
+        author_id: user.id,
+        title: experiment.title || "Untitled experiment",
+        definition: experiment as unknown as Json,
+      };
+
+      if (draftId) {
+        const { error } = await supabase.from("experiment_drafts").update(row).eq("id", draftId);
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase.from("experiment_drafts").insert(row).select("id").single();
+        if (error) throw error;
+        navigate(`/lab/author/${data.id}`, { replace: true });
+      }
+
+      fetchDrafts();
+      toast({ title: "Draft saved" });
+    } catch (error) {
+      console.error("Error saving draft:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save draft",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addToCatalog = () => {
+    const { experiment: validated } = validateExperiment(experiment);
+    if (!validated) return;
+
+    const importProblems = importExperiment(validated);
+    if (importProblems.length > 0) {
+      toast({
+        title: "Not added",
+        description: importProblems.join("; "),
+        variant: "destructive",
+      });
+      return;
+    }
+    toast({
+      title: "Added to catalog",
+      description: `"${validated.title}" is now available in the lab`,
+    });
+  };
+
+  // Lab3D marks steps complete in place, so preview a copy of the draft
+  const refreshPreview = () => {
+    const { experiment: validated } = validateExperiment(experiment);
+    if (!validated) return;
+    setPreview((current) => ({ experiment: structuredClone(validated), version: (current?.version || 0) + 1 }));
+  };
+
+  const update = (changes: Partial<Experiment>) => {
+    setExperiment((current) => ({ ...current, ...changes }));
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="h-screen flex bg-gradient-to-br from-background via-background to-primary/5">
+      {/* Editor */}
+      <div className="w-[32rem] flex-shrink-0 overflow-y-auto border-r border-border/50 p-6 space-y-6">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/lab")}>
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <h1 className="text-2xl font-bold neon-text flex-1">Experiment Editor</h1>
+          <Button variant="outline" onClick={saveDraft} disabled={saving}>
+            <Save className="w-4 h-4 mr-2" />
+            Save draft
+          </Button>
+        </div>
+
+        {drafts.length > 0 && (
+          <Select value={draftId || ""} onValueChange={(id) => navigate(`/lab/author/${id}`)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Open a saved draft" />
+            </SelectTrigger>
+            <SelectContent>
+              {drafts.map((draft) => (
+                <SelectItem key={draft.id} value={draft.id}>
+                  {draft.title} · {new Date(draft.updated_at).toLocaleDateString()}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1 col-span-2">
+            <Label htmlFor="title">Title</Label>
+            <Input id="title" value={experiment.title} onChange={(event) => update({ title: event.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="slug">Slug</Label>
+            <Input
+              id="slug"
+              placeholder="my-experiment"
+              value={experiment.id}
+              onChange={(event) => update({ id: event.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="category">Category</Label>
+            <Input id="category" value={experiment.category} onChange={(event) => update({ category: event.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label>Difficulty</Label>
+            <Select
+              value={experiment.difficulty}
+              onValueChange={(difficulty) => update({ difficulty: difficulty as Experiment["difficulty"] })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="beginner">Beginner</SelectItem>
+                <SelectItem value="intermediate">Intermediate</SelectItem>
+                <SelectItem value="advanced">Advanced</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="duration">Duration (min)</Label>
+            <Input
+              id="duration"
+              type="number"
+              min={1}
+              value={experiment.duration}
+              onChange={(event) => update({ duration: parseInt(event.target.value) || 0 })}
+            />
+          </div>
+          <div className="space-y-1 col-span-2">
+            <Label htmlFor="description">Description</Label>
+            <Textarea
+              id="description"
+              value={experiment.description}
+              onChange={(event) => update({ description: event.target.value })}
+            />
+          </div>
+        </div>
+
+        <Tabs defaultValue="materials">
+          <TabsList className="w-full">
+            <TabsTrigger value="materials" className="flex-1">Materials</TabsTrigger>
+            <TabsTrigger value="steps" className="flex-1">Steps</TabsTrigger>
+            <TabsTrigger value="reactions" className="flex-1">Reactions</TabsTrigger>
+          </TabsList>
+          <TabsContent value="materials">
+            <MaterialsEditor experiment={experiment} onChange={update} />
+          </TabsContent>
+          <TabsContent value="steps">
+            <StepsEditor experiment={experiment} onChange={update} />
+          </TabsContent>
+          <TabsContent value="reactions">
+            <ReactionsEditor experiment={experiment} onChange={update} />
+          </TabsContent>
+        </Tabs>
+
+        {problems.length > 0 ? (
+          <div className="glass-panel border border-destructive/50 rounded-lg p-4 space-y-2">
+            <div className="flex items-center gap-2 text-destructive font-semibold">
+              <AlertTriangle className="w-4 h-4" />
+              {problems.length} problem(s) to fix
+            </div>
+            <ul className="list-disc list-inside text-sm text-foreground/70 font-mono space-y-1">
+              {problems.map((problem, index) => (
+                <li key={index}>{problem}</li>
+              ))}
+            </ul>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2">
+            <CheckCircle className="w-4 h-4 text-green-400" />
+            <span className="text-sm text-foreground/70 flex-1">Ready to preview</span>
+            <Button variant="outline" onClick={addToCatalog}>
+              <Upload className="w-4 h-4 mr-2" />
+              Add to catalog
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Live preview */}
+      <div className="flex-1 relative">
+        <Button
+          className="absolute bottom-4 right-4 z-20 glow-cyan"
+          onClick={refreshPreview}
+          disabled={problems.length > 0}
+        >
+          <RefreshCw className="w-4 h-4 mr-2" />
+          {preview ? "Refresh preview" : "Preview"}
+        </Button>
+        {preview ? (
+          <Lab3D key={preview.version} experiment={preview.experiment} onBack={() => setPreview(null)} />
+        ) : (
+          <div className="h-full flex items-center justify-center text-foreground/50">
+            Fix any problems, then preview the experiment in the 3D lab
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExperimentEditor;
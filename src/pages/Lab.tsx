@@ -3,7 +3,7 @@ import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/lib/auth";
 import { CourseCatalog } from "@/components/CourseCatalog";
 import { Button } from "@/components/ui/button";
-import { LogOut } from "lucide-react";
+import { FlaskConical, History, LogOut, PenSquare } from "lucide-react";
 
 const Lab = () => {
   const { user, signOut } = useAuth();
@@ -28,14 +28,40 @@ const Lab = () => {
             <h1 className="text-2xl font-bold neon-text">Virtual Science Lab</h1>
             <p className="text-sm text-muted-foreground">Welcome, {user.email}</p>
           </div>
-          <Button
-            onClick={signOut}
-            variant="outline"
-            className="glass-panel holographic-border text-foreground hover:glow-cyan"
-          >
-            <LogOut className="w-4 h-4 mr-2" />
-            Sign Out
-          </Button>
+          <div className="flex gap-2">
+            <Button
+              onClick={() => navigate("/lab/sandbox")}
+              variant="outline"
+              className="glass-panel holographic-border text-foreground hover:glow-cyan"
+            >
+              <FlaskConical className="w-4 h-4 mr-2" />
+              Sandbox
+            </Button>
+            <Button
+              onClick={() => navigate("/lab/author")}
+              variant="outline"
+              className="glass-panel holographic-border text-foreground hover:glow-cyan"
+            >
+              <PenSquare className="w-4 h-4 mr-2" />
+              Author Experiment
+            </Button>
+            <Button
+              onClick={() => navigate("/lab/replay")}
+              variant="outline"
+              className="glass-panel holographic-border text-foreground hover:glow-cyan"
+            >
+              <History className="w-4 h-4 mr-2" />
+              Replay Session
+            </Button>
+            <Button
+              onClick={signOut}
+              variant="outline"
+              className="glass-panel holographic-border text-foreground hover:glow-cyan"
+            >
+              <LogOut className="w-4 h-4 mr-2" />
+              Sign Out
+            </Button>
+          </div>
         </div>
       </div>
 
@@ -0,0 +1,95 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/lib/auth";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, ArrowLeft, Upload } from "lucide-react";
+import SessionReplay from "@/components/SessionReplay";
+import { getExperiment } from "@/data/experimentLoader";
+import { DEFAULT_SANDBOX_EQUIPMENT, SANDBOX_ID, createSandboxExperiment } from "@/data/sandbox";
+import { parseSessionLog } from "@/lib/session";
+import type { Experiment, SessionLog } from "@/types";
+
+const Replay = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [session, setSession] = useState<{ experiment: Experiment; log: SessionLog } | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!user) {
+      navigate("/auth");
+    }
+  }, [user, navigate]);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    const { log, errors: parseErrors } = parseSessionLog(await file.text());
+    if (!log) {
+      setErrors(parseErrors);
+      return;
+    }
+
+    // Sandbox benches aren't in the catalog; rebuild one from the equipment it was set up with
+    const experiment = log.experimentId === SANDBOX_ID
+      ? createSandboxExperiment(log.equipment || DEFAULT_SANDBOX_EQUIPMENT)
+      : getExperiment(log.experimentId);
+    if (!experiment) {
+      setErrors([`This session is for "${log.experimentId}", which is not in the catalog`]);
+      return;
+    }
+
+    setErrors([]);
+    setSession({ experiment, log });
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  if (session) {
+    return <SessionReplay experiment={session.experiment} log={session.log} onBack={() => setSession(null)} />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-primary/5">
+      <div className="container mx-auto px-4 py-12 max-w-2xl space-y-6">
+        <Button variant="ghost" onClick={() => navigate("/lab")}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Lab
+        </Button>
+
+        <div className="glass-panel rounded-lg p-8 text-center space-y-4">
+          <h1 className="text-3xl font-bold neon-text">Session Replay</h1>
+          <p className="text-muted-foreground">
+            Open a session log exported from the lab to step through a student's attempt.
+          </p>
+          <input ref={fileInputRef} type="file" accept=".json" className="hidden" onChange={handleFile} />
+          <Button className="glow-cyan" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="w-4 h-4 mr-2" />
+            Open session log
+          </Button>
+        </div>
+
+        {errors.length > 0 && (
+          <div className="glass-panel border border-destructive/50 rounded-lg p-4 space-y-2">
+            <div className="flex items-center gap-2 text-destructive font-semibold">
+              <AlertTriangle className="w-4 h-4" />
+              The session log could not be opened
+            </div>
+            <ul className="list-disc list-inside text-sm text-foreground/70 font-mono space-y-1">
+              {errors.map((error, index) => (
+                <li key={index}>{error}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Replay;
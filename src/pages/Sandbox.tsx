@@ -0,0 +1,62 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { X } from "lucide-react";
+import { useAuth } from "@/lib/auth";
+import Lab3D from "@/components/Lab3D";
+import { SUPPORTED_EQUIPMENT } from "@/data/experimentSchema";
+import { DEFAULT_SANDBOX_EQUIPMENT, createSandboxExperiment } from "@/data/sandbox";
+import { getEquipmentLayout } from "@/lib/equipmentLayout";
+
+const Sandbox = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [equipment, setEquipment] = useState<string[]>(DEFAULT_SANDBOX_EQUIPMENT);
+  const experiment = useMemo(() => createSandboxExperiment(equipment), [equipment]);
+  const layout = useMemo(() => getEquipmentLayout(experiment), [experiment]);
+
+  useEffect(() => {
+    if (!user) {
+      navigate("/auth");
+    }
+  }, [user, navigate]);
+
+  if (!user) {
+    return null;
+  }
+
+  // Changing the equipment sets up a fresh bench
+  const equipmentPicker = (
+    <div className="absolute bottom-4 right-4 w-72 glass p-4 rounded-lg space-y-3 pointer-events-auto">
+      <h3 className="text-white font-semibold text-sm">Bench equipment</h3>
+      <div className="flex flex-wrap gap-1">
+        {equipment.map((type, index) => (
+          <span key={index} className="flex items-center gap-1 rounded bg-white/10 px-2 py-0.5 text-xs text-white">
+            {layout.find((item) => item.id === `${type}-${index}`)?.name || type}
+            <button
+              onClick={() => setEquipment(equipment.filter((_, i) => i !== index))}
+              className="text-slate-400 hover:text-white"
+            >
+              <X size={12} />
+            </button>
+          </span>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {SUPPORTED_EQUIPMENT.map((type) => (
+          <button
+            key={type}
+            onClick={() => setEquipment([...equipment, type])}
+            className="rounded bg-white/5 hover:bg-white/15 px-2 py-0.5 text-xs text-slate-300"
+          >
+            + {type}
+          </button>
+        ))}
+      </div>
+      <p className="text-slate-400 text-xs">Changing the equipment clears the bench.</p>
+    </div>
+  );
+
+  return <Lab3D experiment={experiment} onBack={() => navigate("/lab")} overlay={equipmentPicker} />;
+};
+
+export default Sandbox;
@@ -1,3 +1,8 @@
+import { StepCriterion } from './procedure'
+import { ReactionRate } from './reaction'
+import { ChemicalHazards } from './safety'
+import { MoleculeStructure } from './molecule'
+
 export interface ChemicalProperties {
   state: 'solid' | 'liquid' | 'gas'
   color: string
@@ -6,6 +11,17 @@ export interface ChemicalProperties {
   meltingPoint: number
   solubility: number
   reactivity: string[]
+  // Successive acid dissociation constants (strong acids use a large value)
+  ka?: number[]
+  // Base dissociation constants, one per hydroxide-equivalent
+  kb?: number[]
+}
+
+// pH range over which an indicator shifts from its acid to its base color
+export interface IndicatorTransition {
+  range: [number, number]
+  acidColor: string
+  baseColor: string
 }
 
 export interface Chemical {
@@ -14,8 +30,15 @@ export interface Chemical {
   formula: string
   color: string
   concentration?: number
+  molarMass?: number // g/mol; worked out from the formula when not given
   ph?: number
+  indicator?: IndicatorTransition
   properties: ChemicalProperties
+  // Safety Data Sheet information; chemicals without it are treated as low hazard
+  hazards?: ChemicalHazards
+  // Atoms and bonds, or the text of a MOL or XYZ file. Chemicals in the
+  // built-in set fall back to the structures in data/molecules.
+  structure?: MoleculeStructure | string
 }
 
 export interface ExperimentStep {
@@ -23,12 +46,15 @@ export interface ExperimentStep {
   instruction: string
   chemicals: string[]
   equipment: string[]
-  action: 'measure' | 'pour' | 'heat' | 'observe' | 'stir'
+  action: 'measure' | 'weigh' | 'pour' | 'heat' | 'observe' | 'stir'
   duration?: number
   temperature?: number
   safety?: string
   expectedObservation: string
   completed: boolean
+  // How to tell the step was done correctly. Derived from action and
+  // chemicals when omitted.
+  criteria?: StepCriterion[]
 }
 
 export interface ExperimentMaterial {
@@ -36,6 +62,18 @@ export interface ExperimentMaterial {
   quantity: number
   required: boolean
   chemical?: Chemical
+  // Stoppered, so heating it builds up pressure
+  sealed?: boolean
+}
+
+export type ReactionEffectType = 'color-change' | 'precipitation' | 'gas-evolution' | 'heat-release' | 'boiling' | 'smoke' | 'crystallization'
+
+export interface ReactionEffectSpec {
+  type: ReactionEffectType
+  color?: string
+  particle?: string
+  intensity: number
+  duration: number
 }
 
 export interface ChemicalReaction {
@@ -43,20 +81,20 @@ export interface ChemicalReaction {
   reactants: string[]
   products: string[]
   equation: string
+  // Stoichiometric coefficients from the balanced equation, keyed by chemical id.
+  // Reactions without coefficients only drive visual effects.
+  coefficients?: Record<string, number>
   conditions: {
     temperature: number
     ph?: number
   }
-  effects: {
-    type: 'color-change' | 'precipitation' | 'gas-evolution' | 'heat-release' | 'boiling' | 'smoke' | 'crystallization'
-    color?: string
-    particle?: string
-    intensity: number
-    duration: number
-  }[]
+  // Makes the reaction take time in the lab; needs coefficients
+  rate?: ReactionRate
+  effects: ReactionEffectSpec[]
 }
 
 export interface Experiment {
+  // Stable slug linking the definition to its row in the experiments table
   id: string
   title: string
   description: string
@@ -71,3 +109,9 @@ export interface Experiment {
   expectedResults: string[]
   reactions: ChemicalReaction[]
 }
+
+// A problem found while loading an experiment definition
+export interface ExperimentIssue {
+  slug: string
+  message: string
+}
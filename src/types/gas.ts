@@ -0,0 +1,11 @@
+// Moles of each gas collected in a vessel, keyed by chemical id
+export type GasSample = Record<string, number>
+
+// Standard identification tests for a collected gas
+export type GasTest = 'glowing-splint' | 'lit-splint' | 'limewater'
+
+export interface GasTestResult {
+  test: GasTest
+  positive: boolean
+  observation: string
+}
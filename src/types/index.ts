@@ -1 +1,12 @@
 export * from './experiment'
+export * from './reaction'
+export * from './solution'
+export * from './titration'
+export * from './procedure'
+export * from './session'
+export * from './simulation'
+export * from './gas'
+export * from './kinetics'
+export * from './safety'
+export * from './measurement'
+export * from './molecule'
@@ -0,0 +1,13 @@
+// One reading during a rate run, against seconds since the run started
+export interface RatePoint {
+  time: number
+  concentration: number // mol/L of the reactant being followed
+  volume?: number // mL of gas collected, when there is a gas jar
+}
+
+// One run of a rate experiment, labelled with its conditions
+export interface RateRun {
+  label: string
+  reactant: string // formula of the reactant being followed
+  points: RatePoint[]
+}
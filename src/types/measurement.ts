@@ -0,0 +1,18 @@
+// Where the student's eye is relative to the meniscus when reading a cylinder
+export type EyeLevel = 'above' | 'level' | 'below'
+
+// One reading of a graduated cylinder. `volume` is what the cylinder really
+// holds; `error` is how far the reading is off it, parallax included.
+export interface MeniscusReading {
+  volume: number
+  reading: number
+  eye: EyeLevel
+  error: number
+}
+
+// What is on an analytical balance's pan besides the weighing boat
+export interface BalanceLoad {
+  chemical: string
+  sample: number // g of solid in the boat
+  tare: number // g zeroed off the display
+}
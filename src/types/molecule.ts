@@ -0,0 +1,23 @@
+// 1.5 is an aromatic bond. 0 is a contact between ions or metal atoms rather
+// than a shared pair of electrons.
+export type BondOrder = 0 | 1 | 1.5 | 2 | 3
+
+export type MoleculeStyle = 'ball-and-stick' | 'space-filling' | 'wireframe'
+
+export interface MoleculeAtom {
+  element: string
+  charge?: number
+  // Ångströms. Structures without positions are laid out from their bonds.
+  position?: [number, number, number]
+}
+
+export interface MoleculeBond {
+  // Indexes into the structure's atoms
+  atoms: [number, number]
+  order: BondOrder
+}
+
+export interface MoleculeStructure {
+  atoms: MoleculeAtom[]
+  bonds: MoleculeBond[]
+}
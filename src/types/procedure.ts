@@ -0,0 +1,45 @@
+// Machine-checkable completion criteria for an experiment step.
+// Amounts are mL for liquids and moles for solids, as in addChemical;
+// masses are grams read off a balance.
+export type StepCriterion =
+  | { type: 'measure'; chemical: string; amount?: number; tolerance?: number }
+  | { type: 'weigh'; chemical: string; mass?: number; tolerance?: number }
+  | { type: 'pour'; chemical: string; vessel?: string; amount?: number; tolerance?: number }
+  | { type: 'heat'; vessel?: string; temperature?: number; tolerance?: number }
+  | { type: 'stir'; vessel?: string; duration: number }
+  | { type: 'observe' }
+
+// Something the student did in the lab, as seen by the step validator.
+// Vessels are equipment ids from the layout, e.g. 'beaker-0'.
+export type LabAction =
+  | { type: 'measure'; chemical: string; amount: number }
+  | { type: 'weigh'; chemical: string; mass: number }
+  | { type: 'pour'; chemical: string; vessel: string; amount: number }
+  | { type: 'heat'; vessel: string; temperature: number }
+  | { type: 'stir'; vessel: string; duration: number }
+  | { type: 'observe'; step: number }
+
+export type StepStatus = 'pending' | 'active' | 'complete' | 'failed'
+
+export interface StepFeedback {
+  step: number
+  kind: 'success' | 'error' | 'info'
+  message: string
+}
+
+// What the student has done towards the current step so far
+export interface StepProgress {
+  measured: Record<string, number>
+  weighed: Record<string, number>
+  poured: Record<string, number>
+  temperature: number | null
+  stirred: number
+  observed: boolean
+}
+
+export interface ProcedureState {
+  currentStep: number
+  statuses: StepStatus[]
+  progress: StepProgress
+  feedback: StepFeedback[]
+}
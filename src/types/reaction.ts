@@ -0,0 +1,50 @@
+import { ReactionEffectSpec } from './experiment'
+
+export interface ReactionConditions {
+  minTemperature?: number
+  // Needs a flame: only happens in a vessel over a lit burner
+  ignition?: boolean
+  // At least one of these must be present; catalysts are never consumed
+  catalysts?: string[]
+  phRange?: [number, number]
+}
+
+// Rate law in the concentration of the limiting reactant:
+// rate = k(T)·[A]^order, with k following the Arrhenius equation. A reaction
+// with a rate runs over time instead of going to completion as soon as it
+// matches.
+export interface ReactionRate {
+  // k at room temperature, uncatalysed; (mol/L)^(1 - order) per second
+  constant: number
+  order?: number // 1 if omitted
+  activationEnergy?: number // kJ/mol; k doesn't change with temperature if omitted
+  // How many times faster each catalyst makes the reaction. Catalysts are
+  // never consumed.
+  catalysts?: Record<string, number>
+}
+
+// Entry in the global reaction registry. Rules with coefficients change the
+// vessel's composition; rules without them only produce visual effects.
+export interface ReactionRule {
+  id: string
+  reactants: string[]
+  products: string[]
+  coefficients?: Record<string, number>
+  // kJ per mole of reaction as written; negative values release heat
+  enthalpy?: number
+  conditions?: ReactionConditions
+  rate?: ReactionRate
+  // Higher priority rules are resolved first
+  priority: number
+  effects: ReactionEffectSpec[]
+  outcomeText: string
+}
+
+// State of a vessel that reaction conditions are checked against
+export interface ReactionContext {
+  chemicals: string[]
+  temperature: number
+  ph: number
+  // A lit burner is under the vessel
+  ignited?: boolean
+}
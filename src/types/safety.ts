@@ -0,0 +1,62 @@
+// GHS hazard pictograms, GHS01 to GHS09
+export type GhsPictogram =
+  | 'explosive'
+  | 'flammable'
+  | 'oxidizing'
+  | 'compressed-gas'
+  | 'corrosive'
+  | 'toxic'
+  | 'harmful'
+  | 'health-hazard'
+  | 'environment'
+
+export type PpeItem = 'goggles' | 'gloves' | 'lab-coat' | 'fume-hood'
+
+// What a Safety Data Sheet says about a chemical. Statements are GHS codes
+// (H290, P280...); their wording lives in data/ghs.ts.
+export interface ChemicalHazards {
+  signalWord?: 'Danger' | 'Warning'
+  pictograms: GhsPictogram[]
+  // e.g. 'Skin corrosion, category 1B'
+  classes: string[]
+  hazardStatements: string[]
+  precautionaryStatements: string[]
+  ppe: PpeItem[]
+  // Ids of chemicals that must not be mixed with this one
+  incompatibilities: string[]
+  firstAid?: string
+}
+
+// An incompatible pair an experiment brings onto the bench
+export interface IncompatiblePair {
+  chemical: string
+  other: string
+}
+
+export type SafetyRuleId = 'flammable-near-flame' | 'incompatible-mix' | 'sealed-vessel-heated' | 'missing-ppe'
+
+// What the bench shows when a violation turns into an incident
+export type IncidentType = 'fire' | 'fumes' | 'spill'
+
+export interface SafetyViolation {
+  rule: SafetyRuleId
+  // Identifies the situation, so it is flagged once however long it lasts
+  key: string
+  // Equipment id where the incident happens
+  vessel?: string
+  incident: IncidentType
+  severity: 'minor' | 'major'
+  message: string
+  // Why it was dangerous and what to do instead
+  debrief: string
+}
+
+// Outcome of the pre-lab check, stored with the student's progress
+export interface PreLabResult {
+  passed: boolean
+  // Share of quiz questions answered correctly on the passing attempt
+  quizScore: number
+  attempts: number
+  ppe: PpeItem[]
+  completedAt: string
+}
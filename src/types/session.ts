@@ -0,0 +1,42 @@
+import { StepStatus } from './procedure'
+import { GasTest } from './gas'
+import { SafetyRuleId } from './safety'
+import { EyeLevel } from './measurement'
+
+// One entry in a lab session log. `time` is milliseconds of simulated time
+// since the session started. Vessels and burners are equipment ids from the
+// layout.
+export type LabEvent =
+  | { type: 'chemical-added'; time: number; vessel: string; chemical: string; amount: number }
+  | { type: 'transfer'; time: number; from: string; to: string; volume: number }
+  | { type: 'burner-toggled'; time: number; burner: string; lit: boolean }
+  | { type: 'reaction-fired'; time: number; vessel: string; reaction: string; outcome: string }
+  | { type: 'step-completed'; time: number; step: number; status: Exclude<StepStatus, 'pending' | 'active'> }
+  | { type: 'observation'; time: number; step: number }
+  | { type: 'gas-tested'; time: number; vessel: string; test: GasTest }
+  | { type: 'safety-violation'; time: number; rule: SafetyRuleId; vessel?: string; message: string }
+  // A mixture that matched no reaction rule
+  | { type: 'no-reaction'; time: number; vessel: string; chemicals: string[] }
+  // A graduated cylinder read by the student, and what it really held
+  | { type: 'measurement'; time: number; vessel: string; chemical: string; reading: number; volume: number; eye: EyeLevel }
+  // A solid weighed out on a balance: what the display read and the mass of the sample
+  | { type: 'weighing'; time: number; balance: string; chemical: string; reading: number; mass: number }
+  // Everything on the bench put back as it was at the start
+  | { type: 'bench-reset'; time: number }
+  // A burette, burner or thermometer set up with another vessel
+  | { type: 'equipment-placed'; time: number; equipment: string; vessel: string }
+
+export type LabEventType = LabEvent['type']
+
+// An event as reported by the lab, before the session log timestamps it
+type WithoutTime<E> = E extends LabEvent ? Omit<E, 'time'> : never
+export type LabEventInput = WithoutTime<LabEvent>
+
+export interface SessionLog {
+  experimentId: string
+  startedAt: string
+  // The equipment a sandbox bench was set up with. Catalog experiments are
+  // looked up by id instead.
+  equipment?: string[]
+  events: LabEvent[]
+}
@@ -0,0 +1,31 @@
+import { Solution } from './solution'
+import { GasSample } from './gas'
+import { StopcockState } from './titration'
+
+// A reaction that fired in a vessel and is still playing out. Progress runs
+// from 0 to 1 over the reaction's effect duration and then stays at 1.
+export interface ActiveReaction {
+  vessel: string
+  reaction: string
+  progress: number
+  duration: number // seconds
+  // Moles of reaction per second for rules with a rate; 0 once they stop and
+  // for reactions that happen at once
+  rate: number
+  // Moles of reaction so far, for rules with a rate
+  extent: number
+}
+
+// Everything the lab simulation owns. Components only ever read this.
+export interface SimulationState {
+  time: number // seconds of simulated time
+  solutions: { [vessel: string]: Solution }
+  temperatures: { [vessel: string]: number }
+  burners: { [burner: string]: boolean }
+  // Gas collected over water in each gas jar
+  gases: { [vessel: string]: GasSample }
+  stopcocks: { [burette: string]: StopcockState }
+  // The vessel each burette delivers into, burner heats and thermometer stands in
+  placements: { [equipment: string]: string }
+  reactions: ActiveReaction[]
+}
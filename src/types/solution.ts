@@ -0,0 +1,16 @@
+// Contents of a single vessel. Volumes are in mL and amounts in moles,
+// keyed by chemical id.
+export interface Solution {
+  volume: number
+  species: Record<string, number>
+  // mL of each liquid poured in from its stock bottle. Liquids without a
+  // concentration (water, litmus) can't be counted back from their moles.
+  stocks?: Record<string, number>
+}
+
+export interface ReactionOutcome {
+  reactionId: string
+  solution: Solution
+  extent: number
+  limitingReagent: string | null
+}
@@ -0,0 +1,8 @@
+export type StopcockState = 'closed' | 'drop' | 'stream'
+
+// One reading on a titration curve: titrant delivered (mL) against the
+// pH of the receiving vessel
+export interface TitrationPoint {
+  volume: number
+  ph: number
+}
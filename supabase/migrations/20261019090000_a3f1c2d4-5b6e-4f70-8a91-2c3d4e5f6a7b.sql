@@ -0,0 +1,45 @@
+-- Link experiment rows to their canonical definitions in src/data/experiments.ts
+ALTER TABLE public.experiments ADD COLUMN slug TEXT;
+
+-- Backfill the chemistry experiments that already exist by title
+UPDATE public.experiments SET slug = 'neutralization-reaction' WHERE title = 'Neutralization Reaction';
+UPDATE public.experiments SET slug = 'precipitation-reaction' WHERE title = 'Precipitation Reaction';
+UPDATE public.experiments SET slug = 'displacement-reaction' WHERE title = 'Displacement Reaction';
+UPDATE public.experiments SET slug = 'combustion-reaction' WHERE title = 'Combustion Reaction';
+UPDATE public.experiments SET slug = 'decomposition-reaction' WHERE title = 'Decomposition Reaction';
+UPDATE public.experiments SET slug = 'acid-base-indicator' WHERE title IN ('Acid-Base Indicator Reaction', 'Acid Base Indicator Reaction');
+
+-- Rows without a lab definition keep a slug derived from their title
+UPDATE public.experiments
+SET slug = trim(both '-' from regexp_replace(lower(title), '[^a-z0-9]+', '-', 'g'))
+WHERE slug IS NULL;
+
+-- Titles with no letters or digits at all fall back to the row id
+UPDATE public.experiments SET slug = id::text WHERE slug = '';
+
+-- Both spellings of the indicator experiment, or two titles that differ only
+-- in punctuation, end up with the same slug. The oldest row keeps it and the
+-- others get their id appended, so the slug can be made unique below.
+UPDATE public.experiments e
+SET slug = e.slug || '-' || e.id::text
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY slug ORDER BY created_at, id) AS position
+  FROM public.experiments
+) ranked
+WHERE ranked.id = e.id AND ranked.position > 1;
+
+-- Make sure every canonical experiment has a row for progress tracking
+INSERT INTO public.experiments (slug, title, description, difficulty, duration, category)
+SELECT v.slug, v.title, v.description, v.difficulty, v.duration, v.category
+FROM (VALUES
+  ('neutralization-reaction', 'Neutralization Reaction', 'Demonstrate the neutralization reaction between hydrochloric acid and sodium hydroxide to form salt and water.', 'beginner', '15 min', 'acid-base'),
+  ('precipitation-reaction', 'Precipitation Reaction', 'Observe the formation of a precipitate when silver nitrate reacts with sodium chloride.', 'beginner', '10 min', 'precipitation'),
+  ('displacement-reaction', 'Displacement Reaction', 'Demonstrate a metal displacement reaction between zinc and copper sulfate.', 'intermediate', '20 min', 'redox'),
+  ('combustion-reaction', 'Combustion Reaction', 'Demonstrate the combustion of methane in the presence of oxygen.', 'intermediate', '15 min', 'gas-evolution'),
+  ('decomposition-reaction', 'Decomposition Reaction', 'Observe the decomposition of hydrogen peroxide into water and oxygen.', 'beginner', '12 min', 'thermal'),
+  ('acid-base-indicator', 'Acid-Base Indicator Reaction', 'Use phenolphthalein as an indicator to observe pH changes in acid-base reactions.', 'beginner', '10 min', 'acid-base')
+) AS v(slug, title, description, difficulty, duration, category)
+WHERE NOT EXISTS (SELECT 1 FROM public.experiments e WHERE e.slug = v.slug);
+
+ALTER TABLE public.experiments ALTER COLUMN slug SET NOT NULL;
+ALTER TABLE public.experiments ADD CONSTRAINT experiments_slug_key UNIQUE (slug);
@@ -0,0 +1,39 @@
+-- Experiment drafts composed in the authoring editor
+CREATE TABLE public.experiment_drafts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  author_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL DEFAULT '',
+  definition JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.experiment_drafts ENABLE ROW LEVEL SECURITY;
+
+-- Drafts are private to their author
+CREATE POLICY "Authors can view their own drafts"
+ON public.experiment_drafts
+FOR SELECT
+USING (auth.uid() = author_id);
+
+CREATE POLICY "Authors can create their own drafts"
+ON public.experiment_drafts
+FOR INSERT
+WITH CHECK (auth.uid() = author_id);
+
+CREATE POLICY "Authors can update their own drafts"
+ON public.experiment_drafts
+FOR UPDATE
+USING (auth.uid() = author_id);
+
+CREATE POLICY "Authors can delete their own drafts"
+ON public.experiment_drafts
+FOR DELETE
+USING (auth.uid() = author_id);
+
+-- Add trigger for experiment_drafts updated_at
+CREATE TRIGGER update_experiment_drafts_updated_at
+BEFORE UPDATE ON public.experiment_drafts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,2 @@
+-- Outcome of the pre-lab safety check: PPE equipped and quiz result
+ALTER TABLE public.user_progress ADD COLUMN pre_lab JSONB;